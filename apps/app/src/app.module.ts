@@ -12,6 +12,7 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuthModule } from './auth/auth.module';
 import { CallsModule } from './calls/calls.module';
 import { type ENV, EnvSchema, getConfig, isRedisEnabled } from './config';
 import { MessagesModule } from './messages/messages.module';
@@ -24,6 +25,7 @@ import { UcanModule } from './ucan/ucan.module';
 import { normalizeDid } from './utils/header.utils';
 import { RedisService } from './utils/redis.service';
 import { TasksModule } from './tasks/tasks.module';
+import { UsageModule } from './usage/usage.module';
 import { WsModule } from './ws/ws.module';
 
 @Module({
@@ -60,12 +62,14 @@ import { WsModule } from './ws/ws.module';
     SessionsModule,
     MessagesModule,
     UcanModule,
+    AuthModule,
     // TasksModule requires Redis for BullMQ job queues
     ...(isRedisEnabled() ? [TasksModule] : []),
     // KnowledgeModule,
     ScheduleModule.forRoot(),
     SlackModule,
     CallsModule,
+    UsageModule,
   ],
   controllers: [AppController],
   providers: [
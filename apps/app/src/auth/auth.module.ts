@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { UcanModule } from '../ucan/ucan.module';
+import { AuthService } from './auth.service';
+
+/**
+ * Provides `AuthService` to the HTTP auth middleware and the WebSocket gateway.
+ */
+@Global()
+@Module({
+  imports: [UcanModule],
+  providers: [AuthService],
+  exports: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,380 @@
+import { verifyMatrixOpenIdToken } from '@ixo/common';
+import { Cache, CACHE_MANAGER } from '@nestjs/cache-manager';
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { minutes } from '@nestjs/throttler';
+import { type IncomingHttpHeaders } from 'node:http';
+import * as crypto from 'node:crypto';
+import { ENV } from 'src/config';
+import { UCAN_INVOCATION_HEADER } from 'src/ucan/ucan.capabilities';
+import { UcanService } from 'src/ucan/ucan.service';
+import { getAuthHeaders, normalizeDid } from '../utils/header.utils';
+
+/**
+ * AuthService — verifies the caller's credentials.
+ *
+ * Shared by `AuthHeaderMiddleware` (HTTP) and `WsGateway` (Socket.IO handshake)
+ * so both transports accept exactly the same credentials:
+ *   1. `x-ucan-delegation` — a UCAN delegation to the oracle DID
+ *   2. `x-matrix-access-token` (+ optional `x-matrix-homeserver`) — a Matrix
+ *      OpenID token, verified against the user's homeserver
+ *
+ * HTTP requests from third-party apps may instead send `x-ucan-invocation`,
+ * an invocation backed by the user's delegation. It acts for the user at the
+ * root of its proof chain, limited to the capabilities `UcanCapabilityGuard`
+ * checks per route.
+ */
+
+export interface UcanDelegationInfo {
+  issuer: string;
+  audience: string;
+  capabilities: unknown[];
+  expiration?: number;
+}
+
+export interface UcanInvocationInfo {
+  /** The app that signed the invocation */
+  invoker: string;
+  cid?: string;
+  expiration?: number;
+}
+
+export interface AuthData {
+  did: string;
+  userOpenIdToken: string;
+  homeServer: string;
+  ucanDelegation?: UcanDelegationInfo;
+  ucanInvocation?: UcanInvocationInfo;
+}
+
+const THREE_MINUTES = minutes(3);
+
+interface CachedUser {
+  did: string;
+  homeServer: string;
+}
+
+interface CachedUcanAuth {
+  userDid: string;
+  homeServer: string;
+  delegation: UcanDelegationInfo;
+  cid?: string;
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private readonly configService: ConfigService<ENV>,
+    private readonly ucanService: UcanService,
+  ) {}
+
+  /**
+   * Authenticate a caller from its auth headers.
+   * Throws an `HttpException` (400 for missing headers, 401 otherwise).
+   */
+  async authenticate(headers: IncomingHttpHeaders): Promise<AuthData> {
+    try {
+      // Third-party apps authenticate with an invocation alone
+      const invocationHeader = headers[UCAN_INVOCATION_HEADER] as
+        | string
+        | undefined;
+      if (invocationHeader) {
+        return await this.authenticateInvocation(invocationHeader);
+      }
+
+      // 1. Try UCAN delegation first
+      const ucanHeader = headers['x-ucan-delegation'] as string | undefined;
+      if (ucanHeader) {
+        const ucanAuth = await this.authenticateUcan(ucanHeader);
+        if (ucanAuth) return ucanAuth;
+      }
+
+      // 2. Fall back to Matrix OpenID token
+      return await this.authenticateOpenId(headers);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(
+        `Auth header validation failed: ${message}`,
+        errorStack,
+      );
+      throw new HttpException(message, HttpStatus.UNAUTHORIZED);
+    }
+  }
+
+  private async authenticateUcan(ucanHeader: string): Promise<AuthData | null> {
+    try {
+      const ucanHash = this.hashToken(ucanHeader);
+      const cachedUcan = await this.cacheManager.get<CachedUcanAuth>(
+        `ucan_auth_${ucanHash}`,
+      );
+
+      if (cachedUcan) {
+        // A delegation revoked after it was cached must stop working at once
+        if (
+          cachedUcan.cid &&
+          (await this.ucanService.isDelegationRevoked(cachedUcan.cid))
+        ) {
+          this.logger.warn(
+            `[UCAN] Delegation ${cachedUcan.cid} from ${cachedUcan.userDid} is revoked`,
+          );
+          await this.cacheManager.del(`ucan_auth_${ucanHash}`);
+          return null;
+        }
+
+        // Re-cache raw delegation for downstream invocations
+        await this.ucanService.cacheDelegation(
+          cachedUcan.userDid,
+          ucanHeader,
+          cachedUcan.delegation.expiration,
+        );
+
+        this.logger.debug(
+          `[UCAN] Auth from cache for DID: ${cachedUcan.userDid}`,
+        );
+        return {
+          did: cachedUcan.userDid,
+          userOpenIdToken: '',
+          homeServer: '',
+          ucanDelegation: cachedUcan.delegation,
+        };
+      }
+
+      const ucanResult = await this.validateUcanDelegation(ucanHeader);
+      if (!ucanResult) return null;
+
+      // Cache auth result
+      const ttl = ucanResult.delegation.expiration
+        ? Math.max(0, ucanResult.delegation.expiration * 1000 - Date.now())
+        : THREE_MINUTES;
+      await this.cacheManager.set(
+        `ucan_auth_${ucanHash}`,
+        {
+          userDid: ucanResult.userDid,
+          homeServer: '',
+          delegation: ucanResult.delegation,
+          cid: ucanResult.cid,
+        } satisfies CachedUcanAuth,
+        ttl,
+      );
+
+      // Cache raw delegation for downstream service invocations
+      await this.ucanService.cacheDelegation(
+        ucanResult.userDid,
+        ucanHeader,
+        ucanResult.delegation.expiration,
+      );
+
+      this.logger.debug(`[UCAN] Auth completed for DID: ${ucanResult.userDid}`);
+      return {
+        did: ucanResult.userDid,
+        userOpenIdToken: '',
+        homeServer: '',
+        ucanDelegation: ucanResult.delegation,
+      };
+    } catch (err) {
+      this.logger.warn(
+        `[UCAN] Failed to validate delegation: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return null;
+    }
+  }
+
+  private async authenticateInvocation(
+    invocationHeader: string,
+  ): Promise<AuthData> {
+    const result = await this.ucanService.verifyApiInvocation(invocationHeader);
+    const userDid = result.proofChain?.[0];
+    if (!result.ok || !userDid) {
+      throw new HttpException(
+        `Invalid UCAN invocation: ${result.error?.message ?? 'no proof chain'}`,
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    this.logger.debug(
+      `[UCAN] Invocation from ${result.invoker} acting for DID: ${userDid}`,
+    );
+    // No Matrix token: features that need the user's token (sandbox uploads,
+    // OpenID fallbacks) are skipped, as for UCAN delegation logins
+    return {
+      did: userDid,
+      userOpenIdToken: '',
+      homeServer: '',
+      ucanInvocation: {
+        invoker: result.invoker!,
+        cid: result.cid,
+        expiration: result.expiration,
+      },
+    };
+  }
+
+  private async authenticateOpenId(
+    headers: IncomingHttpHeaders,
+  ): Promise<AuthData> {
+    const { matrixAccessToken, matrixHomeServer } =
+      await getAuthHeaders(headers);
+
+    const tokenHash = this.hashToken(matrixAccessToken);
+    const cachedUser = await this.cacheManager.get<CachedUser>(
+      `user_${tokenHash}`,
+    );
+
+    if (cachedUser?.did) {
+      this.logger.debug(`[OpenID] Auth from cache for DID: ${cachedUser.did}`);
+      return {
+        did: cachedUser.did,
+        userOpenIdToken: matrixAccessToken,
+        homeServer: cachedUser.homeServer,
+      };
+    }
+
+    const { isValid, userDid, homeServer } = await this.validateToken(
+      matrixAccessToken,
+      matrixHomeServer,
+    );
+    if (!isValid) {
+      throw new HttpException('Invalid token', HttpStatus.UNAUTHORIZED);
+    }
+
+    await this.cacheManager.set(
+      `user_${tokenHash}`,
+      { did: userDid, homeServer } satisfies CachedUser,
+      THREE_MINUTES,
+    );
+    this.logger.debug(`[OpenID] Auth completed for DID: ${userDid}`);
+
+    return {
+      did: userDid,
+      userOpenIdToken: matrixAccessToken,
+      homeServer,
+    };
+  }
+
+  private resolveHomeServer(matrixHomeServer?: string): string {
+    this.logger.debug(
+      `[resolveHomeServer]: matrixHomeServer: ${matrixHomeServer} -> ${this.configService.getOrThrow('MATRIX_BASE_URL')}`,
+    );
+    if (matrixHomeServer?.trim()) {
+      const url = matrixHomeServer.startsWith('http')
+        ? matrixHomeServer
+        : `https://${matrixHomeServer}`;
+      return url;
+    }
+
+    return this.configService.getOrThrow('MATRIX_BASE_URL');
+  }
+
+  private cropHomeServer(url: string): string {
+    return url.replace(/^https?:\/\//, '').split('/')[0];
+  }
+
+  private async validateToken(
+    matrixToken: string,
+    matrixHomeServer?: string,
+  ): Promise<{
+    isValid: boolean;
+    userDid: string;
+    homeServer: string;
+  }> {
+    try {
+      const isOpenIdToken = !matrixToken.startsWith('syt_');
+      if (!isOpenIdToken) {
+        throw new HttpException(
+          'Invalid token Please use a user open id token',
+          HttpStatus.UNAUTHORIZED,
+        );
+      }
+
+      const homeServerUrl = this.resolveHomeServer(matrixHomeServer);
+      this.logger.debug(`Validating OpenID token against ${homeServerUrl}`);
+
+      const { isValid, userId } = await verifyMatrixOpenIdToken(
+        matrixToken,
+        homeServerUrl,
+      );
+      if (!userId) {
+        return { isValid: false, userDid: '', homeServer: '' };
+      }
+      return {
+        isValid,
+        userDid: normalizeDid(userId),
+        homeServer: this.cropHomeServer(homeServerUrl),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Error validating token: ${errorMessage}`, errorStack);
+      return { isValid: false, userDid: '', homeServer: '' };
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+  }
+
+  private async validateUcanDelegation(ucanHeader: string): Promise<{
+    userDid: string;
+    delegation: UcanDelegationInfo;
+    cid?: string;
+  } | null> {
+    const oracleDid = this.configService.get('ORACLE_DID');
+    if (!oracleDid) {
+      this.logger.warn(
+        '[UCAN] ORACLE_DID not configured, skipping delegation validation',
+      );
+      return null;
+    }
+
+    const { createUCANValidator, createIxoDIDResolver } = await import(
+      '@ixo/ucan'
+    );
+    const blocksyncUri = this.configService.get('BLOCKSYNC_GRAPHQL_URL');
+
+    const validator = await createUCANValidator({
+      serverDid: oracleDid,
+      rootIssuers: [],
+      didResolver: createIxoDIDResolver({
+        indexerUrl: blocksyncUri,
+      }),
+      revocationStore: await this.ucanService.getRevocationStore(),
+    });
+
+    const result = await validator.validateDelegation(ucanHeader);
+
+    if (!result.ok) {
+      this.logger.warn(
+        `[UCAN] Delegation validation failed: [${result.error?.code}] ${result.error?.message}`,
+      );
+      return null;
+    }
+
+    this.logger.log(
+      `[UCAN] Delegation validated: iss=${result.invoker} aud=${oracleDid} exp=${result.expiration ? new Date(result.expiration * 1000).toISOString() : 'none'}`,
+    );
+
+    return {
+      userDid: result.invoker!,
+      delegation: {
+        issuer: result.invoker!,
+        audience: oracleDid,
+        capabilities: result.capability ? [result.capability] : [],
+        expiration: result.expiration,
+      },
+      cid: result.cid,
+    };
+  }
+}
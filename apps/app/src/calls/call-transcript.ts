@@ -0,0 +1,122 @@
+import { type Callbacks } from '@langchain/core/callbacks/manager';
+import {
+  AIMessage,
+  HumanMessage,
+  type BaseMessage,
+} from '@langchain/core/messages';
+import { randomUUID } from 'node:crypto';
+import { getProviderChatModel } from 'src/graph/llm-provider';
+import { type CallTranscriptEntryDto } from './dto/ingest-transcript';
+
+/**
+ * Helpers for turning a live agent's call transcript into session messages
+ * and a short summary for the room.
+ */
+
+/** Transcript characters sent to the summary model (the end of the call is kept) */
+const MAX_SUMMARY_INPUT_CHARS = 60_000;
+
+export const CALL_SUMMARY_HEADING = '**Call summary**';
+
+const CALL_SUMMARY_PROMPT = `<role>
+Call Summary Assistant
+</role>
+
+<primary_objective>
+Summarize the voice call transcript below between a user and an AI assistant. The summary is posted in the chat so the user (and the assistant in later messages) can pick up where the call left off.
+</primary_objective>
+
+<what_to_include>
+1. **Topics**: What was discussed
+2. **Decisions & outcomes**: What was agreed or answered
+3. **Follow-ups**: Anything the user or the assistant promised to do next
+4. **Identifiers**: Any DIDs, addresses, IDs, URLs or figures mentioned — verbatim
+</what_to_include>
+
+<format>
+Short markdown bullet points under the headings above, omitting empty sections. Respond ONLY with the summary. No preamble.
+</format>
+
+<transcript>
+{transcript}
+</transcript>`;
+
+/**
+ * Convert transcript entries into chat messages. Entries without a timestamp
+ * inherit the previous entry's time (or `startedAt`) so history stays ordered.
+ */
+export function buildTranscriptMessages(
+  callId: string,
+  entries: CallTranscriptEntryDto[],
+  startedAt: string = new Date().toISOString(),
+): BaseMessage[] {
+  let timestamp = startedAt;
+  return entries.map((entry) => {
+    timestamp = entry.timestamp ?? timestamp;
+    const fields = {
+      id: randomUUID(),
+      content: entry.text,
+      additional_kwargs: { timestamp, callId, msgFromMatrixRoom: false },
+    };
+    return entry.role === 'user'
+      ? new HumanMessage(fields)
+      : new AIMessage(fields);
+  });
+}
+
+/** The summary as it's stored in the session, so chat history matches the room */
+export function buildSummaryMessage(
+  callId: string,
+  summary: string,
+): AIMessage {
+  return new AIMessage({
+    id: randomUUID(),
+    content: `${CALL_SUMMARY_HEADING}\n\n${summary}`,
+    additional_kwargs: {
+      timestamp: new Date().toISOString(),
+      callId,
+      msgFromMatrixRoom: false,
+    },
+  });
+}
+
+export function formatTranscript(entries: CallTranscriptEntryDto[]): string {
+  return entries
+    .map(
+      (entry) =>
+        `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.text}`,
+    )
+    .join('\n');
+}
+
+/**
+ * @param callbacks - Passed to the summary model, e.g. to meter its usage
+ * @returns The summary text, or an empty string when the model returned nothing
+ */
+export async function summarizeCallTranscript(
+  entries: CallTranscriptEntryDto[],
+  callbacks?: Callbacks,
+): Promise<string> {
+  let transcript = formatTranscript(entries);
+  if (transcript.length > MAX_SUMMARY_INPUT_CHARS) {
+    transcript =
+      '[Earlier part of the call omitted]\n' +
+      transcript.slice(-MAX_SUMMARY_INPUT_CHARS);
+  }
+
+  const model = getProviderChatModel('subagent', {});
+  const response = await model.invoke(
+    CALL_SUMMARY_PROMPT.replace('{transcript}', transcript),
+    { callbacks },
+  );
+  const content = response.content;
+  if (typeof content === 'string') return content.trim();
+  return content
+    .map((item) =>
+      typeof item === 'object' && item !== null && 'text' in item
+        ? String(item.text)
+        : '',
+    )
+    .join('')
+    .trim();
+}
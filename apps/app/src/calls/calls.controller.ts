@@ -1,4 +1,5 @@
 import {
+  Body,
   Controller,
   Get,
   Headers,
@@ -14,8 +15,13 @@ import {
   ApiResponse,
 } from '@nestjs/swagger';
 import type { Request } from 'express';
+import { RequireCapability } from 'src/ucan/ucan.capabilities';
 import { CallsService } from './calls.service';
 import { StrictBody } from './decorators/strict-body.decorator';
+import {
+  IngestCallTranscriptDto,
+  IngestCallTranscriptResponse,
+} from './dto/ingest-transcript';
 import { ListCallResponse } from './dto/list-call';
 import { SyncCallResponse } from './dto/sync-call';
 import { CallId } from './dto/types';
@@ -26,6 +32,7 @@ export class CallsController {
   constructor(private readonly callsService: CallsService) {}
 
   @Post('/:callId/sync')
+  @RequireCapability('calls/update')
   @ApiOperation({ summary: 'Sync a call for a session with matrix state' })
   @ApiParam({
     name: 'callId',
@@ -52,6 +59,7 @@ export class CallsController {
   }
 
   @Patch('/:callId/update')
+  @RequireCapability('calls/update')
   @ApiOperation({ summary: 'Update a call for a session with matrix state' })
   @ApiParam({
     name: 'callId',
@@ -78,6 +86,7 @@ export class CallsController {
   }
 
   @Get('/:callId/key')
+  @RequireCapability('calls/key')
   @ApiOperation({ summary: 'Get encryption key for a call' })
   @ApiParam({
     name: 'callId',
@@ -110,7 +119,51 @@ export class CallsController {
     });
   }
 
+  @Post('/:callId/transcript')
+  @RequireCapability('calls/update')
+  @ApiOperation({
+    summary:
+      'Add the transcript of an ended call to its session, post a summary and update memory',
+  })
+  @ApiParam({
+    name: 'callId',
+    description: 'Unique identifier for the call',
+    example: '550e8400-e29b-41d4-a716-446655440000@lk-room-12345',
+  })
+  @ApiHeader({
+    name: 'x-api-key',
+    description:
+      'API key for authentication between backend and live agent backend',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: true,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Transcript added to the session',
+    type: IngestCallTranscriptResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Call not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Call has not ended or its transcript was already added',
+  })
+  ingestTranscript(
+    @Param('callId') callId: CallId,
+    @Headers('x-api-key') apiKey: string,
+    @Body() body: IngestCallTranscriptDto,
+  ): Promise<IngestCallTranscriptResponse> {
+    return this.callsService.ingestTranscript({
+      callId,
+      apiKey,
+      dto: body,
+    });
+  }
+
   @Get('/session/:sessionId')
+  @RequireCapability('calls/read')
   @ApiOperation({ summary: 'Get a list of calls for a session' })
   @ApiParam({
     name: 'sessionId',
@@ -1,11 +1,12 @@
 import { MatrixManager } from '@ixo/matrix';
 import { Module } from '@nestjs/common';
+import { SessionsModule } from '../sessions/sessions.module';
 import { CheckpointStorageSyncModule } from '../user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.module';
 import { CallsController } from './calls.controller';
 import { CallsService } from './calls.service';
 
 @Module({
-  imports: [CheckpointStorageSyncModule],
+  imports: [CheckpointStorageSyncModule, SessionsModule],
   providers: [
     CallsService,
     {
@@ -1,25 +1,202 @@
+import { SqliteSaver } from '@ixo/sqlite-saver';
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Test, type TestingModule } from '@nestjs/testing';
+import Database from 'better-sqlite3';
+import { SessionHistoryProcessor } from 'src/sessions/session-history-processor.service';
 import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
 import { CallsService } from './calls.service';
 
+vi.mock('src/graph/llm-provider', () => ({
+  getProviderChatModel: () => ({
+    invoke: async () => ({ content: '- Agreed on the budget' }),
+  }),
+}));
+vi.mock('src/sessions/session-history-processor.service', () => ({
+  SessionHistoryProcessor: class {},
+}));
+vi.mock(
+  'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service',
+  () => ({ UserMatrixSqliteSyncService: class {} }),
+);
+
+const CALL_ID = '$call@!room:server';
+
 describe('CallsService', () => {
   let service: CallsService;
+  let db: Database.Database;
+  let callContent: Record<string, unknown>;
+  const matrixManager = {
+    getEventById: vi.fn(async () => ({
+      type: 'm.room.message',
+      content: callContent,
+    })),
+    getClient: vi.fn(() => undefined),
+    sendMessage: vi.fn(async () => '$summary'),
+  };
+  const sessionHistoryProcessor = {
+    processSessionHistory: vi.fn(async () => undefined),
+  };
 
   beforeEach(async () => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE calls (
+        call_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        transcript_ingested_at TEXT
+      );
+    `);
+    callContent = {
+      sessionId: '$session',
+      userDid: 'did:ixo:user',
+      callStatus: 'ended',
+      callStartedAt: '2024-01-01T10:00:00.000Z',
+      callEndedAt: '2024-01-01T10:30:00.000Z',
+    };
+    vi.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CallsService,
-        { provide: ConfigService, useValue: { get: vi.fn() } },
-        { provide: 'MATRIX_MANAGER', useValue: {} },
-        { provide: UserMatrixSqliteSyncService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: vi.fn(), getOrThrow: vi.fn(() => 'secret') },
+        },
+        { provide: 'MATRIX_MANAGER', useValue: matrixManager },
+        {
+          provide: UserMatrixSqliteSyncService,
+          useValue: {
+            getUserDatabase: async () => db,
+            markUserActive: vi.fn(),
+            markUserInactive: vi.fn(),
+          },
+        },
+        { provide: SessionHistoryProcessor, useValue: sessionHistoryProcessor },
       ],
     }).compile();
 
     service = module.get<CallsService>(CallsService);
   });
 
+  afterEach(() => {
+    db.close();
+  });
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('ingestTranscript', () => {
+    const dto = {
+      entries: [
+        { role: 'user' as const, text: 'What was the budget again?' },
+        {
+          role: 'assistant' as const,
+          text: 'It was 5000 USD.',
+          timestamp: '2024-01-01T10:01:00.000Z',
+        },
+      ],
+    };
+
+    it('stores the transcript and summary in the session and posts the summary', async () => {
+      const result = await service.ingestTranscript({
+        callId: CALL_ID,
+        apiKey: 'secret',
+        dto,
+      });
+
+      expect(result).toEqual({
+        callId: CALL_ID,
+        sessionId: '$session',
+        messageCount: 2,
+        summary: '- Agreed on the budget',
+      });
+
+      const tuple = await SqliteSaver.fromDatabase(db).getTuple({
+        configurable: { thread_id: '$session' },
+      });
+      const messages = tuple?.checkpoint.channel_values.messages as Array<{
+        content: string;
+        additional_kwargs: Record<string, unknown>;
+      }>;
+      expect(messages.map((m) => m.content)).toEqual([
+        'What was the budget again?',
+        'It was 5000 USD.',
+        '**Call summary**\n\n- Agreed on the budget',
+      ]);
+      expect(messages[0].additional_kwargs).toMatchObject({
+        callId: CALL_ID,
+        timestamp: '2024-01-01T10:00:00.000Z',
+      });
+
+      expect(matrixManager.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          roomId: '!room:server',
+          threadId: '$session',
+        }),
+      );
+      expect(
+        sessionHistoryProcessor.processSessionHistory,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: '$session', did: 'did:ixo:user' }),
+      );
+    });
+
+    it('only accepts a transcript once per call', async () => {
+      await service.ingestTranscript({
+        callId: CALL_ID,
+        apiKey: 'secret',
+        dto,
+      });
+      await expect(
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'secret', dto }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('accepts only one of concurrent transcripts for a call', async () => {
+      const results = await Promise.allSettled([
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'secret', dto }),
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'secret', dto }),
+      ]);
+
+      expect(results.map(({ status }) => status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(
+        results.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === 'rejected',
+        )?.reason,
+      ).toBeInstanceOf(ConflictException);
+    });
+
+    it('releases the call when storing the transcript fails', async () => {
+      vi.spyOn(SqliteSaver.prototype, 'appendMessages').mockRejectedValueOnce(
+        new Error('disk full'),
+      );
+      await expect(
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'secret', dto }),
+      ).rejects.toThrow('disk full');
+
+      await expect(
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'secret', dto }),
+      ).resolves.toMatchObject({ messageCount: 2 });
+    });
+
+    it('rejects calls that have not ended', async () => {
+      callContent.callStatus = 'active';
+      await expect(
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'secret', dto }),
+      ).rejects.toThrow(/ended calls/);
+    });
+
+    it('rejects an invalid API key', async () => {
+      await expect(
+        service.ingestTranscript({ callId: CALL_ID, apiKey: 'wrong', dto }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
 });
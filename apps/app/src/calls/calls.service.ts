@@ -1,16 +1,26 @@
 import { EncryptedRoomEvent, MatrixManager } from '@ixo/matrix';
 import { getMatrixHomeServerCroppedForDid } from '@ixo/oracles-chain-client';
+import { SqliteSaver } from '@ixo/sqlite-saver';
 import {
   BadRequestException,
   ConflictException,
   Inject,
   Injectable,
+  Logger,
   NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ENV } from 'src/config';
+import { SessionHistoryProcessor } from '../sessions/session-history-processor.service';
+import { UsageAccounting } from '../usage/usage-accounting';
 import { UserMatrixSqliteSyncService } from '../user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+import {
+  buildSummaryMessage,
+  buildTranscriptMessages,
+  CALL_SUMMARY_HEADING,
+  summarizeCallTranscript,
+} from './call-transcript';
 import {
   OraclesCallMatrixEventContent,
   SyncCallResponse,
@@ -21,15 +31,22 @@ import {
   GetEncryptionKeyDTO,
   GetEncryptionKeyResponse,
 } from './dto/get-encrpytion-key';
+import {
+  IngestCallTranscriptDto,
+  IngestCallTranscriptResponse,
+} from './dto/ingest-transcript';
 import { Call, ListCallDto, ListCallResponse } from './dto/list-call';
 import { CallId } from './dto/types';
 import { UpdateCallDto, UpdateCallResponse } from './dto/update-dto';
 @Injectable()
 export class CallsService {
+  private readonly logger = new Logger(CallsService.name);
+
   constructor(
     private readonly configService: ConfigService<ENV>,
     @Inject('MATRIX_MANAGER') private readonly matrixManager: MatrixManager,
     private readonly syncService: UserMatrixSqliteSyncService,
+    private readonly sessionHistoryProcessor: SessionHistoryProcessor,
   ) {}
 
   private async addCall(
@@ -41,8 +58,9 @@ export class CallsService {
 
     db.prepare(
       `
-      INSERT OR REPLACE INTO calls (call_id, session_id, created_at)
+      INSERT INTO calls (call_id, session_id, created_at)
       VALUES (?, ?, ?)
+      ON CONFLICT(call_id) DO UPDATE SET session_id = excluded.session_id
     `,
     ).run(callId, sessionId, new Date().toISOString());
   }
@@ -65,16 +83,50 @@ export class CallsService {
       .all() as Array<{ call_id: string; session_id: string }>;
     return rows;
   }
+
+  /** Requests from the live agent backend authenticate with a shared key */
+  private assertLiveAgentApiKey(apiKey: string | undefined): void {
+    if (apiKey !== this.configService.getOrThrow('LIVE_AGENT_AUTH_API_KEY')) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+  }
+
+  /**
+   * Status updates are sent as `m.replace` edits of the call event — merge
+   * the most recent one so callers see the call's current state.
+   */
+  private async getCurrentCallContent<T extends object>(
+    roomId: string,
+    callEventId: string,
+    content: T,
+  ): Promise<T> {
+    const mxClient = this.matrixManager.getClient()?.mxClient;
+    const relations = await mxClient?.getRelationsForEvent(roomId, callEventId);
+    if (!Array.isArray(relations?.chunk) || relations.chunk.length === 0) {
+      return content;
+    }
+
+    // Sort the chunk array by origin_server_ts descending and get the most recent chunk
+    const latestRelation = relations.chunk.sort(
+      (a, b) => b.origin_server_ts - a.origin_server_ts,
+    )[0];
+    const encryptedEvent = new EncryptedRoomEvent(latestRelation);
+    const decryptedEvent = await mxClient?.crypto?.decryptRoomEvent(
+      encryptedEvent,
+      roomId,
+    );
+    const newContent = decryptedEvent?.content?.[
+      'm.new_content'
+    ] as OraclesCallMatrixEventContent;
+    return { ...content, ...newContent };
+  }
+
   async getEncryptionKey(
     dto: GetEncryptionKeyDTO,
   ): Promise<GetEncryptionKeyResponse> {
     validateSync(dto);
 
-    if (
-      dto.apiKey !== this.configService.getOrThrow('LIVE_AGENT_AUTH_API_KEY')
-    ) {
-      throw new UnauthorizedException('Invalid API key');
-    }
+    this.assertLiveAgentApiKey(dto.apiKey);
 
     const [callEventId, roomId] = dto.callId.split('@');
 
@@ -163,8 +215,6 @@ export class CallsService {
         );
       }
 
-      const mxClient = this.matrixManager.getClient()?.mxClient;
-      const crypto = mxClient?.crypto;
       const events = await Promise.all(
         callsRows.map(async (call) => {
           const [callEventId] = call.call_id.split('@');
@@ -182,40 +232,13 @@ export class CallsService {
               `Call event with ID '${call.call_id}' not found`,
             );
           }
-          const relations = await this.matrixManager
-            .getClient()
-            ?.mxClient.getRelationsForEvent(roomId, callEventId);
-          if (relations?.chunk.length === 0) {
-            return {
-              ...callEvent.content,
-              id: call.call_id as CallId,
-            };
-          }
-
-          // Sort the chunk array by origin_server_ts descending and get the most recent chunk
-          let latestRelation = undefined;
-          if (
-            relations &&
-            Array.isArray(relations.chunk) &&
-            relations.chunk.length > 0
-          ) {
-            const sortedChunks = relations.chunk.sort(
-              (a, b) => b.origin_server_ts - a.origin_server_ts,
-            );
-            latestRelation = sortedChunks[0];
-          }
-          const encryptedEvent = new EncryptedRoomEvent(latestRelation);
-          const decryptedEvent = await crypto?.decryptRoomEvent(
-            encryptedEvent,
+          const content = await this.getCurrentCallContent(
             roomId,
+            callEventId,
+            callEvent.content,
           );
-          const newContent = decryptedEvent?.content?.[
-            'm.new_content'
-          ] as OraclesCallMatrixEventContent;
           return {
-            ...callEvent.content,
-            ...newContent,
-
+            ...content,
             id: call.call_id as CallId,
           };
         }),
@@ -305,6 +328,163 @@ export class CallsService {
     };
   }
 
+  /**
+   * Add the live agent's transcript of an ended call to the call's session:
+   * the utterances are stored as session messages, a summary is posted in
+   * the session thread and the session is sent to the memory engine.
+   *
+   * A transcript can only be added once per call.
+   */
+  async ingestTranscript({
+    callId,
+    apiKey,
+    dto,
+  }: {
+    callId: CallId;
+    apiKey: string;
+    dto: IngestCallTranscriptDto;
+  }): Promise<IngestCallTranscriptResponse> {
+    this.assertLiveAgentApiKey(apiKey);
+
+    const [callEventId, roomId] = callId.split('@');
+    if (!roomId) {
+      throw new NotFoundException(
+        'Room ID not found for the given session and oracle',
+      );
+    }
+
+    const callEvent =
+      await this.matrixManager.getEventById<OraclesCallMatrixEventContent>(
+        roomId,
+        callEventId,
+      );
+    if (!callEvent) {
+      throw new NotFoundException(`Call event with ID '${callId}' not found`);
+    }
+
+    const call = await this.getCurrentCallContent(
+      roomId,
+      callEventId,
+      callEvent.content,
+    );
+    if (call.callStatus !== 'ended') {
+      throw new ConflictException(
+        `Transcripts can only be added to ended calls (call status is '${call.callStatus}')`,
+      );
+    }
+
+    const { userDid, sessionId } = call;
+    this.syncService.markUserActive(userDid);
+    try {
+      const db = await this.syncService.getUserDatabase(userDid);
+      // Claim the call before the slow summary so concurrent requests for
+      // the same call can't both add the transcript
+      const ingestedAt = new Date().toISOString();
+      const claim = db
+        .prepare(
+          `
+          INSERT INTO calls (call_id, session_id, created_at, transcript_ingested_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT(call_id) DO UPDATE SET transcript_ingested_at = excluded.transcript_ingested_at
+          WHERE calls.transcript_ingested_at IS NULL
+        `,
+        )
+        .run(callId, sessionId, ingestedAt, ingestedAt);
+      if (claim.changes === 0) {
+        const existing = db
+          .prepare('SELECT transcript_ingested_at FROM calls WHERE call_id = ?')
+          .get(callId) as { transcript_ingested_at: string | null } | undefined;
+        throw new ConflictException(
+          `Transcript for call '${callId}' was already added at ${existing?.transcript_ingested_at}`,
+        );
+      }
+
+      let summary: string;
+      try {
+        // A missing summary shouldn't cost the user their transcript
+        summary = await summarizeCallTranscript(dto.entries, [
+          UsageAccounting.createCallbackHandler({
+            userDid,
+            sessionId,
+            source: 'call-summary',
+          }),
+        ]).catch((error) => {
+          this.logger.warn(
+            `Failed to summarize transcript for call ${callId}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return '';
+        });
+
+        const messages = buildTranscriptMessages(
+          callId,
+          dto.entries,
+          call.callStartedAt,
+        );
+        if (summary) messages.push(buildSummaryMessage(callId, summary));
+
+        await SqliteSaver.fromDatabase(db).appendMessages(sessionId, messages, {
+          callId,
+        });
+      } catch (error) {
+        // Release the claim so the transcript can be sent again
+        db.prepare(
+          'UPDATE calls SET transcript_ingested_at = NULL WHERE call_id = ? AND transcript_ingested_at = ?',
+        ).run(callId, ingestedAt);
+        throw error;
+      }
+
+      this.logger.log(
+        `Added ${dto.entries.length} transcript message(s) from call ${callId} to session ${sessionId}`,
+      );
+
+      if (summary) {
+        await this.matrixManager
+          .sendMessage({
+            message: `${CALL_SUMMARY_HEADING}\n\n${summary}`,
+            roomId,
+            threadId: sessionId,
+            isOracleAdmin: true,
+            disablePrefix: true,
+            metadata: { 'ixo.call_id': callId },
+          })
+          .catch((error) => {
+            this.logger.error(
+              `Failed to send summary of call ${callId} to the room`,
+              error,
+            );
+          });
+      }
+
+      // Increment ref count BEFORE firing background task so the outer
+      // finally's markUserInactive doesn't drop to 0 while the task runs.
+      this.syncService.markUserActive(userDid);
+      this.sessionHistoryProcessor
+        .processSessionHistory({
+          sessionId,
+          did: userDid,
+          oracleEntityDid: this.configService.getOrThrow('ORACLE_ENTITY_DID'),
+        })
+        .catch((error) =>
+          this.logger.error(
+            `Failed to process session ${sessionId} after call ${callId}:`,
+            error,
+          ),
+        )
+        .finally(() => {
+          this.syncService.markUserInactive(userDid);
+        });
+
+      return {
+        callId,
+        sessionId,
+        messageCount: dto.entries.length,
+        ...(summary && { summary }),
+      };
+    } finally {
+      this.syncService.markUserInactive(userDid);
+    }
+  }
+
   /**
    * Validates if a state transition is allowed
    */
@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { CallId } from './types';
+
+export class CallTranscriptEntryDto {
+  @ApiProperty({
+    description: 'Who spoke: the user or the live agent',
+    enum: ['user', 'assistant'],
+    example: 'user',
+  })
+  @IsEnum(['user', 'assistant'])
+  role: 'user' | 'assistant';
+
+  @ApiProperty({
+    description: 'What was said',
+    example: 'Can you remind me what we decided about the budget?',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20_000)
+  text: string;
+
+  @ApiProperty({
+    description: 'ISO 8601 timestamp when the utterance started',
+    example: '2024-01-01T10:01:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  timestamp?: string;
+}
+
+export class IngestCallTranscriptDto {
+  @ApiProperty({
+    description: 'Transcript entries in the order they were spoken',
+    type: [CallTranscriptEntryDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(5_000)
+  @ValidateNested({ each: true })
+  @Type(() => CallTranscriptEntryDto)
+  entries: CallTranscriptEntryDto[];
+}
+
+export class IngestCallTranscriptResponse {
+  @ApiProperty({
+    description: 'Unique identifier for the call',
+    example: '550e8400-e29b-41d4-a716-446655440000@lk-room-12345',
+  })
+  callId: CallId;
+
+  @ApiProperty({
+    description: 'Session the transcript was added to',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  sessionId: string;
+
+  @ApiProperty({
+    description: 'Number of transcript messages stored in the session',
+    example: 12,
+  })
+  messageCount: number;
+
+  @ApiProperty({
+    description:
+      'Summary posted to the room (omitted when it could not be generated)',
+    required: false,
+  })
+  summary?: string;
+}
@@ -516,17 +516,16 @@ export class ClaimProcessingService {
       // Clear pending claim
       await TokenLimiter.clearPendingClaim(userDid);
 
-      // For splits, incrementally decrement held amount
-      // For normal processing, delete all held amount
+      // Only release what was claimed: usage charged while the claim was
+      // in flight (sub-agents, background work) stays held for the next run
+      await TokenLimiter.incrementUserHeldAmount(userDid, -heldAmount);
       if (splitContext) {
-        await TokenLimiter.incrementUserHeldAmount(userDid, -heldAmount);
         this.logger.log(
           `Successfully processed split ${splitContext.index}/${splitContext.total} (claim ${result.cid}) and decremented held amount by ${heldAmount} for user: ${userDid}`,
         );
       } else {
-        await TokenLimiter.deleteUserHeldAmount(userDid);
         this.logger.log(
-          `Successfully processed claim ${result.cid} and cleared held amount and pending claim for user: ${userDid}`,
+          `Successfully processed claim ${result.cid} and decremented held amount by ${heldAmount} for user: ${userDid}`,
         );
       }
     } else {
@@ -23,6 +23,7 @@ export const EnvSchema = z.object({
   SLACK_USE_SOCKET_MODE: z.string().default('true'),
   SLACK_MAX_RECONNECT_ATTEMPTS: z.coerce.number().default(10),
   SLACK_RECONNECT_DELAY_MS: z.coerce.number().default(1000),
+  SLACK_LINK_URL: z.url().optional(),
 
   // Matrix
   MATRIX_BASE_URL: z.string(),
@@ -53,6 +54,12 @@ export const EnvSchema = z.object({
   BLOCKSYNC_URI: z.string().optional(),
   BLOCKSYNC_GRAPHQL_URL: z.string(),
   SQLITE_DATABASE_PATH: z.string(),
+  // Base snapshots kept per user for point-in-time restore
+  CHECKPOINT_HISTORY_SIZE: z.coerce.number().int().min(1).default(5),
+  // Checkpoints kept per session thread by the hourly retention job
+  CHECKPOINT_RETENTION_KEEP: z.coerce.number().int().min(1).default(20),
+  // Pending writes older than this are dropped (latest checkpoint excepted)
+  CHECKPOINT_WRITES_MAX_AGE_HOURS: z.coerce.number().positive().default(24),
   LIVE_AGENT_AUTH_API_KEY: z.string().optional().default(''),
   MEMORY_MCP_URL: z.url(),
   MEMORY_ENGINE_URL: z.url(),
@@ -72,6 +79,9 @@ export const EnvSchema = z.object({
 
   MATRIX_ACCOUNT_ROOM_ID: z.string(),
   SANDBOX_MCP_URL: z.url(),
+  // Run-time MCP servers (see graph/mcp-config.ts)
+  MCP_CONFIG_PATH: z.string().optional(),
+  MCP_SERVERS_JSON: z.string().optional(),
   SKILLS_CAPSULES_BASE_URL: z
     .url()
     .default('https://capsules.skills.ixo.earth'),
@@ -1102,6 +1102,8 @@ Optional flags:
 - \`isVisible: true\` means the field is currently shown in the UI
 - \`isVisible: false\` means the field is hidden by a \`visibleIf\` condition
 - \`visibleIf\` field shows the condition that controls visibility
+- \`isEnabled: false\` means the field is read-only (via \`enableIf\`) and is not validated
+- \`isRequired\` already accounts for \`requiredIf\` conditions
 - Hidden fields can be made visible by changing the controlling answer
 - Nested dynamic panel template elements are included in the questions array
 - Choices from choicesByUrl are automatically fetched and included
@@ -0,0 +1,176 @@
+import {
+  evaluateSurveyExpression,
+  isSurveyValueEmpty,
+  parseSurveyExpression,
+  runSurveyCondition,
+  SurveyExpressionError,
+} from './survey-expression';
+
+describe('survey-expression', () => {
+  const values = {
+    entityType: 'Project',
+    budget: '2500',
+    acceptTerms: true,
+    sdgs: ['sdg7', 'sdg13'],
+    description: '',
+    contact: { email: 'ops@example.org', phone: null },
+    milestones: [{ amount: 100 }, { amount: '250' }, { amount: null }],
+  };
+
+  describe('comparisons', () => {
+    it.each([
+      ["{entityType} = 'project'", true],
+      ['{entityType} == "Project"', true],
+      ['{entityType} = Project', true],
+      ["{entityType} != 'dao'", true],
+      ["{entityType} <> 'project'", false],
+      ["{entityType} notequal 'dao'", true],
+      ['{budget} > 1000', true],
+      ['{budget} greater 5000', false],
+      ['{budget} <= 2500', true],
+      ['{budget} >= 2501', false],
+      ['{budget} less 3000', true],
+      ['{acceptTerms} = true', true],
+      ["{acceptTerms} = 'true'", true],
+      ['{missing} > 0', false],
+      ["{missing} = ''", true],
+    ])('%s → %s', (expression, expected) => {
+      expect(runSurveyCondition(expression, values)).toBe(expected);
+    });
+  });
+
+  describe('logical operators', () => {
+    it.each([
+      ["{entityType} = 'project' and {budget} > 1000", true],
+      ["{entityType} = 'dao' && {budget} > 1000", false],
+      ["{entityType} = 'dao' or {acceptTerms} = true", true],
+      ["{entityType} = 'dao' || {budget} < 100", false],
+      ["!({entityType} = 'dao')", true],
+      ["not {entityType} = 'project'", false],
+      [
+        "({entityType} = 'dao' or {entityType} = 'project') and {budget} > 0",
+        true,
+      ],
+      // `and` binds tighter than `or`
+      ["{acceptTerms} = true or {budget} > 1 and {entityType} = 'dao'", true],
+    ])('%s → %s', (expression, expected) => {
+      expect(runSurveyCondition(expression, values)).toBe(expected);
+    });
+  });
+
+  describe('emptiness and collections', () => {
+    it.each([
+      ['{description} empty', true],
+      ['{description} notempty', false],
+      ['{missing} empty', true],
+      ['{sdgs} notempty', true],
+      ["{sdgs} contains 'sdg7'", true],
+      ["{sdgs} notcontains 'sdg1'", true],
+      ["{sdgs} *= 'sdg13'", true],
+      ["{entityType} contains 'roj'", true],
+      ["{sdgs} anyof ['sdg1', 'sdg13']", true],
+      ["{sdgs} allof ['sdg7', 'sdg13']", true],
+      ["{sdgs} allof ['sdg7', 'sdg1']", false],
+      ["{sdgs} noneof ['sdg1', 'sdg2']", true],
+      ["{entityType} anyof ['dao', 'project']", true],
+      ["{missing} anyof ['a']", false],
+      ["{sdgs} = ['sdg13', 'sdg7']", true],
+    ])('%s → %s', (expression, expected) => {
+      expect(runSurveyCondition(expression, values)).toBe(expected);
+    });
+  });
+
+  describe('values and functions', () => {
+    it('resolves nested and indexed variables', () => {
+      expect(evaluateSurveyExpression('{contact.email}', values)).toBe(
+        'ops@example.org',
+      );
+      expect(evaluateSurveyExpression('{milestones[1].amount}', values)).toBe(
+        '250',
+      );
+      expect(runSurveyCondition('{contact.phone} empty', values)).toBe(true);
+    });
+
+    it('resolves variable names case-insensitively', () => {
+      expect(evaluateSurveyExpression('{EntityType}', values)).toBe('Project');
+    });
+
+    it('evaluates arithmetic with operator precedence', () => {
+      expect(evaluateSurveyExpression('{budget} * 2 + 1', values)).toBe(5001);
+      expect(evaluateSurveyExpression('({budget} + 500) / 1000', values)).toBe(
+        3,
+      );
+      expect(evaluateSurveyExpression('2 ^ 3 ^ 2', values)).toBe(512);
+      expect(evaluateSurveyExpression('-{budget} % 7', values)).toBe(-1);
+      expect(evaluateSurveyExpression("'Hello ' + {entityType}", values)).toBe(
+        'Hello Project',
+      );
+    });
+
+    it('supports built-in functions', () => {
+      expect(
+        evaluateSurveyExpression(
+          "iif({budget} > 1000, 'large', 'small')",
+          values,
+        ),
+      ).toBe('large');
+      expect(
+        evaluateSurveyExpression("sumInArray({milestones}, 'amount')", values),
+      ).toBe(350);
+      expect(
+        evaluateSurveyExpression(
+          "countInArray({milestones}, 'amount')",
+          values,
+        ),
+      ).toBe(2);
+      expect(evaluateSurveyExpression('max(1, {budget}, 3)', values)).toBe(
+        2500,
+      );
+      expect(evaluateSurveyExpression('round(2.456, 2)', values)).toBe(2.46);
+      expect(
+        runSurveyCondition('age({dob}) >= 18', { dob: '1990-05-01' }),
+      ).toBe(true);
+      expect(runSurveyCondition("today() > '2000-01-01'", {})).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects invalid syntax', () => {
+      expect(() => runSurveyCondition('{entityType} = ', values)).toThrow(
+        SurveyExpressionError,
+      );
+      expect(() => runSurveyCondition('({a} = 1', values)).toThrow(
+        /Expected "\)"/,
+      );
+      expect(() => runSurveyCondition('{a = 1', values)).toThrow(
+        /Unclosed variable/,
+      );
+    });
+
+    it('rejects unknown functions', () => {
+      expect(() => runSurveyCondition('isContainerReady({a})', values)).toThrow(
+        /Unknown function "isContainerReady"/,
+      );
+    });
+  });
+
+  it('treats null, undefined, blank strings and empty arrays as empty', () => {
+    expect(isSurveyValueEmpty(null)).toBe(true);
+    expect(isSurveyValueEmpty(undefined)).toBe(true);
+    expect(isSurveyValueEmpty('  ')).toBe(true);
+    expect(isSurveyValueEmpty([])).toBe(true);
+    expect(isSurveyValueEmpty(0)).toBe(false);
+    expect(isSurveyValueEmpty(false)).toBe(false);
+  });
+
+  it('keeps recently parsed expressions and drops the rest', () => {
+    const kept = parseSurveyExpression('{cache} = 1');
+    const dropped = parseSurveyExpression('{cache} = 2');
+    expect(parseSurveyExpression('{cache} = 1')).toBe(kept);
+
+    for (let i = 0; i < 499; i++) parseSurveyExpression(`{filler} = ${i}`);
+
+    expect(parseSurveyExpression('{cache} = 1')).toBe(kept);
+    expect(parseSurveyExpression('{cache} = 2')).not.toBe(dropped);
+  });
+});
@@ -0,0 +1,916 @@
+/**
+ * SurveyJS Expression Engine
+ *
+ * Parser and evaluator for the SurveyJS expression language used by
+ * `visibleIf`, `enableIf`, `requiredIf`, calculated values and expression
+ * questions. Mirrors SurveyJS semantics so the agent sees the same
+ * visibility/required state as the form renderer:
+ *
+ * - Operands: `{question}`, `{obj.prop}`, `{arr[0].prop}`, numbers, quoted
+ *   strings, bare words (treated as strings), `true`/`false`, `null`/`undefined`,
+ *   arrays (`['a', 'b']`) and function calls (`iif(...)`, `age({dob})`, ...)
+ * - Logical: `and`/`&&`, `or`/`||`, `not`/`!`
+ * - Comparison: `=`/`==`/`equal`, `!=`/`<>`/`notequal`, `<`/`less`, `>`/`greater`,
+ *   `<=`/`lessorequal`, `>=`/`greaterorequal`
+ * - Collections: `contains`/`*=`, `notcontains`, `anyof`, `allof`, `noneof`
+ * - Emptiness: `empty`, `notempty` (postfix)
+ * - Arithmetic: `+`, `-`, `*`, `/`, `%`, `^`
+ *
+ * Like SurveyJS, string comparison is case-insensitive, numeric strings compare
+ * as numbers and `null`/`undefined`/`''`/`[]` are all "empty".
+ */
+
+export class SurveyExpressionError extends Error {
+  constructor(
+    message: string,
+    readonly expression: string,
+  ) {
+    super(`${message} in expression "${expression}"`);
+    this.name = 'SurveyExpressionError';
+  }
+}
+
+export type SurveyExpressionNode =
+  | { kind: 'const'; value: unknown }
+  | { kind: 'variable'; name: string }
+  | { kind: 'array'; items: SurveyExpressionNode[] }
+  | { kind: 'call'; name: string; args: SurveyExpressionNode[] }
+  | { kind: 'unary'; op: UnaryOperator; operand: SurveyExpressionNode }
+  | {
+      kind: 'binary';
+      op: BinaryOperator;
+      left: SurveyExpressionNode;
+      right: SurveyExpressionNode;
+    };
+
+type UnaryOperator = 'not' | 'negate' | 'empty' | 'notempty';
+
+type BinaryOperator =
+  | 'or'
+  | 'and'
+  | 'equal'
+  | 'notequal'
+  | 'less'
+  | 'greater'
+  | 'lessorequal'
+  | 'greaterorequal'
+  | 'contains'
+  | 'notcontains'
+  | 'anyof'
+  | 'allof'
+  | 'noneof'
+  | 'plus'
+  | 'minus'
+  | 'mul'
+  | 'div'
+  | 'mod'
+  | 'power';
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'variable'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'op'; value: string }
+  | { type: 'eof' };
+
+/** Symbol operators, longest first so `<=` wins over `<` */
+const SYMBOL_OPERATORS = [
+  '!*=',
+  '||',
+  '&&',
+  '==',
+  '!=',
+  '<>',
+  '<=',
+  '>=',
+  '*=',
+  '=',
+  '<',
+  '>',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '^',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = expression.indexOf('}', i + 1);
+      if (end === -1) {
+        throw new SurveyExpressionError('Unclosed variable', expression);
+      }
+      tokens.push({
+        type: 'variable',
+        value: expression.slice(i + 1, end).trim(),
+      });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== char) {
+        if (expression[j] === '\\' && j + 1 < expression.length) {
+          j++;
+        }
+        value += expression[j];
+        j++;
+      }
+      if (j >= expression.length) {
+        throw new SurveyExpressionError('Unclosed string', expression);
+      }
+      tokens.push({ type: 'string', value });
+      i = j + 1;
+      continue;
+    }
+
+    const numberMatch = /^(0x[0-9a-f]+|\d+(\.\d+)?|\.\d+)/i.exec(
+      expression.slice(i),
+    );
+    if (numberMatch) {
+      // `12abc` is a bare word, not a number followed by a word
+      const next = expression[i + numberMatch[0].length];
+      if (!next || !/[\w]/.test(next)) {
+        tokens.push({ type: 'number', value: Number(numberMatch[0]) });
+        i += numberMatch[0].length;
+        continue;
+      }
+    }
+
+    const wordMatch = /^[\p{L}_$@#][\p{L}\p{N}_$@#.]*/u.exec(
+      expression.slice(i),
+    );
+    if (wordMatch) {
+      tokens.push({ type: 'word', value: wordMatch[0] });
+      i += wordMatch[0].length;
+      continue;
+    }
+
+    const op = SYMBOL_OPERATORS.find((symbol) =>
+      expression.startsWith(symbol, i),
+    );
+    if (op) {
+      tokens.push({ type: 'op', value: op });
+      i += op.length;
+      continue;
+    }
+
+    throw new SurveyExpressionError(
+      `Unexpected character "${char}" at position ${i}`,
+      expression,
+    );
+  }
+
+  tokens.push({ type: 'eof' });
+  return tokens;
+}
+
+// ============================================================================
+// Parser (recursive descent, lowest precedence first)
+// ============================================================================
+
+const COMPARISON_OPERATORS: Record<string, BinaryOperator> = {
+  '=': 'equal',
+  '==': 'equal',
+  equal: 'equal',
+  '!=': 'notequal',
+  '<>': 'notequal',
+  notequal: 'notequal',
+  '<': 'less',
+  less: 'less',
+  '>': 'greater',
+  greater: 'greater',
+  '<=': 'lessorequal',
+  lessorequal: 'lessorequal',
+  '>=': 'greaterorequal',
+  greaterorequal: 'greaterorequal',
+  '*=': 'contains',
+  contains: 'contains',
+  contain: 'contains',
+  '!*=': 'notcontains',
+  notcontains: 'notcontains',
+  notcontain: 'notcontains',
+  anyof: 'anyof',
+  allof: 'allof',
+  noneof: 'noneof',
+};
+
+const CONSTANT_WORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly expression: string,
+  ) {}
+
+  parse(): SurveyExpressionNode {
+    const node = this.parseOr();
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected token "${this.describe(this.peek())}"`);
+    }
+    return node;
+  }
+
+  private parseOr(): SurveyExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||') || this.matchWord('or')) {
+      left = { kind: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SurveyExpressionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&') || this.matchWord('and')) {
+      left = { kind: 'binary', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): SurveyExpressionNode {
+    if (this.matchOperator('!') || this.matchWord('not')) {
+      return { kind: 'unary', op: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): SurveyExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'word') {
+      const word = token.value.toLowerCase();
+      if (word === 'empty' || word === 'notempty') {
+        this.position++;
+        return { kind: 'unary', op: word, operand: left };
+      }
+    }
+
+    const key =
+      token.type === 'op'
+        ? token.value
+        : token.type === 'word'
+          ? token.value.toLowerCase()
+          : undefined;
+    const op = key !== undefined ? COMPARISON_OPERATORS[key] : undefined;
+    if (!op) return left;
+
+    this.position++;
+    return { kind: 'binary', op, left, right: this.parseAdditive() };
+  }
+
+  private parseAdditive(): SurveyExpressionNode {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      if (this.matchOperator('+')) {
+        left = {
+          kind: 'binary',
+          op: 'plus',
+          left,
+          right: this.parseMultiplicative(),
+        };
+      } else if (this.matchOperator('-')) {
+        left = {
+          kind: 'binary',
+          op: 'minus',
+          left,
+          right: this.parseMultiplicative(),
+        };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseMultiplicative(): SurveyExpressionNode {
+    let left = this.parsePower();
+    for (;;) {
+      const op = this.matchOperator('*')
+        ? 'mul'
+        : this.matchOperator('/')
+          ? 'div'
+          : this.matchOperator('%')
+            ? 'mod'
+            : undefined;
+      if (!op) return left;
+      left = { kind: 'binary', op, left, right: this.parsePower() };
+    }
+  }
+
+  private parsePower(): SurveyExpressionNode {
+    const left = this.parseUnary();
+    if (this.matchOperator('^')) {
+      // Right-associative: 2 ^ 3 ^ 2 = 2 ^ 9
+      return { kind: 'binary', op: 'power', left, right: this.parsePower() };
+    }
+    return left;
+  }
+
+  private parseUnary(): SurveyExpressionNode {
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', op: 'negate', operand: this.parseUnary() };
+    }
+    if (this.matchOperator('+')) {
+      return this.parseUnary();
+    }
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', op: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SurveyExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'const', value: token.value };
+      case 'variable':
+        return { kind: 'variable', name: token.value };
+      case 'word': {
+        if (this.matchOperator('(')) {
+          return {
+            kind: 'call',
+            name: token.value,
+            args: this.parseList(')'),
+          };
+        }
+        const lower = token.value.toLowerCase();
+        if (lower in CONSTANT_WORDS) {
+          return { kind: 'const', value: CONSTANT_WORDS[lower] };
+        }
+        // SurveyJS treats unquoted words as string constants: {color} = red
+        return { kind: 'const', value: token.value };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOperator(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'array', items: this.parseList(']') };
+        }
+        break;
+    }
+
+    return this.fail(`Unexpected token "${this.describe(token)}"`);
+  }
+
+  private parseList(closing: ')' | ']'): SurveyExpressionNode[] {
+    const items: SurveyExpressionNode[] = [];
+    if (this.matchOperator(closing)) return items;
+    do {
+      items.push(this.parseOr());
+    } while (this.matchOperator(','));
+    this.expectOperator(closing);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'op' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchWord(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'word' && token.value.toLowerCase() === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      this.fail(`Expected "${value}"`);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of expression' : String(token.value);
+  }
+
+  private fail(message: string): never {
+    throw new SurveyExpressionError(message, this.expression);
+  }
+}
+
+/** Parsed expressions kept; the least recently used is dropped first */
+const MAX_PARSED_EXPRESSIONS = 500;
+const parsedExpressions = new Map<string, SurveyExpressionNode>();
+
+/**
+ * Parse an expression into an AST. Recent results are cached by expression
+ * text. Throws `SurveyExpressionError` on invalid syntax.
+ */
+export function parseSurveyExpression(
+  expression: string,
+): SurveyExpressionNode {
+  const cached = parsedExpressions.get(expression);
+  if (cached) {
+    // Move to the end, so the oldest entry is the least recently used
+    parsedExpressions.delete(expression);
+    parsedExpressions.set(expression, cached);
+    return cached;
+  }
+
+  const node = new Parser(tokenize(expression), expression).parse();
+  if (parsedExpressions.size >= MAX_PARSED_EXPRESSIONS) {
+    const oldest = parsedExpressions.keys().next().value;
+    if (oldest !== undefined) parsedExpressions.delete(oldest);
+  }
+  parsedExpressions.set(expression, node);
+  return node;
+}
+
+// ============================================================================
+// Value helpers (SurveyJS comparison semantics)
+// ============================================================================
+
+export function isSurveyValueEmpty(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (typeof value === 'number') return Number.isNaN(value);
+  if (Array.isArray(value)) return value.length === 0;
+  if (value instanceof Date) return Number.isNaN(value.getTime());
+  if (typeof value === 'object') {
+    return Object.values(value).every((v) => v === undefined);
+  }
+  return false;
+}
+
+/** Convert numeric/boolean strings and dates to comparable primitives */
+function toPrimitive(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return trimmed;
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return trimmed.toLowerCase();
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (isSurveyValueEmpty(left) && isSurveyValueEmpty(right)) return true;
+  if (isSurveyValueEmpty(left) || isSurveyValueEmpty(right)) return false;
+
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (!Array.isArray(left) || !Array.isArray(right)) return false;
+    if (left.length !== right.length) return false;
+    // SurveyJS compares arrays ignoring order (checkbox answers)
+    return left.every((item) =>
+      right.some((other) => valuesEqual(item, other)),
+    );
+  }
+
+  if (
+    typeof left === 'object' &&
+    typeof right === 'object' &&
+    !(left instanceof Date) &&
+    !(right instanceof Date)
+  ) {
+    const leftRecord = left as Record<string, unknown>;
+    const rightRecord = right as Record<string, unknown>;
+    const keys = new Set([
+      ...Object.keys(leftRecord),
+      ...Object.keys(rightRecord),
+    ]);
+    return [...keys].every((key) =>
+      valuesEqual(leftRecord[key], rightRecord[key]),
+    );
+  }
+
+  return toPrimitive(left) === toPrimitive(right);
+}
+
+function compareValues(
+  left: unknown,
+  right: unknown,
+  test: (diff: number) => boolean,
+): boolean {
+  if (isSurveyValueEmpty(left) || isSurveyValueEmpty(right)) return false;
+
+  if (left instanceof Date || right instanceof Date) {
+    const leftDate = toDate(left);
+    const rightDate = toDate(right);
+    return leftDate && rightDate
+      ? test(leftDate.getTime() - rightDate.getTime())
+      : false;
+  }
+
+  const a = toPrimitive(left);
+  const b = toPrimitive(right);
+  if (typeof a === 'number' && typeof b === 'number') return test(a - b);
+  if (typeof a === 'string' && typeof b === 'string') {
+    return test(a < b ? -1 : a > b ? 1 : 0);
+  }
+  return false;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (isSurveyValueEmpty(value)) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function containsValue(container: unknown, search: unknown): boolean {
+  if (isSurveyValueEmpty(container)) return false;
+
+  if (typeof container === 'string') {
+    const haystack = container.toLowerCase();
+    return toArray(search).every((item) =>
+      haystack.includes(String(item).toLowerCase()),
+    );
+  }
+
+  if (Array.isArray(container)) {
+    return toArray(search).every((item) =>
+      container.some((entry) => valuesEqual(entry, item)),
+    );
+  }
+
+  return valuesEqual(container, search);
+}
+
+function anyOf(left: unknown, right: unknown): boolean {
+  const candidates = toArray(right);
+  return toArray(left).some((value) =>
+    candidates.some((candidate) => valuesEqual(value, candidate)),
+  );
+}
+
+function allOf(left: unknown, right: unknown): boolean {
+  const values = toArray(left);
+  const required = toArray(right);
+  return (
+    values.length > 0 &&
+    required.every((item) => values.some((value) => valuesEqual(value, item)))
+  );
+}
+
+function toNumber(value: unknown): number {
+  if (isSurveyValueEmpty(value)) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return Number(value);
+}
+
+function isNumeric(value: unknown): boolean {
+  return (
+    typeof value === 'number' ||
+    (typeof value === 'string' && typeof toPrimitive(value) === 'number')
+  );
+}
+
+function plus(left: unknown, right: unknown): unknown {
+  if (isSurveyValueEmpty(left)) return right;
+  if (isSurveyValueEmpty(right)) return left;
+  if (isNumeric(left) && isNumeric(right)) {
+    return toNumber(left) + toNumber(right);
+  }
+  return String(left) + String(right);
+}
+
+/** Truthiness used by `and`/`or`/`not` and `iif` */
+function isTruthy(value: unknown): boolean {
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    return lower !== '' && lower !== 'false';
+  }
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+// ============================================================================
+// Built-in functions
+// ============================================================================
+
+type SurveyFunction = (args: unknown[]) => unknown;
+
+function flattenNumbers(args: unknown[]): number[] {
+  return args
+    .flat(Infinity)
+    .filter((value) => !isSurveyValueEmpty(value))
+    .map(toNumber)
+    .filter((value) => !Number.isNaN(value));
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (isSurveyValueEmpty(value)) return undefined;
+  const date =
+    value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function startOfToday(): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+function roundTo(value: unknown, digits: unknown, method: 'round' | 'trunc') {
+  const factor = 10 ** (isSurveyValueEmpty(digits) ? 0 : toNumber(digits));
+  return Math[method](toNumber(value) * factor) / factor;
+}
+
+function fieldValues(array: unknown, field: unknown): unknown[] {
+  if (!Array.isArray(array)) return [];
+  return array
+    .map((item: unknown) =>
+      item && typeof item === 'object'
+        ? (item as Record<string, unknown>)[String(field)]
+        : undefined,
+    )
+    .filter((value) => !isSurveyValueEmpty(value));
+}
+
+function yearsBetween(from: Date, to: Date): number {
+  let years = to.getFullYear() - from.getFullYear();
+  const beforeBirthday =
+    to.getMonth() < from.getMonth() ||
+    (to.getMonth() === from.getMonth() && to.getDate() < from.getDate());
+  if (beforeBirthday) years--;
+  return years;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SURVEY_FUNCTIONS: Record<string, SurveyFunction> = {
+  iif: ([condition, whenTrue, whenFalse]) =>
+    isTruthy(condition) ? whenTrue : whenFalse,
+  sum: (args) => flattenNumbers(args).reduce((total, n) => total + n, 0),
+  max: (args) => {
+    const numbers = flattenNumbers(args);
+    return numbers.length ? Math.max(...numbers) : undefined;
+  },
+  min: (args) => {
+    const numbers = flattenNumbers(args);
+    return numbers.length ? Math.min(...numbers) : undefined;
+  },
+  avg: (args) => {
+    const numbers = flattenNumbers(args);
+    return numbers.length
+      ? numbers.reduce((total, n) => total + n, 0) / numbers.length
+      : 0;
+  },
+  round: ([value, digits]) => roundTo(value, digits, 'round'),
+  trunc: ([value, digits]) => roundTo(value, digits, 'trunc'),
+  suminarray: ([array, field]) =>
+    flattenNumbers(fieldValues(array, field)).reduce((t, n) => t + n, 0),
+  maxinarray: ([array, field]) => {
+    const numbers = flattenNumbers(fieldValues(array, field));
+    return numbers.length ? Math.max(...numbers) : undefined;
+  },
+  mininarray: ([array, field]) => {
+    const numbers = flattenNumbers(fieldValues(array, field));
+    return numbers.length ? Math.min(...numbers) : undefined;
+  },
+  avginarray: ([array, field]) => {
+    const numbers = flattenNumbers(fieldValues(array, field));
+    return numbers.length
+      ? numbers.reduce((t, n) => t + n, 0) / numbers.length
+      : 0;
+  },
+  countinarray: ([array, field]) => fieldValues(array, field).length,
+  today: ([days]) => {
+    const date = startOfToday();
+    if (!isSurveyValueEmpty(days))
+      date.setDate(date.getDate() + toNumber(days));
+    return date;
+  },
+  currentdate: () => new Date(),
+  getdate: ([value]) => toDate(value),
+  age: ([birthDate]) => {
+    const date = toDate(birthDate);
+    return date ? yearsBetween(date, new Date()) : undefined;
+  },
+  datediff: ([from, to, unit]) => {
+    const start = toDate(from);
+    const end = toDate(to);
+    if (!start || !end) return undefined;
+    switch (String(unit ?? 'days').toLowerCase()) {
+      case 'years':
+        return yearsBetween(start, end);
+      case 'months':
+        return (
+          (end.getFullYear() - start.getFullYear()) * 12 +
+          end.getMonth() -
+          start.getMonth() -
+          (end.getDate() < start.getDate() ? 1 : 0)
+        );
+      default:
+        return Math.floor((end.getTime() - start.getTime()) / DAY_MS);
+    }
+  },
+  year: ([value]) => (toDate(value ?? new Date()) ?? new Date()).getFullYear(),
+  month: ([value]) =>
+    (toDate(value ?? new Date()) ?? new Date()).getMonth() + 1,
+  day: ([value]) => (toDate(value ?? new Date()) ?? new Date()).getDate(),
+  weekday: ([value]) => (toDate(value ?? new Date()) ?? new Date()).getDay(),
+};
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+function getProperty(target: unknown, key: string): unknown {
+  if (target === null || typeof target !== 'object') return undefined;
+  const record = target as Record<string, unknown>;
+  if (key in record) return record[key];
+  // SurveyJS variable names are case-insensitive
+  const lower = key.toLowerCase();
+  const match = Object.keys(record).find((k) => k.toLowerCase() === lower);
+  return match !== undefined ? record[match] : undefined;
+}
+
+/**
+ * Resolve `{name}`, `{obj.prop}` and `{arr[0].prop}` against the values.
+ * A key containing dots (e.g. `{panel.name}` stored flat) wins over traversal.
+ */
+function resolveVariable(
+  name: string,
+  values: Record<string, unknown>,
+): unknown {
+  const direct = getProperty(values, name);
+  if (direct !== undefined) return direct;
+
+  const path = name.split(/\.|\[(\d+)\]/).filter((part) => part);
+  let current: unknown = values;
+  for (const part of path) {
+    if (Array.isArray(current) && /^\d+$/.test(part)) {
+      current = current[Number(part)];
+    } else {
+      current = getProperty(current, part);
+    }
+    if (current === undefined) return undefined;
+  }
+  return current;
+}
+
+function evaluateNode(
+  node: SurveyExpressionNode,
+  values: Record<string, unknown>,
+  expression: string,
+): unknown {
+  const evaluate = (child: SurveyExpressionNode) =>
+    evaluateNode(child, values, expression);
+
+  switch (node.kind) {
+    case 'const':
+      return node.value;
+    case 'variable':
+      return resolveVariable(node.name, values);
+    case 'array':
+      return node.items.map(evaluate);
+    case 'call': {
+      const fn = SURVEY_FUNCTIONS[node.name.toLowerCase()];
+      if (!fn) {
+        throw new SurveyExpressionError(
+          `Unknown function "${node.name}"`,
+          expression,
+        );
+      }
+      return fn(node.args.map(evaluate));
+    }
+    case 'unary': {
+      const operand = evaluate(node.operand);
+      switch (node.op) {
+        case 'not':
+          return !isTruthy(operand);
+        case 'negate':
+          return -toNumber(operand);
+        case 'empty':
+          return isSurveyValueEmpty(operand);
+        case 'notempty':
+          return !isSurveyValueEmpty(operand);
+      }
+      break;
+    }
+    case 'binary': {
+      // Short-circuit logical operators
+      if (node.op === 'and') {
+        return isTruthy(evaluate(node.left)) && isTruthy(evaluate(node.right));
+      }
+      if (node.op === 'or') {
+        return isTruthy(evaluate(node.left)) || isTruthy(evaluate(node.right));
+      }
+
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      switch (node.op) {
+        case 'equal':
+          return valuesEqual(left, right);
+        case 'notequal':
+          return !valuesEqual(left, right);
+        case 'less':
+          return compareValues(left, right, (d) => d < 0);
+        case 'greater':
+          return compareValues(left, right, (d) => d > 0);
+        case 'lessorequal':
+          return compareValues(left, right, (d) => d <= 0);
+        case 'greaterorequal':
+          return compareValues(left, right, (d) => d >= 0);
+        case 'contains':
+          return containsValue(left, right);
+        case 'notcontains':
+          return !containsValue(left, right);
+        case 'anyof':
+          return anyOf(left, right);
+        case 'allof':
+          return allOf(left, right);
+        case 'noneof':
+          return !anyOf(left, right);
+        case 'plus':
+          return plus(left, right);
+        case 'minus':
+          return toNumber(left) - toNumber(right);
+        case 'mul':
+          return toNumber(left) * toNumber(right);
+        case 'div': {
+          const divisor = toNumber(right);
+          return divisor === 0 ? undefined : toNumber(left) / divisor;
+        }
+        case 'mod': {
+          const divisor = toNumber(right);
+          return divisor === 0 ? undefined : toNumber(left) % divisor;
+        }
+        case 'power':
+          return toNumber(left) ** toNumber(right);
+      }
+    }
+  }
+
+  throw new SurveyExpressionError('Unsupported expression node', expression);
+}
+
+/**
+ * Evaluate a SurveyJS expression (e.g. a calculated value) against answers.
+ * Throws `SurveyExpressionError` on invalid syntax or unknown functions.
+ */
+export function evaluateSurveyExpression(
+  expression: string,
+  values: Record<string, unknown>,
+): unknown {
+  return evaluateNode(parseSurveyExpression(expression), values, expression);
+}
+
+/**
+ * Evaluate a SurveyJS condition (`visibleIf`, `enableIf`, `requiredIf`).
+ * Throws `SurveyExpressionError` on invalid syntax or unknown functions.
+ */
+export function runSurveyCondition(
+  expression: string,
+  values: Record<string, unknown>,
+): boolean {
+  return isTruthy(evaluateSurveyExpression(expression, values));
+}
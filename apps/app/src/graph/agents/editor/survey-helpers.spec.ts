@@ -0,0 +1,303 @@
+import {
+  computeSurveyValues,
+  evaluateVisibilityCondition,
+  extractSurveyQuestions,
+  getMissingRequiredFields,
+  type SurveySchema,
+  validateAnswersAgainstSchema,
+} from './survey-helpers';
+
+// ── Fixtures ─────────────────────────────────────────────────────────
+
+/** Shape of the domainCreator form used by the entity creation flow */
+const domainCreatorSchema: SurveySchema = {
+  title: 'Create a Domain',
+  pages: [
+    {
+      name: 'basics',
+      elements: [
+        {
+          type: 'dropdown',
+          name: 'entityType',
+          title: 'Entity type',
+          isRequired: true,
+          choices: [
+            { value: 'project', text: 'Project' },
+            { value: 'dao', text: 'DAO' },
+            { value: 'asset', text: 'Asset' },
+          ],
+        },
+        { type: 'text', name: 'name', title: 'Name', isRequired: true },
+        {
+          type: 'text',
+          name: 'budget',
+          title: 'Budget',
+          inputType: 'number',
+          visibleIf: "{entityType} anyof ['project', 'dao']",
+        },
+        {
+          type: 'text',
+          name: 'auditorEmail',
+          title: 'Auditor email',
+          inputType: 'email',
+          visibleIf: "{entityType} = 'project' and {budget} > 10000",
+          isRequired: true,
+        },
+        {
+          type: 'checkbox',
+          name: 'sdgs',
+          title: 'SDGs',
+          choices: [
+            { value: 'sdg7', text: 'Affordable and clean energy' },
+            { value: 'sdg13', text: 'Climate action' },
+          ],
+        },
+        {
+          type: 'comment',
+          name: 'climateImpact',
+          title: 'Climate impact',
+          visibleIf: "{sdgs} contains 'sdg13'",
+          requiredIf: '{budget} >= 50000',
+        },
+      ],
+    },
+    {
+      name: 'governance',
+      visibleIf: "{entityType} = 'dao'",
+      elements: [
+        {
+          type: 'text',
+          name: 'votingPeriod',
+          title: 'Voting period (days)',
+          isRequired: true,
+        },
+      ],
+    },
+    {
+      name: 'review',
+      elements: [
+        {
+          type: 'boolean',
+          name: 'acceptTerms',
+          title: 'Accept terms',
+          isRequired: true,
+        },
+        {
+          type: 'panel',
+          name: 'signatory',
+          visibleIf: '{acceptTerms} = true',
+          enableIf: '{name} notempty',
+          elements: [
+            {
+              type: 'text',
+              name: 'signatoryName',
+              title: 'Signatory name',
+              isRequired: true,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/** Claim form with calculated totals, mirroring the claim evaluation flow */
+const claimSchema: SurveySchema = {
+  calculatedValues: [
+    { name: 'totalTons', expression: "sumInArray({deliveries}, 'tons')" },
+    { name: 'needsVerification', expression: '{totalTons} > 100' },
+  ],
+  pages: [
+    {
+      name: 'claim',
+      elements: [
+        {
+          type: 'paneldynamic',
+          name: 'deliveries',
+          title: 'Deliveries',
+          isRequired: true,
+          templateElements: [{ type: 'text', name: 'tons', title: 'Tons' }],
+        },
+        {
+          type: 'expression',
+          name: 'totalValue',
+          expression: '{totalTons} * 12',
+        },
+        {
+          type: 'text',
+          name: 'verifierDid',
+          title: 'Verifier DID',
+          visibleIf: '{needsVerification} = true',
+          isRequired: true,
+        },
+      ],
+    },
+  ],
+};
+
+describe('survey-helpers', () => {
+  describe('evaluateVisibilityCondition', () => {
+    it('keeps supporting simple equality', () => {
+      expect(
+        evaluateVisibilityCondition('{entityType} = project', {
+          entityType: 'project',
+        }),
+      ).toBe(true);
+      expect(
+        evaluateVisibilityCondition('{acceptTerms} = true', {
+          acceptTerms: false,
+        }),
+      ).toBe(false);
+    });
+
+    it('treats missing and unparseable conditions as visible', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(evaluateVisibilityCondition(undefined, {})).toBe(true);
+      expect(evaluateVisibilityCondition('{entityType} = ', {})).toBe(true);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('getMissingRequiredFields', () => {
+    it('only requires fields whose compound visibleIf is satisfied', async () => {
+      const smallProject = await getMissingRequiredFields(
+        {
+          entityType: 'project',
+          name: 'Solar',
+          budget: 5000,
+          acceptTerms: true,
+        },
+        domainCreatorSchema,
+      );
+      expect(smallProject).not.toContain('auditorEmail');
+
+      const largeProject = await getMissingRequiredFields(
+        { entityType: 'project', name: 'Solar', budget: 20000 },
+        domainCreatorSchema,
+      );
+      expect(largeProject).toContain('auditorEmail');
+    });
+
+    it('hides questions on pages whose visibleIf is false', async () => {
+      const project = await getMissingRequiredFields(
+        { entityType: 'project', name: 'Solar' },
+        domainCreatorSchema,
+      );
+      expect(project).not.toContain('votingPeriod');
+
+      const dao = await getMissingRequiredFields(
+        { entityType: 'dao', name: 'Collective' },
+        domainCreatorSchema,
+      );
+      expect(dao).toContain('votingPeriod');
+    });
+
+    it('applies requiredIf', async () => {
+      const base = { entityType: 'project', name: 'Solar', sdgs: ['sdg13'] };
+      expect(
+        await getMissingRequiredFields(
+          { ...base, budget: 1000 },
+          domainCreatorSchema,
+        ),
+      ).not.toContain('climateImpact');
+      expect(
+        await getMissingRequiredFields(
+          { ...base, budget: 60000 },
+          domainCreatorSchema,
+        ),
+      ).toContain('climateImpact');
+    });
+
+    it('inherits panel visibility and skips read-only questions', async () => {
+      expect(
+        await getMissingRequiredFields(
+          { entityType: 'asset', name: 'Stove', acceptTerms: false },
+          domainCreatorSchema,
+        ),
+      ).not.toContain('signatoryName');
+
+      // Visible but disabled: enableIf requires a name
+      expect(
+        await getMissingRequiredFields(
+          { entityType: 'asset', acceptTerms: true },
+          domainCreatorSchema,
+        ),
+      ).not.toContain('signatoryName');
+
+      expect(
+        await getMissingRequiredFields(
+          { entityType: 'asset', name: 'Stove', acceptTerms: true },
+          domainCreatorSchema,
+        ),
+      ).toContain('signatoryName');
+    });
+
+    it('evaluates conditions against calculated values', async () => {
+      const small = await getMissingRequiredFields(
+        { deliveries: [{ tons: 20 }, { tons: '30' }] },
+        claimSchema,
+      );
+      expect(small).toEqual([]);
+
+      const large = await getMissingRequiredFields(
+        { deliveries: [{ tons: 80 }, { tons: 40 }] },
+        claimSchema,
+      );
+      expect(large).toEqual(['verifierDid']);
+    });
+  });
+
+  describe('computeSurveyValues', () => {
+    it('resolves dependent calculated values and expression questions', () => {
+      const values = computeSurveyValues(claimSchema, {
+        deliveries: [{ tons: 80 }, { tons: 40 }],
+      });
+      expect(values).toMatchObject({
+        totalTons: 120,
+        needsVerification: true,
+        totalValue: 1440,
+      });
+    });
+  });
+
+  describe('extractSurveyQuestions', () => {
+    it('reports visibility, enabled state and conditions per question', async () => {
+      const questions = await extractSurveyQuestions(domainCreatorSchema, {
+        entityType: 'dao',
+        acceptTerms: true,
+      });
+      const byName = new Map(questions.map((q) => [q.name, q]));
+
+      expect(byName.get('budget')?.isVisible).toBe(true);
+      expect(byName.get('auditorEmail')?.isVisible).toBe(false);
+      expect(byName.get('votingPeriod')?.isVisible).toBe(true);
+      expect(byName.get('signatory')?.isEnabled).toBe(false);
+      expect(byName.get('signatoryName')?.isEnabled).toBe(false);
+      expect(byName.get('climateImpact')?.requiredIf).toBe('{budget} >= 50000');
+    });
+  });
+
+  describe('validateAnswersAgainstSchema', () => {
+    it('reports required errors only for visible questions', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const result = await validateAnswersAgainstSchema(
+        {
+          entityType: 'project',
+          name: 'Solar',
+          budget: '20000',
+          auditorEmail: 'not-an-email',
+          votingPeriod: '7',
+          acceptTerms: true,
+          signatoryName: 'Ada',
+        },
+        domainCreatorSchema,
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ field: 'auditorEmail', type: 'format' }),
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+});
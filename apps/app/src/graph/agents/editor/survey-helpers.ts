@@ -6,6 +6,11 @@
  * and answers in domainCreator blocks.
  */
 
+import {
+  evaluateSurveyExpression,
+  runSurveyCondition,
+} from './survey-expression';
+
 export interface SurveySchema {
   title?: string;
   description?: string;
@@ -14,6 +19,13 @@ export interface SurveySchema {
   showQuestionNumbers?: string;
   showProgressBar?: boolean;
   progressBarLocation?: string;
+  calculatedValues?: SurveyCalculatedValue[];
+}
+
+export interface SurveyCalculatedValue {
+  name: string;
+  expression: string;
+  includeIntoResult?: boolean;
 }
 
 export interface SurveyPage {
@@ -31,6 +43,11 @@ export interface SurveyElement {
   description?: string;
   isRequired?: boolean;
   visibleIf?: string;
+  enableIf?: string;
+  requiredIf?: string;
+  readOnly?: boolean;
+  /** Formula of `expression` questions */
+  expression?: string;
   defaultValue?: unknown;
   defaultValueExpression?: string;
   inputType?: string;
@@ -52,7 +69,11 @@ export interface SurveyQuestion {
   inputType?: string;
   isRequired: boolean;
   isVisible?: boolean;
+  /** False when the question is read-only (SurveyJS skips its validation) */
+  isEnabled?: boolean;
   visibleIf?: string;
+  enableIf?: string;
+  requiredIf?: string;
   defaultValue?: unknown;
   choices?: Array<{ value: string; text: string }>;
   choicesByUrl?: {
@@ -115,53 +136,92 @@ export function parseSurveyAnswers(
   }
 }
 
+/**
+ * Evaluate a SurveyJS condition, falling back to `defaultValue` when it is
+ * missing or cannot be evaluated
+ */
+function evaluateCondition(
+  condition: string | undefined,
+  values: Record<string, unknown>,
+  defaultValue: boolean,
+): boolean {
+  if (!condition?.trim()) {
+    return defaultValue;
+  }
+
+  try {
+    return runSurveyCondition(condition, values);
+  } catch (error) {
+    console.error('Error evaluating survey condition:', error);
+    return defaultValue;
+  }
+}
+
 /**
  * Evaluate a visibility condition against current answers
- * Simple evaluation for common patterns like {field} = value or {field} = true
+ * Supports the full SurveyJS expression syntax (see survey-expression.ts).
+ * Defaults to visible when the condition can't be evaluated.
  */
 export function evaluateVisibilityCondition(
   condition: string | undefined,
   answers: Record<string, unknown>,
 ): boolean {
-  if (!condition) {
-    return true;
-  }
+  return evaluateCondition(condition, answers, true);
+}
 
-  try {
-    // Handle simple patterns like {field} = value or {field} = true
-    const match = condition.match(/\{([^}]+)\}\s*=\s*(.+)/);
-    if (match) {
-      const fieldName = match[1].trim();
-      const expectedValue = match[2].trim();
-      const actualValue = answers[fieldName];
-
-      // Handle boolean strings
-      if (expectedValue === 'true') {
-        return actualValue === true || actualValue === 'true';
+/**
+ * Build the values conditions are evaluated against: the answers plus
+ * survey-level calculated values and `expression` question results.
+ * Expressions may depend on each other, so evaluation repeats until stable.
+ */
+export function computeSurveyValues(
+  schema: SurveySchema,
+  answers: Record<string, unknown>,
+): Record<string, unknown> {
+  const values: Record<string, unknown> = { ...answers };
+  const expressions: Array<{ name: string; expression: string }> = [
+    ...(schema.calculatedValues ?? []),
+  ];
+
+  const collectExpressionQuestions = (elements: SurveyElement[]) => {
+    for (const element of elements) {
+      if (element.type === 'expression' && element.name && element.expression) {
+        expressions.push({
+          name: element.name,
+          expression: element.expression,
+        });
       }
-      if (expectedValue === 'false') {
-        return actualValue === false || actualValue === 'false';
+      if (Array.isArray(element.elements)) {
+        collectExpressionQuestions(element.elements);
       }
+    }
+  };
+  for (const page of schema.pages ?? []) {
+    if (Array.isArray(page.elements)) {
+      collectExpressionQuestions(page.elements);
+    }
+  }
 
-      // Handle quoted strings
-      if (
-        (expectedValue.startsWith('"') && expectedValue.endsWith('"')) ||
-        (expectedValue.startsWith("'") && expectedValue.endsWith("'"))
-      ) {
-        const unquoted = expectedValue.slice(1, -1);
-        return String(actualValue) === unquoted;
+  for (let pass = 0; pass <= expressions.length; pass++) {
+    let changed = false;
+    for (const { name, expression } of expressions) {
+      if (!name || !expression) continue;
+      let value: unknown;
+      try {
+        value = evaluateSurveyExpression(expression, values);
+      } catch (error) {
+        console.error(`Error evaluating calculated value "${name}":`, error);
+        continue;
+      }
+      if (!Object.is(values[name], value)) {
+        values[name] = value;
+        changed = true;
       }
-
-      // Direct comparison
-      return String(actualValue) === expectedValue;
     }
-
-    // Default to visible if we can't parse
-    return true;
-  } catch (error) {
-    console.error('Error evaluating visibility condition:', error);
-    return true;
+    if (!changed) break;
   }
+
+  return values;
 }
 
 /**
@@ -247,10 +307,14 @@ export async function extractSurveyQuestions(
     return questions;
   }
 
+  const values = answers ? computeSurveyValues(schema, answers) : undefined;
+
   async function extractFromElements(
     elements: SurveyElement[],
     pageName?: string,
     pageTitle?: string,
+    parentVisible = true,
+    parentEnabled = true,
   ): Promise<void> {
     for (const element of elements) {
       // Skip elements without a name (they're not answerable)
@@ -258,6 +322,20 @@ export async function extractSurveyQuestions(
         continue;
       }
 
+      // A hidden or read-only panel hides/disables everything inside it
+      const isVisible =
+        parentVisible &&
+        (values
+          ? evaluateVisibilityCondition(element.visibleIf, values)
+          : true);
+      const isEnabled =
+        parentEnabled &&
+        element.readOnly !== true &&
+        (values ? evaluateCondition(element.enableIf, values, true) : true);
+      const isRequired =
+        element.isRequired === true ||
+        (values ? evaluateCondition(element.requiredIf, values, false) : false);
+
       let choices = element.choices;
 
       // Fetch choices from URL if choicesByUrl is present
@@ -274,11 +352,12 @@ export async function extractSurveyQuestions(
         description: element.description,
         type: element.type,
         inputType: element.inputType,
-        isRequired: element.isRequired === true,
-        isVisible: answers
-          ? evaluateVisibilityCondition(element.visibleIf, answers)
-          : true, // Default to visible if no answers provided
+        isRequired,
+        isVisible, // Default to visible if no answers provided
+        isEnabled,
         visibleIf: element.visibleIf,
+        enableIf: element.enableIf,
+        requiredIf: element.requiredIf,
         defaultValue: element.defaultValue,
         choices,
         choicesByUrl: element.choicesByUrl,
@@ -290,7 +369,13 @@ export async function extractSurveyQuestions(
 
       // Handle nested elements (panels, paneldynamic)
       if (element.elements && Array.isArray(element.elements)) {
-        await extractFromElements(element.elements, pageName, pageTitle);
+        await extractFromElements(
+          element.elements,
+          pageName,
+          pageTitle,
+          isVisible,
+          isEnabled,
+        );
       }
 
       // Handle template elements (paneldynamic)
@@ -299,6 +384,8 @@ export async function extractSurveyQuestions(
           element.templateElements,
           pageName,
           pageTitle,
+          isVisible,
+          isEnabled,
         );
       }
     }
@@ -310,6 +397,7 @@ export async function extractSurveyQuestions(
         page.elements,
         page.name,
         page.title || page.name,
+        values ? evaluateVisibilityCondition(page.visibleIf, values) : true,
       );
     }
   }
@@ -339,7 +427,8 @@ export async function getMissingRequiredFields(
   const missing: string[] = [];
 
   for (const question of visibleQuestions) {
-    if (question.isRequired) {
+    // SurveyJS does not validate read-only questions
+    if (question.isRequired && question.isEnabled !== false) {
       const value = answers[question.name];
       if (
         value === undefined ||
@@ -499,7 +588,7 @@ export async function validateAnswersAgainstSchema(
   for (const question of visibleQuestions) {
     const value = answers[question.name];
     const questionErrors = validateAnswerValue(question, value, {
-      checkRequired: true,
+      checkRequired: question.isEnabled !== false,
       returnAsWarnings: false,
     }) as ValidationError[];
     errors.push(...questionErrors);
@@ -3,18 +3,11 @@ import { type IRunnableConfigWithRequiredFields } from '@ixo/matrix';
 import { OpenIdTokenProvider } from '@ixo/oracles-chain-client';
 import { SqliteSaver } from '@ixo/sqlite-saver';
 import { Logger } from '@nestjs/common';
-import {
-  createAgent,
-  toolRetryMiddleware,
-  type ReactAgent,
-  type StructuredTool,
-} from 'langchain';
-import { getConfig, isRedisEnabled } from 'src/config';
+import { createAgent, type ReactAgent, type StructuredTool } from 'langchain';
+import { getConfig } from 'src/config';
 import { type UcanService } from 'src/ucan/ucan.service';
 
-import { createPageContextMiddleware } from '../middlewares/page-context-middleware';
-import { createTokenLimiterMiddleware } from '../middlewares/token-limiter-middelware';
-import { createToolValidationMiddleware } from '../middlewares/tool-validation-middleware';
+import { buildMiddlewarePipeline } from '../middlewares/middleware-pipeline';
 import {
   AI_ASSISTANT_PROMPT,
   SLACK_FORMATTING_CONSTRAINTS_CONTENT,
@@ -38,6 +31,7 @@ import { createFirecrawlAgent } from './firecrawl-agent';
 import { createMemoryAgent } from './memory-agent';
 import { createPortalAgent } from './portal-agent';
 import { createSubagentAsTool, type AgentSpec } from './subagent-as-tool';
+import { getCustomSubAgents } from './subagent-registry';
 import { createTaskManagerAgent } from './task-manager';
 
 import { DynamicStructuredTool } from 'langchain';
@@ -57,6 +51,8 @@ import { getProviderChatModel } from '../llm-provider';
 import { createMCPClient, createMCPClientAndGetTools } from '../mcp';
 import { createFileProcessingTool } from '../nodes/tools-node/file-processing-tool';
 import { createListRoomFilesTool } from '../nodes/tools-node/list-room-files-tool';
+import { createSearchConversationsTool } from '../nodes/tools-node/search-conversations-tool';
+import { createSearchRoomFilesTool } from '../nodes/tools-node/search-room-files-tool';
 import {
   createListSkillsTool,
   createSearchSkillsTool,
@@ -381,19 +377,13 @@ Promise<ReactAgent<any>> => {
         })
       : null;
 
-  // Create MCP tools - use UCAN-wrapped version if service is available
-  const getMcpTools = async () => {
-    // TODO: plan thoroughly if it is even wanted on mcp level
-    // if (ucanService) {
-    //   // Use UCAN-wrapped tools that validate invocations
-    //   return createMCPClientAndGetToolsWithUCAN(
-    //     ucanService,
-    //     () => state.mcpUcanContext,
-    //   );
-    // }
-    // Fallback to non-UCAN tools
-    return createMCPClientAndGetTools();
-  };
+  // MCP servers from the run-time config — protected ones are UCAN-wrapped
+  const getMcpTools = () =>
+    createMCPClientAndGetTools(
+      ucanService
+        ? { ucanService, getContext: () => state.mcpUcanContext }
+        : undefined,
+    );
 
   // Build operational mode + editor section via JS — cleaner than nested mustache conditionals
   const editorPrompts = state.editorRoomId
@@ -549,7 +539,14 @@ Promise<ReactAgent<any>> => {
     null,
     'Domain Indexer Agent',
   );
-  const mcpTools = settled(mcpToolsResult, [], 'MCP tools');
+  const { tools: mcpTools, failedServers: failedMcpServers } = settled(
+    mcpToolsResult,
+    { tools: [], failedServers: [] },
+    'MCP tools',
+  );
+  unavailableServices.push(
+    ...failedMcpServers.map((serverName) => `MCP server "${serverName}"`),
+  );
   const sandboxTools = settled(sandboxResult, [], 'Sandbox MCP');
   const taskManagerAgent = settled(
     taskManagerResult,
@@ -796,6 +793,29 @@ Promise<ReactAgent<any>> => {
       })
     : null;
 
+  // Custom sub-agents declared in oracle.config.json or registered by plugins
+  const customSubAgents = getCustomSubAgents();
+  const customSubAgentResults = await Promise.allSettled(
+    customSubAgents.map((definition) =>
+      definition.create({
+        userDid,
+        sessionId: configurable.thread_id,
+        parentTools: [...mcpTools, ...wrappedSandboxTools, ...composioTools],
+      }),
+    ),
+  );
+  const customSubAgentTools = customSubAgents.flatMap((definition, i) => {
+    const spec = settled(customSubAgentResults[i], null, definition.name);
+    return spec
+      ? [
+          createSubagentAsTool(withTimeContext(spec), {
+            forwardTools: definition.forwardTools,
+            onComplete: definition.onComplete,
+          }),
+        ]
+      : [];
+  });
+
   let finalSystemPrompt = systemPrompt;
   if (unavailableServices.length > 0) {
     const serviceList = unavailableServices.map((s) => `- ${s}`).join('\n');
@@ -814,18 +834,8 @@ Promise<ReactAgent<any>> => {
     fs.mkdirSync(dbFolder, { recursive: true });
   }
 
-  // Build middleware list conditionally
-  const disableCredits = configService.get('DISABLE_CREDITS');
-
-  const middleware = [
-    createToolValidationMiddleware(),
-    toolRetryMiddleware(),
-    createPageContextMiddleware(),
-  ];
-
-  if (!disableCredits && isRedisEnabled()) {
-    middleware.push(createTokenLimiterMiddleware());
-  }
+  // Middleware stack is declared in oracle.config.json (see middleware-pipeline.ts)
+  const middleware = buildMiddlewarePipeline('mainAgent');
 
   const effectiveModel = modelOverride
     ? getProviderChatModel('main', { model: modelOverride })
@@ -848,16 +858,24 @@ Promise<ReactAgent<any>> => {
       ...(callDomainIndexerAgentTool ? [callDomainIndexerAgentTool] : []),
       ...(callEditorAgentTool ? [callEditorAgentTool] : []),
       ...(callTaskManagerAgentTool ? [callTaskManagerAgentTool] : []),
+      ...customSubAgentTools,
       ...(fileProcessingService
         ? [
             createFileProcessingTool(
               fileProcessingService,
               matrix?.roomId,
               sandboxUploadConfig,
+              userDid,
             ),
           ]
         : []),
       ...(matrix?.roomId ? [createListRoomFilesTool(matrix.roomId)] : []),
+      ...(matrix?.roomId && userDid
+        ? [createSearchRoomFilesTool(userDid, matrix.roomId)]
+        : []),
+      ...(matrix?.roomId && userDid
+        ? [createSearchConversationsTool(userDid, matrix.roomId)]
+        : []),
       ...(applySandboxOutputToBlockTool ? [applySandboxOutputToBlockTool] : []),
       ...(standaloneEditorTool ? [standaloneEditorTool] : []),
     ],
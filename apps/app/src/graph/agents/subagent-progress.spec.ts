@@ -0,0 +1,180 @@
+import {
+  AIMessage,
+  AIMessageChunk,
+  HumanMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import { emitSSEEvent } from 'src/utils/sse-context';
+import { SubagentProgress } from './subagent-progress';
+
+vi.mock('src/utils/sse-context', () => ({ emitSSEEvent: vi.fn() }));
+
+const modelNode = { langgraph_node: 'model_request' };
+
+describe('SubagentProgress', () => {
+  let progress: SubagentProgress;
+  let emitted: Array<{ eventName: string; payload: Record<string, unknown> }>;
+
+  beforeEach(() => {
+    // Copy payloads — a tool call's event is updated in place when it's done
+    emitted = [];
+    vi.mocked(emitSSEEvent).mockReset();
+    vi.mocked(emitSSEEvent).mockImplementation((event) => {
+      emitted.push({
+        eventName: event.eventName,
+        payload: { ...event.payload },
+      });
+    });
+    progress = new SubagentProgress({
+      sessionId: 'session-1',
+      requestId: 'request-1',
+      parentToolCallId: 'call_parent',
+      parentToolName: 'call_firecrawl_agent',
+      parentArgs: { task: 'Find the pricing page' },
+    });
+  });
+
+  it('nests the sub-agent tool calls under the parent call', () => {
+    // Streamed chunks only carry partial args
+    progress.handleMessage(
+      new AIMessageChunk({
+        id: 'run-1',
+        content: '',
+        tool_call_chunks: [
+          { id: 'call_1', name: 'scrape', args: '{"url": "ht', index: 0 },
+        ],
+      }),
+      modelNode,
+    );
+    expect(emitted).toEqual([]);
+
+    progress.handleState([
+      new HumanMessage('Find the pricing page'),
+      new AIMessage({
+        id: 'run-1',
+        content: '',
+        tool_calls: [
+          { id: 'call_1', name: 'scrape', args: { url: 'https://x.io' } },
+        ],
+      }),
+    ]);
+    progress.handleMessage(
+      new ToolMessage({ content: 'Pricing: $10', tool_call_id: 'call_1' }),
+    );
+
+    expect(emitted).toEqual([
+      {
+        eventName: 'tool_call',
+        payload: expect.objectContaining({
+          eventId: 'call_parent_call_1',
+          parentToolCallId: 'call_parent',
+          args: { url: 'https://x.io', toolName: 'scrape' },
+          status: 'isRunning',
+        }),
+      },
+      {
+        eventName: 'tool_call',
+        payload: expect.objectContaining({
+          eventId: 'call_parent_call_1',
+          status: 'done',
+          output: 'Pricing: $10',
+        }),
+      },
+    ]);
+  });
+
+  it('skips tool calls from earlier runs on the thread', () => {
+    progress.handleState([
+      new AIMessage({
+        content: '',
+        tool_calls: [{ id: 'call_old', name: 'scrape', args: {} }],
+      }),
+      new ToolMessage({ content: 'Old result', tool_call_id: 'call_old' }),
+      new HumanMessage('Find the pricing page'),
+    ]);
+
+    expect(emitSSEEvent).not.toHaveBeenCalled();
+  });
+
+  it('ends running calls with the error when the run fails', () => {
+    const toolCall = { id: 'call_1', name: 'scrape', args: {} };
+    progress.handleState([
+      new AIMessage({ content: '', tool_calls: [toolCall] }),
+    ]);
+    // Later states repeat the turn without restarting the call
+    progress.handleState([
+      new AIMessage({ content: '', tool_calls: [toolCall] }),
+    ]);
+    progress.fail(new Error('Model timed out'));
+
+    expect(emitted.map(({ payload }) => payload)).toEqual([
+      expect.objectContaining({
+        eventId: 'call_parent_call_1',
+        status: 'isRunning',
+      }),
+      expect.objectContaining({
+        eventId: 'call_parent_call_1',
+        status: 'done',
+        output: 'Error: Model timed out',
+      }),
+    ]);
+  });
+
+  it('streams the partial reply on the parent call', () => {
+    progress.handleMessage(
+      new AIMessageChunk({ id: 'run-1', content: 'The plan ' }),
+      modelNode,
+    );
+    progress.handleMessage(
+      new AIMessageChunk({ id: 'run-1', content: 'costs $10' }),
+      modelNode,
+    );
+    progress.flush();
+
+    expect(emitted[0].payload).toMatchObject({
+      eventId: 'call_parent',
+      status: 'isRunning',
+      partialOutput: 'The plan ',
+      args: {
+        task: 'Find the pricing page',
+        toolName: 'call_firecrawl_agent',
+      },
+    });
+    expect(emitted.at(-1)?.payload.partialOutput).toBe('The plan costs $10');
+  });
+
+  it('relays reasoning with the parent call', () => {
+    progress.handleMessage(
+      new AIMessageChunk({
+        id: 'run-1',
+        content: '',
+        additional_kwargs: {
+          __raw_response: {
+            choices: [{ delta: { reasoning: 'Check the pricing page' } }],
+          },
+        },
+      }),
+      modelNode,
+    );
+
+    expect(emitted).toEqual([
+      {
+        eventName: 'reasoning',
+        payload: expect.objectContaining({
+          reasoning: 'Check the pricing page',
+          parentToolCallId: 'call_parent',
+        }),
+      },
+    ]);
+  });
+
+  it('ignores model calls made outside the model node', () => {
+    progress.handleMessage(
+      new AIMessageChunk({ id: 'summary', content: 'Summary so far' }),
+      { langgraph_node: 'SummarizationMiddleware.before_model' },
+    );
+    progress.flush();
+
+    expect(emitSSEEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { ReasoningEvent, ToolCallEvent } from '@ixo/oracles-events';
+import {
+  type AIMessage,
+  type AIMessageChunk,
+  type BaseMessage,
+  type ToolMessage,
+} from '@langchain/core/messages';
+import { emojify } from 'node-emoji';
+import { emitSSEEvent } from 'src/utils/sse-context';
+import { cleanAdditionalKwargs } from '../nodes/chat-node/utils';
+
+/**
+ * Tag on sub-agent runs. Their model and tool events can surface in the main
+ * agent's event stream; the stream skips tagged events because
+ * `SubagentProgress` already relays them as nested events.
+ */
+export const SUBAGENT_RUN_TAG = 'subagent';
+
+/** Node that calls the model in a `createAgent` graph */
+const MODEL_NODE = 'model_request';
+
+/** Minimum gap between partial reply updates, which resend the text so far */
+const PARTIAL_OUTPUT_INTERVAL_MS = 250;
+
+export interface SubagentProgressTarget {
+  sessionId: string;
+  requestId: string;
+  /** Tool call the main agent started the sub-agent with */
+  parentToolCallId: string;
+  /** e.g. `call_firecrawl_agent` */
+  parentToolName: string;
+  parentArgs: Record<string, unknown>;
+}
+
+/**
+ * Relays a running sub-agent's tool calls, reasoning and partial reply over
+ * SSE and WebSocket, nested under the tool call that started it.
+ *
+ * Feed it the sub-agent's `messages` and `values` streams. Nested tool calls
+ * are sent from `values`, once the model turn is complete: streamed chunks
+ * only carry partial args. They use the same `{parentToolCallId}_{toolCallId}`
+ * IDs as forwarded tool calls, so a call shown live matches the one stored in
+ * the parent's history.
+ *
+ * Use one instance per sub-agent run.
+ */
+export class SubagentProgress {
+  private readonly runningCalls = new Map<string, ToolCallEvent>();
+  private readonly startedCalls = new Set<string>();
+  private replyId: string | undefined;
+  private reply = '';
+  private replyPending = false;
+  private lastReplyAt = 0;
+
+  constructor(private readonly target: SubagentProgressTarget) {}
+
+  handleMessage(
+    message: BaseMessage,
+    metadata?: { langgraph_node?: string },
+  ): void {
+    if (message.type === 'tool') {
+      this.handleToolResult(message as ToolMessage);
+      return;
+    }
+    // Skip model calls made by middleware, e.g. summarization
+    if (message.type === 'ai' && metadata?.langgraph_node === MODEL_NODE) {
+      this.handleModelChunk(message as AIMessageChunk);
+    }
+  }
+
+  /**
+   * Start the tool calls of the model turn that just finished. Takes the
+   * state's messages; only the last one is new, the rest may come from
+   * earlier runs on the same thread.
+   */
+  handleState(messages: BaseMessage[]): void {
+    const last = messages.at(-1);
+    if (last?.type !== 'ai') return;
+
+    for (const toolCall of (last as AIMessage).tool_calls ?? []) {
+      if (!toolCall.id || !toolCall.name.trim()) continue;
+      const eventId = this.nestedId(toolCall.id);
+      if (this.startedCalls.has(eventId)) continue;
+
+      this.flush();
+      const event = new ToolCallEvent({
+        sessionId: this.target.sessionId,
+        requestId: this.target.requestId,
+        toolName: 'toolCall',
+        args: { ...toolCall.args, toolName: toolCall.name },
+        status: 'isRunning',
+        eventId,
+        parentToolCallId: this.target.parentToolCallId,
+      });
+      this.startedCalls.add(eventId);
+      this.runningCalls.set(eventId, event);
+      this.emit(event);
+    }
+  }
+
+  /** End the calls still running when the sub-agent run fails */
+  fail(error: unknown): void {
+    this.flush();
+    const message = error instanceof Error ? error.message : String(error);
+    for (const event of this.runningCalls.values()) {
+      event.payload.status = 'done';
+      event.payload.output = `Error: ${message}`;
+      this.emit(event);
+    }
+    this.runningCalls.clear();
+  }
+
+  /** Send the partial reply if an update is still held back */
+  flush(): void {
+    if (!this.replyPending) return;
+    this.replyPending = false;
+    this.lastReplyAt = Date.now();
+    this.emit(
+      new ToolCallEvent({
+        sessionId: this.target.sessionId,
+        requestId: this.target.requestId,
+        toolName: 'toolCall',
+        args: {
+          ...this.target.parentArgs,
+          toolName: this.target.parentToolName,
+        },
+        status: 'isRunning',
+        eventId: this.target.parentToolCallId,
+        partialOutput: emojify(this.reply),
+      }),
+    );
+  }
+
+  private handleModelChunk(chunk: AIMessageChunk): void {
+    const rawResponse = chunk.additional_kwargs?.__raw_response as
+      | {
+          choices?: Array<{
+            delta?: { reasoning?: string; reasoning_content?: string };
+          }>;
+        }
+      | undefined;
+    const delta = rawResponse?.choices?.[0]?.delta;
+    const reasoning = delta?.reasoning ?? delta?.reasoning_content;
+    if (reasoning?.trim()) {
+      this.emit(
+        ReasoningEvent.createChunk(
+          this.target.sessionId,
+          this.target.requestId,
+          reasoning,
+          cleanAdditionalKwargs(chunk.additional_kwargs, false)
+            .reasoningDetails,
+          false,
+          this.target.parentToolCallId,
+        ),
+      );
+    }
+
+    const text = chunk.text;
+    if (!text) return;
+    // Each model turn starts a new reply
+    if (chunk.id !== this.replyId) {
+      this.replyId = chunk.id;
+      this.reply = '';
+    }
+    this.reply += text;
+    this.replyPending = true;
+    if (Date.now() - this.lastReplyAt >= PARTIAL_OUTPUT_INTERVAL_MS) {
+      this.flush();
+    }
+  }
+
+  private handleToolResult(message: ToolMessage): void {
+    const eventId = this.nestedId(message.tool_call_id);
+    const event = this.runningCalls.get(eventId);
+    if (!event) return;
+
+    this.runningCalls.delete(eventId);
+    event.payload.status = 'done';
+    event.payload.output = emojify(
+      typeof message.content === 'string'
+        ? message.content
+        : JSON.stringify(message.content),
+    );
+    this.emit(event);
+  }
+
+  private nestedId(toolCallId: string): string {
+    return `${this.target.parentToolCallId}_${toolCallId}`;
+  }
+
+  private emit(event: ToolCallEvent | ReasoningEvent): void {
+    emitSSEEvent(event);
+    event.emit();
+  }
+}
@@ -0,0 +1,134 @@
+import { getSubAgentMCPTools } from '../mcp';
+import {
+  getCustomSubAgents,
+  registerSubAgent,
+  toSubAgentDefinition,
+} from './subagent-registry';
+
+vi.mock('../../../oracle.config.json', () => ({
+  default: {
+    subAgents: [
+      {
+        name: 'Carbon Agent',
+        description: 'Looks up carbon credit batches.',
+        systemPrompt: 'You are the Carbon Agent.',
+      },
+      {
+        name: 'Firecrawl Agent',
+        description: 'Clashes with the built-in agent.',
+        systemPrompt: 'You are a web agent.',
+      },
+      {
+        name: 'Archived Agent',
+        description: 'Turned off.',
+        systemPrompt: 'You are archived.',
+        enabled: false,
+      },
+    ],
+  },
+}));
+vi.mock('../llm-provider', () => ({ getProviderChatModel: vi.fn() }));
+vi.mock('../mcp', () => ({ getSubAgentMCPTools: vi.fn() }));
+vi.mock(
+  'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service',
+  () => ({ UserMatrixSqliteSyncService: { getInstance: vi.fn() } }),
+);
+
+const context = {
+  userDid: 'did:ixo:ixo1user',
+  sessionId: 'session-1',
+  parentTools: [],
+};
+
+describe('subagent registry', () => {
+  afterEach(() => {
+    delete process.env.CARBON_API_KEY;
+  });
+
+  it('lists enabled declared agents, skipping names taken by built-ins', () => {
+    expect(getCustomSubAgents().map(({ name }) => name)).toEqual([
+      'Carbon Agent',
+    ]);
+  });
+
+  it('rejects registered agents that clash with existing ones', () => {
+    expect(() =>
+      registerSubAgent({ name: 'Memory Agent', create: () => null }),
+    ).toThrow('already registered');
+
+    registerSubAgent({ name: 'Weather Agent', create: () => null });
+    expect(() =>
+      registerSubAgent({ name: 'weather agent', create: () => null }),
+    ).toThrow('already registered');
+    expect(getCustomSubAgents().map(({ name }) => name)).toEqual([
+      'Carbon Agent',
+      'Weather Agent',
+    ]);
+  });
+
+  it('rejects invalid entries', () => {
+    expect(() =>
+      toSubAgentDefinition({
+        name: 'Carbon Agent',
+        description: '',
+        systemPrompt: 'You are the Carbon Agent.',
+      }),
+    ).toThrow();
+  });
+
+  it('loads MCP tools with env placeholders resolved in headers', async () => {
+    process.env.CARBON_API_KEY = 'secret';
+    vi.mocked(getSubAgentMCPTools).mockResolvedValue([]);
+
+    const definition = toSubAgentDefinition({
+      name: 'Carbon Agent',
+      description: 'Looks up carbon credit batches.',
+      systemPrompt: 'You are the Carbon Agent.',
+      mcpServers: {
+        carbon: {
+          url: 'https://carbon.example.com/mcp',
+          headers: { 'x-api-key': '${CARBON_API_KEY}' },
+        },
+      },
+    });
+    await definition.create(context);
+
+    expect(getSubAgentMCPTools).toHaveBeenCalledWith('Carbon Agent', 'carbon', {
+      type: 'http',
+      transport: 'http',
+      url: 'https://carbon.example.com/mcp',
+      headers: { 'x-api-key': 'secret' },
+    });
+  });
+
+  it('fails to build when a referenced env variable is missing', async () => {
+    const definition = toSubAgentDefinition({
+      name: 'Carbon Agent',
+      description: 'Looks up carbon credit batches.',
+      systemPrompt: 'You are the Carbon Agent.',
+      mcpServers: {
+        carbon: {
+          url: 'https://carbon.example.com/mcp',
+          headers: { 'x-api-key': '${CARBON_API_KEY}' },
+        },
+      },
+    });
+
+    await expect(definition.create(context)).rejects.toThrow(
+      'Environment variable CARBON_API_KEY referenced by Carbon Agent (carbon) is not set',
+    );
+  });
+
+  it('fails to build when a shared tool is not available', async () => {
+    const definition = toSubAgentDefinition({
+      name: 'Carbon Agent',
+      description: 'Looks up carbon credit batches.',
+      systemPrompt: 'You are the Carbon Agent.',
+      tools: ['sandbox_run'],
+    });
+
+    await expect(definition.create(context)).rejects.toThrow(
+      'Tool "sandbox_run" is not available',
+    );
+  });
+});
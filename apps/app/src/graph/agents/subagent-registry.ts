@@ -0,0 +1,208 @@
+import { Logger } from '@nestjs/common';
+import { type StructuredTool } from 'langchain';
+import z from 'zod';
+import oracleConfig from '../../../oracle.config.json';
+import { getProviderChatModel } from '../llm-provider';
+import { getSubAgentMCPTools } from '../mcp';
+import { resolveEnvPlaceholders } from '../mcp-config';
+import {
+  buildMiddlewareFromEntries,
+  middlewareEntrySchema,
+  MODEL_ROLES,
+} from '../middlewares/middleware-pipeline';
+import {
+  type AgentSpec,
+  getSubagentToolName,
+  type SubagentToolOptions,
+} from './subagent-as-tool';
+
+/**
+ * Custom sub-agents, declared in `oracle.config.json`:
+ *
+ * ```json
+ * "subAgents": [
+ *   {
+ *     "name": "Carbon Agent",
+ *     "description": "Looks up carbon credit batches and retirements.",
+ *     "systemPrompt": "You are the Carbon Agent...",
+ *     "modelRole": "subagent",
+ *     "mcpServers": {
+ *       "carbon": { "url": "https://carbon.example.com/mcp", "headers": { "x-api-key": "${CARBON_API_KEY}" } }
+ *     },
+ *     "tools": ["sandbox_run"],
+ *     "forwardTools": ["carbon__create_retirement"],
+ *     "middleware": [{ "name": "toolRetry" }]
+ *   }
+ * ]
+ * ```
+ *
+ * or registered from code with `registerSubAgent()` before the first agent
+ * is built. The main agent builds them alongside the built-in sub-agents; one
+ * that fails to initialize is listed under degraded services instead of
+ * failing the request.
+ */
+
+/** What a sub-agent factory receives for the current request */
+export interface SubAgentContext {
+  userDid: string;
+  sessionId: string;
+  /** Tools loaded for the main agent (MCP, sandbox, Composio) */
+  parentTools: StructuredTool[];
+}
+
+export interface SubAgentDefinition extends SubagentToolOptions {
+  name: string;
+  /** Builds the agent for a request. Return null to leave it out. */
+  create: (
+    context: SubAgentContext,
+  ) => Promise<AgentSpec | null> | AgentSpec | null;
+}
+
+const mcpServerSchema = z.object({
+  url: z.url(),
+  /** Values may reference environment variables as `${NAME}` */
+  headers: z.record(z.string(), z.string()).default({}),
+});
+
+const subAgentEntrySchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  systemPrompt: z.string().min(1),
+  enabled: z.boolean().default(true),
+  modelRole: z.enum(MODEL_ROLES).default('subagent'),
+  mcpServers: z.record(z.string(), mcpServerSchema).default({}),
+  /** Names of main-agent tools to share with the sub-agent */
+  tools: z.array(z.string()).default([]),
+  forwardTools: z.array(z.string()).default([]),
+  middleware: z.array(middlewareEntrySchema).default([]),
+});
+
+const subAgentsConfigSchema = z.array(subAgentEntrySchema);
+
+export type SubAgentEntry = z.input<typeof subAgentEntrySchema>;
+
+/** Tool names taken by the sub-agents wired directly in `createMainAgent` */
+const BUILT_IN_TOOL_NAMES = new Set(
+  [
+    'Portal Agent',
+    'Memory Agent',
+    'Firecrawl Agent',
+    'Domain Indexer Agent',
+    'AG-UI Agent',
+    'Editor Agent',
+    'Task Manager',
+  ].map(getSubagentToolName),
+);
+
+const registry = new Map<string, SubAgentDefinition>();
+
+/**
+ * Register a sub-agent from code (e.g. a deployment-specific plugin module).
+ * Names must not collide with built-in or already registered sub-agents.
+ */
+export function registerSubAgent(definition: SubAgentDefinition): void {
+  const toolName = getSubagentToolName(definition.name);
+  if (BUILT_IN_TOOL_NAMES.has(toolName) || registry.has(toolName)) {
+    throw new Error(`Sub-agent "${definition.name}" is already registered`);
+  }
+  registry.set(toolName, definition);
+}
+
+async function loadMcpTools(
+  entry: z.infer<typeof subAgentEntrySchema>,
+): Promise<StructuredTool[]> {
+  const tools = await Promise.all(
+    Object.entries(entry.mcpServers).map(([serverName, server]) =>
+      getSubAgentMCPTools(entry.name, serverName, {
+        type: 'http',
+        transport: 'http',
+        url: server.url,
+        headers: Object.fromEntries(
+          Object.entries(server.headers).map(([header, value]) => [
+            header,
+            resolveEnvPlaceholders(value, `${entry.name} (${serverName})`),
+          ]),
+        ),
+      }),
+    ),
+  );
+  return tools.flat();
+}
+
+/** Turn a declared entry into a definition that builds its AgentSpec */
+export function toSubAgentDefinition(entry: SubAgentEntry): SubAgentDefinition {
+  const parsed = subAgentEntrySchema.parse(entry);
+
+  return {
+    name: parsed.name,
+    forwardTools: parsed.forwardTools,
+    create: async ({ userDid, sessionId, parentTools }) => {
+      const sharedTools = parsed.tools.map((toolName) => {
+        const shared = parentTools.find((t) => t.name === toolName);
+        if (!shared) {
+          throw new Error(`Tool "${toolName}" is not available`);
+        }
+        return shared;
+      });
+      const mcpTools = await loadMcpTools(parsed);
+
+      return {
+        name: parsed.name,
+        description: parsed.description,
+        systemPrompt: parsed.systemPrompt,
+        model: getProviderChatModel(parsed.modelRole, {}),
+        tools: [...mcpTools, ...sharedTools],
+        middleware: buildMiddlewareFromEntries(
+          parsed.middleware,
+          `${parsed.name} sub-agent`,
+        ),
+        userDid,
+        sessionId,
+      };
+    },
+  };
+}
+
+let configuredDefinitions: SubAgentDefinition[] | undefined;
+
+function getConfiguredDefinitions(): SubAgentDefinition[] {
+  if (!configuredDefinitions) {
+    const raw = (oracleConfig as { subAgents?: unknown }).subAgents ?? [];
+    const result = subAgentsConfigSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(
+        `Invalid "subAgents" section in oracle.config.json: ${result.error.message}`,
+      );
+    }
+    configuredDefinitions = result.data
+      .filter((entry) => entry.enabled)
+      .map(toSubAgentDefinition);
+  }
+  return configuredDefinitions;
+}
+
+/**
+ * All custom sub-agents: declared ones first, then registered ones.
+ * Declared names go through the same collision check as registered ones.
+ */
+export function getCustomSubAgents(): SubAgentDefinition[] {
+  const seen = new Set(BUILT_IN_TOOL_NAMES);
+  const definitions: SubAgentDefinition[] = [];
+
+  for (const definition of [
+    ...getConfiguredDefinitions(),
+    ...registry.values(),
+  ]) {
+    const toolName = getSubagentToolName(definition.name);
+    if (seen.has(toolName)) {
+      Logger.error(
+        `[SubAgentRegistry] Skipping sub-agent "${definition.name}" — ${toolName} is already taken`,
+      );
+      continue;
+    }
+    seen.add(toolName);
+    definitions.push(definition);
+  }
+
+  return definitions;
+}
@@ -252,6 +252,19 @@ Some tasks benefit from having the user review results before they're delivered.
 - If a task was auto-paused after repeated rejections: "The task was paused because it couldn't produce a result you were happy with. Want to update the instructions and try again?"
 - Use \`set_approval_gate\` to toggle approval on existing tasks.
 
+## Task Chains
+
+Some workflows are a sequence: "scrape the news, then summarize it, then email me the summary". Create one task per step and link them with \`dependsOnTaskId\` instead of staggering schedules.
+
+**How it works:**
+- The first task has the schedule. Each following task sets \`dependsOnTaskId\` to the task before it and has NO schedule of its own.
+- When a task delivers a result, the next task in the chain runs immediately with that result as its input.
+- Chains are linear (each task depends on exactly one other task) and at most 5 tasks long.
+- Only Flow tasks (research, reports, monitors, scheduled actions) can be chained after another task.
+- Pausing or cancelling a task also pauses or cancels every task after it in the chain.
+
+**Communication:** Describe the chain in plain language: "Every morning at 8 I'll collect the news, then summarize it right after."
+
 ## Lifecycle Management
 
 You can pause, resume, cancel, and reschedule existing tasks.
@@ -98,6 +98,7 @@ export function createTaskManagerTools(
         notes: input.notes,
         spaceId,
         requiresApproval: input.requiresApproval,
+        dependsOn: input.dependsOnTaskId ? [input.dependsOnTaskId] : undefined,
       });
 
       return JSON.stringify({
@@ -108,6 +109,7 @@ export function createTaskManagerTools(
         roomId: result.roomId,
         nextRunAt: result.taskMeta.nextRunAt,
         hasPage,
+        dependsOn: result.taskMeta.dependsOn,
       });
     },
     {
@@ -197,9 +199,24 @@ export function createTaskManagerTools(
             .describe(
               'Whether results require user approval before delivery. Set to true when the user asks to "confirm", "review", "check with me", or "approve" results before they are sent.',
             ),
+          dependsOnTaskId: z
+            .string()
+            .optional()
+            .describe(
+              'Task ID of the upstream task in a chain. The new task has no schedule of its own — it runs each time the upstream task delivers, with the upstream result as input. Flow task types only; chains are linear and max 5 tasks long.',
+            ),
         })
+        .refine(
+          (data) =>
+            !data.dependsOnTaskId || (!data.scheduleCron && !data.deadlineIso),
+          {
+            message:
+              'A chained task (dependsOnTaskId) cannot have its own scheduleCron or deadlineIso',
+          },
+        )
         .refine(
           (data) => {
+            if (data.dependsOnTaskId) return true;
             if (['reminder', 'monitor'].includes(data.taskType)) {
               return data.scheduleCron || data.deadlineIso;
             }
@@ -162,6 +162,7 @@ export class MainAgentGraph {
         },
         context: {
           userDid: runnableConfig.configurable.configs?.user.did ?? '',
+          sessionId: runnableConfig.configurable.sessionId,
         },
         durability: 'async',
       },
@@ -263,6 +264,7 @@ export class MainAgentGraph {
         },
         context: {
           userDid: runnableConfig.configurable.configs?.user.did ?? '',
+          sessionId: runnableConfig.configurable.sessionId,
         },
         // Signal must be last to ensure it's not overwritten by runnableConfig spread
         signal: abortController?.signal,
@@ -1,6 +1,7 @@
 import {
   getChatOpenAiModel,
   getLLMProvider,
+  getOpenAiEmbeddings,
   getOpenRouterChatModel,
   type LLMProvider,
 } from '@ixo/common';
@@ -144,6 +145,19 @@ export const getProviderChatModel = (
   });
 };
 
+/**
+ * Provider-aware embeddings client for the `embedding` role.
+ * Both providers expose an OpenAI-compatible `/embeddings` endpoint.
+ */
+export const getProviderEmbeddings = () => {
+  const { baseURL, apiKey, headers } = getProviderConfig();
+  return getOpenAiEmbeddings({
+    model: getModelForRole('embedding'),
+    apiKey,
+    configuration: { baseURL, defaultHeaders: headers },
+  });
+};
+
 // ---------------------------------------------------------------------------
 // Per-model pricing cache
 // ---------------------------------------------------------------------------
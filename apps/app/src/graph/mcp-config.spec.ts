@@ -0,0 +1,121 @@
+import {
+  getUCANProtectedMCPServers,
+  isMCPToolAllowed,
+  parseMCPConfig,
+} from './mcp-config';
+
+describe('mcp-config', () => {
+  describe('parseMCPConfig', () => {
+    it('defaults HTTP transport and server options', () => {
+      const config = parseMCPConfig(
+        { mcpServers: { docs: { url: 'https://docs.example.com/mcp' } } },
+        'test',
+      );
+      expect(config.mcpServers.docs).toEqual({
+        transport: 'http',
+        url: 'https://docs.example.com/mcp',
+        headers: {},
+        enabled: true,
+        requiresUcan: false,
+        denyTools: [],
+      });
+    });
+
+    it('resolves env placeholders in headers and stdio env', () => {
+      process.env.MCP_CONFIG_SPEC_TOKEN = 'secret';
+      const config = parseMCPConfig(
+        {
+          mcpServers: {
+            docs: {
+              url: 'https://docs.example.com/mcp',
+              headers: { Authorization: 'Bearer ${MCP_CONFIG_SPEC_TOKEN}' },
+            },
+            local: {
+              transport: 'stdio',
+              command: 'npx',
+              env: { TOKEN: '${MCP_CONFIG_SPEC_TOKEN}' },
+            },
+          },
+        },
+        'test',
+      );
+      expect(config.mcpServers.docs).toMatchObject({
+        headers: { Authorization: 'Bearer secret' },
+      });
+      expect(config.mcpServers.local).toMatchObject({
+        env: { TOKEN: 'secret' },
+      });
+      delete process.env.MCP_CONFIG_SPEC_TOKEN;
+    });
+
+    it('rejects missing env variables', () => {
+      expect(() =>
+        parseMCPConfig(
+          {
+            mcpServers: {
+              docs: {
+                url: 'https://docs.example.com/mcp',
+                headers: { 'x-key': '${MCP_CONFIG_SPEC_UNSET}' },
+              },
+            },
+          },
+          'test',
+        ),
+      ).toThrow(/MCP_CONFIG_SPEC_UNSET/);
+    });
+
+    it('rejects invalid servers and names', () => {
+      expect(() =>
+        parseMCPConfig({ mcpServers: { docs: { url: 'not a url' } } }, 'test'),
+      ).toThrow(/Invalid MCP config in test/);
+      expect(() =>
+        parseMCPConfig(
+          { mcpServers: { a__b: { url: 'https://a.example.com' } } },
+          'test',
+        ),
+      ).toThrow(/Invalid MCP config/);
+      expect(() =>
+        parseMCPConfig(
+          { mcpServers: { local: { transport: 'stdio' } } },
+          'test',
+        ),
+      ).toThrow(/Invalid MCP config/);
+    });
+  });
+
+  it('applies allow and deny lists', () => {
+    const { mcpServers } = parseMCPConfig(
+      {
+        mcpServers: {
+          docs: {
+            url: 'https://docs.example.com/mcp',
+            allowTools: ['search', 'fetch'],
+            denyTools: ['fetch'],
+          },
+        },
+      },
+      'test',
+    );
+    expect(isMCPToolAllowed(mcpServers.docs, 'search')).toBe(true);
+    expect(isMCPToolAllowed(mcpServers.docs, 'fetch')).toBe(false);
+    expect(isMCPToolAllowed(mcpServers.docs, 'delete')).toBe(false);
+  });
+
+  it('lists enabled UCAN-protected servers', () => {
+    const config = parseMCPConfig(
+      {
+        mcpServers: {
+          open: { url: 'https://open.example.com' },
+          locked: { url: 'https://locked.example.com', requiresUcan: true },
+          off: {
+            url: 'https://off.example.com',
+            requiresUcan: true,
+            enabled: false,
+          },
+        },
+      },
+      'test',
+    );
+    expect(getUCANProtectedMCPServers(config)).toEqual(['locked']);
+  });
+});
@@ -0,0 +1,281 @@
+import { type Connection } from '@langchain/mcp-adapters';
+import { Logger } from '@nestjs/common';
+import fs from 'node:fs';
+import path from 'node:path';
+import z from 'zod';
+
+/**
+ * MCP servers are configured at run time — from the JSON file at
+ * `MCP_CONFIG_PATH` and/or the `MCP_SERVERS_JSON` environment variable
+ * (same shape; its servers win on name clashes):
+ *
+ * ```json
+ * {
+ *   "mcpServers": {
+ *     "postgres": {
+ *       "transport": "stdio",
+ *       "command": "docker",
+ *       "args": ["run", "-i", "--rm", "-e", "DATABASE_URI", "crystaldba/postgres-mcp"],
+ *       "env": { "DATABASE_URI": "${POSTGRES_URI}" },
+ *       "denyTools": ["execute_sql"],
+ *       "requiresUcan": true
+ *     },
+ *     "docs": {
+ *       "url": "https://docs.example.com/mcp",
+ *       "headers": { "Authorization": "Bearer ${DOCS_API_KEY}" },
+ *       "allowTools": ["search"]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * The config is validated at boot. The file is watched afterwards: a valid
+ * edit takes effect on the next request, an invalid one is logged and the
+ * previous config is kept.
+ */
+
+const serverOptions = {
+  enabled: z.boolean().default(true),
+  /** Tools from this server are wrapped with UCAN validation */
+  requiresUcan: z.boolean().default(false),
+  /** Unprefixed tool names to expose — all when omitted */
+  allowTools: z.array(z.string()).optional(),
+  /** Unprefixed tool names to hide */
+  denyTools: z.array(z.string()).default([]),
+};
+
+const stdioServerSchema = z.object({
+  transport: z.literal('stdio'),
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+  cwd: z.string().optional(),
+  ...serverOptions,
+});
+
+const httpServerSchema = z.object({
+  transport: z.enum(['http', 'sse']).default('http'),
+  url: z.url(),
+  headers: z.record(z.string(), z.string()).default({}),
+  ...serverOptions,
+});
+
+const serverNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, "-" and "_" only')
+  .refine((name) => !name.includes('__'), {
+    message: '"__" separates server and tool names',
+  });
+
+const mcpConfigSchema = z.object({
+  mcpServers: z
+    .record(serverNameSchema, z.union([stdioServerSchema, httpServerSchema]))
+    .default({}),
+});
+
+export type MCPServerConfig = z.infer<
+  typeof stdioServerSchema | typeof httpServerSchema
+>;
+export type MCPServersConfig = z.infer<typeof mcpConfigSchema>;
+
+/**
+ * Replace `${NAME}` placeholders with environment variables.
+ * @throws If a referenced variable is not set
+ */
+export function resolveEnvPlaceholders(value: string, owner: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      throw new Error(
+        `Environment variable ${name} referenced by ${owner} is not set`,
+      );
+    }
+    return resolved;
+  });
+}
+
+function resolveRecord(
+  record: Record<string, string>,
+  owner: string,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      resolveEnvPlaceholders(value, owner),
+    ]),
+  );
+}
+
+/**
+ * Validate a raw config object, resolving env placeholders.
+ * @throws With every validation issue when the config is invalid
+ */
+export function parseMCPConfig(raw: unknown, source: string): MCPServersConfig {
+  const result = mcpConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid MCP config in ${source}: ${result.error.message}`);
+  }
+
+  const mcpServers = Object.fromEntries(
+    Object.entries(result.data.mcpServers).map(([name, server]) => {
+      const owner = `MCP server "${name}" (${source})`;
+      return [
+        name,
+        server.transport === 'stdio'
+          ? { ...server, env: resolveRecord(server.env, owner) }
+          : { ...server, headers: resolveRecord(server.headers, owner) },
+      ];
+    }),
+  );
+  return { mcpServers };
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${source}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function readConfigSources(): MCPServersConfig {
+  const configPath = process.env.MCP_CONFIG_PATH;
+  const inlineJson = process.env.MCP_SERVERS_JSON;
+
+  const fromFile = configPath
+    ? parseMCPConfig(
+        parseJson(
+          fs.readFileSync(path.resolve(configPath), 'utf8'),
+          configPath,
+        ),
+        configPath,
+      )
+    : { mcpServers: {} };
+  const fromEnv = inlineJson
+    ? parseMCPConfig(
+        parseJson(inlineJson, 'MCP_SERVERS_JSON'),
+        'MCP_SERVERS_JSON',
+      )
+    : { mcpServers: {} };
+
+  return {
+    mcpServers: { ...fromFile.mcpServers, ...fromEnv.mcpServers },
+  };
+}
+
+type MCPConfigListener = (
+  next: MCPServersConfig,
+  previous: MCPServersConfig,
+) => void;
+
+let currentConfig: MCPServersConfig | undefined;
+const listeners = new Set<MCPConfigListener>();
+
+function watchConfigFile(configPath: string): void {
+  fs.watchFile(path.resolve(configPath), { interval: 2000 }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    reloadMCPConfig();
+  }).unref();
+  Logger.log(`[MCPConfig] Watching ${configPath} for changes`);
+}
+
+/**
+ * Load and validate the MCP config. Called at boot so a broken config stops
+ * the oracle from starting; later calls return the cached config.
+ */
+export function getMCPConfig(): MCPServersConfig {
+  if (!currentConfig) {
+    currentConfig = readConfigSources();
+    const names = Object.keys(currentConfig.mcpServers);
+    Logger.log(
+      `[MCPConfig] Loaded ${names.length} MCP server(s)${names.length ? `: ${names.join(', ')}` : ''}`,
+    );
+    if (process.env.MCP_CONFIG_PATH) {
+      watchConfigFile(process.env.MCP_CONFIG_PATH);
+    }
+  }
+  return currentConfig;
+}
+
+/**
+ * Re-read the config sources and notify listeners.
+ * @returns Whether the new config was applied
+ */
+export function reloadMCPConfig(): boolean {
+  const previous = getMCPConfig();
+  let next: MCPServersConfig;
+  try {
+    next = readConfigSources();
+  } catch (error) {
+    Logger.error(
+      `[MCPConfig] Reload failed, keeping previous config: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return false;
+  }
+
+  currentConfig = next;
+  Logger.log(
+    `[MCPConfig] Reloaded ${Object.keys(next.mcpServers).length} MCP server(s)`,
+  );
+  for (const listener of listeners) {
+    try {
+      listener(next, previous);
+    } catch (error) {
+      Logger.error('[MCPConfig] Config change listener failed:', error);
+    }
+  }
+  return true;
+}
+
+/** Subscribe to config reloads. Returns an unsubscribe function. */
+export function onMCPConfigChange(listener: MCPConfigListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Enabled servers, in config order */
+export function getEnabledMCPServers(
+  config: MCPServersConfig = getMCPConfig(),
+): Array<[string, MCPServerConfig]> {
+  return Object.entries(config.mcpServers).filter(
+    ([, server]) => server.enabled,
+  );
+}
+
+/** Names of enabled servers marked `requiresUcan` */
+export function getUCANProtectedMCPServers(
+  config: MCPServersConfig = getMCPConfig(),
+): string[] {
+  return getEnabledMCPServers(config)
+    .filter(([, server]) => server.requiresUcan)
+    .map(([name]) => name);
+}
+
+/** Connection settings for `MultiServerMCPClient` */
+export function toMCPConnection(server: MCPServerConfig): Connection {
+  if (server.transport === 'stdio') {
+    return {
+      transport: 'stdio',
+      command: server.command,
+      args: server.args,
+      env: server.env,
+      ...(server.cwd ? { cwd: server.cwd } : {}),
+    };
+  }
+  return {
+    transport: server.transport,
+    url: server.url,
+    headers: server.headers,
+  };
+}
+
+/** Apply the server's allow/deny lists to an unprefixed tool name */
+export function isMCPToolAllowed(
+  server: MCPServerConfig,
+  toolName: string,
+): boolean {
+  if (server.denyTools.includes(toolName)) return false;
+  return !server.allowTools || server.allowTools.includes(toolName);
+}
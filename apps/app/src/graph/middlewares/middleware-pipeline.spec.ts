@@ -0,0 +1,58 @@
+import { buildMiddlewarePipeline } from './middleware-pipeline';
+
+const env: Record<string, unknown> = { DISABLE_CREDITS: false };
+
+vi.mock('src/config', () => ({
+  getConfig: () => ({ get: (key: string) => env[key] }),
+  isRedisEnabled: () => true,
+}));
+vi.mock('../../../oracle.config.json', () => ({ default: {} }));
+vi.mock('./token-limiter-middelware', () => ({
+  createTokenLimiterMiddleware: () => ({ name: 'TokenLimiterMiddleware' }),
+}));
+vi.mock('./summarization-middleware', () => ({
+  createSummarizationMiddleware: () => ({ name: 'SummarizationMiddleware' }),
+}));
+vi.mock('./page-context-middleware', () => ({
+  createPageContextMiddleware: () => ({ name: 'PageContextMiddleware' }),
+}));
+vi.mock('./safety-guardrail-middleware', () => ({
+  createSafetyGuardrailMiddleware: () => ({ name: 'SafetyGuardrail' }),
+}));
+vi.mock('./tool-validation-middleware', () => ({
+  createToolValidationMiddleware: () => ({ name: 'ToolValidation' }),
+}));
+
+const names = (...args: Parameters<typeof buildMiddlewarePipeline>) =>
+  buildMiddlewarePipeline(...args).map(({ name }) => name);
+
+describe('buildMiddlewarePipeline', () => {
+  beforeEach(() => {
+    env.DISABLE_CREDITS = false;
+  });
+
+  it('keeps the token limiter where the pipeline lists it', () => {
+    expect(
+      names('subAgent', {
+        subAgent: [{ name: 'tokenLimiter' }, { name: 'summarization' }],
+      }),
+    ).toEqual(['TokenLimiterMiddleware', 'SummarizationMiddleware']);
+  });
+
+  it('adds the token limiter when the pipeline leaves it out', () => {
+    expect(
+      names('subAgent', { subAgent: [{ name: 'summarization' }] }),
+    ).toEqual(['SummarizationMiddleware', 'TokenLimiterMiddleware']);
+    expect(
+      names('mainAgent', {
+        mainAgent: [{ name: 'tokenLimiter', enabled: false }],
+      }),
+    ).toEqual(['TokenLimiterMiddleware']);
+  });
+
+  it('leaves the token limiter out when credits are disabled', () => {
+    env.DISABLE_CREDITS = true;
+
+    expect(names('subAgent', { subAgent: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,223 @@
+import { Logger } from '@nestjs/common';
+import { type AgentMiddleware, toolRetryMiddleware } from 'langchain';
+import { getConfig, isRedisEnabled } from 'src/config';
+import z from 'zod';
+import oracleConfig from '../../../oracle.config.json';
+import { createPageContextMiddleware } from './page-context-middleware';
+import { createSafetyGuardrailMiddleware } from './safety-guardrail-middleware';
+import { createSummarizationMiddleware } from './summarization-middleware';
+import { createTokenLimiterMiddleware } from './token-limiter-middelware';
+import { createToolValidationMiddleware } from './tool-validation-middleware';
+
+/**
+ * Middleware pipelines declared in `oracle.config.json`:
+ *
+ * ```json
+ * "middleware": {
+ *   "mainAgent": [
+ *     { "name": "toolValidation" },
+ *     { "name": "safetyGuardrail", "enabled": true, "options": { "modelRole": "guard" } }
+ *   ],
+ *   "subAgent": [
+ *     { "name": "summarization", "options": { "triggerMessageCount": 30 } },
+ *     { "name": "tokenLimiter" }
+ *   ]
+ * }
+ * ```
+ *
+ * Entries run in the order listed. A pipeline that is omitted falls back to
+ * the defaults below; disabled entries are skipped. Custom middleware can be
+ * added with `registerMiddleware()` before the first agent is built.
+ */
+
+export type MiddlewarePipelineName = 'mainAgent' | 'subAgent';
+
+/** Builds a middleware from its validated options. Returns null to skip it. */
+export type MiddlewareFactory = (
+  options: Record<string, unknown>,
+) => AgentMiddleware | null;
+
+export const MODEL_ROLES = [
+  'main',
+  'skills',
+  'subagent',
+  'vision',
+  'guard',
+  'routing',
+  'session-title',
+  'custom_medium',
+  'custom_low',
+] as const;
+
+export const middlewareEntrySchema = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  options: z.record(z.string(), z.unknown()).default({}),
+});
+
+const middlewareConfigSchema = z.object({
+  mainAgent: z.array(middlewareEntrySchema).optional(),
+  subAgent: z.array(middlewareEntrySchema).optional(),
+});
+
+export type MiddlewareEntry = z.input<typeof middlewareEntrySchema>;
+
+const safetyGuardrailOptionsSchema = z.object({
+  modelRole: z.enum(MODEL_ROLES).optional(),
+  blockedMessage: z.string().optional(),
+});
+
+const summarizationOptionsSchema = z.object({
+  triggerMessageCount: z.number().int().positive().optional(),
+  messagesToKeep: z.number().int().positive().optional(),
+  trimTokenLimit: z.number().int().positive().optional(),
+  modelRole: z.enum(MODEL_ROLES).optional(),
+});
+
+const toolRetryOptionsSchema = z.object({
+  maxRetries: z.number().int().min(0).optional(),
+  tools: z.array(z.string()).optional(),
+  backoffFactor: z.number().min(0).optional(),
+  initialDelayMs: z.number().int().min(0).optional(),
+  maxDelayMs: z.number().int().min(0).optional(),
+  jitter: z.boolean().optional(),
+});
+
+const registry = new Map<string, MiddlewareFactory>([
+  ['toolValidation', () => createToolValidationMiddleware()],
+  [
+    'toolRetry',
+    (options) => toolRetryMiddleware(toolRetryOptionsSchema.parse(options)),
+  ],
+  ['pageContext', () => createPageContextMiddleware()],
+  [
+    'tokenLimiter',
+    () => {
+      // Credits are only tracked when Redis is available
+      const disableCredits = getConfig().get('DISABLE_CREDITS');
+      if (disableCredits || !isRedisEnabled()) return null;
+      return createTokenLimiterMiddleware();
+    },
+  ],
+  [
+    'safetyGuardrail',
+    (options) =>
+      createSafetyGuardrailMiddleware(
+        safetyGuardrailOptionsSchema.parse(options),
+      ),
+  ],
+  [
+    'summarization',
+    (options) =>
+      createSummarizationMiddleware(summarizationOptionsSchema.parse(options)),
+  ],
+]);
+
+const DEFAULT_PIPELINES: Record<MiddlewarePipelineName, MiddlewareEntry[]> = {
+  mainAgent: [
+    { name: 'toolValidation' },
+    { name: 'toolRetry' },
+    { name: 'pageContext' },
+    { name: 'tokenLimiter' },
+  ],
+  subAgent: [{ name: 'summarization' }, { name: 'tokenLimiter' }],
+};
+
+/**
+ * Register a custom middleware factory so it can be referenced by name
+ * from `oracle.config.json`. Built-in names cannot be overridden.
+ */
+export function registerMiddleware(
+  name: string,
+  factory: MiddlewareFactory,
+): void {
+  if (registry.has(name)) {
+    throw new Error(`Middleware "${name}" is already registered`);
+  }
+  registry.set(name, factory);
+}
+
+let parsedConfig: z.infer<typeof middlewareConfigSchema> | undefined;
+
+function getMiddlewareConfig(): z.infer<typeof middlewareConfigSchema> {
+  if (!parsedConfig) {
+    const raw = (oracleConfig as { middleware?: unknown }).middleware ?? {};
+    const result = middlewareConfigSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(
+        `Invalid "middleware" section in oracle.config.json: ${result.error.message}`,
+      );
+    }
+    parsedConfig = result.data;
+  }
+  return parsedConfig;
+}
+
+/**
+ * Resolve the ordered entries for a pipeline, falling back to the defaults.
+ */
+export function resolveMiddlewareEntries(
+  pipeline: MiddlewarePipelineName,
+  config: z.input<typeof middlewareConfigSchema> = getMiddlewareConfig(),
+): z.infer<typeof middlewareEntrySchema>[] {
+  const entries = config[pipeline] ?? DEFAULT_PIPELINES[pipeline];
+  return entries.map((entry) => middlewareEntrySchema.parse(entry));
+}
+
+/**
+ * Build the middleware stack for a pipeline from `oracle.config.json`.
+ * Throws on unknown names or invalid options so misconfiguration surfaces
+ * on the first request instead of silently dropping a safety check.
+ *
+ * `tokenLimiter` is added at the end when the pipeline doesn't enable it:
+ * whether model calls are billed is up to `DISABLE_CREDITS`, not the config.
+ */
+export function buildMiddlewarePipeline(
+  pipeline: MiddlewarePipelineName,
+  config?: z.input<typeof middlewareConfigSchema>,
+): AgentMiddleware[] {
+  const entries = resolveMiddlewareEntries(pipeline, config);
+  if (
+    !entries.some((entry) => entry.name === 'tokenLimiter' && entry.enabled)
+  ) {
+    entries.push(middlewareEntrySchema.parse({ name: 'tokenLimiter' }));
+  }
+  return buildMiddlewareFromEntries(entries, `${pipeline} pipeline`);
+}
+
+/**
+ * Build a middleware stack from an explicit list of entries, e.g. the
+ * `middleware` of a declared sub-agent. `label` names the owner in errors.
+ */
+export function buildMiddlewareFromEntries(
+  entries: MiddlewareEntry[],
+  label: string,
+): AgentMiddleware[] {
+  const middleware: AgentMiddleware[] = [];
+
+  for (const entry of entries.map((e) => middlewareEntrySchema.parse(e))) {
+    if (!entry.enabled) continue;
+
+    const factory = registry.get(entry.name);
+    if (!factory) {
+      throw new Error(
+        `Unknown middleware "${entry.name}" in ${label} — available: ${[...registry.keys()].join(', ')}`,
+      );
+    }
+
+    try {
+      const instance = factory(entry.options);
+      if (instance) middleware.push(instance);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Invalid options for middleware "${entry.name}" in ${label}: ${message}`,
+      );
+    }
+  }
+
+  Logger.debug(
+    `[MiddlewarePipeline] ${label}: ${middleware.map((m) => m.name).join(', ') || 'none'}`,
+  );
+  return middleware;
+}
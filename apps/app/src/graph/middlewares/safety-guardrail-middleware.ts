@@ -1,13 +1,26 @@
 import { RemoveMessage } from '@langchain/core/messages';
 import { Logger } from '@nestjs/common';
 import { type AgentMiddleware, AIMessage, createMiddleware } from 'langchain';
-import { getProviderChatModel } from '../llm-provider';
+import { getProviderChatModel, type ModelRole } from '../llm-provider';
 
-const safetyModel = getProviderChatModel('guard', {
-  __includeRawResponse: false,
-});
+const DEFAULT_BLOCKED_MESSAGE =
+  "I'm sorry, but I can't provide that information.";
+
+export interface SafetyGuardrailOptions {
+  /** Model role used to judge responses. Default: 'guard' */
+  modelRole?: ModelRole;
+  /** Reply that replaces a response judged unsafe */
+  blockedMessage?: string;
+}
+
+export const createSafetyGuardrailMiddleware = (
+  options: SafetyGuardrailOptions = {},
+): AgentMiddleware => {
+  const safetyModel = getProviderChatModel(options.modelRole ?? 'guard', {
+    __includeRawResponse: false,
+  });
+  const blockedMessage = options.blockedMessage ?? DEFAULT_BLOCKED_MESSAGE;
 
-export const createSafetyGuardrailMiddleware = (): AgentMiddleware => {
   return createMiddleware({
     name: 'SafetyGuardrailMiddleware',
     afterAgent: {
@@ -81,7 +94,7 @@ ALWAYS mark as SAFE if the response:
           return {
             messages: [
               new RemoveMessage({ id: lastMessage.id ?? '' }),
-              new AIMessage("I'm sorry, but I can't provide that information."),
+              new AIMessage(blockedMessage),
             ],
             jumpTo: 'end',
           };
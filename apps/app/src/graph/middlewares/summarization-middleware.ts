@@ -16,7 +16,7 @@ import {
   type AgentMiddleware,
 } from 'langchain';
 import { randomUUID } from 'node:crypto';
-import { getProviderChatModel } from '../llm-provider';
+import { getProviderChatModel, type ModelRole } from '../llm-provider';
 
 type TokenCounter = (messages: BaseMessage[]) => number | Promise<number>;
 
@@ -239,13 +239,15 @@ async function trimMessagesForSummary(
 async function createSummaryText(
   messagesToSummarize: BaseMessage[],
   tokenCounter: TokenCounter,
+  trimTokenLimit: number,
+  modelRole: ModelRole,
 ): Promise<string> {
   if (!messagesToSummarize.length) return 'No previous conversation history.';
 
   const trimmed = await trimMessagesForSummary(
     messagesToSummarize,
     tokenCounter,
-    TRIM_TOKEN_LIMIT,
+    trimTokenLimit,
   );
   if (!trimmed.length)
     return 'Previous conversation was too long to summarize.';
@@ -254,7 +256,7 @@ async function createSummaryText(
   const prompt = SUMMARY_PROMPT.replace('{messages}', formatted);
 
   try {
-    const model = getProviderChatModel('routing');
+    const model = getProviderChatModel(modelRole);
     const response = await model.invoke(prompt);
     const content = response.content;
 
@@ -280,15 +282,33 @@ async function createSummaryText(
 // Middleware export
 // ---------------------------------------------------------------------------
 
-export const createSummarizationMiddleware = (): AgentMiddleware => {
+export interface SummarizationOptions {
+  /** Summarize once the thread reaches this many messages. Default: 20 */
+  triggerMessageCount?: number;
+  /** Most recent messages kept verbatim after summarizing. Default: 10 */
+  messagesToKeep?: number;
+  /** Token budget of the history sent to the summary model. Default: 4000 */
+  trimTokenLimit?: number;
+  /** Model role used to write the summary. Default: 'routing' */
+  modelRole?: ModelRole;
+}
+
+export const createSummarizationMiddleware = (
+  options: SummarizationOptions = {},
+): AgentMiddleware => {
   const logger = new Logger('SummarizationMiddleware');
+  const triggerMessageCount =
+    options.triggerMessageCount ?? TRIGGER_MESSAGE_COUNT;
+  const messagesToKeep = options.messagesToKeep ?? MESSAGES_TO_KEEP;
+  const trimTokenLimit = options.trimTokenLimit ?? TRIM_TOKEN_LIMIT;
+  const modelRole = options.modelRole ?? 'routing';
 
   return createMiddleware({
     name: 'SummarizationMiddleware',
 
     beforeModel: async (state) => {
       const { messages } = state;
-      if (messages.length < TRIGGER_MESSAGE_COUNT) return;
+      if (messages.length < triggerMessageCount) return;
 
       ensureMessageIds(messages);
 
@@ -296,7 +316,7 @@ export const createSummarizationMiddleware = (): AgentMiddleware => {
       const totalTokens = await tokenCounter(messages);
 
       // Check trigger: message count
-      if (messages.length < TRIGGER_MESSAGE_COUNT) return;
+      if (messages.length < triggerMessageCount) return;
 
       logger.log(
         `Triggering summarization: ${messages.length} messages, ~${totalTokens} tokens`,
@@ -305,10 +325,7 @@ export const createSummarizationMiddleware = (): AgentMiddleware => {
       const { systemPrompt, conversationMessages } =
         splitSystemMessage(messages);
 
-      const cutoffIndex = findSafeCutoff(
-        conversationMessages,
-        MESSAGES_TO_KEEP,
-      );
+      const cutoffIndex = findSafeCutoff(conversationMessages, messagesToKeep);
       if (cutoffIndex <= 0) return;
 
       const { messagesToSummarize, preservedMessages } = partitionMessages(
@@ -320,6 +337,8 @@ export const createSummarizationMiddleware = (): AgentMiddleware => {
       const summaryText = await createSummaryText(
         messagesToSummarize,
         tokenCounter,
+        trimTokenLimit,
+        modelRole,
       );
 
       const summaryMessage = new HumanMessage({
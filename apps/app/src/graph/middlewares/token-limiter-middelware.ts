@@ -2,53 +2,56 @@ import type { InteropZodObject } from '@langchain/core/utils/types';
 import { Logger } from '@nestjs/common';
 import {
   type AgentMiddleware,
+  AIMessage,
   AIMessageChunk,
   createMiddleware,
 } from 'langchain';
-import { getConfig, isRedisEnabled } from 'src/config';
-import { TokenLimiter, TokenLimiterError } from 'src/utils/token-limit-handler';
-import { getModelPricing } from '../llm-provider';
+import { UsageAccounting } from 'src/usage/usage-accounting';
+import { TokenLimiterError } from 'src/utils/token-limit-handler';
 import { contextSchema, type TChatNodeContext } from '../types';
 
-const config = getConfig();
+const outOfCreditsMessage = (remaining?: number) =>
+  new AIMessage({
+    content: `Looks like you have run out of tokens. Please upgrade your plan or topup your balance. You have ${remaining?.toFixed(2) ?? 0} tokens remaining.`,
+  });
+
+/**
+ * Checks the user's balance before each model call and charges the call
+ * afterwards. Used by the main agent and sub-agents alike; sub-agents set
+ * `agentName` in the runtime context so their usage is attributed to them.
+ */
 const createTokenLimiterMiddleware = (): AgentMiddleware => {
   return createMiddleware({
     name: 'TokenLimiterMiddleware',
     contextSchema: contextSchema as unknown as InteropZodObject,
-    beforeModel: async (state, runtime) => {
-      const disableCredits = config.get('DISABLE_CREDITS');
-      if (disableCredits || !isRedisEnabled()) {
-        Logger.debug('Token limiting skipped (credits disabled or no Redis)');
-        return state;
-      }
-      if (!runtime.context) {
-        throw new Error('Runtime context required for token limiting');
-      }
-
-      const { userDid } = runtime.context as TChatNodeContext;
-      if (!userDid) {
-        throw new Error('User DID is required for token management');
-      }
-
-      Logger.debug(`Checking token balance for user ${userDid}`);
-
-      const remaining = await TokenLimiter.getRemaining(userDid);
-
-      Logger.debug(`Remaining tokens: ${remaining} for user ${userDid}`);
+    beforeModel: {
+      canJumpTo: ['end'],
+      hook: async (_state, runtime) => {
+        if (!UsageAccounting.isEnabled()) {
+          Logger.debug('Token limiting skipped (credits disabled or no Redis)');
+          return;
+        }
+        if (!runtime.context) {
+          throw new Error('Runtime context required for token limiting');
+        }
 
-      if (remaining <= 0) {
-        return {
-          ...state,
-          messages: [
-            ...state.messages,
-            new AIMessageChunk({
-              content: `Looks like you have run out of tokens. Please upgrade your plan or topup your balance. You have ${remaining} tokens remaining.`,
-            }),
-          ],
-        };
-      }
+        const { userDid } = runtime.context as TChatNodeContext;
+        if (!userDid) {
+          throw new Error('User DID is required for token management');
+        }
 
-      return state;
+        try {
+          await UsageAccounting.assertCanSpend(userDid);
+        } catch (error) {
+          if (error instanceof TokenLimiterError) {
+            return {
+              messages: [outOfCreditsMessage(error.currentBalance)],
+              jumpTo: 'end',
+            };
+          }
+          throw error;
+        }
+      },
     },
 
     afterModel: async (state, runtime) => {
@@ -56,68 +59,30 @@ const createTokenLimiterMiddleware = (): AgentMiddleware => {
         if (!runtime.context) {
           throw new Error('Runtime context required for token limiting');
         }
-        const disableCredits = config.get('DISABLE_CREDITS');
-        if (disableCredits || !isRedisEnabled()) {
+        if (!UsageAccounting.isEnabled()) {
           Logger.debug('Token limiting skipped (credits disabled or no Redis)');
           return state;
         }
 
-        const { userDid } = runtime.context as TChatNodeContext;
+        const { userDid, sessionId, agentName } =
+          runtime.context as TChatNodeContext;
 
         const lastMessage = state.messages.at(-1) as AIMessageChunk;
-        if (!lastMessage?.usage_metadata) {
+        const usage = UsageAccounting.fromMessage(lastMessage);
+        if (!usage) {
           throw new Error('Usage metadata not available for token limiting');
         }
 
-        const { input_tokens, output_tokens, total_tokens } =
-          lastMessage.usage_metadata;
-
-        // Priority 1: Use exact USD cost from provider (OpenRouter includes this)
-        const responseMeta = lastMessage.response_metadata as
-          | { usage?: { cost?: number }; model?: string }
-          | undefined;
-        const providerCost =
-          typeof responseMeta?.usage?.cost === 'number'
-            ? responseMeta.usage.cost
-            : undefined;
-
-        let credits: number;
-        if (providerCost != null && providerCost > 0) {
-          credits = TokenLimiter.usdCostToCredits(providerCost);
-          Logger.log(
-            `[TokenLimiter] Using provider cost: $${providerCost} → ${credits} credits`,
-          );
-        } else {
-          // Priority 2: Per-model pricing from cache
-          const model = responseMeta?.model;
-          const pricing = model ? getModelPricing(model) : null;
-
-          if (pricing) {
-            credits = TokenLimiter.llmTokenToCreditsWithPricing(
-              input_tokens,
-              output_tokens,
-              pricing,
-            );
-            Logger.log(
-              `[TokenLimiter] Using cached pricing for model=${model} → ${credits} credits`,
-            );
-          } else {
-            // Priority 3: Flat-rate fallback
-            credits = TokenLimiter.llmTokenToCredits(total_tokens);
-            Logger.log(
-              `[TokenLimiter] Using flat-rate fallback (model=${model ?? 'unknown'}) → ${credits} credits`,
-            );
-          }
-        }
-
-        Logger.log(
-          `[TokenLimiter] input=${input_tokens} output=${output_tokens} total=${total_tokens} | credits=${credits}`,
+        await UsageAccounting.record(
+          {
+            userDid,
+            sessionId,
+            source: agentName ? 'sub-agent' : 'agent',
+            label: agentName,
+          },
+          usage,
         );
 
-        const result = await TokenLimiter.limit(userDid, credits);
-
-        Logger.debug('Token limit result', { result });
-
         return state;
       } catch (error) {
         Logger.error('Error in TokenLimiterMiddleware', error);
@@ -127,9 +92,7 @@ const createTokenLimiterMiddleware = (): AgentMiddleware => {
             ...state,
             messages: [
               ...state.messages,
-              new AIMessageChunk({
-                content: `Looks like you have run out of tokens. Please upgrade your plan or topup your balance. You have ${error.currentBalance?.toFixed(2)} tokens remaining.`,
-              }),
+              outOfCreditsMessage(error.currentBalance),
             ],
           };
         }
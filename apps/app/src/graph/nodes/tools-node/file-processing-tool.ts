@@ -3,9 +3,14 @@ import { Logger } from '@nestjs/common';
 import path from 'node:path';
 import z from 'zod';
 import {
+  type AiProcessUsage,
+  type FileProcessingResult,
   type FileProcessingService,
   type SandboxUploadConfig,
 } from 'src/messages/file-processing.service';
+import { indexRoomFileInBackground } from 'src/messages/room-file-index';
+import { UsageAccounting } from 'src/usage/usage-accounting';
+import { TokenLimiterError } from 'src/utils/token-limit-handler';
 
 const logger = new Logger('process_file');
 
@@ -21,21 +26,54 @@ const COPY_TRUNCATE_LIMIT = 500;
  * When `sandboxConfig` is provided, the tool supports `copy_to_sandbox`
  * which uploads the raw file to the sandbox via HTTP AND returns extracted
  * content (truncated if large).
+ *
+ * When `userDid` and `roomId` are provided, extracted content is also added
+ * to the room's file index for `search_room_files`.
+ *
+ * When `userDid` is provided, AI processing is charged to the user's credits
+ * and the tool refuses to run once their balance is used up.
  */
 export function createFileProcessingTool(
   fileProcessingService: FileProcessingService,
   roomId?: string,
   sandboxConfig?: SandboxUploadConfig,
+  userDid?: string,
 ) {
+  const indexResult = (
+    sourceId: string,
+    filename: string,
+    mimetype: string,
+    text: string,
+  ) => {
+    if (!userDid || !roomId) return;
+    indexRoomFileInBackground(
+      userDid,
+      { roomId, sourceId, filename, mimetype },
+      text,
+    );
+  };
+
+  const chargeUsage = async (
+    sessionId: string | undefined,
+    usage: AiProcessUsage | undefined,
+  ) => {
+    if (!userDid || !usage) return;
+    await UsageAccounting.recordInBackground(
+      {
+        userDid,
+        sessionId,
+        source: 'file-processing',
+        toolName: 'process_file',
+      },
+      UsageAccounting.fromProviderUsage(usage),
+    );
+  };
+
   return tool(
-    async ({
-      url,
-      eventId,
-      filename,
-      mimetype,
-      copy_to_sandbox,
-      sandbox_path,
-    }) => {
+    async (
+      { url, eventId, filename, mimetype, copy_to_sandbox, sandbox_path },
+      config,
+    ) => {
       logger.log(
         `Tool invoked — url=${url ?? 'none'}, eventId=${eventId ?? 'none'}, filename=${filename ?? 'none'}, mimetype=${mimetype ?? 'none'}, copy_to_sandbox=${copy_to_sandbox ?? false}`,
       );
@@ -50,6 +88,14 @@ export function createFileProcessingTool(
         if ('eventId' in source && !source.roomId) {
           return '[Error: Cannot process file by eventId — no Matrix room context available.]';
         }
+        const sourceId = eventId ?? url!;
+        const sessionId = (
+          config.configurable as { sessionId?: string } | undefined
+        )?.sessionId;
+
+        if (userDid) {
+          await UsageAccounting.assertCanSpend(userDid);
+        }
 
         // ── Sandbox path: when sandbox is configured, always copy files there ──
         // copy_to_sandbox defaults to true when sandbox is available; set to false to skip
@@ -71,11 +117,13 @@ export function createFileProcessingTool(
             }
           }
 
-          const { buffer, text, resolvedFilename, resolvedMimetype } =
+          const { buffer, text, usage, resolvedFilename, resolvedMimetype } =
             await fileProcessingService.downloadAndProcessFile(source, {
               filename: filename ?? undefined,
               mimetype: mimetype ?? undefined,
             });
+          await chargeUsage(sessionId, usage);
+          indexResult(sourceId, resolvedFilename, resolvedMimetype, text);
 
           // Determine sandbox destination path
           const destPath =
@@ -116,10 +164,10 @@ export function createFileProcessingTool(
         }
 
         // ── Standard path: process only, no sandbox copy ──
-        let result: string;
+        let processed: FileProcessingResult;
 
         if (eventId) {
-          result = await fileProcessingService.processFileFromEventId(
+          processed = await fileProcessingService.processFileFromEventId(
             roomId!,
             eventId,
             {
@@ -128,19 +176,30 @@ export function createFileProcessingTool(
             },
           );
         } else if (url) {
-          result = await fileProcessingService.processFileFromUrl(url, {
+          processed = await fileProcessingService.processFileFromUrl(url, {
             filename: filename ?? undefined,
             mimetype: mimetype ?? undefined,
           });
         } else {
           return '[Error: Either url or eventId must be provided.]';
         }
+        await chargeUsage(sessionId, processed.usage);
+        const result = processed.text;
 
         logger.log(
           `Tool success — ${eventId ? `eventId=${eventId}` : `url=${url}`}, result length=${result.length} chars`,
         );
+        indexResult(
+          sourceId,
+          filename ?? (path.posix.basename(url ?? '') || 'file'),
+          mimetype ?? 'application/octet-stream',
+          result,
+        );
         return result;
       } catch (error) {
+        if (error instanceof TokenLimiterError) {
+          return '[Error: The user has run out of credits, so the file could not be processed. Ask them to top up their balance.]';
+        }
         const source = eventId ? `eventId ${eventId}` : url;
         const msg = error instanceof Error ? error.message : String(error);
         logger.error(`Tool error — ${source}: ${msg}`);
@@ -153,6 +212,7 @@ export function createFileProcessingTool(
         'Read a file and return its content as text. ' +
         'Works with public URLs, Matrix (mxc://) links, and Matrix event IDs. ' +
         'Documents (PDF, Word, text, HTML, CSV) are extracted as text. ' +
+        'Archives (zip, tar, tar.gz) are expanded and each file inside is read. ' +
         'Images, audio, and video are described/transcribed by an AI model so you can understand what they contain. ' +
         'Use `eventId` (from list_room_files results) for files shared in the current Matrix room, or `url` for external files. ' +
         'When a sandbox is available, files are automatically saved to /workspace/output/{filename}. ' +
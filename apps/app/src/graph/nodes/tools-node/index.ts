@@ -1,5 +1,7 @@
 export * from './domain-indexer-tool';
 export * from './file-processing-tool';
 export * from './list-room-files-tool';
+export * from './search-conversations-tool';
+export * from './search-room-files-tool';
 export * from './skills-tools';
 export * from './tools';
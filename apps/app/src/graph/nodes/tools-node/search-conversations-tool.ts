@@ -0,0 +1,74 @@
+import { tool } from '@langchain/core/tools';
+import { Logger } from '@nestjs/common';
+import { searchSessions } from 'src/sessions/session-search';
+import z from 'zod';
+
+const logger = new Logger('search_conversations');
+
+/**
+ * Creates a `search_conversations` LangGraph tool that runs a full-text
+ * search over the user's earlier sessions in the current room.
+ */
+export function createSearchConversationsTool(userDid: string, roomId: string) {
+  return tool(
+    async ({ query, limit }) => {
+      const maxSessions = Math.min(limit ?? 5, 20);
+
+      logger.log(`Tool invoked — roomId=${roomId}, limit=${maxSessions}`);
+
+      try {
+        const sessions = await searchSessions(userDid, query, {
+          limit: maxSessions,
+          roomId,
+        });
+
+        if (sessions.length === 0) {
+          return 'No earlier messages matched. Try different or fewer keywords.';
+        }
+
+        return sessions
+          .map(
+            (session, i) =>
+              `### ${i + 1}. ${session.title ?? 'Untitled conversation'}\n` +
+              `[sessionId="${session.sessionId}", last active ${session.lastUpdatedAt}]\n\n` +
+              session.matches
+                .map(
+                  (match) =>
+                    `- ${match.type === 'human' ? 'User' : 'Assistant'} (${match.createdAt}, messageId="${match.messageId}"): ${match.snippet}`,
+                )
+                .join('\n'),
+          )
+          .join('\n\n---\n\n');
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        logger.error(`Tool error: ${msg}`);
+        return `[Error searching conversations: ${msg}]`;
+      }
+    },
+    {
+      name: 'search_conversations',
+      description:
+        "Keyword search over the user's earlier conversations (sessions) with you in this room. " +
+        'Returns matching sessions with short excerpts, best match first. ' +
+        'Use this when the user refers to something discussed before ("that thing we talked about last week") ' +
+        'and it is not in the current conversation. Search with distinctive keywords, not full sentences.',
+      schema: z.object({
+        query: z
+          .string()
+          .min(1)
+          .describe(
+            'Keywords to look for; all must appear in a message (the last one matches as a prefix).',
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .describe(
+            'Maximum number of sessions to return (default 5, max 20).',
+          ),
+      }),
+    },
+  );
+}
@@ -0,0 +1,82 @@
+import { tool } from '@langchain/core/tools';
+import { Logger } from '@nestjs/common';
+import { searchRoomFiles } from 'src/messages/room-file-index';
+import z from 'zod';
+
+const logger = new Logger('search_room_files');
+
+/**
+ * Creates a `search_room_files` LangGraph tool that runs a semantic search
+ * over the content of files already processed in the current room.
+ *
+ * Files are indexed when they're attached to a message or read with
+ * `process_file`, so older files may need one `process_file` call first.
+ */
+export function createSearchRoomFilesTool(userDid: string, roomId: string) {
+  return tool(
+    async ({ query, limit, eventId }) => {
+      const maxResults = Math.min(limit ?? 5, 20);
+
+      logger.log(
+        `Tool invoked — roomId=${roomId}, limit=${maxResults}, eventId=${eventId ?? 'all'}`,
+      );
+
+      try {
+        const matches = await searchRoomFiles(userDid, roomId, query, {
+          limit: maxResults,
+          sourceId: eventId ?? undefined,
+        });
+
+        if (matches.length === 0) {
+          return (
+            'No indexed file content found in this room. ' +
+            'Use list_room_files to find the file and process_file to read (and index) it.'
+          );
+        }
+
+        return matches
+          .map(
+            (match, i) =>
+              `### Result ${i + 1} — ${match.filename} (part ${match.chunkIndex + 1}, score ${match.score.toFixed(3)})\n` +
+              `[source: ${match.sourceId.startsWith('$') ? 'eventId' : 'url'}="${match.sourceId}", indexed ${match.indexedAt}]\n\n` +
+              match.content,
+          )
+          .join('\n\n---\n\n');
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        logger.error(`Tool error: ${msg}`);
+        return `[Error searching room files: ${msg}]`;
+      }
+    },
+    {
+      name: 'search_room_files',
+      description:
+        'Semantic search over the content of files previously shared and processed in the current room ' +
+        '(documents, transcripts, image descriptions). Returns the most relevant passages with their filename and source. ' +
+        'Use this to answer questions about earlier files (e.g. "what did the contract say about termination?") ' +
+        'instead of re-processing them with process_file. ' +
+        'If nothing relevant is found, the file may not be indexed yet — read it once with process_file.',
+      schema: z.object({
+        query: z
+          .string()
+          .min(1)
+          .describe('What to look for, phrased as a question or topic.'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .describe(
+            'Maximum number of passages to return (default 5, max 20).',
+          ),
+        eventId: z
+          .string()
+          .nullish()
+          .describe(
+            'Optional Matrix event ID (from list_room_files) to search within a single file.',
+          ),
+      }),
+    },
+  );
+}
@@ -8,6 +8,9 @@ export enum GraphNodes {
 }
 export const contextSchema = z.object({
   userDid: z.string(),
+  sessionId: z.string().optional(),
+  /** Set when a sub-agent runs, so its usage is attributed to it */
+  agentName: z.string().optional(),
 });
 
 export type TChatNodeContext = z.infer<typeof contextSchema>;
@@ -8,14 +8,18 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { type INestApplication, Logger, ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
+import { type NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import type { Cache } from 'cache-manager';
+import { json, type NextFunction, type Request, type Response } from 'express';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
 import { type ENV, isRedisEnabled } from './config';
 import { UcanService } from './ucan/ucan.service';
+import { RedisIoAdapter } from './ws/redis-io.adapter';
 import { EditorMatrixClient } from './graph/agents/editor/editor-mx';
 import { initModelPricingCache } from './graph/llm-provider';
+import { getMCPConfig } from './graph/mcp-config';
 import { SecretsService } from './secrets/secrets.service';
 import { UserMatrixSqliteSyncService } from './user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
 import { UserSkillsService } from './user-skills/user-skills.service';
@@ -23,13 +27,26 @@ import { UserSkillsService } from './user-skills/user-skills.service';
 async function bootstrap(): Promise<void> {
   // await migrate();
 
-  const app = await NestFactory.create(AppModule);
+  // Fail fast on a broken MCP server config instead of on the first request
+  getMCPConfig();
+
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService<ENV>);
   const port = configService.get<number>('PORT', 3000); // Default to 3000 if PORT not set
 
   // Security Headers
   app.use(helmet());
 
+  // Session import bundles carry whole conversations. Registered before
+  // Nest's default parsers, which skip a body that's already parsed; the
+  // wrapper keeps the name `jsonParser` free so Nest still adds its own.
+  const importBodyParser = json({ limit: '10mb' });
+  app.use(
+    '/sessions/import',
+    (req: Request, res: Response, next: NextFunction) =>
+      importBodyParser(req, res, next),
+  );
+
   // CORS
   app.enableCors({
     origin: process.env.CORS_ORIGIN || '*', // Configure as needed
@@ -44,10 +61,19 @@ async function bootstrap(): Promise<void> {
       'x-request-id',
       'x-timezone',
       'x-ucan-delegation',
+      'last-event-id',
     ],
-    exposedHeaders: ['X-Request-Id'],
+    exposedHeaders: ['X-Request-Id', 'X-Run-Id'],
   });
 
+  // Share Socket.IO rooms across instances so WS events reach clients
+  // connected to any instance
+  if (isRedisEnabled()) {
+    const redisIoAdapter = new RedisIoAdapter(app);
+    await redisIoAdapter.connectToRedis(configService.getOrThrow('REDIS_URL'));
+    app.useWebSocketAdapter(redisIoAdapter);
+  }
+
   // Global Validation Pipe
   app.useGlobalPipes(
     new ValidationPipe({
@@ -199,6 +225,7 @@ async function bootstrap(): Promise<void> {
     Logger.warn('  • TokenLimiter (credit/token tracking)');
     Logger.warn('  • ClaimProcessingService (on-chain credit claims)');
     Logger.warn('  • RedisService (direct Redis client)');
+    Logger.warn('  • Cross-instance event bus and Socket.IO Redis adapter');
     Logger.warn('Set REDIS_URL to enable these features.');
   }
 }
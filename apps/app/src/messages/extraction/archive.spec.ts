@@ -0,0 +1,161 @@
+import { deflateRawSync, gzipSync } from 'node:zlib';
+import {
+  ArchiveError,
+  expandArchive,
+  type ArchiveLimits,
+  sanitizeArchivePath,
+} from './archive';
+
+const limits: ArchiveLimits = {
+  maxEntries: 10,
+  maxEntrySize: 1024,
+  maxTotalSize: 4096,
+};
+
+/** Build a POSIX tar archive. Entries default to regular files ('0'). */
+function tar(
+  entries: Array<{ name: string; content?: string; type?: string }>,
+): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { name, content = '', type = '0' } of entries) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write(data.length.toString(8).padStart(11, '0') + '\0', 124);
+    header.write(type, 156);
+    header.write('ustar\0' + '00', 257);
+    header.fill(0x20, 148, 156);
+    let sum = 0;
+    for (const byte of header) sum += byte;
+    header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+/** Build a ZIP with deflated entries (CRCs are not checked on read) */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const summarize = (buffer: Buffer, filename: string) => {
+  const { format, files, skipped } = expandArchive(buffer, filename, limits);
+  return {
+    format,
+    files: files.map((f) => [f.path, f.data.toString()]),
+    skipped,
+  };
+};
+
+describe('expandArchive', () => {
+  it('expands ZIP entries and skips traversal and OS metadata', () => {
+    const archive = zip({
+      'data/a.csv': 'x,y\n1,2',
+      '../escape.txt': 'nope',
+      '__MACOSX/data/._a.csv': 'junk',
+    });
+    expect(summarize(archive, 'data.zip')).toEqual({
+      format: 'zip',
+      files: [['data/a.csv', 'x,y\n1,2']],
+      skipped: [{ path: '../escape.txt', reason: 'unsafe path' }],
+    });
+  });
+
+  it('expands tar.gz with GNU long names and skips links and oversized files', () => {
+    const longName = `project/${'nested/'.repeat(20)}main.py`;
+    const archive = gzipSync(
+      tar([
+        { name: 'project/', type: '5' },
+        { name: './LongLink', content: longName, type: 'L' },
+        { name: 'truncated', content: 'print(1)' },
+        { name: 'project/link', type: '2' },
+        { name: 'project/big.bin', content: 'x'.repeat(2000) },
+      ]),
+    );
+    expect(summarize(archive, 'project.tar.gz')).toEqual({
+      format: 'gzip',
+      files: [[longName, 'print(1)']],
+      skipped: [
+        { path: 'project/link', reason: 'link' },
+        { path: 'project/big.bin', reason: 'larger than 1024 bytes' },
+      ],
+    });
+  });
+
+  it('treats a plain gzip file as a single entry', () => {
+    expect(summarize(gzipSync('a,b'), 'export.csv.gz').files).toEqual([
+      ['export.csv', 'a,b'],
+    ]);
+  });
+
+  it('enforces the entry count and total size limits', () => {
+    const many = tar(
+      Array.from({ length: 11 }, (_, i) => ({ name: `f${i}.txt` })),
+    );
+    expect(() => expandArchive(many, 'many.tar', limits)).toThrow(
+      /more than 10 entries/,
+    );
+
+    const large = tar(
+      Array.from({ length: 5 }, (_, i) => ({
+        name: `f${i}.txt`,
+        content: 'x'.repeat(1000),
+      })),
+    );
+    expect(() => expandArchive(large, 'large.tar', limits)).toThrow(
+      ArchiveError,
+    );
+  });
+
+  it('rejects corrupt tar headers', () => {
+    const archive = tar([{ name: 'a.txt', content: 'hi' }]);
+    archive[0] = 'b'.charCodeAt(0);
+    expect(() => expandArchive(archive, 'a.tar', limits)).toThrow(/checksum/);
+  });
+});
+
+describe('sanitizeArchivePath', () => {
+  it.each([
+    ['dir/./file.txt', 'dir/file.txt'],
+    ['dir\\sub\\file.txt', 'dir/sub/file.txt'],
+    ['/etc/passwd', null],
+    ['C:/Windows/win.ini', null],
+    ['a/../../b', null],
+    ['./', null],
+  ])('%s → %s', (input, expected) => {
+    expect(sanitizeArchivePath(input)).toBe(expected);
+  });
+});
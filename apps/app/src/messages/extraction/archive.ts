@@ -0,0 +1,333 @@
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import {
+  isZipBuffer,
+  readZipEntries,
+  readZipEntry,
+  ZipFormatError,
+} from './zip-reader';
+
+/**
+ * Safe expansion of ZIP, TAR and gzip (including .tar.gz) archives.
+ *
+ * Entry paths are normalised and anything that could escape the extraction
+ * root (absolute paths, `..` segments, drive letters) is skipped. Links,
+ * devices and encrypted entries are skipped too. Entry count and total
+ * uncompressed size are capped so a small archive can't expand into
+ * gigabytes in memory.
+ */
+
+const TAR_BLOCK_SIZE = 512;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export type ArchiveFormat = 'zip' | 'tar' | 'gzip';
+
+export interface ArchiveLimits {
+  /** Refuse archives with more entries than this (directories included) */
+  maxEntries: number;
+  /** Skip entries larger than this many bytes uncompressed */
+  maxEntrySize: number;
+  /** Refuse archives that expand to more than this many bytes in total */
+  maxTotalSize: number;
+}
+
+export interface ArchiveFile {
+  /** Normalised relative path inside the archive */
+  path: string;
+  data: Buffer;
+}
+
+export interface SkippedArchiveEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ExpandedArchive {
+  format: ArchiveFormat;
+  files: ArchiveFile[];
+  skipped: SkippedArchiveEntry[];
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export function isGzipBuffer(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 2 &&
+    buffer[0] === GZIP_MAGIC[0] &&
+    buffer[1] === GZIP_MAGIC[1]
+  );
+}
+
+/** POSIX (`ustar\0`) and GNU (`ustar  `) tar headers both carry this magic */
+export function isTarBuffer(buffer: Buffer): boolean {
+  return (
+    buffer.length >= TAR_BLOCK_SIZE &&
+    buffer.subarray(257, 262).toString('latin1') === 'ustar'
+  );
+}
+
+export function detectArchiveFormat(buffer: Buffer): ArchiveFormat | null {
+  if (isZipBuffer(buffer)) return 'zip';
+  if (isGzipBuffer(buffer)) return 'gzip';
+  if (isTarBuffer(buffer)) return 'tar';
+  return null;
+}
+
+/**
+ * Normalise an entry path, or return null when it isn't safe to extract
+ * (absolute, contains `..`, drive-letter prefixed or empty).
+ */
+export function sanitizeArchivePath(name: string): string | null {
+  const unified = name.replace(/\\/g, '/');
+  if (
+    unified.includes('\0') ||
+    unified.startsWith('/') ||
+    /^[a-zA-Z]:/.test(unified)
+  ) {
+    return null;
+  }
+  const segments = unified
+    .split('/')
+    .filter((segment) => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+  return segments.join('/');
+}
+
+/** OS metadata that's never worth processing */
+function isJunkPath(entryPath: string): boolean {
+  return (
+    entryPath.startsWith('__MACOSX/') ||
+    path.posix.basename(entryPath) === '.DS_Store'
+  );
+}
+
+/**
+ * Collects entries while enforcing the limits. Only the checks live here —
+ * each format reader decides what an entry is.
+ */
+class ArchiveCollector {
+  readonly files: ArchiveFile[] = [];
+  readonly skipped: SkippedArchiveEntry[] = [];
+  private entryCount = 0;
+  private totalSize = 0;
+
+  constructor(readonly limits: ArchiveLimits) {}
+
+  countEntry(): void {
+    this.entryCount++;
+    if (this.entryCount > this.limits.maxEntries) {
+      throw new ArchiveError(
+        `Archive has more than ${this.limits.maxEntries} entries`,
+      );
+    }
+  }
+
+  /** @returns The safe path, or null when the entry was skipped */
+  accept(name: string, size: number): string | null {
+    const safePath = sanitizeArchivePath(name);
+    if (!safePath) {
+      this.skip(name, 'unsafe path');
+      return null;
+    }
+    if (isJunkPath(safePath)) return null;
+    if (size > this.limits.maxEntrySize) {
+      this.skip(safePath, `larger than ${this.limits.maxEntrySize} bytes`);
+      return null;
+    }
+    return safePath;
+  }
+
+  add(entryPath: string, data: Buffer): void {
+    this.totalSize += data.length;
+    if (this.totalSize > this.limits.maxTotalSize) {
+      throw new ArchiveError(
+        `Archive expands to more than ${this.limits.maxTotalSize} bytes`,
+      );
+    }
+    this.files.push({ path: entryPath, data });
+  }
+
+  skip(entryPath: string, reason: string): void {
+    this.skipped.push({ path: entryPath, reason });
+  }
+}
+
+function expandZip(buffer: Buffer, collector: ArchiveCollector): void {
+  for (const entry of readZipEntries(buffer)) {
+    collector.countEntry();
+    if (entry.isDirectory) continue;
+    const safePath = collector.accept(entry.name, entry.size);
+    if (!safePath) continue;
+    if (entry.encrypted) {
+      collector.skip(safePath, 'encrypted');
+      continue;
+    }
+    try {
+      collector.add(
+        safePath,
+        readZipEntry(buffer, entry, collector.limits.maxEntrySize),
+      );
+    } catch (error) {
+      if (!(error instanceof ZipFormatError)) throw error;
+      collector.skip(safePath, error.message);
+    }
+  }
+}
+
+function readTarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readTarSize(block: Buffer): number {
+  // Sizes over 8 GB use GNU base-256 encoding (high bit set)
+  if (block[124] & 0x80) {
+    throw new ArchiveError('Tar entries larger than 8 GB are not supported');
+  }
+  const octal = readTarString(block, 124, 12).trim();
+  const size = octal ? parseInt(octal, 8) : 0;
+  if (!Number.isFinite(size) || size < 0) {
+    throw new ArchiveError('Corrupt tar header (size)');
+  }
+  return size;
+}
+
+function verifyTarChecksum(block: Buffer): void {
+  const expected = parseInt(readTarString(block, 148, 8).trim(), 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  if (sum !== expected) {
+    throw new ArchiveError('Corrupt tar header (checksum mismatch)');
+  }
+}
+
+/** Extract the `path` record from a pax extended header */
+function readPaxPath(data: Buffer): string | undefined {
+  const records = data.toString('utf-8').split('\n');
+  for (const record of records) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function expandTar(buffer: Buffer, collector: ArchiveCollector): void {
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+    const block = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+    // End of archive is marked by zero blocks
+    if (block.every((byte) => byte === 0)) break;
+
+    verifyTarChecksum(block);
+    const size = readTarSize(block);
+    const type = String.fromCharCode(block[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const dataEnd = dataStart + size;
+    if (dataEnd > buffer.length) {
+      throw new ArchiveError('Truncated tar archive');
+    }
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    // GNU long names and pax headers describe the entry that follows
+    if (type === 'L') {
+      longName = readTarString(buffer.subarray(dataStart, dataEnd), 0, size);
+      continue;
+    }
+    if (type === 'x') {
+      longName = readPaxPath(buffer.subarray(dataStart, dataEnd)) ?? longName;
+      continue;
+    }
+    if (type === 'g' || type === 'K') continue;
+
+    // Only POSIX ustar has a name prefix — GNU stores timestamps there
+    const isPosix = block.subarray(257, 263).toString('latin1') === 'ustar\0';
+    const prefix = isPosix ? readTarString(block, 345, 155) : '';
+    const headerName = readTarString(block, 0, 100);
+    const name = longName ?? (prefix ? `${prefix}/${headerName}` : headerName);
+    longName = undefined;
+
+    collector.countEntry();
+    if (type === '5') continue;
+    if (type !== '0' && type !== '7') {
+      const safePath = sanitizeArchivePath(name) ?? name;
+      collector.skip(
+        safePath,
+        type === '1' || type === '2' ? 'link' : 'special file',
+      );
+      continue;
+    }
+
+    const safePath = collector.accept(name, size);
+    if (!safePath) continue;
+    collector.add(safePath, Buffer.from(buffer.subarray(dataStart, dataEnd)));
+  }
+}
+
+function gunzip(buffer: Buffer, maxSize: number): Buffer {
+  try {
+    return gunzipSync(buffer, { maxOutputLength: maxSize });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new ArchiveError(`Archive expands to more than ${maxSize} bytes`);
+    }
+    throw new ArchiveError(
+      `Failed to decompress gzip data: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Expand an archive into memory.
+ *
+ * A gzip file that doesn't wrap a tar is treated as one compressed file,
+ * named after the archive without its `.gz` extension.
+ *
+ * @throws ArchiveError when the archive is malformed or exceeds the limits
+ */
+export function expandArchive(
+  buffer: Buffer,
+  filename: string,
+  limits: ArchiveLimits,
+): ExpandedArchive {
+  const format = detectArchiveFormat(buffer);
+  if (!format) {
+    throw new ArchiveError('Not a ZIP, TAR or gzip archive');
+  }
+  const collector = new ArchiveCollector(limits);
+
+  if (format === 'zip') {
+    expandZip(buffer, collector);
+  } else if (format === 'tar') {
+    expandTar(buffer, collector);
+  } else {
+    // Allow for tar headers and padding on top of the content limit
+    const inflated = gunzip(
+      buffer,
+      limits.maxTotalSize + limits.maxEntries * TAR_BLOCK_SIZE * 2,
+    );
+    if (isTarBuffer(inflated)) {
+      expandTar(inflated, collector);
+    } else {
+      const innerName =
+        path.posix
+          .basename(filename.replace(/\\/g, '/'))
+          .replace(/\.gz$/i, '') || 'file';
+      collector.countEntry();
+      const safePath = collector.accept(innerName, inflated.length);
+      if (safePath) collector.add(safePath, inflated);
+    }
+  }
+
+  return { format, files: collector.files, skipped: collector.skipped };
+}
@@ -0,0 +1,94 @@
+import {
+  extractDocx,
+  extractPptx,
+  extractXlsx,
+  type LocalExtraction,
+} from './office';
+import { extractRtf } from './rtf';
+import { isZipBuffer, readZipEntries } from './zip-reader';
+
+export type { EmbeddedImage, LocalExtraction } from './office';
+export {
+  ArchiveError,
+  detectArchiveFormat,
+  expandArchive,
+  type ArchiveFile,
+  type ArchiveLimits,
+  type ExpandedArchive,
+} from './archive';
+
+const DOCX_MIME =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX_MIME =
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+function extractJson(buffer: Buffer): LocalExtraction {
+  const raw = buffer.toString('utf-8');
+  try {
+    const pretty = JSON.stringify(JSON.parse(raw), null, 2);
+    return { text: `\`\`\`json\n${pretty}\n\`\`\``, images: [] };
+  } catch {
+    // Not valid JSON — still worth returning as text
+    return { text: raw, images: [] };
+  }
+}
+
+const EXTRACTORS: Record<string, (buffer: Buffer) => LocalExtraction> = {
+  [DOCX_MIME]: extractDocx,
+  [XLSX_MIME]: extractXlsx,
+  [PPTX_MIME]: extractPptx,
+  'application/rtf': (buffer) => ({
+    text: extractRtf(buffer.toString('latin1')),
+    images: [],
+  }),
+  'application/json': extractJson,
+};
+EXTRACTORS['text/rtf'] = EXTRACTORS['application/rtf'];
+
+const EXTENSION_MIMETYPES: Record<string, string> = {
+  docx: DOCX_MIME,
+  xlsx: XLSX_MIME,
+  pptx: PPTX_MIME,
+  rtf: 'application/rtf',
+  json: 'application/json',
+};
+
+/**
+ * Extract a document without an LLM: Word, Excel and PowerPoint (OOXML),
+ * RTF and JSON. Falls back to the file extension when the mimetype is
+ * generic (e.g. `application/octet-stream` or `application/zip`).
+ *
+ * @returns `null` when there is no local extractor for the type
+ * @throws When the file is malformed
+ */
+export function extractDocumentLocally(
+  buffer: Buffer,
+  mimetype: string,
+  filename: string,
+): LocalExtraction | null {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  const extractor =
+    EXTRACTORS[mimetype] ?? EXTRACTORS[EXTENSION_MIMETYPES[extension]];
+  return extractor ? extractor(buffer) : null;
+}
+
+/**
+ * Identify a Word, Excel or PowerPoint file from its package layout — for
+ * OOXML files that arrive as a generic ZIP with no useful extension.
+ */
+export function detectOfficeMimetype(buffer: Buffer): string | null {
+  if (!isZipBuffer(buffer)) return null;
+  let names: Set<string>;
+  try {
+    names = new Set(readZipEntries(buffer).map((entry) => entry.name));
+  } catch {
+    return null;
+  }
+  if (!names.has('[Content_Types].xml')) return null;
+  if (names.has('word/document.xml')) return DOCX_MIME;
+  if (names.has('xl/workbook.xml')) return XLSX_MIME;
+  if (names.has('ppt/presentation.xml')) return PPTX_MIME;
+  return null;
+}
@@ -0,0 +1,212 @@
+import { deflateRawSync } from 'node:zlib';
+import { extractDocumentLocally } from '.';
+import {
+  extractDocx,
+  extractPptx,
+  extractXlsx,
+  formatExcelDate,
+} from './office';
+import { readZipEntries, readZipEntry } from './zip-reader';
+
+/** Build a ZIP archive with deflated entries (CRCs are not checked on read) */
+function zip(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const paragraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+
+describe('zip-reader', () => {
+  it('lists and inflates entries', () => {
+    const archive = zip({ 'a.txt': 'hello', 'dir/b.txt': 'world' });
+    const entries = readZipEntries(archive);
+    expect(entries.map((e) => e.name)).toEqual(['a.txt', 'dir/b.txt']);
+    expect(readZipEntry(archive, entries[1], 100).toString()).toBe('world');
+  });
+
+  it('refuses entries over the size limit', () => {
+    const archive = zip({ 'big.txt': 'x'.repeat(1000) });
+    const [entry] = readZipEntries(archive);
+    expect(() => readZipEntry(archive, entry, 100)).toThrow(/exceeds/);
+  });
+});
+
+describe('office extraction', () => {
+  it('extracts DOCX headings, paragraphs and tables', () => {
+    const docx = zip({
+      'word/document.xml': `<?xml version="1.0"?><w:document><w:body>
+        ${paragraph('Quarterly report', 'Heading1')}
+        ${paragraph('Revenue &amp; costs')}
+        <w:tbl><w:tblPr/>
+          <w:tr>${cell('Item')}${cell('Amount')}</w:tr>
+          <w:tr>${cell('Credits')}${cell('1,200')}</w:tr>
+        </w:tbl>
+      </w:body></w:document>`,
+      'word/media/image1.png': Buffer.alloc(10 * 1024),
+      'word/media/bullet.png': Buffer.from('png'),
+    });
+
+    const { text, images } = extractDocx(docx);
+    expect(text).toBe(
+      [
+        '# Quarterly report',
+        'Revenue & costs',
+        '| Item | Amount |\n| --- | --- |\n| Credits | 1,200 |',
+      ].join('\n\n'),
+    );
+    expect(images).toEqual([
+      expect.objectContaining({ name: 'image1.png', mimetype: 'image/png' }),
+    ]);
+  });
+
+  it('caps embedded images before inflating them', () => {
+    const media = Object.fromEntries(
+      Array.from({ length: 7 }, (_, i) => [
+        `word/media/image${i + 1}.png`,
+        Buffer.alloc(10 * 1024),
+      ]),
+    );
+    const docx = zip({
+      'word/document.xml': `<w:document><w:body>${paragraph('Photos')}</w:body></w:document>`,
+      'word/media/poster.png': Buffer.alloc(21 * 1024 * 1024),
+      ...media,
+    });
+
+    expect(extractDocx(docx).images.map(({ name }) => name)).toEqual([
+      'image1.png',
+      'image2.png',
+      'image3.png',
+      'image4.png',
+      'image5.png',
+    ]);
+  });
+
+  it('extracts XLSX sheets with shared strings and dates', () => {
+    const xlsx = zip({
+      'xl/workbook.xml': `<workbook><sheets>
+        <sheet name="Budget" sheetId="1" r:id="rId1"/>
+        <sheet name="Notes" sheetId="2" state="hidden" r:id="rId2"/>
+      </sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': `<Relationships>
+        <Relationship Id="rId1" Target="worksheets/sheet1.xml" Type="x/worksheet"/>
+        <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml" Type="x/worksheet"/>
+      </Relationships>`,
+      'xl/sharedStrings.xml': `<sst><si><t>Date</t></si><si><t>Amount</t></si><si><r><t>Fo</t></r><r><t>od</t></r></si></sst>`,
+      'xl/styles.xml': `<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/></cellXfs></styleSheet>`,
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>
+        <row r="2"><c r="A2" s="1"><v>45658</v></c><c r="B2"><f>SUM(1,2)</f><v>3</v></c><c r="C2" t="b"><v>1</v></c></row>
+        <row r="4"><c r="B4" t="inlineStr"><is><t>total</t></is></c></row>
+      </sheetData></worksheet>`,
+      'xl/worksheets/sheet2.xml': `<worksheet><sheetData/></worksheet>`,
+    });
+
+    const { text } = extractXlsx(xlsx);
+    expect(text).toContain('## Sheet: Budget\n\n4 rows × 3 columns');
+    expect(text).toContain('| Date | Amount | Food |');
+    expect(text).toContain('| 2025-01-01 | 3 | TRUE |');
+    expect(text).toContain('|  |  |  |');
+    expect(text).toContain('|  | total |  |');
+    expect(text).toContain('## Sheet: Notes (hidden)\n\n0 rows × 0 columns');
+  });
+
+  it('extracts PPTX slides in order with tables and notes', () => {
+    const shape = (text: string, placeholder?: string) =>
+      `<p:sp><p:nvSpPr>${placeholder ? `<p:ph type="${placeholder}"/>` : ''}</p:nvSpPr><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+    const pptx = zip({
+      'ppt/presentation.xml': `<p:presentation><p:sldIdLst>
+        <p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/>
+      </p:sldIdLst></p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': `<Relationships>
+        <Relationship Id="rId2" Target="slides/slide1.xml" Type="x/slide"/>
+        <Relationship Id="rId3" Target="slides/slide2.xml" Type="x/slide"/>
+      </Relationships>`,
+      'ppt/slides/slide1.xml': `<p:sld>${shape('Second', 'title')}${shape('Closing')}</p:sld>`,
+      'ppt/slides/slide2.xml': `<p:sld>${shape('Intro', 'ctrTitle')}${shape('Welcome')}
+        <p:graphicFrame><a:tbl><a:tr><a:tc><a:txBody><a:p><a:r><a:t>Q1</a:t></a:r></a:p></a:txBody></a:tc></a:tr></a:tbl></p:graphicFrame></p:sld>`,
+      'ppt/slides/_rels/slide2.xml.rels': `<Relationships>
+        <Relationship Id="rId1" Target="../notesSlides/notesSlide1.xml" Type="x/notesSlide"/>
+      </Relationships>`,
+      'ppt/notesSlides/notesSlide1.xml': `<p:notes>${shape('Say hello', 'body')}${shape('1', 'sldNum')}</p:notes>`,
+    });
+
+    const { text } = extractPptx(pptx);
+    expect(text).toBe(
+      [
+        '## Slide 1: Intro\n\n- Welcome\n\n| Q1 |\n| --- |\n\n**Notes:** Say hello',
+        '## Slide 2: Second\n\n- Closing',
+      ].join('\n\n'),
+    );
+  });
+
+  it('formats Excel serial dates', () => {
+    expect(formatExcelDate(45658)).toBe('2025-01-01');
+    expect(formatExcelDate(45658.5)).toBe('2025-01-01 12:00:00');
+    expect(formatExcelDate(0.25)).toBe('06:00:00');
+    expect(formatExcelDate(44196, true)).toBe('2025-01-01');
+  });
+
+  it('picks an extractor by mimetype or extension', () => {
+    expect(
+      extractDocumentLocally(
+        Buffer.from('{"a":[1]}'),
+        'application/json',
+        'data.json',
+      )?.text,
+    ).toBe('```json\n{\n  "a": [\n    1\n  ]\n}\n```');
+    expect(
+      extractDocumentLocally(
+        zip({ 'word/document.xml': `<w:body>${paragraph('Hi')}</w:body>` }),
+        'application/octet-stream',
+        'letter.docx',
+      )?.text,
+    ).toBe('Hi');
+    expect(
+      extractDocumentLocally(Buffer.from('%PDF'), 'application/pdf', 'a.pdf'),
+    ).toBeNull();
+  });
+
+  it('throws on files that are not valid packages', () => {
+    expect(() => extractDocx(Buffer.from('not a zip at all, sorry'))).toThrow();
+    expect(() => extractXlsx(zip({ 'other.xml': '<x/>' }))).toThrow(
+      /xl\/workbook.xml is missing/,
+    );
+  });
+});
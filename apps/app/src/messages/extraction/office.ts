@@ -0,0 +1,419 @@
+import {
+  collectText,
+  decodeXmlEntities,
+  findElements,
+  getAttribute,
+  parseRelationships,
+  toMarkdownTable,
+} from './xml';
+import { readZipEntries, readZipEntry, type ZipEntry } from './zip-reader';
+
+/** Largest XML part or media file we inflate from a document */
+const MAX_PART_SIZE = 50 * 1024 * 1024;
+/** Rows rendered per spreadsheet sheet — the sheet summary still counts all */
+const MAX_SHEET_ROWS = 1000;
+/** Images returned per document */
+const MAX_EMBEDDED_IMAGES = 5;
+/** Smaller images are icons and bullets */
+const MIN_EMBEDDED_IMAGE_SIZE = 10 * 1024;
+/** Uncompressed bytes inflated across all images of a document */
+const MAX_EMBEDDED_IMAGES_SIZE = 20 * 1024 * 1024;
+
+const IMAGE_MIMETYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+export interface EmbeddedImage {
+  name: string;
+  mimetype: string;
+  data: Buffer;
+}
+
+export interface LocalExtraction {
+  /** Markdown rendering of the document */
+  text: string;
+  /** Images found inside the document, for optional vision processing */
+  images: EmbeddedImage[];
+}
+
+/** The parts of an OOXML (ZIP) package, read lazily */
+class OoxmlPackage {
+  private readonly entries: Map<string, ZipEntry>;
+
+  constructor(private readonly buffer: Buffer) {
+    this.entries = new Map(
+      readZipEntries(buffer).map((entry) => [entry.name, entry]),
+    );
+  }
+
+  text(path: string): string | undefined {
+    const entry = this.entries.get(path);
+    return entry
+      ? readZipEntry(this.buffer, entry, MAX_PART_SIZE).toString('utf-8')
+      : undefined;
+  }
+
+  requireText(path: string, format: string): string {
+    const text = this.text(path);
+    if (text === undefined) {
+      throw new Error(`Not a valid ${format} file: ${path} is missing`);
+    }
+    return text;
+  }
+
+  /**
+   * Images in a media folder, skipping icons and capped in count and total
+   * size. Entries are picked by their declared size before any is inflated.
+   */
+  images(folder: string): EmbeddedImage[] {
+    const images: EmbeddedImage[] = [];
+    let budget = MAX_EMBEDDED_IMAGES_SIZE;
+    for (const entry of this.entries.values()) {
+      if (images.length >= MAX_EMBEDDED_IMAGES) break;
+      if (!entry.name.startsWith(folder)) continue;
+      const ext = entry.name.split('.').pop()?.toLowerCase() ?? '';
+      const mimetype = IMAGE_MIMETYPES[ext];
+      if (
+        !mimetype ||
+        entry.size < MIN_EMBEDDED_IMAGE_SIZE ||
+        entry.size > budget
+      ) {
+        continue;
+      }
+      const data = readZipEntry(this.buffer, entry, budget);
+      budget -= data.length;
+      images.push({ name: entry.name.slice(folder.length), mimetype, data });
+    }
+    return images;
+  }
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+const DOCX_BLOCK_PATTERN =
+  /<w:tbl(?:\s[^>]*)?>[\s\S]*?<\/w:tbl>|<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g;
+const DOCX_RUN_PATTERN =
+  /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br(?:\s[^>]*)?\/>|<w:cr\/>/g;
+
+function docxParagraphText(paragraph: string): string {
+  let text = '';
+  for (const match of paragraph.matchAll(DOCX_RUN_PATTERN)) {
+    if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+    else if (match[0] === '<w:tab/>') text += '\t';
+    else text += '\n';
+  }
+  return text.trim();
+}
+
+function formatDocxParagraph(paragraph: string): string {
+  const text = docxParagraphText(paragraph);
+  if (!text) return '';
+
+  const style = /<w:pStyle w:val="([^"]+)"/.exec(paragraph)?.[1] ?? '';
+  const heading = /^heading\s?(\d)$/i.exec(style);
+  if (heading) return `${'#'.repeat(Math.min(6, Number(heading[1])))} ${text}`;
+  if (/^title$/i.test(style)) return `# ${text}`;
+  if (paragraph.includes('<w:numPr>')) return `- ${text}`;
+  return text;
+}
+
+/** Paragraphs (with headings and lists) and tables from a Word document */
+export function extractDocx(buffer: Buffer): LocalExtraction {
+  const pkg = new OoxmlPackage(buffer);
+  const documentXml = pkg.requireText('word/document.xml', 'DOCX');
+  const body =
+    /<w:body>([\s\S]*)<\/w:body>/.exec(documentXml)?.[1] ?? documentXml;
+
+  const blocks: string[] = [];
+  for (const [block] of body.matchAll(DOCX_BLOCK_PATTERN)) {
+    if (block.startsWith('<w:tbl')) {
+      const rows = findElements(block, 'w:tr').map((row) =>
+        findElements(row, 'w:tc').map((cell) =>
+          findElements(cell, 'w:p')
+            .map(docxParagraphText)
+            .filter(Boolean)
+            .join(' '),
+        ),
+      );
+      const table = toMarkdownTable(rows);
+      if (table) blocks.push(table);
+    } else {
+      const paragraph = formatDocxParagraph(block);
+      if (paragraph) blocks.push(paragraph);
+    }
+  }
+
+  return { text: blocks.join('\n\n'), images: pkg.images('word/media/') };
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/** Built-in number formats that display dates or times */
+const BUILT_IN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DATE_1904_OFFSET_DAYS = 1462;
+const MS_PER_DAY = 86_400_000;
+
+function isDateFormatCode(code: string): boolean {
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\./g, '');
+  return /[dmyhs]/i.test(stripped);
+}
+
+/** Cell style index → whether it formats numbers as dates */
+function parseDateStyles(stylesXml: string | undefined): boolean[] {
+  if (!stylesXml) return [];
+
+  const customFormats = new Map<number, string>();
+  for (const numFmt of findElements(stylesXml, 'numFmt')) {
+    const id = Number(getAttribute(numFmt, 'numFmtId'));
+    customFormats.set(id, getAttribute(numFmt, 'formatCode') ?? '');
+  }
+
+  const cellXfs = findElements(stylesXml, 'cellXfs')[0] ?? '';
+  return findElements(cellXfs, 'xf').map((xf) => {
+    const id = Number(getAttribute(xf, 'numFmtId') ?? 0);
+    const custom = customFormats.get(id);
+    return custom !== undefined
+      ? isDateFormatCode(custom)
+      : BUILT_IN_DATE_FORMATS.has(id);
+  });
+}
+
+/** Excel serial date → `YYYY-MM-DD`, `YYYY-MM-DD HH:MM:SS` or `HH:MM:SS` */
+export function formatExcelDate(serial: number, date1904 = false): string {
+  const days = serial + (date1904 ? DATE_1904_OFFSET_DAYS : 0);
+  const iso = new Date(
+    EXCEL_EPOCH_MS + Math.round(days * MS_PER_DAY),
+  ).toISOString();
+  const date = iso.slice(0, 10);
+  const time = iso.slice(11, 19);
+  if (serial < 1) return time;
+  return Number.isInteger(serial) ? date : `${date} ${time}`;
+}
+
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+interface SheetContext {
+  sharedStrings: string[];
+  dateStyles: boolean[];
+  date1904: boolean;
+}
+
+function readCell(cell: string, context: SheetContext): string {
+  const type = getAttribute(cell, 't');
+  if (type === 'inlineStr') return collectText(cell, 't');
+
+  const value = collectText(cell, 'v');
+  if (value === '') return '';
+  switch (type) {
+    case 's':
+      return context.sharedStrings[Number(value)] ?? '';
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+    case 'd':
+      return value;
+    default: {
+      const style = Number(getAttribute(cell, 's') ?? 0);
+      const number = Number(value);
+      return context.dateStyles[style] && Number.isFinite(number)
+        ? formatExcelDate(number, context.date1904)
+        : value;
+    }
+  }
+}
+
+/**
+ * The first `limit` rows of a sheet, padded to the used width, plus the
+ * number of the last non-empty row.
+ */
+function readSheetRows(
+  sheetXml: string,
+  context: SheetContext,
+  limit: number,
+): { rows: string[][]; totalRows: number } {
+  const kept = new Map<number, string[]>();
+  let totalRows = 0;
+  let width = 0;
+  let nextRowNumber = 1;
+
+  for (const row of findElements(sheetXml, 'row')) {
+    const rowNumber = Number(getAttribute(row, 'r') ?? nextRowNumber);
+    nextRowNumber = rowNumber + 1;
+
+    const cells: string[] = [];
+    for (const cell of findElements(row, 'c')) {
+      const ref = getAttribute(cell, 'r');
+      cells[ref ? columnIndex(ref) : cells.length] = readCell(cell, context);
+    }
+    let used = cells.length;
+    while (used > 0 && !cells[used - 1]) used--;
+    if (used === 0) continue;
+
+    totalRows = rowNumber;
+    width = Math.max(width, used);
+    if (rowNumber <= limit) kept.set(rowNumber, cells);
+  }
+
+  const rows = Array.from({ length: Math.min(totalRows, limit) }, (_, i) => {
+    const cells = kept.get(i + 1) ?? [];
+    return Array.from({ length: width }, (_, j) => cells[j] ?? '');
+  });
+  return { rows, totalRows };
+}
+
+/** Every sheet as a Markdown table, with its size and visibility */
+export function extractXlsx(buffer: Buffer): LocalExtraction {
+  const pkg = new OoxmlPackage(buffer);
+  const workbookXml = pkg.requireText('xl/workbook.xml', 'XLSX');
+  const relationships = parseRelationships(
+    pkg.text('xl/_rels/workbook.xml.rels') ?? '',
+    'xl',
+  );
+  const context: SheetContext = {
+    sharedStrings: findElements(
+      pkg.text('xl/sharedStrings.xml') ?? '',
+      'si',
+    ).map((item) => collectText(item, 't')),
+    dateStyles: parseDateStyles(pkg.text('xl/styles.xml')),
+    date1904: /<workbookPr[^>]*date1904="(?:1|true)"/.test(workbookXml),
+  };
+
+  const sections: string[] = [];
+  for (const sheet of findElements(workbookXml, 'sheet')) {
+    const name = getAttribute(sheet, 'name') ?? 'Sheet';
+    const target = relationships.get(getAttribute(sheet, 'r:id') ?? '')?.target;
+    const sheetXml = target ? pkg.text(target) : undefined;
+    if (!sheetXml) continue;
+
+    const { rows, totalRows } = readSheetRows(
+      sheetXml,
+      context,
+      MAX_SHEET_ROWS,
+    );
+    const state = getAttribute(sheet, 'state');
+    const columns = rows[0]?.length ?? 0;
+    const lines = [
+      `## Sheet: ${name}${state && state !== 'visible' ? ` (${state})` : ''}`,
+      '',
+      `${totalRows} rows × ${columns} columns`,
+    ];
+    if (rows.length > 0) {
+      lines.push('', toMarkdownTable(rows));
+      if (totalRows > MAX_SHEET_ROWS) {
+        lines.push('', `_Showing the first ${MAX_SHEET_ROWS} rows._`);
+      }
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  return { text: sections.join('\n\n'), images: [] };
+}
+
+// ============================================================================
+// PPTX
+// ============================================================================
+
+const TITLE_PLACEHOLDER = /<p:ph[^>]*type="(?:title|ctrTitle)"/;
+const BODY_PLACEHOLDER = /<p:ph[^>]*type="body"/;
+
+function shapeParagraphs(shape: string): string[] {
+  return findElements(shape, 'a:p')
+    .map((paragraph) => collectText(paragraph, 'a:t').trim())
+    .filter(Boolean);
+}
+
+function formatSlide(
+  slideXml: string,
+  notesXml: string | undefined,
+  number: number,
+): string {
+  let title = '';
+  const body: string[] = [];
+  for (const shape of findElements(slideXml, 'p:sp')) {
+    const paragraphs = shapeParagraphs(shape);
+    if (!title && TITLE_PLACEHOLDER.test(shape)) {
+      title = paragraphs.join(' ');
+    } else {
+      body.push(...paragraphs.map((p) => `- ${p}`));
+    }
+  }
+  for (const table of findElements(slideXml, 'a:tbl')) {
+    const rows = findElements(table, 'a:tr').map((row) =>
+      findElements(row, 'a:tc').map((cell) => shapeParagraphs(cell).join(' ')),
+    );
+    const markdown = toMarkdownTable(rows);
+    if (markdown) body.push('', markdown);
+  }
+
+  const lines = [`## Slide ${number}${title ? `: ${title}` : ''}`];
+  if (body.length > 0) lines.push('', ...body);
+
+  const notes = findElements(notesXml ?? '', 'p:sp')
+    .filter((shape) => BODY_PLACEHOLDER.test(shape))
+    .flatMap(shapeParagraphs);
+  if (notes.length > 0) lines.push('', `**Notes:** ${notes.join(' ')}`);
+
+  return lines.join('\n').trim();
+}
+
+/** Slide titles, text, tables and speaker notes in presentation order */
+export function extractPptx(buffer: Buffer): LocalExtraction {
+  const pkg = new OoxmlPackage(buffer);
+  const presentationXml = pkg.requireText('ppt/presentation.xml', 'PPTX');
+  const relationships = parseRelationships(
+    pkg.text('ppt/_rels/presentation.xml.rels') ?? '',
+    'ppt',
+  );
+
+  const slides: string[] = [];
+  for (const slideId of findElements(presentationXml, 'p:sldId')) {
+    const slidePath = relationships.get(
+      getAttribute(slideId, 'r:id') ?? '',
+    )?.target;
+    const slideXml = slidePath ? pkg.text(slidePath) : undefined;
+    if (!slidePath || !slideXml) continue;
+
+    const slideDir = slidePath.slice(0, slidePath.lastIndexOf('/'));
+    const slideFile = slidePath.slice(slideDir.length + 1);
+    const notesPath = [
+      ...parseRelationships(
+        pkg.text(`${slideDir}/_rels/${slideFile}.rels`) ?? '',
+        slideDir,
+      ).values(),
+    ].find((rel) => rel.type.endsWith('/notesSlide'))?.target;
+
+    slides.push(
+      formatSlide(
+        slideXml,
+        notesPath ? pkg.text(notesPath) : undefined,
+        slides.length + 1,
+      ),
+    );
+  }
+
+  return { text: slides.join('\n\n'), images: pkg.images('ppt/media/') };
+}
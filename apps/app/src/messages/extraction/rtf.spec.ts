@@ -0,0 +1,21 @@
+import { extractRtf } from './rtf';
+
+describe('extractRtf', () => {
+  it('keeps text and paragraphs and drops formatting tables', () => {
+    const rtf = String.raw`{\rtf1\ansi\deff0{\fonttbl{\f0 Arial;}}{\colortbl;\red255\green0\blue0;}
+{\*\generator Writer;}\pard\b Invoice\b0\par
+Total:\tab 120\par
+}`;
+    expect(extractRtf(rtf)).toBe('Invoice\nTotal:\t120');
+  });
+
+  it('decodes escapes and unicode', () => {
+    const rtf = String.raw`{\rtf1\ansi Caf\'e9 \'93quoted\'94 \u8364? 5 \{braces\}}`;
+    expect(extractRtf(rtf)).toBe('Café “quoted” € 5 {braces}');
+  });
+
+  it('honours the unicode fallback length', () => {
+    const rtf = String.raw`{\rtf1\uc2 \u8212\'97\'97 done}`;
+    expect(extractRtf(rtf)).toBe('— done');
+  });
+});
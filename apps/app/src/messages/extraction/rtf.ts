@@ -0,0 +1,160 @@
+/**
+ * RTF → plain text. Keeps paragraphs, tabs and special characters and drops
+ * formatting, font/colour tables, embedded pictures and other destinations
+ * that don't carry document text.
+ */
+
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'rsidtbl',
+  'revtbl',
+  'filetbl',
+  'info',
+  'pict',
+  'object',
+  'themedata',
+  'colorschememapping',
+  'latentstyles',
+  'datastore',
+  'xmlnstbl',
+  'generator',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+]);
+
+const CONTROL_SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+/** Windows-1252 characters that differ from Latin-1 */
+const CP1252: Record<number, string> = {
+  0x80: '€',
+  0x85: '…',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+  0x99: '™',
+};
+
+const CONTROL_WORD = /^([a-z]{1,32})(-?\d{1,10})? ?/i;
+
+function decodeHexEscape(hex: string): string {
+  const code = parseInt(hex, 16);
+  if (!Number.isFinite(code)) return '';
+  return CP1252[code] ?? String.fromCharCode(code);
+}
+
+export function extractRtf(rtf: string): string {
+  const out: string[] = [];
+  const groups: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  // Fallback characters that follow each \uN escape (set by \ucN)
+  let unicodeSkip = 1;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (!skip) out.push(text);
+  };
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      groups.push({ skip, unicodeSkip });
+      i++;
+      continue;
+    }
+    if (ch === '}') {
+      const group = groups.pop();
+      if (group) ({ skip, unicodeSkip } = group);
+      i++;
+      continue;
+    }
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+    if (ch !== '\\') {
+      emit(ch);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === "'") {
+      emit(decodeHexEscape(rtf.slice(i + 2, i + 4)));
+      i += 4;
+      continue;
+    }
+    if (next === '*') {
+      // Ignorable destination — skip the rest of the group
+      skip = true;
+      i += 2;
+      continue;
+    }
+    if (next === '~') emit(' ');
+    if (next === '_') emit('-');
+    if (next === '\n' || next === '\r') emit('\n');
+
+    const match = CONTROL_WORD.exec(rtf.slice(i + 1, i + 46));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+    i += 1 + match[0].length;
+
+    const [, word, param] = match;
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      skip = true;
+    } else if (word === 'uc') {
+      unicodeSkip = Number(param ?? 1);
+    } else if (word === 'u' && param !== undefined) {
+      const code = Number(param);
+      emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+      for (let n = 0; n < unicodeSkip && i < rtf.length; n++) {
+        if (rtf[i] === '{' || rtf[i] === '}') break;
+        i += rtf[i] === '\\' && rtf[i + 1] === "'" ? 4 : 1;
+      }
+    } else if (CONTROL_SYMBOLS[word]) {
+      emit(CONTROL_SYMBOLS[word]);
+    }
+  }
+
+  return out
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,111 @@
+/**
+ * Just enough XML handling for OOXML parts. The schemas are fixed, so
+ * element and attribute lookups by regex are reliable and avoid pulling in
+ * a full parser.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi,
+    (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code =
+          entity[1] === 'x' || entity[1] === 'X'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    },
+  );
+}
+
+/** Read an attribute of the opening tag of `xml` (namespace prefix included in `name`) */
+export function getAttribute(xml: string, name: string): string | undefined {
+  const openingTag = xml.slice(0, xml.indexOf('>') + 1);
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(openingTag);
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+/**
+ * All elements named `tag`, including self-closing ones.
+ * Does not handle an element nested inside one of the same name.
+ */
+export function findElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<${tag}(?:\\s[^>]*)?/>|<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`,
+    'g',
+  );
+  return xml.match(pattern) ?? [];
+}
+
+/** Concatenated, decoded content of every `tag` text element in `xml` */
+export function collectText(xml: string, tag: string): string {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  let text = '';
+  for (const match of xml.matchAll(pattern)) {
+    text += decodeXmlEntities(match[1]);
+  }
+  return text;
+}
+
+/**
+ * Relationship ID → target path from a `.rels` part, resolved against the
+ * folder of the part that owns the relationships.
+ */
+export function parseRelationships(
+  relsXml: string,
+  baseDir: string,
+): Map<string, { target: string; type: string }> {
+  const relationships = new Map<string, { target: string; type: string }>();
+  for (const rel of findElements(relsXml, 'Relationship')) {
+    const id = getAttribute(rel, 'Id');
+    const target = getAttribute(rel, 'Target');
+    if (!id || !target || getAttribute(rel, 'TargetMode') === 'External') {
+      continue;
+    }
+    relationships.set(id, {
+      target: resolvePartPath(baseDir, target),
+      type: getAttribute(rel, 'Type') ?? '',
+    });
+  }
+  return relationships;
+}
+
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = baseDir ? baseDir.split('/') : [];
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/** Render rows as a Markdown table, using the first row as the header */
+export function toMarkdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width === 0) return '';
+
+  const cell = (value: string | undefined) =>
+    (value ?? '')
+      .replace(/\|/g, '\\|')
+      .replace(/\s*\n\s*/g, ' ')
+      .trim();
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+  return [
+    line(rows[0]),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
@@ -0,0 +1,146 @@
+import { inflateRawSync } from 'node:zlib';
+
+/**
+ * Minimal ZIP reader for extracting OOXML parts (DOCX, XLSX, PPTX).
+ *
+ * Reads the central directory and inflates single entries on demand.
+ * ZIP64, encryption and multi-disk archives are not supported.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  /** Compression method (0 = stored, 8 = deflate) */
+  method: number;
+  compressedSize: number;
+  /** Uncompressed size as declared by the archive */
+  size: number;
+  encrypted: boolean;
+  isDirectory: boolean;
+  /** Offset of the local file header */
+  localHeaderOffset: number;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+export function isZipBuffer(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE
+  );
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = buffer.length - EOCD_MIN_SIZE; i >= stop; i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new ZipFormatError('End of central directory not found');
+}
+
+/** List the entries of a ZIP archive from its central directory */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  if (buffer.length < EOCD_MIN_SIZE) {
+    throw new ZipFormatError('File too small to be a ZIP archive');
+  }
+
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipFormatError('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new ZipFormatError('Corrupt central directory');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString('utf-8');
+
+    entries.push({
+      name,
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      encrypted: (flags & 0x1) !== 0,
+      isDirectory: name.endsWith('/'),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Decompress one entry.
+ * @param maxSize - Refuse to inflate more than this many bytes (zip bombs)
+ */
+export function readZipEntry(
+  buffer: Buffer,
+  entry: ZipEntry,
+  maxSize: number,
+): Buffer {
+  if (entry.encrypted) {
+    throw new ZipFormatError(`Entry ${entry.name} is encrypted`);
+  }
+  if (entry.size > maxSize) {
+    throw new ZipFormatError(
+      `Entry ${entry.name} exceeds ${maxSize} bytes uncompressed`,
+    );
+  }
+
+  const header = entry.localHeaderOffset;
+  if (
+    header + 30 > buffer.length ||
+    buffer.readUInt32LE(header) !== LOCAL_HEADER_SIGNATURE
+  ) {
+    throw new ZipFormatError(`Corrupt local header for ${entry.name}`);
+  }
+  const dataStart =
+    header +
+    30 +
+    buffer.readUInt16LE(header + 26) +
+    buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATE:
+      try {
+        // The declared size can lie — cap the actual output too
+        return inflateRawSync(data, { maxOutputLength: maxSize });
+      } catch (error) {
+        throw new ZipFormatError(
+          `Failed to inflate ${entry.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    default:
+      throw new ZipFormatError(
+        `Unsupported compression method ${entry.method} for ${entry.name}`,
+      );
+  }
+}
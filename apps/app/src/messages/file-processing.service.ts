@@ -5,11 +5,20 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { type ENV } from 'src/types';
 import { type AttachmentDto } from './dto/send-message.dto';
-
-interface AiProcessUsage {
+import {
+  type ArchiveFile,
+  detectOfficeMimetype,
+  type EmbeddedImage,
+  expandArchive,
+  extractDocumentLocally,
+  type LocalExtraction,
+} from './extraction';
+
+export interface AiProcessUsage {
   cost?: number;
   promptTokens?: number;
   completionTokens?: number;
+  model?: string;
 }
 
 interface AiProcessResult {
@@ -17,9 +26,20 @@ interface AiProcessResult {
   usage?: AiProcessUsage;
 }
 
+/** Extracted text plus the model usage it took, for billing by the caller */
+export interface FileProcessingResult {
+  text: string;
+  usage?: AiProcessUsage;
+}
+
 const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB per file
 const MAX_TOTAL_SIZE = 50 * 1024 * 1024; // 50MB total across all attachments
 const MAX_TEXT_LENGTH = 50_000;
+const MIN_PDF_CHARS_PER_PAGE = 25; // Below this a PDF is treated as scanned
+const MAX_ARCHIVE_ENTRIES = 200;
+const MAX_ARCHIVE_TOTAL_SIZE = 100 * 1024 * 1024; // 100MB uncompressed
+const MAX_ARCHIVE_PROCESSED_FILES = 50; // Entries run through the processors
+const MAX_ARCHIVE_MEDIA_FILES = 5; // Images/audio/video sent to the AI model
 const MATRIX_DOWNLOAD_TIMEOUT_MS = 60_000; // 60s
 const AI_PROCESS_TIMEOUT_MS = 120_000; // 120s
 const MAX_ERROR_BODY_LENGTH = 1024; // Cap error response bodies
@@ -55,6 +75,13 @@ const MAGIC_BYTES: Array<{
   offset?: number;
   mime: string;
 }> = [
+  // Archives — tar first, its first bytes are an arbitrary filename
+  {
+    bytes: [0x75, 0x73, 0x74, 0x61, 0x72],
+    offset: 257,
+    mime: 'application/x-tar',
+  }, // "ustar"
+  { bytes: [0x1f, 0x8b], mime: 'application/gzip' },
   // Images
   { bytes: [0x89, 0x50, 0x4e, 0x47], mime: 'image/png' },
   { bytes: [0xff, 0xd8, 0xff], mime: 'image/jpeg' },
@@ -90,7 +117,9 @@ const MAGIC_MIME_CATEGORIES: Record<string, FileCategory[]> = {
   'image/bmp': ['image'],
   'image/tiff': ['image'],
   'application/pdf': ['document'],
-  'application/zip': ['document'], // docx/xlsx are ZIP archives
+  'application/zip': ['document', 'archive'], // docx/xlsx are ZIP archives
+  'application/gzip': ['archive'],
+  'application/x-tar': ['archive'],
   'application/msword': ['document'],
   'audio/mpeg': ['audio'],
   'audio/ogg': ['audio'],
@@ -104,8 +133,22 @@ export type FileCategory =
   | 'image'
   | 'audio'
   | 'video'
+  | 'archive'
   | 'unsupported';
 
+/** Categories handled by a single processor (archives fan out to these) */
+type SingleFileCategory = Exclude<FileCategory, 'unsupported' | 'archive'>;
+
+const ARCHIVE_MIMETYPES = new Set([
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/x-tar',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-gtar',
+  'application/x-compressed-tar',
+]);
+
 export interface ProcessedAttachment {
   filename: string;
   mimetype: string;
@@ -124,7 +167,7 @@ export interface SandboxUploadConfig {
   oracleHomeServerUrl: string;
 }
 
-const PROMPTS: Record<Exclude<FileCategory, 'unsupported'>, string> = {
+const PROMPTS: Record<SingleFileCategory, string> = {
   document: 'Extract all text content from this document verbatim.',
   image:
     'Describe this image in detail. Include all text, numbers, labels, and visual elements.',
@@ -220,12 +263,49 @@ export class FileProcessingService {
     };
   }
 
+  /**
+   * Upload extracted archive entries into a directory named after the
+   * archive. Failures are counted rather than thrown — the archive itself
+   * is already in the sandbox.
+   */
+  private async uploadArchiveTreeToSandbox(
+    files: ArchiveFile[],
+    archiveName: string,
+    sandboxConfig: SandboxUploadConfig,
+  ): Promise<{ dir: string; failed: number }> {
+    const baseName =
+      archiveName.replace(/(\.tar)?\.(zip|tar|gz|tgz)$/i, '') || 'archive';
+    const dir = this.sanitizeSandboxPath(
+      `${SANDBOX_OUTPUT_PREFIX}/${baseName}`,
+    );
+    let failed = 0;
+    for (const file of files) {
+      try {
+        await this.uploadToSandbox(
+          file.data,
+          file.path.split('/').pop()!,
+          `${dir}/${file.path}`,
+          sandboxConfig,
+          this.guessMimeFromFilename(file.path) ?? 'text/plain',
+        );
+      } catch (error) {
+        failed++;
+        this.logger.warn(
+          `Sandbox upload failed for archive entry "${file.path}": ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return { dir, failed };
+  }
+
   async processAttachments(
     attachments: AttachmentDto[],
     roomId: string,
     sandboxConfig?: SandboxUploadConfig,
   ): Promise<{
     texts: string[];
+    /** Untruncated extracted text, aligned with `texts` (for indexing) */
+    contents: string[];
     metadata: ProcessedAttachment[];
     totalUsage: {
       cost: number;
@@ -255,7 +335,7 @@ export class FileProcessingService {
           `Attachment: "${attachment.filename}" (${attachment.mimetype}, ${attachment.size ?? 'unknown'} bytes) — source: ${attachment.eventId ? `eventId=${attachment.eventId}` : `mxcUri=${attachment.mxcUri}`}`,
         );
         try {
-          const { text, downloadedSize, sandboxPath, usage } =
+          const { text, fullText, downloadedSize, sandboxPath, usage } =
             await this.processAttachment(attachment, 0, roomId, sandboxConfig);
           this.logger.log(
             `Attachment "${attachment.filename}" processed — downloaded ${downloadedSize} bytes, text extracted: ${text ? text.length + ' chars' : 'none'}`,
@@ -263,6 +343,7 @@ export class FileProcessingService {
           const category = this.categorizeFile(attachment.mimetype);
           return {
             text,
+            fullText,
             downloadedSize,
             usage,
             metadata: text
@@ -315,11 +396,13 @@ export class FileProcessingService {
     }
 
     const texts: string[] = [];
+    const contents: string[] = [];
     const metadata: ProcessedAttachment[] = [];
     const totalUsage = { cost: 0, promptTokens: 0, completionTokens: 0 };
     for (const result of results) {
       if (result.text) {
         texts.push(result.text);
+        contents.push(('fullText' in result && result.fullText) || result.text);
       }
       if (result.metadata) {
         metadata.push(result.metadata);
@@ -336,7 +419,7 @@ export class FileProcessingService {
       `Attachments done — ${texts.length} text result(s), ${aiCallsMade} AI call(s), total downloaded: ${totalDownloaded} bytes, usage: cost=$${totalUsage.cost} tokens=${totalUsage.promptTokens + totalUsage.completionTokens}`,
     );
 
-    return { texts, metadata, totalUsage };
+    return { texts, contents, metadata, totalUsage };
   }
 
   private async processAttachment(
@@ -346,6 +429,8 @@ export class FileProcessingService {
     sandboxConfig?: SandboxUploadConfig,
   ): Promise<{
     text: string | null;
+    /** Full text when `text` is a truncated sandbox preview */
+    fullText?: string;
     downloadedSize: number;
     sandboxPath?: string;
     usage?: AiProcessUsage;
@@ -436,7 +521,15 @@ export class FileProcessingService {
 
     let text: string;
     let usage: AiProcessUsage | undefined;
+    let archiveFiles: ArchiveFile[] = [];
     switch (category) {
+      case 'archive':
+        ({
+          text,
+          usage,
+          files: archiveFiles,
+        } = await this.processArchive(buffer, attachment));
+        break;
       case 'document':
         ({ text, usage } = await this.processDocument(buffer, attachment));
         break;
@@ -469,6 +562,21 @@ export class FileProcessingService {
           `Attachment "${attachment.filename}" uploaded to sandbox at ${actualPath}`,
         );
 
+        // Expand archives next to the original so skills can work on the tree
+        let extractedNote = '';
+        if (archiveFiles.length > 0) {
+          const tree = await this.uploadArchiveTreeToSandbox(
+            archiveFiles,
+            safeName,
+            sandboxConfig,
+          );
+          extractedNote =
+            `\n[Archive extracted to sandbox at ${tree.dir}/]` +
+            (tree.failed > 0
+              ? ` (${tree.failed} file(s) failed to upload)`
+              : '');
+        }
+
         // For AI-processed files (image/video/audio), save analysis as .md
         let analysisPath: string | undefined;
         if (
@@ -506,19 +614,24 @@ export class FileProcessingService {
         }
 
         if (text.length > SANDBOX_TRUNCATE_LIMIT) {
-          const paths = analysisPath
-            ? `\n\n[Full analysis saved to sandbox at ${analysisPath}]\n[Original file saved to sandbox at ${actualPath}]`
-            : `\n\n[Full file saved to sandbox at ${actualPath}]`;
+          const paths =
+            (analysisPath
+              ? `\n\n[Full analysis saved to sandbox at ${analysisPath}]\n[Original file saved to sandbox at ${actualPath}]`
+              : `\n\n[Full file saved to sandbox at ${actualPath}]`) +
+            extractedNote;
           return {
             text: text.slice(0, SANDBOX_TRUNCATE_LIMIT) + paths,
+            fullText: text,
             downloadedSize: buffer.length,
             sandboxPath: actualPath,
             usage,
           };
         }
-        const suffix = analysisPath
-          ? `\n\n[Analysis saved to sandbox at ${analysisPath}]\n[File also saved to sandbox at ${actualPath}]`
-          : `\n\n[File also saved to sandbox at ${actualPath}]`;
+        const suffix =
+          (analysisPath
+            ? `\n\n[Analysis saved to sandbox at ${analysisPath}]\n[File also saved to sandbox at ${actualPath}]`
+            : `\n\n[File also saved to sandbox at ${actualPath}]`) +
+          extractedNote;
         return {
           text: text + suffix,
           downloadedSize: buffer.length,
@@ -841,6 +954,7 @@ export class FileProcessingService {
   }
 
   private categorizeFile(mimetype: string): FileCategory {
+    if (ARCHIVE_MIMETYPES.has(mimetype)) return 'archive';
     if (this.isDocumentType(mimetype)) return 'document';
     if (mimetype.startsWith('image/')) return 'image';
     if (mimetype.startsWith('audio/')) return 'audio';
@@ -868,6 +982,32 @@ export class FileProcessingService {
   ): Promise<{ text: string; usage?: AiProcessUsage }> {
     const safeFilename = this.sanitizeFilename(attachment.filename);
 
+    // Office documents, RTF and JSON — deterministic local extraction,
+    // with only embedded images sent to the vision model
+    let local: LocalExtraction | null = null;
+    try {
+      local = extractDocumentLocally(
+        buffer,
+        attachment.mimetype,
+        attachment.filename,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Local extraction failed for ${attachment.filename}, falling back to AI: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (local && (local.text.trim() || local.images.length > 0)) {
+      const images = await this.describeEmbeddedImages(local.images);
+      return {
+        text: this.formatContent(
+          'Content',
+          safeFilename,
+          this.truncateText(local.text + images.text),
+        ),
+        usage: images.usage,
+      };
+    }
+
     // Plain-text types — parse directly, no AI needed
     if (this.isPlainTextType(attachment.mimetype)) {
       const text = buffer.toString('utf-8');
@@ -888,7 +1028,12 @@ export class FileProcessingService {
         attachment.filename,
       );
       const text = docs.map((doc) => doc.pageContent).join('\n\n');
-      if (text.trim().length > 0) {
+      // PDFs load one document per page — near-empty pages mean a scan,
+      // which only the vision model can read
+      const isScannedPdf =
+        attachment.mimetype === 'application/pdf' &&
+        text.trim().length < docs.length * MIN_PDF_CHARS_PER_PAGE;
+      if (text.trim().length > 0 && !isScannedPdf) {
         return {
           text: this.formatContent(
             'Content',
@@ -897,6 +1042,11 @@ export class FileProcessingService {
           ),
         };
       }
+      if (isScannedPdf) {
+        this.logger.log(
+          `${attachment.filename} looks like a scanned PDF, using AI extraction`,
+        );
+      }
     } catch (error) {
       this.logger.warn(
         `Local parsing failed for ${attachment.filename}, falling back to AI: ${error instanceof Error ? error.message : String(error)}`,
@@ -916,6 +1066,165 @@ export class FileProcessingService {
     };
   }
 
+  /**
+   * Describe images embedded in a locally extracted document with the vision
+   * model. Extraction already skips icons and caps the count, keeping the
+   * cost per attachment bounded.
+   */
+  private async describeEmbeddedImages(
+    images: EmbeddedImage[],
+  ): Promise<{ text: string; usage?: AiProcessUsage }> {
+    if (images.length === 0) return { text: '' };
+
+    const sections: string[] = [];
+    let usage: AiProcessUsage | undefined;
+    for (const image of images) {
+      try {
+        const result = await this.aiProcess(
+          image.data,
+          image.mimetype,
+          'image',
+          image.name,
+        );
+        sections.push(`### ${image.name}\n${result.content}`);
+        usage = this.addUsage(usage, result.usage);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to describe embedded image ${image.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    if (sections.length === 0) return { text: '' };
+
+    return {
+      text: `\n\n## Embedded images\n\n${sections.join('\n\n')}`,
+      usage,
+    };
+  }
+
+  private addUsage(
+    total: AiProcessUsage | undefined,
+    usage: AiProcessUsage | undefined,
+  ): AiProcessUsage | undefined {
+    if (!usage) return total;
+    if (!total) return { ...usage };
+    return {
+      cost: (total.cost ?? 0) + (usage.cost ?? 0),
+      promptTokens: (total.promptTokens ?? 0) + (usage.promptTokens ?? 0),
+      completionTokens:
+        (total.completionTokens ?? 0) + (usage.completionTokens ?? 0),
+      model: total.model ?? usage.model,
+    };
+  }
+
+  /**
+   * Expand a ZIP/TAR/gzip archive and run each entry through the category
+   * processors. Nested archives are listed but not expanded, and only the
+   * first few media entries go to the AI model to keep the cost bounded.
+   */
+  private async processArchive(
+    buffer: Buffer,
+    attachment: AttachmentDto,
+  ): Promise<{ text: string; usage?: AiProcessUsage; files: ArchiveFile[] }> {
+    const safeFilename = this.sanitizeFilename(attachment.filename);
+
+    // Office files are ZIPs too — one sent as application/zip is a document
+    const officeMime = detectOfficeMimetype(buffer);
+    if (officeMime) {
+      const result = await this.processDocument(buffer, {
+        ...attachment,
+        mimetype: officeMime,
+      });
+      return { ...result, files: [] };
+    }
+
+    const { files, skipped } = expandArchive(buffer, attachment.filename, {
+      maxEntries: MAX_ARCHIVE_ENTRIES,
+      maxEntrySize: MAX_FILE_SIZE,
+      maxTotalSize: MAX_ARCHIVE_TOTAL_SIZE,
+    });
+    this.logger.log(
+      `Archive "${attachment.filename}" expanded — ${files.length} file(s), ${skipped.length} skipped`,
+    );
+
+    const sections: string[] = [];
+    const notProcessed = skipped.map((e) => `${e.path} (${e.reason})`);
+    let usage: AiProcessUsage | undefined;
+    let processedCount = 0;
+    let mediaCount = 0;
+
+    for (const file of files) {
+      const mimetype =
+        this.guessMimeFromFilename(file.path) ??
+        this.detectMimeFromMagicBytes(file.data) ??
+        (this.looksLikeText(file.data) ? 'text/plain' : null);
+      const category = mimetype ? this.categorizeFile(mimetype) : 'unsupported';
+
+      if (category === 'unsupported' || category === 'archive') {
+        notProcessed.push(
+          `${file.path} (${category === 'archive' ? 'nested archive' : 'unsupported type'})`,
+        );
+        continue;
+      }
+      if (processedCount >= MAX_ARCHIVE_PROCESSED_FILES) {
+        notProcessed.push(`${file.path} (file limit reached)`);
+        continue;
+      }
+      const isMedia = category !== 'document';
+      if (isMedia && mediaCount >= MAX_ARCHIVE_MEDIA_FILES) {
+        notProcessed.push(`${file.path} (media limit reached)`);
+        continue;
+      }
+
+      const entry: AttachmentDto = { filename: file.path, mimetype: mimetype! };
+      try {
+        this.verifyMagicBytes(file.data, category, entry);
+        const result = await this.processSingleFile(file.data, category, entry);
+        sections.push(
+          `### ${this.sanitizeFilename(file.path)}\n${result.text}`,
+        );
+        usage = this.addUsage(usage, result.usage);
+        processedCount++;
+        if (isMedia) mediaCount++;
+      } catch (error) {
+        notProcessed.push(
+          `${file.path} (${error instanceof Error ? error.message : String(error)})`,
+        );
+      }
+    }
+
+    // The listing goes first so it survives truncation
+    const listing = files
+      .map(
+        (f) =>
+          `- ${this.sanitizeFilename(f.path)} (${(f.data.length / 1024).toFixed(1)} KB)`,
+      )
+      .join('\n');
+    const parts = [`${files.length} file(s):\n${listing}`];
+    if (notProcessed.length > 0) {
+      parts.push(
+        `Not processed:\n${notProcessed.map((p) => `- ${this.sanitizeFilename(p)}`).join('\n')}`,
+      );
+    }
+    parts.push(...sections);
+
+    return {
+      text: this.formatContent(
+        'Archive contents',
+        safeFilename,
+        this.truncateText(parts.join('\n\n')),
+      ),
+      usage,
+      files,
+    };
+  }
+
+  /** Heuristic for extension-less text files (Makefile, LICENSE, …) */
+  private looksLikeText(buffer: Buffer): boolean {
+    const sample = buffer.subarray(0, 8192);
+    return sample.length > 0 && !sample.includes(0);
+  }
+
   private async processImage(
     buffer: Buffer,
     attachment: AttachmentDto,
@@ -1060,6 +1369,7 @@ export class FileProcessingService {
               cost: result.usage.cost,
               promptTokens: result.usage.prompt_tokens,
               completionTokens: result.usage.completion_tokens,
+              model: result.model ?? this.processingModel,
             }
           : undefined,
       };
@@ -1071,7 +1381,7 @@ export class FileProcessingService {
   private async aiProcess(
     buffer: Buffer,
     mimetype: string,
-    category: Exclude<FileCategory, 'unsupported'>,
+    category: SingleFileCategory,
     filename: string,
   ): Promise<AiProcessResult> {
     const base64 = buffer.toString('base64');
@@ -1161,6 +1471,7 @@ export class FileProcessingService {
               cost: result.usage.cost,
               promptTokens: result.usage.prompt_tokens,
               completionTokens: result.usage.completion_tokens,
+              model: result.model ?? this.processingModel,
             }
           : undefined,
       };
@@ -1204,8 +1515,7 @@ export class FileProcessingService {
     return (
       mimetype.startsWith('text/') ||
       mimetype === 'application/json' ||
-      mimetype === 'application/xml' ||
-      mimetype === 'application/rtf'
+      mimetype === 'application/xml'
     );
   }
 
@@ -1258,12 +1568,13 @@ export class FileProcessingService {
   async downloadAndProcessFile(
     source: { url: string } | { eventId: string; roomId?: string },
     hints?: { filename?: string; mimetype?: string },
-  ): Promise<{
-    buffer: Buffer;
-    text: string;
-    resolvedFilename: string;
-    resolvedMimetype: string;
-  }> {
+  ): Promise<
+    FileProcessingResult & {
+      buffer: Buffer;
+      resolvedFilename: string;
+      resolvedMimetype: string;
+    }
+  > {
     let buffer: Buffer;
     let httpContentType: string | undefined;
     let finalUrl: string | undefined;
@@ -1322,7 +1633,7 @@ export class FileProcessingService {
 
     const category = this.categorizeFile(mimetype);
 
-    let text: string;
+    let result: FileProcessingResult;
     if (category === 'unsupported') {
       const fallbackMime = magicMime ?? httpContentType;
       const fallbackCategory = fallbackMime
@@ -1332,19 +1643,25 @@ export class FileProcessingService {
       if (fallbackCategory !== 'unsupported' && fallbackMime) {
         const attachment: AttachmentDto = { filename, mimetype: fallbackMime };
         this.verifyMagicBytes(buffer, fallbackCategory, attachment);
-        text = await this.processCategory(buffer, fallbackCategory, attachment);
+        result = await this.processCategory(
+          buffer,
+          fallbackCategory,
+          attachment,
+        );
       } else {
-        text = `[File "${this.sanitizeFilename(filename)}" (${mimetype}) is not a supported file type and could not be processed.]`;
+        result = {
+          text: `[File "${this.sanitizeFilename(filename)}" (${mimetype}) is not a supported file type and could not be processed.]`,
+        };
       }
     } else {
       const attachment: AttachmentDto = { filename, mimetype };
       this.verifyMagicBytes(buffer, category, attachment);
-      text = await this.processCategory(buffer, category, attachment);
+      result = await this.processCategory(buffer, category, attachment);
     }
 
     return {
+      ...result,
       buffer,
-      text,
       resolvedFilename: filename,
       resolvedMimetype: mimetype,
     };
@@ -1359,7 +1676,7 @@ export class FileProcessingService {
     roomId: string,
     eventId: string,
     hints?: { filename?: string; mimetype?: string },
-  ): Promise<string> {
+  ): Promise<FileProcessingResult> {
     this.logger.log(
       `[processFileFromEventId] Starting — roomId=${roomId}, eventId=${eventId}, hints=${JSON.stringify(hints)}`,
     );
@@ -1399,7 +1716,9 @@ export class FileProcessingService {
         return this.processCategory(buffer, fallbackCategory, attachment);
       }
 
-      return `[File "${this.sanitizeFilename(filename)}" (${mimetype}) is not a supported file type and could not be processed.]`;
+      return {
+        text: `[File "${this.sanitizeFilename(filename)}" (${mimetype}) is not a supported file type and could not be processed.]`,
+      };
     }
 
     const attachment: AttachmentDto = { filename, mimetype };
@@ -1416,7 +1735,7 @@ export class FileProcessingService {
   async processFileFromUrl(
     url: string,
     hints?: { filename?: string; mimetype?: string },
-  ): Promise<string> {
+  ): Promise<FileProcessingResult> {
     this.logger.log(
       `[processFileFromUrl] Starting — url=${url}, hints=${JSON.stringify(hints)}`,
     );
@@ -1447,8 +1766,12 @@ export class FileProcessingService {
       return this.tryUrlPassthrough(url, knownMime!, knownCategory, filename);
     }
 
-    // If we already know it's audio/document, download directly (no HEAD needed)
-    if (knownCategory === 'audio' || knownCategory === 'document') {
+    // If we already know it's audio/document/archive, download directly (no HEAD needed)
+    if (
+      knownCategory === 'audio' ||
+      knownCategory === 'document' ||
+      knownCategory === 'archive'
+    ) {
       this.logger.log(
         `[processFileFromUrl] Known ${knownCategory} — downloading "${filename}" (${knownMime})`,
       );
@@ -1492,7 +1815,11 @@ export class FileProcessingService {
         );
       }
 
-      if (headCategory === 'audio' || headCategory === 'document') {
+      if (
+        headCategory === 'audio' ||
+        headCategory === 'document' ||
+        headCategory === 'archive'
+      ) {
         this.logger.log(
           `[processFileFromUrl] HEAD says ${headCategory} (${headContentType}) — downloading`,
         );
@@ -1506,8 +1833,9 @@ export class FileProcessingService {
     this.logger.log(
       `[processFileFromUrl] Type still unknown (HEAD Content-Type: ${headContentType ?? 'none'}) — trying AI video passthrough as fallback`,
     );
+    let passthroughUsage: AiProcessUsage | undefined;
     try {
-      const { content } = await this.aiProcessFromUrl(
+      const { content, usage } = await this.aiProcessFromUrl(
         resolvedUrl,
         'video/mp4',
         'video',
@@ -1518,12 +1846,16 @@ export class FileProcessingService {
         this.logger.log(
           `[processFileFromUrl] AI video passthrough succeeded for "${filename}"`,
         );
-        return this.formatContent(
-          'Description',
-          this.sanitizeFilename(filename),
-          content,
-        );
+        return {
+          text: this.formatContent(
+            'Description',
+            this.sanitizeFilename(filename),
+            content,
+          ),
+          usage,
+        };
       }
+      passthroughUsage = usage;
     } catch (error) {
       this.logger.warn(
         `[processFileFromUrl] AI video passthrough failed, falling back to download: ${error instanceof Error ? error.message : String(error)}`,
@@ -1534,7 +1866,11 @@ export class FileProcessingService {
     this.logger.log(
       `[processFileFromUrl] All passthrough attempts failed — downloading "${filename}"`,
     );
-    return this.downloadAndProcess(url, hints);
+    const result = await this.downloadAndProcess(url, hints);
+    return {
+      ...result,
+      usage: this.addUsage(passthroughUsage, result.usage),
+    };
   }
 
   /**
@@ -1546,21 +1882,26 @@ export class FileProcessingService {
     mimetype: string,
     category: 'image' | 'video',
     filename: string,
-  ): Promise<string> {
+  ): Promise<FileProcessingResult> {
+    let passthroughUsage: AiProcessUsage | undefined;
     try {
-      const { content } = await this.aiProcessFromUrl(
+      const { content, usage } = await this.aiProcessFromUrl(
         url,
         mimetype,
         category,
         filename,
       );
       if (content && content.trim().length > 0) {
-        return this.formatContent(
-          'Description',
-          this.sanitizeFilename(filename),
-          content,
-        );
+        return {
+          text: this.formatContent(
+            'Description',
+            this.sanitizeFilename(filename),
+            content,
+          ),
+          usage,
+        };
       }
+      passthroughUsage = usage;
       this.logger.warn(
         `[tryUrlPassthrough] AI returned empty response for "${filename}", falling back to download`,
       );
@@ -1569,7 +1910,11 @@ export class FileProcessingService {
         `[tryUrlPassthrough] AI passthrough failed for "${filename}", falling back to download: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
-    return this.downloadAndProcess(url, { filename, mimetype });
+    const result = await this.downloadAndProcess(url, { filename, mimetype });
+    return {
+      ...result,
+      usage: this.addUsage(passthroughUsage, result.usage),
+    };
   }
 
   /**
@@ -1579,7 +1924,7 @@ export class FileProcessingService {
   private async downloadAndProcess(
     url: string,
     hints?: { filename?: string; mimetype?: string },
-  ): Promise<string> {
+  ): Promise<FileProcessingResult> {
     let buffer: Buffer;
     let httpContentType: string | undefined;
     let finalUrl: string | undefined;
@@ -1641,7 +1986,9 @@ export class FileProcessingService {
       this.logger.warn(
         `[downloadAndProcess] Unsupported file type: ${mimetype} for ${filename}`,
       );
-      return `[File "${this.sanitizeFilename(filename)}" (${mimetype}) is not a supported file type and could not be processed.]`;
+      return {
+        text: `[File "${this.sanitizeFilename(filename)}" (${mimetype}) is not a supported file type and could not be processed.]`,
+      };
     }
 
     const attachment: AttachmentDto = { filename, mimetype };
@@ -1656,11 +2003,23 @@ export class FileProcessingService {
     buffer: Buffer,
     category: Exclude<FileCategory, 'unsupported'>,
     attachment: AttachmentDto,
-  ): Promise<string> {
+  ): Promise<FileProcessingResult> {
     this.logger.log(
       `[processCategory] Processing "${attachment.filename}" as ${category} (${attachment.mimetype}, ${buffer.length} bytes)`,
     );
 
+    if (category === 'archive') {
+      const { text, usage } = await this.processArchive(buffer, attachment);
+      return { text, usage };
+    }
+    return this.processSingleFile(buffer, category, attachment);
+  }
+
+  private async processSingleFile(
+    buffer: Buffer,
+    category: SingleFileCategory,
+    attachment: AttachmentDto,
+  ): Promise<{ text: string; usage?: AiProcessUsage }> {
     let result: { text: string; usage?: AiProcessUsage };
     switch (category) {
       case 'document':
@@ -1676,7 +2035,7 @@ export class FileProcessingService {
         result = await this.processVideo(buffer, attachment);
         break;
     }
-    return result.text;
+    return result;
   }
 
   /**
@@ -1714,6 +2073,11 @@ export class FileProcessingService {
       xls: 'application/vnd.ms-excel',
       ppt: 'application/vnd.ms-powerpoint',
       rtf: 'application/rtf',
+      // Archives
+      zip: 'application/zip',
+      tar: 'application/x-tar',
+      gz: 'application/gzip',
+      tgz: 'application/gzip',
       // Text / code
       txt: 'text/plain',
       md: 'text/markdown',
@@ -2,6 +2,7 @@ import {
   Body,
   Controller,
   Get,
+  Headers,
   HttpCode,
   HttpStatus,
   Param,
@@ -9,8 +10,15 @@ import {
   Req,
   Res,
 } from '@nestjs/common';
-import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import type { Request, Response } from 'express';
+import { RequireCapability } from 'src/ucan/ucan.capabilities';
 import { AbortRequestDto, SendMessageDto } from './dto/send-message.dto';
 import { MessagesService } from './messages.service';
 
@@ -20,6 +28,7 @@ export class MessagesController {
   constructor(private readonly messagesService: MessagesService) {}
 
   @Post('abort')
+  @RequireCapability('messages/send')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Abort an ongoing stream request' })
   @ApiResponse({ status: 200, description: 'Request aborted successfully.' })
@@ -34,7 +43,44 @@ export class MessagesController {
     return { success };
   }
 
+  @Get(':sessionId/runs/:runId/stream')
+  @RequireCapability('messages/read')
+  @ApiOperation({
+    summary: 'Resume a streamed response after a disconnect',
+    description:
+      'Replays buffered SSE events after Last-Event-ID, then keeps streaming until the run emits `done`. Requires Redis.',
+  })
+  @ApiParam({ name: 'sessionId', required: true })
+  @ApiParam({
+    name: 'runId',
+    required: true,
+    description: 'Run ID from the X-Run-Id header of the original stream',
+  })
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: 'ID of the last event received; omit to replay from start',
+  })
+  @ApiResponse({ status: 200, description: 'SSE stream resumed.' })
+  @ApiResponse({ status: 404, description: 'Run not found or expired.' })
+  async resumeStream(
+    @Req() req: Request,
+    @Param('sessionId') sessionId: string,
+    @Param('runId') runId: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Res() res: Response,
+  ) {
+    await this.messagesService.resumeStream({
+      sessionId,
+      runId,
+      did: req.authData.did,
+      lastEventId,
+      res,
+    });
+  }
+
   @Get(':sessionId')
+  @RequireCapability('messages/read')
   @ApiOperation({ summary: 'List messages in a session' })
   @ApiParam({
     name: 'sessionId',
@@ -63,6 +109,7 @@ export class MessagesController {
   }
 
   @Post(':sessionId')
+  @RequireCapability('messages/send')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Send a message to the oracle' })
   @ApiParam({
@@ -41,6 +41,7 @@ import {
 import { emojify } from 'node-emoji';
 import * as crypto from 'node:crypto';
 import { MainAgentGraph } from 'src/graph';
+import { SUBAGENT_RUN_TAG } from 'src/graph/agents/subagent-progress';
 import { cleanAdditionalKwargs } from 'src/graph/nodes/chat-node/utils';
 import { type TMainAgentGraphState } from 'src/graph/state';
 import { ApprovalService } from 'src/tasks/approval.service';
@@ -49,26 +50,26 @@ import {
   type ApprovalClassification,
 } from 'src/tasks/processors/processor-utils';
 import { TasksService } from 'src/tasks/task.service';
-import { isRedisEnabled } from 'src/config';
 import { type ENV } from 'src/types';
 import { UcanService } from 'src/ucan/ucan.service';
+import { UsageAccounting } from 'src/usage/usage-accounting';
 import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
 import { normalizeDid } from 'src/utils/header.utils';
 import { emitSSEEvent, runWithSSEContext } from 'src/utils/sse-context';
 import {
-  formatSSE,
-  sendSSEDone,
-  sendSSEError,
-  setSSEHeaders,
-  startSSEHeartbeat,
-} from 'src/utils/sse.utils';
-import { TokenLimiter } from 'src/utils/token-limit-handler';
+  getSSERunMeta,
+  parseLastEventId,
+  resumeSSERun,
+  SSERunStream,
+} from 'src/utils/sse-run-stream';
+import { setSSEHeaders, startSSEHeartbeat } from 'src/utils/sse.utils';
 import { type ListMessagesDto } from './dto/list-messages.dto';
 import { type SendMessagePayload } from './dto/send-message.dto';
 import {
   FileProcessingService,
   type SandboxUploadConfig,
 } from './file-processing.service';
+import { indexRoomFileInBackground } from './room-file-index';
 
 @Injectable()
 export class MessagesService implements OnModuleInit, OnModuleDestroy {
@@ -774,40 +775,20 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
           }
         }
 
-        const { texts, metadata, totalUsage } =
+        const { texts, contents, metadata, totalUsage } =
           await this.fileProcessingService.processAttachments(
             params.attachments!,
             roomId,
             sandboxConfig,
           );
 
-        // Deduct credits for file processing API calls
-        if (
-          totalUsage &&
-          !this.config.get('DISABLE_CREDITS') &&
-          isRedisEnabled()
-        ) {
-          try {
-            const credits =
-              totalUsage.cost > 0
-                ? TokenLimiter.usdCostToCredits(totalUsage.cost)
-                : TokenLimiter.llmTokenToCredits(
-                    totalUsage.promptTokens + totalUsage.completionTokens,
-                  );
-            if (credits > 0 && params.did) {
-              await TokenLimiter.limit(params.did, credits);
-              Logger.log(
-                `[FileProcessing] Deducted ${credits} credits (did=${params.did})`,
-                'MessagesService',
-              );
-            }
-          } catch (error) {
-            // Non-blocking: file was already processed, log and continue
-            Logger.warn(
-              `[FileProcessing] Failed to deduct credits: ${error instanceof Error ? error.message : String(error)}`,
-              'MessagesService',
-            );
-          }
+        // Deduct credits for file processing API calls. Non-blocking: the
+        // files were already processed
+        if (totalUsage && params.did) {
+          await UsageAccounting.recordInBackground(
+            { userDid: params.did, sessionId, source: 'file-processing' },
+            UsageAccounting.fromProviderUsage(totalUsage),
+          );
         }
 
         Logger.log(
@@ -825,6 +806,21 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
               : '';
           const content = sourceRef ? `${sourceRef}\n${text}` : text;
 
+          // Add to the room's file index so later turns can search_room_files
+          const sourceId = meta.eventId ?? meta.mxcUri;
+          if (params.did && sourceId) {
+            indexRoomFileInBackground(
+              params.did,
+              {
+                roomId,
+                sourceId,
+                filename: meta.filename,
+                mimetype: meta.mimetype,
+              },
+              contents[i],
+            );
+          }
+
           inputMessages.push(
             new HumanMessage({
               content,
@@ -851,8 +847,21 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
           });
       }
       if (params.stream && params.res) {
+        // Buffer events under a run ID so a dropped client can resume
+        const runId = crypto.randomUUID();
+        const runStream = await SSERunStream.start({
+          runId,
+          sessionId,
+          did: params.did,
+          res: params.res,
+        });
+
         // Set SSE headers
-        setSSEHeaders(params.res, runnableConfig.configurable.requestId);
+        setSSEHeaders(
+          params.res,
+          runnableConfig.configurable.requestId,
+          runStream.isResumable ? runId : undefined,
+        );
         params.res.flushHeaders();
 
         // Start heartbeat to keep connection alive
@@ -871,8 +880,17 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
         // Register abort controller for this session
         this.abortControllers.set(sessionId, abortController);
 
-        // Listen for client disconnection - Response 'close' event is most reliable
+        // Listen for client disconnection - Response 'close' event is most reliable.
+        // Resumable runs keep going so the client can reconnect with Last-Event-ID.
         const onClose = () => {
+          if (runStream.isResumable) {
+            Logger.debug(
+              `[MessagesService] Client disconnected, run ${runId} continues for replay`,
+            );
+            clearInterval(heartbeat);
+            runStream.detach();
+            return;
+          }
           Logger.debug(
             `[MessagesService] Client disconnected, aborting stream. Signal already aborted: ${abortController.signal.aborted}`,
           );
@@ -959,9 +977,14 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
 
                 // eslint-disable-next-line no-useless-catch
                 try {
-                  for await (const { data, event, tags: _tags } of stream) {
+                  for await (const { data, event, tags } of stream) {
                     const isChatNode = true;
 
+                    // Relayed as nested events by SubagentProgress
+                    if (tags?.includes(SUBAGENT_RUN_TAG)) {
+                      continue;
+                    }
+
                     if (event === 'on_tool_end') {
                       const toolMessage = data.output as ToolMessage;
 
@@ -1000,19 +1023,11 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                           actionCallEvent.payload.status = 'done';
                         }
 
-                        if (!params.res) {
-                          throw new Error('Response not found');
-                        }
                         // Send action call completion event as SSE
-                        if (
-                          !params.res.writableEnded &&
-                          !abortController.signal.aborted
-                        ) {
-                          params.res.write(
-                            formatSSE(
-                              actionCallEvent.eventName,
-                              actionCallEvent.payload,
-                            ),
+                        if (!abortController.signal.aborted) {
+                          runStream.write(
+                            actionCallEvent.eventName,
+                            actionCallEvent.payload,
                           );
                         }
                         actionCallMap.delete(toolMessage.tool_call_id);
@@ -1034,19 +1049,11 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                         ).toolName = toolMessage.name;
                         toolCallEvent.payload.eventId =
                           toolMessage.tool_call_id;
-                        if (!params.res) {
-                          throw new Error('Response not found');
-                        }
                         // Send tool call completion event as SSE
-                        if (
-                          !params.res.writableEnded &&
-                          !abortController.signal.aborted
-                        ) {
-                          params.res.write(
-                            formatSSE(
-                              toolCallEvent.eventName,
-                              toolCallEvent.payload,
-                            ),
+                        if (!abortController.signal.aborted) {
+                          runStream.write(
+                            toolCallEvent.eventName,
+                            toolCallEvent.payload,
                           );
                         }
                         toolCallMap.delete(toolMessage.tool_call_id);
@@ -1093,18 +1100,10 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                           );
 
                           // Send reasoning chunk as SSE
-                          if (!params.res) {
-                            throw new Error('Response not found');
-                          }
-                          if (
-                            !params.res.writableEnded &&
-                            !abortController.signal.aborted
-                          ) {
-                            params.res.write(
-                              formatSSE(
-                                reasoningEvent.eventName,
-                                reasoningEvent.payload,
-                              ),
+                          if (!abortController.signal.aborted) {
+                            runStream.write(
+                              reasoningEvent.eventName,
+                              reasoningEvent.payload,
                             );
                           }
                         }
@@ -1134,18 +1133,10 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                           });
 
                           // Send action call start event as SSE
-                          if (!params.res) {
-                            throw new Error('Response not found');
-                          }
-                          if (
-                            !params.res.writableEnded &&
-                            !abortController.signal.aborted
-                          ) {
-                            params.res.write(
-                              formatSSE(
-                                actionCallEvent.eventName,
-                                actionCallEvent.payload,
-                              ),
+                          if (!abortController.signal.aborted) {
+                            runStream.write(
+                              actionCallEvent.eventName,
+                              actionCallEvent.payload,
                             );
                           }
                           actionCallMap.set(tool.id, actionCallEvent);
@@ -1169,18 +1160,10 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                           toolCallEvent.payload.eventId = tool.id;
 
                           // Send tool call start event as SSE
-                          if (!params.res) {
-                            throw new Error('Response not found');
-                          }
-                          if (
-                            !params.res.writableEnded &&
-                            !abortController.signal.aborted
-                          ) {
-                            params.res.write(
-                              formatSSE(
-                                toolCallEvent.eventName,
-                                toolCallEvent.payload,
-                              ),
+                          if (!abortController.signal.aborted) {
+                            runStream.write(
+                              toolCallEvent.eventName,
+                              toolCallEvent.payload,
                             );
                           }
                           toolCallMap.set(tool.id, toolCallEvent);
@@ -1194,19 +1177,11 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                         const parsed = emojify(String(content));
                         fullContent += parsed;
                         // Send message chunk as SSE
-                        if (!params.res) {
-                          throw new Error('Response not found');
-                        }
-                        if (
-                          !params.res.writableEnded &&
-                          !abortController.signal.aborted
-                        ) {
-                          params.res.write(
-                            formatSSE('message', {
-                              content: parsed,
-                              timestamp: new Date().toISOString(),
-                            }),
-                          );
+                        if (!abortController.signal.aborted) {
+                          runStream.write('message', {
+                            content: parsed,
+                            timestamp: new Date().toISOString(),
+                          });
                         }
                       }
                     }
@@ -1245,10 +1220,6 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
 
               // Send completion event only if not aborted
               if (!abortController.signal.aborted) {
-                if (!params.res) {
-                  throw new Error('Response not found');
-                }
-
                 // Send reasoning completion event
                 const reasoningCompleteEvent = ReasoningEvent.createChunk(
                   sessionId,
@@ -1258,16 +1229,11 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
                   true, // Mark as complete
                 );
 
-                if (!params.res.writableEnded) {
-                  params.res.write(
-                    formatSSE(
-                      reasoningCompleteEvent.eventName,
-                      reasoningCompleteEvent.payload,
-                    ),
-                  );
-                }
-
-                sendSSEDone(params.res);
+                runStream.write(
+                  reasoningCompleteEvent.eventName,
+                  reasoningCompleteEvent.payload,
+                );
+                runStream.write('done', {});
 
                 // Increment ref count BEFORE firing background task so
                 // the outer finally's markUserInactive doesn't drop to 0
@@ -1282,6 +1248,7 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
               }
             },
             abortController,
+            runStream,
           );
 
           return;
@@ -1297,9 +1264,7 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
               '[MessagesService] Stream aborted by client, exiting cleanly',
             );
 
-            if (!params.res.writableEnded) {
-              sendSSEDone(params.res);
-            }
+            runStream.write('done', {});
             return;
           }
 
@@ -1308,12 +1273,13 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
           Logger.error(
             `Error stack trace: ${error instanceof Error ? error.stack : 'No stack trace'}`,
           );
-          if (!params.res.writableEnded && !abortController.signal.aborted) {
-            sendSSEError(
-              params.res,
-              error instanceof Error ? error : 'Something went wrong',
-            );
-            sendSSEDone(params.res);
+          if (!abortController.signal.aborted) {
+            runStream.write('error', {
+              error:
+                error instanceof Error ? error.message : 'Something went wrong',
+              timestamp: new Date().toISOString(),
+            });
+            runStream.write('done', {});
           }
         } finally {
           // Clear heartbeat and end response
@@ -1322,6 +1288,7 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
           params.res.off('close', onClose);
           // Cleanup abort controller from registry
           this.abortControllers.delete(sessionId);
+          await runStream.finish({ sessionId, did: params.did });
           if (!params.res.writableEnded) {
             params.res.end();
           }
@@ -1419,6 +1386,13 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
           oracleEntityDid: this.config.getOrThrow('ORACLE_ENTITY_DID'),
           lastProcessedCount: targetSession?.lastProcessedCount ?? 0,
           roomId,
+          callbacks: [
+            UsageAccounting.createCallbackHandler({
+              userDid: params.did,
+              sessionId,
+              source: 'session-title',
+            }),
+          ],
         });
 
         // Note: Title updates are now handled by syncSessionSet when messages.length > 2
@@ -1431,6 +1405,36 @@ export class MessagesService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
+  /**
+   * Resume a streamed run after a disconnect: replays events after
+   * `Last-Event-ID` and tails the run until it finishes.
+   */
+  public async resumeStream(params: {
+    sessionId: string;
+    runId: string;
+    did: string;
+    lastEventId?: string | string[];
+    res: Response;
+  }): Promise<void> {
+    const meta = await getSSERunMeta(params.runId);
+    if (
+      !meta ||
+      meta.sessionId !== params.sessionId ||
+      meta.did !== params.did
+    ) {
+      throw new NotFoundException('Run not found or expired');
+    }
+
+    setSSEHeaders(params.res, undefined, params.runId);
+    params.res.flushHeaders();
+
+    await resumeSSERun({
+      runId: params.runId,
+      lastEventId: parseLastEventId(params.lastEventId),
+      res: params.res,
+    });
+  }
+
   /**
    * Abort an ongoing stream request by sessionId
    */
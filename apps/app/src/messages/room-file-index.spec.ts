@@ -0,0 +1,135 @@
+import Database from 'better-sqlite3';
+import { getProviderEmbeddings } from 'src/graph/llm-provider';
+import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+import {
+  embedFileContent,
+  indexRoomFileInBackground,
+  isIndexableText,
+  searchRoomFileChunks,
+  storeRoomFileChunks,
+} from './room-file-index';
+
+vi.mock('@ixo/common', () => ({
+  docSplitter: async (text: string) =>
+    text.split('\n\n').map((pageContent) => ({ pageContent })),
+}));
+vi.mock('src/graph/llm-provider', () => ({ getProviderEmbeddings: vi.fn() }));
+vi.mock(
+  'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service',
+  () => ({ UserMatrixSqliteSyncService: { getInstance: vi.fn() } }),
+);
+
+const source = (sourceId: string, filename: string) => ({
+  roomId: '!room:server',
+  sourceId,
+  filename,
+  mimetype: 'application/pdf',
+});
+
+describe('room file index', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('ranks chunks by cosine similarity within the room', () => {
+    storeRoomFileChunks(db, source('$contract', 'contract.pdf'), [
+      { content: 'Payment terms', embedding: [1, 0, 0] },
+      { content: 'Termination clause', embedding: [0, 1, 0] },
+    ]);
+    storeRoomFileChunks(db, source('$invoice', 'invoice.pdf'), [
+      { content: 'Total due', embedding: [0.6, 0.8, 0] },
+    ]);
+    storeRoomFileChunks(
+      db,
+      { ...source('$other', 'other.pdf'), roomId: '!other:server' },
+      [{ content: 'Elsewhere', embedding: [0, 1, 0] }],
+    );
+
+    const matches = searchRoomFileChunks(db, '!room:server', [0, 1, 0], 2);
+    expect(matches.map((m) => m.content)).toEqual([
+      'Termination clause',
+      'Total due',
+    ]);
+    expect(matches[0]).toMatchObject({
+      sourceId: '$contract',
+      filename: 'contract.pdf',
+      chunkIndex: 1,
+    });
+    expect(matches[0].score).toBeCloseTo(1);
+
+    expect(
+      searchRoomFileChunks(db, '!room:server', [0, 1, 0], 5, '$invoice'),
+    ).toHaveLength(1);
+  });
+
+  it('replaces the chunks of a re-indexed file', () => {
+    storeRoomFileChunks(db, source('$contract', 'contract.pdf'), [
+      { content: 'Old', embedding: [1, 0] },
+      { content: 'Older', embedding: [1, 0] },
+    ]);
+    storeRoomFileChunks(db, source('$contract', 'contract-v2.pdf'), [
+      { content: 'New', embedding: [1, 0] },
+    ]);
+
+    const matches = searchRoomFileChunks(db, '!room:server', [1, 0], 10);
+    expect(matches.map((m) => [m.filename, m.content])).toEqual([
+      ['contract-v2.pdf', 'New'],
+    ]);
+  });
+
+  it('embeds split chunks in batches', async () => {
+    const embeddings = {
+      embedDocuments: vi.fn(async (texts: string[]) =>
+        texts.map((t) => [t.length]),
+      ),
+      embedQuery: vi.fn(),
+    };
+    const chunks = await embedFileContent('one\n\n  \n\nthree', embeddings);
+    expect(chunks).toEqual([
+      { content: 'one', embedding: [3] },
+      { content: 'three', embedding: [5] },
+    ]);
+    expect(embeddings.embedDocuments).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips processing notices', () => {
+    expect(
+      isIndexableText('[File "a.bin" (x/y) is not a supported file type.]'),
+    ).toBe(false);
+    expect(isIndexableText('[Description of a.png]:\nA cat')).toBe(true);
+    expect(isIndexableText('   ')).toBe(false);
+  });
+
+  it('keeps the user active while indexing in the background', async () => {
+    const syncService = {
+      getUserDatabase: vi.fn(async () => db),
+      markUserActive: vi.fn(),
+      markUserInactive: vi.fn(),
+    };
+    vi.mocked(UserMatrixSqliteSyncService.getInstance).mockReturnValue(
+      syncService as unknown as UserMatrixSqliteSyncService,
+    );
+    vi.mocked(getProviderEmbeddings).mockReturnValue({
+      embedDocuments: async (texts: string[]) => texts.map(() => [1]),
+    } as unknown as ReturnType<typeof getProviderEmbeddings>);
+
+    indexRoomFileInBackground(
+      'did:ixo:user',
+      source('$a', 'a.pdf'),
+      'Budget: 5 tonnes',
+    );
+    expect(syncService.markUserActive).toHaveBeenCalledWith('did:ixo:user');
+    expect(syncService.markUserInactive).not.toHaveBeenCalled();
+
+    await vi.waitFor(() =>
+      expect(syncService.markUserInactive).toHaveBeenCalledWith('did:ixo:user'),
+    );
+    expect(searchRoomFileChunks(db, '!room:server', [1], 5)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,278 @@
+import { docSplitter } from '@ixo/common';
+import { type EmbeddingsInterface } from '@langchain/core/embeddings';
+import { Logger } from '@nestjs/common';
+import { type Database as DatabaseType } from 'better-sqlite3';
+import { getProviderEmbeddings } from 'src/graph/llm-provider';
+import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+
+/**
+ * Per-room attachment knowledge base
+ *
+ * Processed file content is split with `docSplitter`, embedded with the
+ * `embedding` model role and stored in the user's SQLite DB, so later turns
+ * can search a file's content without downloading and processing it again.
+ *
+ * Ranking is brute-force cosine similarity over the room's chunks — a room
+ * holds at most a few thousand chunks, which is cheap to scan in memory.
+ */
+
+const logger = new Logger('RoomFileIndex');
+
+export const ROOM_FILE_CHUNKS_TABLE = 'room_file_chunks';
+
+/** Chunks embedded per request to the embeddings endpoint */
+const EMBEDDING_BATCH_SIZE = 64;
+
+/** Skip files that would produce more chunks than this (~1 MB of text) */
+const MAX_CHUNKS_PER_FILE = 1000;
+
+type Embeddings = Pick<EmbeddingsInterface, 'embedDocuments' | 'embedQuery'>;
+
+export interface RoomFileSource {
+  roomId: string;
+  /** Matrix event ID, or the URL the file was fetched from */
+  sourceId: string;
+  filename: string;
+  mimetype: string;
+}
+
+export interface EmbeddedChunk {
+  content: string;
+  embedding: number[];
+}
+
+export interface RoomFileChunkRow {
+  source_id: string;
+  filename: string;
+  mimetype: string;
+  chunk_index: number;
+  content: string;
+  embedding: Buffer;
+  indexed_at: string;
+}
+
+export interface RoomFileMatch {
+  sourceId: string;
+  filename: string;
+  mimetype: string;
+  chunkIndex: number;
+  content: string;
+  indexedAt: string;
+  score: number;
+}
+
+export function ensureRoomFileIndex(db: DatabaseType): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${ROOM_FILE_CHUNKS_TABLE} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      room_id TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      mimetype TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      embedding BLOB NOT NULL,
+      indexed_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_room_file_chunks_room ON ${ROOM_FILE_CHUNKS_TABLE}(room_id, source_id);
+  `);
+}
+
+/**
+ * Processing notices such as `[File "x" failed to process: ...]` are a
+ * single bracketed line — they carry no file content worth indexing.
+ */
+export function isIndexableText(text: string | null | undefined): boolean {
+  if (!text) return false;
+  const trimmed = text.trim();
+  return trimmed.length > 0 && !/^\[[^\n]*\]$/.test(trimmed);
+}
+
+function toBlob(vector: number[]): Buffer {
+  const floats = Float32Array.from(vector);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy out — the BLOB buffer isn't guaranteed to be 4-byte aligned
+  const bytes = new Uint8Array(blob);
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / 4);
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/** Split and embed file content. Returns an empty list for empty text. */
+export async function embedFileContent(
+  text: string,
+  embeddings: Embeddings,
+): Promise<EmbeddedChunk[]> {
+  const documents = await docSplitter(text);
+  const contents = documents
+    .map((doc) => doc.pageContent.trim())
+    .filter((content) => content.length > 0);
+  if (contents.length > MAX_CHUNKS_PER_FILE) {
+    throw new Error(
+      `File is too large to index (${contents.length} chunks, max ${MAX_CHUNKS_PER_FILE})`,
+    );
+  }
+
+  const chunks: EmbeddedChunk[] = [];
+  for (let i = 0; i < contents.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = contents.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await embeddings.embedDocuments(batch);
+    batch.forEach((content, j) =>
+      chunks.push({ content, embedding: vectors[j] }),
+    );
+  }
+  return chunks;
+}
+
+/** Replace any previously indexed chunks of the same file */
+export function storeRoomFileChunks(
+  db: DatabaseType,
+  source: RoomFileSource,
+  chunks: EmbeddedChunk[],
+): void {
+  ensureRoomFileIndex(db);
+  const remove = db.prepare(
+    `DELETE FROM ${ROOM_FILE_CHUNKS_TABLE} WHERE room_id = ? AND source_id = ?`,
+  );
+  const insert = db.prepare(
+    `INSERT INTO ${ROOM_FILE_CHUNKS_TABLE}
+       (room_id, source_id, filename, mimetype, chunk_index, content, embedding, indexed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const indexedAt = new Date().toISOString();
+
+  db.transaction(() => {
+    remove.run(source.roomId, source.sourceId);
+    chunks.forEach((chunk, index) =>
+      insert.run(
+        source.roomId,
+        source.sourceId,
+        source.filename,
+        source.mimetype,
+        index,
+        chunk.content,
+        toBlob(chunk.embedding),
+        indexedAt,
+      ),
+    );
+  })();
+}
+
+/**
+ * Rank a room's chunks against a query embedding.
+ * @param sourceId - Restrict the search to one file
+ */
+export function searchRoomFileChunks(
+  db: DatabaseType,
+  roomId: string,
+  queryEmbedding: number[],
+  limit: number,
+  sourceId?: string,
+): RoomFileMatch[] {
+  ensureRoomFileIndex(db);
+  const rows = (
+    sourceId
+      ? db
+          .prepare(
+            `SELECT * FROM ${ROOM_FILE_CHUNKS_TABLE} WHERE room_id = ? AND source_id = ?`,
+          )
+          .all(roomId, sourceId)
+      : db
+          .prepare(`SELECT * FROM ${ROOM_FILE_CHUNKS_TABLE} WHERE room_id = ?`)
+          .all(roomId)
+  ) as RoomFileChunkRow[];
+
+  return rows
+    .map((row) => ({
+      sourceId: row.source_id,
+      filename: row.filename,
+      mimetype: row.mimetype,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      indexedAt: row.indexed_at,
+      score: cosineSimilarity(queryEmbedding, fromBlob(row.embedding)),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Index processed file content for a room. Embeds before opening the
+ * database so the connection isn't held across network calls.
+ *
+ * @returns Number of chunks stored (0 when the text isn't indexable)
+ */
+export async function indexRoomFile(
+  userDid: string,
+  source: RoomFileSource,
+  text: string,
+): Promise<number> {
+  if (!isIndexableText(text)) return 0;
+
+  const chunks = await embedFileContent(text, getProviderEmbeddings());
+  const db =
+    await UserMatrixSqliteSyncService.getInstance().getUserDatabase(userDid);
+  storeRoomFileChunks(db, source, chunks);
+
+  logger.log(
+    `Indexed "${source.filename}" (${source.sourceId}) in room ${source.roomId} — ${chunks.length} chunk(s)`,
+  );
+  return chunks.length;
+}
+
+/**
+ * Fire-and-forget variant for request paths — indexing failures are logged
+ * and never surface to the user. The user stays marked active until the
+ * chunks are stored, so their database isn't uploaded and closed mid-write.
+ */
+export function indexRoomFileInBackground(
+  userDid: string,
+  source: RoomFileSource,
+  text: string,
+): void {
+  const syncService = UserMatrixSqliteSyncService.getInstance();
+  syncService.markUserActive(userDid);
+  indexRoomFile(userDid, source, text)
+    .catch((error) => {
+      logger.warn(
+        `Failed to index "${source.filename}" in room ${source.roomId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    })
+    .finally(() => {
+      syncService.markUserInactive(userDid);
+    });
+}
+
+export async function searchRoomFiles(
+  userDid: string,
+  roomId: string,
+  query: string,
+  options: { limit: number; sourceId?: string },
+): Promise<RoomFileMatch[]> {
+  const queryEmbedding = await getProviderEmbeddings().embedQuery(query);
+  const db =
+    await UserMatrixSqliteSyncService.getInstance().getUserDatabase(userDid);
+  return searchRoomFileChunks(
+    db,
+    roomId,
+    queryEmbedding,
+    options.limit,
+    options.sourceId,
+  );
+}
@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class ForkSessionBodyDto {
+  @ApiProperty({
+    description:
+      'Message to branch from — an ID from GET /messages/:sessionId or the stored message ID',
+  })
+  @IsString()
+  @IsNotEmpty()
+  messageId: string;
+
+  @ApiProperty({
+    description:
+      'Fork just before the message instead of after it, so an edited version of this user message can be sent in the new session',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  edit?: boolean;
+
+  @ApiProperty({
+    description:
+      'Edited text of the user message, stored in its place as the last message of the new session. Requires `edit: true`; the agent does not reply until a message is sent.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  message?: string;
+}
+
+export class ForkSessionDto extends ForkSessionBodyDto {
+  did: string;
+  sessionId: string;
+  homeServer?: string;
+}
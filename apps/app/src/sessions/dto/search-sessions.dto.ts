@@ -0,0 +1,12 @@
+import { type SessionSearchResult } from '../session-search';
+
+export class SearchSessionsDto {
+  did: string;
+  homeServer?: string;
+  query: string;
+  limit?: number;
+}
+
+export class SearchSessionsResponseDto {
+  sessions: SessionSearchResult[];
+}
@@ -0,0 +1,58 @@
+import { type CreateChatSessionResponseDto } from '@ixo/common';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { type ExportedSession } from '../session-export';
+
+export type SessionExportFormat = 'json' | 'markdown';
+
+export class ExportSessionsDto {
+  did: string;
+  /** Export only this session; all of the user's sessions when unset */
+  sessionId?: string;
+}
+
+/** Body of POST /sessions/import — a JSON bundle from an export */
+export class ImportSessionsBodyDto {
+  @ApiProperty({ description: 'Bundle format', example: 'ixo-oracle-sessions' })
+  @IsString()
+  format: string;
+
+  @ApiProperty({ description: 'Bundle format version', example: 1 })
+  @IsInt()
+  version: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  exportedAt?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  oracleDid?: string;
+
+  @ApiProperty({
+    description: 'Sessions to recreate (max 100 per request)',
+    type: 'array',
+    items: { type: 'object' },
+  })
+  @IsArray()
+  @ArrayMaxSize(100)
+  sessions: ExportedSession[];
+}
+
+export class ImportSessionsDto extends ImportSessionsBodyDto {
+  did: string;
+  homeServer?: string;
+}
+
+export class ImportSessionsResponseDto {
+  /** New sessions, in bundle order */
+  sessions: CreateChatSessionResponseDto[];
+}
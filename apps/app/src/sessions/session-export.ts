@@ -0,0 +1,313 @@
+import { type ChatSession } from '@ixo/common';
+import {
+  AIMessage,
+  type BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import * as crypto from 'node:crypto';
+
+/**
+ * Portable session bundles
+ *
+ * A bundle holds one or more sessions with their title, messages, tool calls
+ * and attachment metadata — not the attachment files themselves, which stay
+ * in the user's Matrix room. JSON bundles can be imported into any oracle;
+ * the Markdown rendering is for reading only.
+ */
+
+export const SESSION_EXPORT_FORMAT = 'ixo-oracle-sessions';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type ExportedMessageRole = 'user' | 'assistant' | 'tool' | 'system';
+
+export interface ExportedToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** File shared in the conversation; the content is not included */
+export interface ExportedAttachment {
+  filename: string;
+  mimetype: string;
+  size?: number;
+  mxcUri?: string;
+  eventId?: string;
+}
+
+export interface ExportedMessage {
+  id?: string;
+  role: ExportedMessageRole;
+  /** Text content; non-text parts are dropped */
+  content: string;
+  createdAt?: string;
+  /** Tools an assistant message called */
+  toolCalls?: ExportedToolCall[];
+  /** Tool call a tool message answers */
+  toolCallId?: string;
+  /** Tool name, on tool messages */
+  name?: string;
+  attachment?: ExportedAttachment;
+}
+
+export interface ExportedSession {
+  sessionId: string;
+  title?: string;
+  createdAt: string;
+  lastUpdatedAt: string;
+  messages: ExportedMessage[];
+}
+
+export interface SessionExportBundle {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: typeof SESSION_EXPORT_VERSION;
+  exportedAt: string;
+  /** Oracle the sessions were exported from */
+  oracleDid?: string;
+  sessions: ExportedSession[];
+}
+
+const ROLE_BY_TYPE: Record<string, ExportedMessageRole> = {
+  human: 'user',
+  ai: 'assistant',
+  tool: 'tool',
+  system: 'system',
+};
+
+function textContent(content: BaseMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map((part) =>
+      part.type === 'text' && typeof part.text === 'string' ? part.text : '',
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Convert a checkpointed message to its portable form.
+ * @returns null for message types that have no portable form
+ */
+export function exportMessage(message: BaseMessage): ExportedMessage | null {
+  const role = ROLE_BY_TYPE[message.type];
+  if (!role) return null;
+
+  const kwargs = message.additional_kwargs as {
+    timestamp?: string;
+    attachment?: ExportedAttachment;
+  };
+  const exported: ExportedMessage = {
+    id: message.id,
+    role,
+    content: textContent(message.content),
+    createdAt: kwargs.timestamp,
+  };
+
+  const toolCalls = (message as AIMessage).tool_calls;
+  if (role === 'assistant' && toolCalls?.length) {
+    exported.toolCalls = toolCalls.map(({ id, name, args }) => ({
+      id,
+      name,
+      args,
+    }));
+  }
+  if (role === 'tool') {
+    exported.toolCallId = (message as ToolMessage).tool_call_id;
+    exported.name = message.name;
+  }
+  if (kwargs.attachment) {
+    const { filename, mimetype, size, mxcUri, eventId } = kwargs.attachment;
+    exported.attachment = { filename, mimetype, size, mxcUri, eventId };
+  }
+  return exported;
+}
+
+export function exportSession(
+  session: ChatSession,
+  messages: BaseMessage[],
+): ExportedSession {
+  return {
+    sessionId: session.sessionId,
+    title: session.title,
+    createdAt: session.createdAt,
+    lastUpdatedAt: session.lastUpdatedAt,
+    messages: messages
+      .map(exportMessage)
+      .filter((message): message is ExportedMessage => message !== null),
+  };
+}
+
+/**
+ * Rebuild checkpoint messages from their portable form. Messages get new
+ * IDs — message IDs are unique across the user's sessions, and the bundle
+ * may be imported next to the sessions it was exported from.
+ *
+ * System messages become user messages: a bundle is user input and must not
+ * be able to instruct the agent with system authority.
+ */
+export function importMessages(messages: ExportedMessage[]): BaseMessage[] {
+  return messages.map((message) => {
+    const fields = {
+      id: crypto.randomUUID(),
+      content: message.content,
+      additional_kwargs: {
+        ...(message.createdAt && { timestamp: message.createdAt }),
+        ...(message.attachment && { attachment: message.attachment }),
+      },
+    };
+    switch (message.role) {
+      case 'user':
+      case 'system':
+        return new HumanMessage(fields);
+      case 'assistant':
+        return new AIMessage({
+          ...fields,
+          tool_calls: message.toolCalls?.map((call) => ({
+            ...call,
+            type: 'tool_call' as const,
+          })),
+        });
+      case 'tool':
+        return new ToolMessage({
+          ...fields,
+          tool_call_id: message.toolCallId ?? '',
+          name: message.name,
+        });
+    }
+  });
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateMessage(value: unknown, where: string): void {
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (!Object.values(ROLE_BY_TYPE).includes(value.role as never)) {
+    throw new Error(`${where} has an unknown role`);
+  }
+  if (typeof value.content !== 'string') {
+    throw new Error(`${where} has no text content`);
+  }
+  if (
+    value.toolCalls !== undefined &&
+    (!Array.isArray(value.toolCalls) ||
+      !value.toolCalls.every(
+        (call) =>
+          isRecord(call) &&
+          (call.id === undefined || typeof call.id === 'string') &&
+          typeof call.name === 'string' &&
+          isRecord(call.args),
+      ))
+  ) {
+    throw new Error(`${where} has malformed tool calls`);
+  }
+  if (value.role === 'tool' && typeof value.toolCallId !== 'string') {
+    throw new Error(`${where} has no tool call ID`);
+  }
+  if (
+    value.attachment !== undefined &&
+    !(
+      isRecord(value.attachment) &&
+      typeof value.attachment.filename === 'string' &&
+      typeof value.attachment.mimetype === 'string'
+    )
+  ) {
+    throw new Error(`${where} has a malformed attachment`);
+  }
+}
+
+/**
+ * Check that a request body is an importable bundle.
+ * @throws Error describing the first problem found
+ */
+export function parseSessionBundle(value: unknown): SessionExportBundle {
+  if (!isRecord(value) || value.format !== SESSION_EXPORT_FORMAT) {
+    throw new Error(`Not a ${SESSION_EXPORT_FORMAT} bundle`);
+  }
+  if (value.version !== SESSION_EXPORT_VERSION) {
+    throw new Error(`Unsupported bundle version ${String(value.version)}`);
+  }
+  if (!Array.isArray(value.sessions)) {
+    throw new Error('Bundle has no sessions');
+  }
+  value.sessions.forEach((session, i) => {
+    if (!isRecord(session) || !Array.isArray(session.messages)) {
+      throw new Error(`Session ${i} has no messages`);
+    }
+    if (session.title !== undefined && typeof session.title !== 'string') {
+      throw new Error(`Session ${i} has a malformed title`);
+    }
+    // Every tool call must be answered by the tool messages right after it,
+    // and every tool message must answer one — models reject anything else
+    const openCalls = new Set<string>();
+    let callsAt = -1;
+    const unanswered = () =>
+      new Error(`Session ${i} message ${callsAt} has unanswered tool calls`);
+    session.messages.forEach((message, j) => {
+      const where = `Session ${i} message ${j}`;
+      validateMessage(message, where);
+      const { role, toolCalls, toolCallId } = message as ExportedMessage;
+      if (role === 'tool') {
+        if (!openCalls.delete(toolCallId as string)) {
+          throw new Error(`${where} answers no earlier tool call`);
+        }
+        return;
+      }
+      if (openCalls.size > 0) throw unanswered();
+      for (const call of toolCalls ?? []) {
+        if (call.id) openCalls.add(call.id);
+      }
+      callsAt = j;
+    });
+    if (openCalls.size > 0) throw unanswered();
+  });
+  return value as unknown as SessionExportBundle;
+}
+
+const ROLE_HEADINGS: Record<ExportedMessageRole, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  system: 'System',
+};
+
+/** Human-readable rendering of a bundle */
+export function renderSessionsMarkdown(bundle: SessionExportBundle): string {
+  const lines: string[] = [];
+  for (const session of bundle.sessions) {
+    lines.push(`# ${session.title || 'Untitled'}`, '');
+    lines.push(
+      `Session \`${session.sessionId}\` · created ${session.createdAt} · last updated ${session.lastUpdatedAt}`,
+      '',
+    );
+    for (const message of session.messages) {
+      const heading =
+        message.role === 'tool' && message.name
+          ? `${ROLE_HEADINGS.tool} (${message.name})`
+          : ROLE_HEADINGS[message.role];
+      lines.push(
+        `## ${heading}${message.createdAt ? ` — ${message.createdAt}` : ''}`,
+        '',
+      );
+      if (message.content) lines.push(message.content, '');
+      if (message.attachment) {
+        lines.push(
+          `Attachment: ${message.attachment.filename} (${message.attachment.mimetype})`,
+          '',
+        );
+      }
+      for (const call of message.toolCalls ?? []) {
+        lines.push(
+          `Called \`${call.name}\`:`,
+          '',
+          '```json',
+          JSON.stringify(call.args, null, 2),
+          '```',
+          '',
+        );
+      }
+    }
+  }
+  return lines.join('\n');
+}
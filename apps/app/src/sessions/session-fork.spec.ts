@@ -0,0 +1,59 @@
+import { uuidFromString } from '@ixo/common';
+import { AIMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { findForkPoint, selectForkMessages } from './session-fork';
+
+const history = [
+  new HumanMessage({ id: 'h1', content: 'Find the carbon budget' }),
+  new AIMessage({
+    id: 'a1',
+    content: '',
+    tool_calls: [{ id: 'call-1', name: 'search', args: { q: 'budget' } }],
+  }),
+  new ToolMessage({ id: 't1', content: '5 tonnes', tool_call_id: 'call-1' }),
+  new AIMessage({ id: 'a2', content: 'The budget is 5 tonnes.' }),
+  new HumanMessage({ id: 'h2', content: 'And last year?' }),
+];
+
+const ids = (messages: Array<{ id?: string }>) => messages.map((m) => m.id);
+
+describe('findForkPoint', () => {
+  it('finds messages by stored ID or by the ID clients see', () => {
+    expect(findForkPoint(history, 'a2')).toBe(3);
+    expect(findForkPoint(history, uuidFromString('h2'))).toBe(4);
+    expect(findForkPoint(history, 'missing')).toBe(-1);
+  });
+});
+
+describe('selectForkMessages', () => {
+  it('keeps the tool results of the message it branches after', () => {
+    expect(ids(selectForkMessages(history, 1, false))).toEqual([
+      'h1',
+      'a1',
+      't1',
+    ]);
+    expect(ids(selectForkMessages(history, 3, false))).toEqual([
+      'h1',
+      'a1',
+      't1',
+      'a2',
+    ]);
+  });
+
+  it('stops before a message that is being edited', () => {
+    expect(ids(selectForkMessages(history, 4, true))).toEqual([
+      'h1',
+      'a1',
+      't1',
+      'a2',
+    ]);
+    expect(selectForkMessages(history, 0, true)).toEqual([]);
+  });
+
+  it('puts the edited message in place of the original', () => {
+    const messages = selectForkMessages(history, 4, true, 'And in 2023?');
+
+    expect(ids(messages.slice(0, -1))).toEqual(['h1', 'a1', 't1', 'a2']);
+    expect(messages.at(-1)).toBeInstanceOf(HumanMessage);
+    expect(messages.at(-1)?.content).toBe('And in 2023?');
+  });
+});
@@ -0,0 +1,71 @@
+import { uuidFromString } from '@ixo/common';
+import {
+  type BaseMessage,
+  HumanMessage,
+  type ToolMessage,
+} from '@langchain/core/messages';
+
+/**
+ * Conversation branching
+ *
+ * Only a thread's latest checkpoint stores its messages, so a fork point is
+ * a message in the session's current history rather than an old checkpoint.
+ */
+
+/**
+ * Position of a message in the history. Accepts the stored message ID or
+ * the ID clients get from `GET /messages/:sessionId`.
+ * @returns -1 when the message isn't in the history
+ */
+export function findForkPoint(
+  messages: BaseMessage[],
+  messageId: string,
+): number {
+  return messages.findIndex((message) => {
+    const id = message.id ?? String(message.content);
+    return id === messageId || uuidFromString(id) === messageId;
+  });
+}
+
+/**
+ * Messages the fork starts with.
+ *
+ * @param edit - Stop before the message (a user message being edited)
+ *   instead of after it. When branching after an AI message, the results of
+ *   its tool calls are kept so the history stays valid for the model.
+ * @param replacement - Edited text of the message, added in its place
+ */
+export function selectForkMessages(
+  messages: BaseMessage[],
+  index: number,
+  edit: boolean,
+  replacement?: string,
+): BaseMessage[] {
+  if (edit) {
+    const kept = messages.slice(0, index);
+    if (replacement === undefined) return kept;
+    return [
+      ...kept,
+      new HumanMessage({
+        content: replacement,
+        additional_kwargs: { msgFromMatrixRoom: false },
+      }),
+    ];
+  }
+
+  const toolCallIds = new Set(
+    (
+      (messages[index] as { tool_calls?: Array<{ id?: string }> }).tool_calls ??
+      []
+    ).map((call) => call.id),
+  );
+  let end = index + 1;
+  while (
+    end < messages.length &&
+    messages[end].type === 'tool' &&
+    toolCallIds.has((messages[end] as ToolMessage).tool_call_id)
+  ) {
+    end++;
+  }
+  return messages.slice(0, end);
+}
@@ -10,6 +10,7 @@ import { Cache } from 'cache-manager';
 import { MessagesService } from '../messages/messages.service';
 import { type ENV } from '../types';
 import { UcanService } from '../ucan/ucan.service';
+import { UsageAccounting } from '../usage/usage-accounting';
 
 export interface ProcessSessionHistoryParams {
   sessionId: string;
@@ -238,6 +239,25 @@ export class SessionHistoryProcessor {
       throw new Error('Failed to send messages to memory engine');
     }
 
+    // Engines that don't report their model usage are charged an estimate
+    // for the text they were sent
+    await UsageAccounting.recordInBackground(
+      { userDid: did, sessionId, source: 'memory-engine' },
+      result.usage
+        ? UsageAccounting.fromProviderUsage({
+            cost: result.usage.cost,
+            promptTokens: result.usage.prompt_tokens,
+            completionTokens: result.usage.completion_tokens,
+            model: result.usage.model,
+          })
+        : {
+            inputTokens: UsageAccounting.estimateTokens(
+              transformedMessages.map((m) => m.content).join('\n'),
+            ),
+            outputTokens: 0,
+          },
+    );
+
     // Update session with new lastProcessedCount
     const newLastProcessedCount = lastProcessedCount + newMessages.length;
     await this.sessionManagerService.updateLastProcessedCount({
@@ -0,0 +1,80 @@
+import { SqliteSaver } from '@ixo/sqlite-saver';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import Database from 'better-sqlite3';
+import { searchSessionMessages } from './session-search';
+
+vi.mock(
+  'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service',
+  () => ({ UserMatrixSqliteSyncService: class {} }),
+);
+
+describe('searchSessionMessages', () => {
+  let db: Database.Database;
+
+  const addSession = async (
+    sessionId: string,
+    roomId: string,
+    messages: Array<HumanMessage | AIMessage>,
+  ) => {
+    db.prepare(
+      `INSERT INTO sessions (session_id, title, room_id, last_updated_at) VALUES (?, ?, ?, ?)`,
+    ).run(sessionId, `Title ${sessionId}`, roomId, '2024-01-01T00:00:00.000Z');
+    await SqliteSaver.fromDatabase(db).appendMessages(sessionId, messages);
+  };
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE sessions (
+        session_id TEXT PRIMARY KEY,
+        title TEXT,
+        room_id TEXT,
+        last_updated_at TEXT NOT NULL
+      );
+    `);
+    await addSession('s1', '!main', [
+      new HumanMessage({ id: 'm1', content: 'What is our carbon budget?' }),
+      new AIMessage({ id: 'm2', content: 'The carbon budget is 5 tonnes.' }),
+    ]);
+    await addSession('s2', '!main', [
+      new HumanMessage({ id: 'm3', content: 'Plan the budget review' }),
+    ]);
+    await addSession('s3', '!task', [
+      new HumanMessage({ id: 'm4', content: 'Carbon budget for the task' }),
+    ]);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('groups matches by session and scopes them to the room', () => {
+    const results = searchSessionMessages(db, 'carbon budget', {
+      limit: 10,
+      roomId: '!main',
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      sessionId: 's1',
+      title: 'Title s1',
+      roomId: '!main',
+    });
+    expect(results[0].matches.map((m) => m.messageId).sort()).toEqual([
+      'm1',
+      'm2',
+    ]);
+    expect(results[0].matches[0].snippet).toContain('**carbon**');
+  });
+
+  it('ignores threads without a session and respects the limit', () => {
+    db.prepare(`DELETE FROM sessions WHERE session_id = 's1'`).run();
+
+    expect(
+      searchSessionMessages(db, 'budget', { limit: 10 }).map(
+        (r) => r.sessionId,
+      ),
+    ).toEqual(expect.arrayContaining(['s2', 's3']));
+    expect(searchSessionMessages(db, 'budget', { limit: 1 })).toHaveLength(1);
+  });
+});
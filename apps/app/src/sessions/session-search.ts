@@ -0,0 +1,109 @@
+import { SqliteSaver } from '@ixo/sqlite-saver';
+import { type Database as DatabaseType } from 'better-sqlite3';
+import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+
+/**
+ * Full-text search over a user's conversation history
+ *
+ * Messages are indexed by `SqliteSaver` as they're checkpointed; this module
+ * scopes the hits to sessions the user still has and groups them per session.
+ */
+
+/** Message hits fetched per requested session, before grouping */
+const MATCHES_PER_SESSION = 3;
+
+export interface SessionSearchMatch {
+  messageId: string;
+  type: 'human' | 'ai';
+  /** Matching excerpt with the query terms wrapped in `**` */
+  snippet: string;
+  createdAt: string;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  title?: string;
+  roomId?: string;
+  lastUpdatedAt: string;
+  /** Best matches first */
+  matches: SessionSearchMatch[];
+}
+
+export interface SessionSearchOptions {
+  /** Maximum number of sessions to return */
+  limit: number;
+  /** Only search sessions in this room */
+  roomId?: string;
+}
+
+/**
+ * Rank the user's sessions by their best matching message.
+ * Returns an empty list when the query has no searchable words.
+ */
+export function searchSessionMessages(
+  db: DatabaseType,
+  query: string,
+  options: SessionSearchOptions,
+): SessionSearchResult[] {
+  const sessions = (
+    options.roomId
+      ? db
+          .prepare(
+            `SELECT session_id, title, room_id, last_updated_at FROM sessions WHERE room_id = ?`,
+          )
+          .all(options.roomId)
+      : db
+          .prepare(
+            `SELECT session_id, title, room_id, last_updated_at FROM sessions`,
+          )
+          .all()
+  ) as Array<{
+    session_id: string;
+    title: string | null;
+    room_id: string | null;
+    last_updated_at: string;
+  }>;
+  if (sessions.length === 0) return [];
+
+  const sessionsById = new Map(sessions.map((s) => [s.session_id, s]));
+  const hits = SqliteSaver.fromDatabase(db).searchMessages(query, {
+    threadIds: [...sessionsById.keys()],
+    limit: options.limit * MATCHES_PER_SESSION,
+  });
+
+  // Hits arrive best first, so sessions keep the rank of their best match
+  const results = new Map<string, SessionSearchResult>();
+  for (const hit of hits) {
+    let result = results.get(hit.threadId);
+    if (!result) {
+      if (results.size >= options.limit) continue;
+      const session = sessionsById.get(hit.threadId)!;
+      result = {
+        sessionId: session.session_id,
+        title: session.title ?? undefined,
+        roomId: session.room_id ?? undefined,
+        lastUpdatedAt: session.last_updated_at,
+        matches: [],
+      };
+      results.set(hit.threadId, result);
+    }
+    if (result.matches.length >= MATCHES_PER_SESSION) continue;
+    result.matches.push({
+      messageId: hit.messageId,
+      type: hit.messageType as SessionSearchMatch['type'],
+      snippet: hit.snippet,
+      createdAt: hit.createdAt,
+    });
+  }
+  return [...results.values()];
+}
+
+export async function searchSessions(
+  userDid: string,
+  query: string,
+  options: SessionSearchOptions,
+): Promise<SessionSearchResult[]> {
+  const db =
+    await UserMatrixSqliteSyncService.getInstance().getUserDatabase(userDid);
+  return searchSessionMessages(db, query, options);
+}
@@ -3,6 +3,8 @@ import {
   type ListChatSessionsResponseDto,
 } from '@ixo/common';
 import {
+  BadRequestException,
+  Body,
   Controller,
   Delete,
   Get,
@@ -12,6 +14,7 @@ import {
   Post,
   Query,
   Req,
+  Res,
 } from '@nestjs/common';
 import {
   ApiOperation,
@@ -20,15 +23,48 @@ import {
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
-import type { Request } from 'express';
+import type { Request, Response } from 'express';
+import { RequireCapability } from 'src/ucan/ucan.capabilities';
+import { ForkSessionBodyDto } from './dto/fork-session.dto';
+import {
+  ImportSessionsBodyDto,
+  type ImportSessionsResponseDto,
+  type SessionExportFormat,
+} from './dto/session-bundle.dto';
+import { type SearchSessionsResponseDto } from './dto/search-sessions.dto';
+import {
+  renderSessionsMarkdown,
+  type SessionExportBundle,
+} from './session-export';
 import { SessionsService } from './sessions.service';
 
+function parseExportFormat(format?: string): SessionExportFormat {
+  if (format === undefined || format === 'json') return 'json';
+  if (format === 'markdown') return format;
+  throw new BadRequestException('format must be "json" or "markdown"');
+}
+
+/** Send a bundle as a file download in the requested format */
+function sendExport(
+  res: Response,
+  bundle: SessionExportBundle,
+  name: string,
+  format: SessionExportFormat,
+): SessionExportBundle | string {
+  const filename = `${name.replace(/[^\w.-]/g, '_')}.${format === 'markdown' ? 'md' : 'json'}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  if (format === 'json') return bundle;
+  res.type('text/markdown');
+  return renderSessionsMarkdown(bundle);
+}
+
 @ApiTags('sessions')
 @Controller('sessions')
 export class SessionsController {
   constructor(private readonly sessionsService: SessionsService) {}
 
   @Post()
+  @RequireCapability('sessions/create')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a new session' })
   @ApiResponse({ status: 201, description: 'Session created successfully.' })
@@ -49,6 +85,7 @@ export class SessionsController {
   }
 
   @Get()
+  @RequireCapability('sessions/read')
   @ApiOperation({ summary: 'List all sessions for a user' })
   @ApiQuery({
     name: 'limit',
@@ -82,7 +119,176 @@ export class SessionsController {
     });
   }
 
+  @Get('search')
+  @RequireCapability('sessions/read')
+  @ApiOperation({
+    summary: 'Search message content across all sessions for a user',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    type: String,
+    description: 'Words to search for (the last word matches as a prefix)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of sessions to return (default: 10, max: 50)',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Matching sessions, best match first, each with message IDs and snippets.',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request (e.g., missing query, missing/invalid headers by middleware, or search failed).',
+  })
+  async searchSessions(
+    @Req() req: Request,
+    @Query('q') query?: string,
+    @Query('limit') limit?: number,
+  ): Promise<SearchSessionsResponseDto> {
+    if (!query?.trim()) {
+      throw new BadRequestException('Query parameter "q" is required');
+    }
+    const { did, homeServer } = req.authData;
+    return this.sessionsService.searchSessions({
+      did,
+      homeServer,
+      query,
+      limit: limit ? Math.min(Math.max(Number(limit) || 10, 1), 50) : undefined,
+    });
+  }
+
+  @Get('export')
+  @RequireCapability('sessions/read')
+  @ApiOperation({
+    summary: 'Export all sessions for a user',
+    description:
+      'Downloads every session with its messages, tool calls and attachment metadata. JSON bundles can be imported with POST /sessions/import; Markdown is for reading.',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['json', 'markdown'],
+    description: 'Bundle format (default: json)',
+  })
+  @ApiResponse({ status: 200, description: 'Session bundle.' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request (e.g., unknown format, or export failed).',
+  })
+  async exportSessions(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Query('format') format?: string,
+  ): Promise<SessionExportBundle | string> {
+    const exportFormat = parseExportFormat(format);
+    const bundle = await this.sessionsService.exportSessions({
+      did: req.authData.did,
+    });
+    return sendExport(res, bundle, 'sessions', exportFormat);
+  }
+
+  @Post('import')
+  @RequireCapability('sessions/create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Import sessions from an exported JSON bundle',
+    description:
+      "Recreates each session in the user's main room with a new session ID.",
+  })
+  @ApiResponse({ status: 201, description: 'Sessions imported.' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request (e.g., invalid bundle, or import failed).',
+  })
+  async importSessions(
+    @Req() req: Request,
+    @Body() body: ImportSessionsBodyDto,
+  ): Promise<ImportSessionsResponseDto> {
+    const { did, homeServer } = req.authData;
+    return this.sessionsService.importSessions({ ...body, did, homeServer });
+  }
+
+  @Get(':sessionId/export')
+  @RequireCapability('sessions/read')
+  @ApiOperation({ summary: 'Export a session' })
+  @ApiParam({
+    name: 'sessionId',
+    required: true,
+    description: 'ID of the session to export',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['json', 'markdown'],
+    description: 'Bundle format (default: json)',
+  })
+  @ApiResponse({ status: 200, description: 'Session bundle.' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request (e.g., unknown format, or export failed).',
+  })
+  @ApiResponse({ status: 404, description: 'Session not found.' })
+  async exportSession(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Param('sessionId') sessionId: string,
+    @Query('format') format?: string,
+  ): Promise<SessionExportBundle | string> {
+    const exportFormat = parseExportFormat(format);
+    const bundle = await this.sessionsService.exportSessions({
+      did: req.authData.did,
+      sessionId,
+    });
+    return sendExport(res, bundle, `session-${sessionId}`, exportFormat);
+  }
+
+  @Post(':sessionId/fork')
+  @RequireCapability('sessions/create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Branch a session from one of its messages',
+    description:
+      'Creates a new session whose history is a copy of this one up to the given message. Use `edit: true` to branch just before a user message and send an edited version of it, or pass the edited version as `message` to store it in the new session.',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    required: true,
+    description: 'ID of the session to branch from',
+  })
+  @ApiResponse({ status: 201, description: 'Branched session created.' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request (e.g., editing a non-user message, a `message` without `edit`, or session creation failed).',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session or message not found.',
+  })
+  async forkSession(
+    @Req() req: Request,
+    @Param('sessionId') sessionId: string,
+    @Body() body: ForkSessionBodyDto,
+  ): Promise<CreateChatSessionResponseDto> {
+    const { did, homeServer } = req.authData;
+    return this.sessionsService.forkSession({
+      did,
+      homeServer,
+      sessionId,
+      messageId: body.messageId,
+      edit: body.edit,
+      message: body.message,
+    });
+  }
+
   @Delete(':sessionId')
+  @RequireCapability('sessions/delete')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete a specific session' })
   @ApiParam({
@@ -1,28 +1,126 @@
 import { SessionManagerService } from '@ixo/common';
+import { SqliteSaver } from '@ixo/sqlite-saver';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Test, type TestingModule } from '@nestjs/testing';
+import Database from 'better-sqlite3';
 import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
 import { SessionHistoryProcessor } from './session-history-processor.service';
 import { SessionsService } from './sessions.service';
 
+vi.mock('./session-history-processor.service', () => ({
+  SessionHistoryProcessor: class {},
+}));
+vi.mock(
+  'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service',
+  () => ({ UserMatrixSqliteSyncService: class {} }),
+);
+
 describe('SessionsService', () => {
   let service: SessionsService;
+  let db: Database.Database;
+  const source = {
+    sessionId: '$source',
+    oracleName: 'Oracle',
+    oracleEntityDid: 'did:ixo:entity',
+    oracleDid: 'did:ixo:oracle',
+    roomId: '!room:server',
+  };
+  const sessionManager = {
+    getSession: vi.fn(async () => source),
+    createSession: vi.fn(async () => ({ ...source, sessionId: '$fork' })),
+    deleteSession: vi.fn(async () => undefined),
+  };
 
   beforeEach(async () => {
+    db = new Database(':memory:');
+    vi.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SessionsService,
-        { provide: SessionManagerService, useValue: {} },
+        { provide: SessionManagerService, useValue: sessionManager },
         { provide: ConfigService, useValue: { get: vi.fn() } },
         { provide: SessionHistoryProcessor, useValue: {} },
-        { provide: UserMatrixSqliteSyncService, useValue: {} },
+        {
+          provide: UserMatrixSqliteSyncService,
+          useValue: {
+            getUserDatabase: async () => db,
+            markUserActive: vi.fn(),
+            markUserInactive: vi.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<SessionsService>(SessionsService);
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+  });
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('forkSession', () => {
+    const fork = { did: 'did:ixo:user', sessionId: '$source' };
+
+    beforeEach(async () => {
+      await SqliteSaver.fromDatabase(db).appendMessages('$source', [
+        new HumanMessage({ id: 'h1', content: 'Find the carbon budget' }),
+        new AIMessage({ id: 'a1', content: 'It is 5 tonnes.' }),
+        new HumanMessage({ id: 'h2', content: 'And last year?' }),
+      ]);
+    });
+
+    const forkedMessages = async () => {
+      const tuple = await SqliteSaver.fromDatabase(db).getTuple({
+        configurable: { thread_id: '$fork' },
+      });
+      return (tuple?.checkpoint.channel_values.messages as HumanMessage[]).map(
+        (m) => m.content,
+      );
+    };
+
+    it('stores a replacement for the edited message', async () => {
+      await service.forkSession({
+        ...fork,
+        messageId: 'h2',
+        edit: true,
+        message: 'And in 2023?',
+      });
+
+      expect(await forkedMessages()).toEqual([
+        'Find the carbon budget',
+        'It is 5 tonnes.',
+        'And in 2023?',
+      ]);
+    });
+
+    it('only takes a replacement message when editing', async () => {
+      await expect(
+        service.forkSession({ ...fork, messageId: 'h2', message: 'Hi' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(sessionManager.createSession).not.toHaveBeenCalled();
+    });
+
+    it('deletes the new session when the fork fails', async () => {
+      vi.spyOn(SqliteSaver.prototype, 'forkThread').mockRejectedValueOnce(
+        new Error('disk full'),
+      );
+
+      await expect(
+        service.forkSession({ ...fork, messageId: 'a1' }),
+      ).rejects.toThrow('Failed to fork session: disk full');
+      expect(sessionManager.deleteSession).toHaveBeenCalledWith({
+        did: 'did:ixo:user',
+        sessionId: '$fork',
+        oracleEntityDid: 'did:ixo:entity',
+      });
+    });
+  });
 });
@@ -1,14 +1,19 @@
 import {
+  type ChatSession,
   type CreateChatSessionResponseDto,
   type ListChatSessionsResponseDto,
   SessionManagerService,
 } from '@ixo/common';
+import { SqliteSaver } from '@ixo/sqlite-saver';
+import { type BaseMessage } from '@langchain/core/messages';
 import { getMatrixHomeServerCroppedForDid } from '@ixo/oracles-chain-client';
 import { OpenIdTokenProvider } from '@ixo/oracles-chain-client';
 import {
   BadRequestException,
+  HttpException,
   Injectable,
   Logger,
+  NotFoundException,
   Optional,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -17,8 +22,32 @@ import { UcanService } from '../ucan/ucan.service';
 import { UserMatrixSqliteSyncService } from '../user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
 import { type CreateSessionDto } from './dto/create-session.dto'; // Import DTO
 import { type DeleteSessionDto } from './dto/delete-session.dto'; // Import DTO
+import { type ForkSessionDto } from './dto/fork-session.dto';
+import {
+  type ExportSessionsDto,
+  type ImportSessionsDto,
+  type ImportSessionsResponseDto,
+} from './dto/session-bundle.dto';
 import { type ListSessionsDto } from './dto/list-sessions.dto'; // Import DTO
+import {
+  type SearchSessionsDto,
+  type SearchSessionsResponseDto,
+} from './dto/search-sessions.dto';
+import {
+  type ExportedSession,
+  exportSession,
+  importMessages,
+  parseSessionBundle,
+  SESSION_EXPORT_FORMAT,
+  SESSION_EXPORT_VERSION,
+  type SessionExportBundle,
+} from './session-export';
+import { findForkPoint, selectForkMessages } from './session-fork';
 import { SessionHistoryProcessor } from './session-history-processor.service';
+import { searchSessionMessages } from './session-search';
+
+/** Sessions fetched per page when exporting all of them */
+const EXPORT_PAGE_SIZE = 100;
 
 @Injectable()
 export class SessionsService {
@@ -198,6 +227,305 @@ export class SessionsService {
     }
   }
 
+  /**
+   * Branch a session at one of its messages. The new session lives in the
+   * same room and starts with the history up to that message; the source
+   * session is left untouched.
+   */
+  async forkSession(
+    data: ForkSessionDto,
+  ): Promise<CreateChatSessionResponseDto> {
+    this.syncService.markUserActive(data.did);
+    try {
+      const source = await this.sessionManager.getSession(
+        data.sessionId,
+        data.did,
+        false,
+      );
+      if (!source) {
+        throw new NotFoundException(`Session ${data.sessionId} not found`);
+      }
+
+      const db = await this.syncService.getUserDatabase(data.did);
+      const saver = SqliteSaver.fromDatabase(db);
+      const tuple = await saver.getTuple({
+        configurable: { thread_id: data.sessionId },
+      });
+      const messages =
+        (tuple?.checkpoint.channel_values.messages as
+          | BaseMessage[]
+          | undefined) ?? [];
+      const index = findForkPoint(messages, data.messageId);
+      if (!tuple || index === -1) {
+        throw new NotFoundException(
+          `Message ${data.messageId} not found in session ${data.sessionId}`,
+        );
+      }
+      if (data.edit && messages[index].type !== 'human') {
+        throw new BadRequestException('Only user messages can be edited');
+      }
+      if (data.message !== undefined && !data.edit) {
+        throw new BadRequestException(
+          'A replacement message can only be given with `edit: true`',
+        );
+      }
+
+      const session = await this.sessionManager.createSession({
+        did: data.did,
+        homeServer: data.homeServer,
+        oracleName: source.oracleName,
+        oracleEntityDid: source.oracleEntityDid,
+        oracleDid: source.oracleDid,
+        roomId: source.roomId,
+      });
+      try {
+        await saver.forkThread(data.sessionId, session.sessionId, {
+          checkpointId: tuple.config.configurable?.checkpoint_id,
+          messages: selectForkMessages(
+            messages,
+            index,
+            data.edit ?? false,
+            data.message,
+          ),
+          metadata: { forked_from_message_id: data.messageId },
+        });
+
+        // The branch keeps the memory context the conversation started with
+        if (source.userContext) {
+          db.prepare(
+            'UPDATE sessions SET user_context = ? WHERE session_id = ?',
+          ).run(JSON.stringify(source.userContext), session.sessionId);
+        }
+      } catch (error) {
+        // Don't leave an empty session behind
+        await this.sessionManager
+          .deleteSession({
+            did: data.did,
+            sessionId: session.sessionId,
+            oracleEntityDid: source.oracleEntityDid,
+          })
+          .catch((cleanupError) =>
+            Logger.error(
+              `Failed to delete session ${session.sessionId} after a failed fork:`,
+              cleanupError,
+            ),
+          );
+        throw error;
+      }
+      return { ...session, userContext: source.userContext };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+      Logger.error(
+        `Failed to fork session ${data.sessionId} for DID ${data.did}: ${message}`,
+        stack,
+      );
+      throw new BadRequestException(`Failed to fork session: ${message}`);
+    } finally {
+      this.syncService.markUserInactive(data.did);
+    }
+  }
+
+  /**
+   * Bundle one session, or all of the user's sessions, in the portable
+   * export format.
+   */
+  async exportSessions(data: ExportSessionsDto): Promise<SessionExportBundle> {
+    this.syncService.markUserActive(data.did);
+    try {
+      let sessions: ChatSession[];
+      if (data.sessionId) {
+        const session = await this.sessionManager.getSession(
+          data.sessionId,
+          data.did,
+          false,
+        );
+        if (!session) {
+          throw new NotFoundException(`Session ${data.sessionId} not found`);
+        }
+        sessions = [session];
+      } else {
+        sessions = [];
+        let total = Infinity;
+        while (sessions.length < total) {
+          const page = await this.sessionManager.listSessions({
+            did: data.did,
+            oracleEntityDid: this.configService.getOrThrow('ORACLE_ENTITY_DID'),
+            limit: EXPORT_PAGE_SIZE,
+            offset: sessions.length,
+          });
+          sessions.push(...page.sessions);
+          total = page.total;
+          if (page.sessions.length === 0) break;
+        }
+      }
+
+      const saver = SqliteSaver.fromDatabase(
+        await this.syncService.getUserDatabase(data.did),
+      );
+      const exported: ExportedSession[] = [];
+      for (const session of sessions) {
+        const tuple = await saver.getTuple({
+          configurable: { thread_id: session.sessionId },
+        });
+        exported.push(
+          exportSession(
+            session,
+            (tuple?.checkpoint.channel_values.messages as
+              | BaseMessage[]
+              | undefined) ?? [],
+          ),
+        );
+      }
+      return {
+        format: SESSION_EXPORT_FORMAT,
+        version: SESSION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        oracleDid: this.configService.getOrThrow('ORACLE_DID'),
+        sessions: exported,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+      Logger.error(
+        `Failed to export sessions for DID ${data.did}: ${message}`,
+        stack,
+      );
+      throw new BadRequestException(`Failed to export sessions: ${message}`);
+    } finally {
+      this.syncService.markUserInactive(data.did);
+    }
+  }
+
+  /**
+   * Recreate the sessions of an exported bundle in the user's main room.
+   * Each becomes a new session with a new ID; sessions imported before a
+   * failure are kept.
+   */
+  async importSessions(
+    data: ImportSessionsDto,
+  ): Promise<ImportSessionsResponseDto> {
+    let bundle: SessionExportBundle;
+    try {
+      bundle = parseSessionBundle(data);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid session bundle: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    this.syncService.markUserActive(data.did);
+    try {
+      const db = await this.syncService.getUserDatabase(data.did);
+      const saver = SqliteSaver.fromDatabase(db);
+      const imported: CreateChatSessionResponseDto[] = [];
+      for (const source of bundle.sessions) {
+        const session = await this.sessionManager.createSession({
+          did: data.did,
+          homeServer: data.homeServer,
+          oracleName: this.configService.getOrThrow('ORACLE_NAME'),
+          oracleEntityDid: this.configService.getOrThrow('ORACLE_ENTITY_DID'),
+          oracleDid: this.configService.getOrThrow('ORACLE_DID'),
+        });
+        if (source.messages.length > 0) {
+          await saver.appendMessages(
+            session.sessionId,
+            importMessages(source.messages),
+            { imported_from: source.sessionId },
+          );
+        }
+        const title = source.title?.trim() || session.title;
+        db.prepare('UPDATE sessions SET title = ? WHERE session_id = ?').run(
+          title ?? null,
+          session.sessionId,
+        );
+        if (title && session.roomId) {
+          this.sessionManager.matrixManger
+            .editMessage({
+              messageId: session.sessionId,
+              roomId: session.roomId,
+              message: title,
+              isOracleAdmin: true,
+            })
+            .catch((err) => {
+              Logger.error('Failed to set imported session title:', err);
+            });
+        }
+        imported.push({ ...session, title });
+      }
+      return { sessions: imported };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+      Logger.error(
+        `Failed to import sessions for DID ${data.did}: ${message}`,
+        stack,
+      );
+      throw new BadRequestException(`Failed to import sessions: ${message}`);
+    } finally {
+      this.syncService.markUserInactive(data.did);
+    }
+  }
+
+  /**
+   * Full-text search over the user's main-room sessions, best match first.
+   */
+  async searchSessions(
+    data: SearchSessionsDto,
+  ): Promise<SearchSessionsResponseDto> {
+    this.syncService.markUserActive(data.did);
+    try {
+      const userHomeServer =
+        data.homeServer || (await getMatrixHomeServerCroppedForDid(data.did));
+      const { roomId: mainRoomId } =
+        await this.sessionManager.matrixManger.getOracleRoomIdWithHomeServer({
+          userDid: data.did,
+          oracleEntityDid: this.configService.getOrThrow('ORACLE_ENTITY_DID'),
+          userHomeServer,
+        });
+
+      const db = await this.syncService.getUserDatabase(data.did);
+      return {
+        sessions: searchSessionMessages(db, data.query, {
+          limit: data.limit ?? 10,
+          roomId: mainRoomId ?? undefined,
+        }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+      Logger.error(
+        `Failed to search sessions for DID ${data.did}: ${message}`,
+        stack,
+      );
+      throw new BadRequestException(`Failed to search sessions: ${message}`);
+    } finally {
+      this.syncService.markUserInactive(data.did);
+    }
+  }
+
+  /**
+   * Check that a session exists in the user's own session store.
+   */
+  async isSessionOwner(did: string, sessionId: string): Promise<boolean> {
+    this.syncService.markUserActive(did);
+    try {
+      await this.syncService.syncLocalStorageFromMatrixStorage({
+        userDid: did,
+      });
+      const session = await this.sessionManager.getSession(
+        sessionId,
+        did,
+        false,
+      );
+      return Boolean(session);
+    } finally {
+      this.syncService.markUserInactive(did);
+    }
+  }
+
   async deleteSession(data: DeleteSessionDto): Promise<{ message: string }> {
     this.syncService.markUserActive(data.did);
     try {
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class LinkSlackAccountDto {
+  @ApiProperty({
+    description: 'One-time link code issued by the bot in Slack',
+    example: 'A1B2C3D4',
+  })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+}
+
+export class LinkSlackAccountResponse {
+  @ApiProperty({
+    description: 'Slack user ID now linked to the authenticated DID',
+    example: 'U0123456789',
+  })
+  slackUserId: string;
+
+  @ApiProperty({
+    description: 'Authenticated user DID',
+    example: 'did:ixo:ixo1abc...',
+  })
+  did: string;
+}
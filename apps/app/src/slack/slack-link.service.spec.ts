@@ -0,0 +1,55 @@
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, type TestingModule } from '@nestjs/testing';
+import { SlackLinkService } from './slack-link.service';
+
+describe('SlackLinkService', () => {
+  let service: SlackLinkService;
+  let store: Map<string, unknown>;
+
+  beforeEach(async () => {
+    store = new Map();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlackLinkService,
+        { provide: ConfigService, useValue: { get: vi.fn() } },
+        {
+          provide: CACHE_MANAGER,
+          useValue: {
+            get: vi.fn(async (key: string) => store.get(key)),
+            set: vi.fn(async (key: string, value: unknown) => {
+              store.set(key, value);
+            }),
+            del: vi.fn(async (key: string) => {
+              store.delete(key);
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SlackLinkService>(SlackLinkService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('issues a distinct code per request', async () => {
+    const first = await service.createLinkCode('U123');
+    const second = await service.createLinkCode('U123');
+    expect(first).toMatch(/^[0-9A-F]{8}$/);
+    expect(second).not.toBe(first);
+  });
+
+  it('rejects an unknown link code', async () => {
+    await expect(
+      service.redeemLinkCode({
+        code: 'DEADBEEF',
+        did: 'did:ixo:ixo1abc',
+        homeServer: '',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * SlackLinkService — maps Slack users to IXO DIDs.
+ *
+ * Linking flow:
+ *   1. A Slack user sends `link` to the bot → a one-time code is issued
+ *      (cached for `LINK_CODE_TTL`) and shown to them in an ephemeral reply
+ *   2. The user redeems the code via `POST /slack/link` from the portal.
+ *      The request goes through `AuthHeaderMiddleware`, so the Matrix OpenID
+ *      token (or UCAN delegation) proves control of the DID
+ *   3. The mapping is stored as an `ixo.ora.slack.link` state event on the
+ *      oracle account room (state key = Slack user ID)
+ *
+ * The user's OpenID token is cached encrypted under `OPENID_CACHE_PREFIX`
+ * so Slack messages can reach sandbox, memory and editor tools on their behalf.
+ */
+
+import { MatrixManager } from '@ixo/matrix';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Cache } from 'cache-manager';
+import { randomBytes } from 'node:crypto';
+import { OPENID_CACHE_PREFIX } from 'src/middleware/auth-header.middleware';
+import { decryptToken, encryptToken } from 'src/tasks/token-encryption';
+import { type ENV } from 'src/types';
+
+/** State event type holding a Slack user → DID mapping */
+export const SLACK_LINK_EVENT_TYPE = 'ixo.ora.slack.link';
+
+/** How long a link code stays redeemable */
+const LINK_CODE_TTL = 10 * 60 * 1000;
+
+/** How long a resolved mapping stays in the in-memory cache */
+const LINKED_ACCOUNT_CACHE_TTL = 5 * 60 * 1000;
+
+/** Matrix OpenID tokens are issued for one hour */
+const OPENID_TOKEN_TTL = 60 * 60 * 1000;
+
+export interface SlackLinkedAccount {
+  did: string;
+  homeServer: string;
+  linkedAt: string;
+}
+
+interface PendingLinkCode {
+  slackUserId: string;
+}
+
+export interface RedeemLinkCodeParams {
+  code: string;
+  did: string;
+  homeServer: string;
+  userOpenIdToken?: string;
+}
+
+@Injectable()
+export class SlackLinkService {
+  private readonly logger = new Logger(SlackLinkService.name);
+
+  constructor(
+    private readonly configService: ConfigService<ENV>,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  /**
+   * Issue a one-time link code for a Slack user.
+   * Any previously issued code for the same user stays valid until it expires.
+   */
+  async createLinkCode(slackUserId: string): Promise<string> {
+    const code = randomBytes(4).toString('hex').toUpperCase();
+    await this.cacheManager.set(
+      this.linkCodeCacheKey(code),
+      { slackUserId } satisfies PendingLinkCode,
+      LINK_CODE_TTL,
+    );
+    this.logger.log(`Issued link code for Slack user ${slackUserId}`);
+    return code;
+  }
+
+  /**
+   * Redeem a link code for an authenticated DID and persist the mapping.
+   * Returns the Slack user ID the DID is now linked to.
+   */
+  async redeemLinkCode(
+    params: RedeemLinkCodeParams,
+  ): Promise<{ slackUserId: string }> {
+    const code = params.code.trim().toUpperCase();
+    const cacheKey = this.linkCodeCacheKey(code);
+    const pending = await this.cacheManager.get<PendingLinkCode>(cacheKey);
+    if (!pending) {
+      throw new BadRequestException('Link code is invalid or has expired');
+    }
+    await this.cacheManager.del(cacheKey);
+
+    const account: SlackLinkedAccount = {
+      did: params.did,
+      homeServer: params.homeServer,
+      linkedAt: new Date().toISOString(),
+    };
+    await this.writeLinkEvent(pending.slackUserId, account);
+    await this.cacheManager.set(
+      this.linkedAccountCacheKey(pending.slackUserId),
+      account,
+      LINKED_ACCOUNT_CACHE_TTL,
+    );
+
+    if (params.userOpenIdToken) {
+      await this.cacheOpenIdToken(params.did, params.userOpenIdToken);
+    }
+
+    this.logger.log(
+      `Linked Slack user ${pending.slackUserId} to DID ${params.did}`,
+    );
+    return { slackUserId: pending.slackUserId };
+  }
+
+  /**
+   * Resolve the DID linked to a Slack user. Returns null when unlinked.
+   */
+  async getLinkedAccount(
+    slackUserId: string,
+  ): Promise<SlackLinkedAccount | null> {
+    const cacheKey = this.linkedAccountCacheKey(slackUserId);
+    const cached = await this.cacheManager.get<SlackLinkedAccount>(cacheKey);
+    if (cached) return cached;
+
+    const account = await this.readLinkEvent(slackUserId);
+    if (!account) return null;
+
+    await this.cacheManager.set(cacheKey, account, LINKED_ACCOUNT_CACHE_TTL);
+    return account;
+  }
+
+  /**
+   * Remove a Slack user's mapping. Matrix state cannot be deleted, so the
+   * event is overwritten with empty content.
+   */
+  async unlink(slackUserId: string): Promise<void> {
+    await this.getMatrixClient().sendStateEvent(
+      this.getAccountRoomId(),
+      SLACK_LINK_EVENT_TYPE,
+      {},
+      slackUserId,
+    );
+    await this.cacheManager.del(this.linkedAccountCacheKey(slackUserId));
+    this.logger.log(`Unlinked Slack user ${slackUserId}`);
+  }
+
+  /**
+   * Read the cached OpenID token for a linked DID.
+   * Returns an empty string when none is cached (tools run degraded).
+   */
+  async getOpenIdToken(did: string): Promise<string> {
+    try {
+      const encrypted = await this.cacheManager.get<string>(
+        `${OPENID_CACHE_PREFIX}${did}`,
+      );
+      if (!encrypted) return '';
+      return decryptToken(
+        encrypted,
+        this.configService.getOrThrow('MATRIX_VALUE_PIN'),
+      );
+    } catch (err) {
+      this.logger.warn(
+        `Failed to decrypt cached openId token for ${did}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return '';
+    }
+  }
+
+  // ── Private ─────────────────────────────────────────────────────
+
+  private async cacheOpenIdToken(did: string, token: string): Promise<void> {
+    const encrypted = encryptToken(
+      token,
+      this.configService.getOrThrow('MATRIX_VALUE_PIN'),
+    );
+    await this.cacheManager.set(
+      `${OPENID_CACHE_PREFIX}${did}`,
+      encrypted,
+      OPENID_TOKEN_TTL,
+    );
+  }
+
+  private async readLinkEvent(
+    slackUserId: string,
+  ): Promise<SlackLinkedAccount | null> {
+    try {
+      const content = (await this.getMatrixClient().mxClient.getRoomStateEvent(
+        this.getAccountRoomId(),
+        SLACK_LINK_EVENT_TYPE,
+        slackUserId,
+      )) as Partial<SlackLinkedAccount> | undefined;
+      // Unlinked users have an empty event (or none at all)
+      if (!content?.did) return null;
+      return {
+        did: content.did,
+        homeServer: content.homeServer ?? '',
+        linkedAt: content.linkedAt ?? '',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeLinkEvent(
+    slackUserId: string,
+    account: SlackLinkedAccount,
+  ): Promise<void> {
+    await this.getMatrixClient().sendStateEvent(
+      this.getAccountRoomId(),
+      SLACK_LINK_EVENT_TYPE,
+      { ...account },
+      slackUserId,
+    );
+  }
+
+  private getMatrixClient() {
+    const client = MatrixManager.getInstance().getClient();
+    if (!client) {
+      throw new Error('MatrixManager client not initialized');
+    }
+    return client;
+  }
+
+  private getAccountRoomId(): string {
+    return this.configService.getOrThrow('MATRIX_ACCOUNT_ROOM_ID');
+  }
+
+  private linkCodeCacheKey(code: string): string {
+    return `slack_link_code:${code}`;
+  }
+
+  private linkedAccountCacheKey(slackUserId: string): string {
+    return `slack_link:${slackUserId}`;
+  }
+}
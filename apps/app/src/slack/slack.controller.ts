@@ -0,0 +1,51 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import {
+  LinkSlackAccountDto,
+  LinkSlackAccountResponse,
+} from './dto/link-slack-account.dto';
+import { SlackLinkService } from './slack-link.service';
+
+@ApiTags('slack')
+@Controller('slack')
+export class SlackController {
+  constructor(private readonly slackLinkService: SlackLinkService) {}
+
+  @Post('link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Link a Slack account to the authenticated DID',
+    description:
+      'Redeems the one-time code the bot sends in Slack after a user types `link`.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Slack account linked',
+    type: LinkSlackAccountResponse,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Link code is invalid or has expired',
+  })
+  async linkAccount(
+    @Body() body: LinkSlackAccountDto,
+    @Req() req: Request,
+  ): Promise<LinkSlackAccountResponse> {
+    const { did, homeServer, userOpenIdToken } = req.authData;
+    const { slackUserId } = await this.slackLinkService.redeemLinkCode({
+      code: body.code,
+      did,
+      homeServer,
+      userOpenIdToken,
+    });
+    return { slackUserId, did };
+  }
+}
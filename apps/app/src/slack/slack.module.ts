@@ -1,12 +1,15 @@
 import { Global, Module } from '@nestjs/common';
 import { MessagesModule } from 'src/messages/messages.module';
 import { SessionsModule } from 'src/sessions/sessions.module';
+import { SlackLinkService } from './slack-link.service';
+import { SlackController } from './slack.controller';
 import { SlackService } from './slack.service';
 
 @Global()
 @Module({
-  providers: [SlackService],
-  exports: [SlackService],
+  controllers: [SlackController],
+  providers: [SlackService, SlackLinkService],
+  exports: [SlackService, SlackLinkService],
   imports: [MessagesModule, SessionsModule],
 })
 export class SlackModule {}
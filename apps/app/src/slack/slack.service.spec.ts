@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { Test, type TestingModule } from '@nestjs/testing';
 import { MessagesService } from '../messages/messages.service';
 import { SessionsService } from '../sessions/sessions.service';
+import { SlackLinkService } from './slack-link.service';
 import { SlackService } from './slack.service';
 
 describe('SlackService', () => {
@@ -16,6 +17,7 @@ describe('SlackService', () => {
         { provide: MessagesService, useValue: {} },
         { provide: CACHE_MANAGER, useValue: {} },
         { provide: SessionsService, useValue: {} },
+        { provide: SlackLinkService, useValue: {} },
       ],
     }).compile();
 
@@ -13,6 +13,11 @@ import { Cache } from 'cache-manager';
 import { MessagesService } from 'src/messages/messages.service';
 import { SessionsService } from 'src/sessions/sessions.service';
 import { type ENV } from 'src/types';
+import { SlackLinkService } from './slack-link.service';
+
+/** Slack commands handled by the bot itself instead of the agent */
+const LINK_COMMAND = 'link';
+const UNLINK_COMMAND = 'unlink';
 
 @Injectable()
 export class SlackService implements OnModuleInit, OnModuleDestroy {
@@ -25,6 +30,7 @@ export class SlackService implements OnModuleInit, OnModuleDestroy {
     private readonly messagesService: MessagesService,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
     private readonly sessionsService: SessionsService,
+    private readonly slackLinkService: SlackLinkService,
   ) {
     const botToken = configService.get<string>('SLACK_BOT_OAUTH_TOKEN');
     const appToken = configService.get<string>('SLACK_APP_TOKEN');
@@ -137,18 +143,15 @@ export class SlackService implements OnModuleInit, OnModuleDestroy {
     return slackService;
   }
 
-  private readonly USERS = {
-    devnet: {
-      Yousef: 'did:ixo:ixo100jprv3ap66prgdvyuxhuynhp2muv0pclyx4l7',
-    },
-    testnet: {},
-    mainnet: {},
-  } as const;
+  private sessionCacheKey(threadTs: string, userDid: string): string {
+    return `session:${userDid}:${threadTs}`;
+  }
 
   private async getCachedSessionPerThread(
     threadTs: string,
+    userDid: string,
   ): Promise<ChatSession | undefined> {
-    const cacheKey = `session:${threadTs}`;
+    const cacheKey = this.sessionCacheKey(threadTs, userDid);
 
     const cachedSession = await this.cacheManager.get<ChatSession>(cacheKey);
     Logger.debug('Cached session', { cachedSession });
@@ -158,14 +161,19 @@ export class SlackService implements OnModuleInit, OnModuleDestroy {
   private async getOrCreateSessionPerThread(
     threadTs: string,
     userDid: string,
+    homeServer: string,
   ): Promise<ChatSession> {
-    const cachedSession = await this.getCachedSessionPerThread(threadTs);
+    const cachedSession = await this.getCachedSessionPerThread(
+      threadTs,
+      userDid,
+    );
     if (cachedSession) {
       return cachedSession;
     }
 
     const sessions = await this.sessionsService.listSessions({
       did: userDid,
+      homeServer,
     });
 
     const targetSession = sessions.sessions.find(
@@ -173,7 +181,7 @@ export class SlackService implements OnModuleInit, OnModuleDestroy {
     );
     if (targetSession) {
       void this.cacheManager.set(
-        `session:${threadTs}`,
+        this.sessionCacheKey(threadTs, userDid),
         targetSession,
         5 * 60 * 1000,
       );
@@ -182,15 +190,63 @@ export class SlackService implements OnModuleInit, OnModuleDestroy {
 
     const newSession = await this.sessionsService.createSession({
       did: userDid,
+      homeServer,
       slackThreadTs: threadTs,
     });
     void this.cacheManager.set(
-      `session:${threadTs}`,
+      this.sessionCacheKey(threadTs, userDid),
       newSession,
       5 * 60 * 1000,
     );
     return newSession;
   }
+
+  /**
+   * Handle the `link` / `unlink` commands. Returns true when the message
+   * was a command and must not be forwarded to the agent.
+   */
+  private async handleLinkCommand(params: {
+    text: string;
+    channel: string;
+    slackUserId: string;
+  }): Promise<boolean> {
+    const command = params.text.trim().toLowerCase();
+    if (command !== LINK_COMMAND && command !== UNLINK_COMMAND) {
+      return false;
+    }
+
+    if (command === UNLINK_COMMAND) {
+      await this.slackLinkService.unlink(params.slackUserId);
+      await this.postEphemeral(
+        params,
+        'Your Slack account is no longer linked to your IXO account.',
+      );
+      return true;
+    }
+
+    const code = await this.slackLinkService.createLinkCode(params.slackUserId);
+    const linkUrl = this.configService.get<string>('SLACK_LINK_URL');
+    const instructions = linkUrl
+      ? `Open ${linkUrl}?code=${code} while signed in to your IXO account to finish linking.`
+      : 'Enter it in the portal while signed in to your IXO account to finish linking.';
+    await this.postEphemeral(
+      params,
+      `Your link code is \`${code}\` (valid for 10 minutes). ${instructions}`,
+    );
+    return true;
+  }
+
+  private async postEphemeral(
+    params: { channel: string; slackUserId: string },
+    text: string,
+  ): Promise<void> {
+    await this.slackInstance?.postEphemeral({
+      channel: params.channel,
+      user: params.slackUserId,
+      text,
+    });
+  }
+
   private onMessageHandler(): void {
     if (!this.slackInstance?.app) {
       return;
@@ -202,19 +258,45 @@ export class SlackService implements OnModuleInit, OnModuleDestroy {
         message.subtype === undefined &&
         typeof message.text === 'string'
       ) {
-        const userDid = 'did:ixo:ixo100jprv3ap66prgdvyuxhuynhp2muv0pclyx4l7';
+        const slackUserId = message.user;
+        const channel = message.channel;
+
+        const isCommand = await this.handleLinkCommand({
+          text: message.text,
+          channel,
+          slackUserId,
+        });
+        if (isCommand) {
+          return;
+        }
+
+        const account =
+          await this.slackLinkService.getLinkedAccount(slackUserId);
+        if (!account) {
+          await this.postEphemeral(
+            { channel, slackUserId },
+            'Please link your account before chatting with me. Send `link` to get a one-time code.',
+          );
+          return;
+        }
+
+        const userDid = account.did;
         const threadTs = message.thread_ts ?? message.ts;
 
         const session = await this.getOrCreateSessionPerThread(
           threadTs,
           userDid,
+          account.homeServer,
         );
         Logger.debug('Session', { session });
         const aiMessage = await this.messagesService.sendMessage({
           did: userDid,
           message: message.text,
           sessionId: session.sessionId,
-          userMatrixOpenIdToken: '',
+          homeServer: account.homeServer || undefined,
+          userMatrixOpenIdToken:
+            await this.slackLinkService.getOpenIdToken(userDid),
+          clientType: 'slack',
         });
 
         void say({
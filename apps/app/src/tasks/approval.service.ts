@@ -330,6 +330,13 @@ export class ApprovalService {
       },
     });
 
+    // Trigger dependent tasks with the approved output (§12)
+    await this.tasksService.triggerDependentTasks({
+      mainRoomId,
+      upstream: meta,
+      output: workResult.result,
+    });
+
     this.logger.log(`Delivered approved result for task ${taskId}`);
   }
 
@@ -0,0 +1,185 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import type {
+  ChannelType,
+  ComplexityTier,
+  ModelTier,
+  NotificationPolicy,
+  TaskType,
+} from '../task-meta';
+
+export const TASK_TYPES: TaskType[] = [
+  'reminder',
+  'quick_lookup',
+  'research',
+  'report',
+  'monitor',
+  'scheduled_action',
+];
+
+export const CHANNEL_TYPES: ChannelType[] = ['main', 'custom'];
+
+export const NOTIFICATION_POLICIES: NotificationPolicy[] = [
+  'channel_only',
+  'channel_and_mention',
+  'silent',
+  'on_threshold',
+];
+
+export const MODEL_TIERS: ModelTier[] = ['low', 'medium', 'high'];
+
+export const COMPLEXITY_TIERS: ComplexityTier[] = [
+  'trivial',
+  'light',
+  'medium',
+  'heavy',
+];
+
+export class CreateTaskDto {
+  @ApiProperty({
+    description: 'Human-readable task title',
+    example: 'Oil Price Monitor',
+  })
+  @IsNotEmpty()
+  @IsString()
+  title: string;
+
+  @ApiProperty({
+    description: 'What the agent should do — becomes the "What to Do" section',
+    example: 'Check the Brent crude price and report changes above 2%',
+  })
+  @IsNotEmpty()
+  @IsString()
+  objective: string;
+
+  @ApiProperty({ description: 'Task classification', enum: TASK_TYPES })
+  @IsIn(TASK_TYPES)
+  taskType: TaskType;
+
+  @ApiProperty({
+    description: 'Cron expression for recurring tasks',
+    example: '0 9 * * *',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  scheduleCron?: string;
+
+  @ApiProperty({
+    description: 'ISO 8601 deadline for one-shot tasks',
+    example: '2026-03-20T17:00:00+02:00',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  deadlineIso?: string;
+
+  @ApiProperty({
+    description: 'Where results are delivered. Default: main',
+    enum: CHANNEL_TYPES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(CHANNEL_TYPES)
+  channelType?: ChannelType;
+
+  @ApiProperty({
+    description:
+      'Whether to create a task page. Default: true for flow task types',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  createPage?: boolean;
+
+  @ApiProperty({ description: '"How to Report" section', required: false })
+  @IsOptional()
+  @IsString()
+  outputFormat?: string;
+
+  @ApiProperty({ description: '"Constraints" section', required: false })
+  @IsOptional()
+  @IsString()
+  constraints?: string;
+
+  @ApiProperty({
+    description: 'Freeform execution notes for the task page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiProperty({ enum: NOTIFICATION_POLICIES, required: false })
+  @IsOptional()
+  @IsIn(NOTIFICATION_POLICIES)
+  notificationPolicy?: NotificationPolicy;
+
+  @ApiProperty({
+    description: 'Model tier override. Default: derived from taskType',
+    enum: MODEL_TIERS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(MODEL_TIERS)
+  modelTier?: ModelTier;
+
+  @ApiProperty({
+    description: 'Complexity tier override',
+    enum: COMPLEXITY_TIERS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(COMPLEXITY_TIERS)
+  complexityTier?: ComplexityTier;
+
+  @ApiProperty({
+    description: 'IANA timezone. Default: x-timezone header, then UTC',
+    example: 'Africa/Cairo',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiProperty({
+    description: 'Literal message for reminders and quick lookups',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  message?: string;
+
+  @ApiProperty({
+    description: 'Require user approval before results are delivered',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  requiresApproval?: boolean;
+
+  @ApiProperty({ description: 'Monthly budget cap in USD', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  monthlyBudgetUsd?: number;
+
+  @ApiProperty({
+    description:
+      'Upstream task ID. The task runs each time the upstream delivers and cannot have its own schedule.',
+    example: 'task_abc123',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  dependsOnTaskId?: string;
+}
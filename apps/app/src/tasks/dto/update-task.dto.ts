@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsISO8601,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import type { ModelTier, NotificationPolicy } from '../task-meta';
+import { MODEL_TIERS, NOTIFICATION_POLICIES } from './create-task.dto';
+
+export class UpdateTaskDto {
+  @ApiProperty({
+    description:
+      'New cron expression. Cancels current jobs and reschedules the task.',
+    example: '0 */2 * * *',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  scheduleCron?: string;
+
+  @ApiProperty({
+    description:
+      'New ISO 8601 deadline. Cancels current jobs and reschedules the task.',
+    example: '2026-03-25T15:00:00+02:00',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  deadlineIso?: string;
+
+  @ApiProperty({ description: 'IANA timezone', required: false })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiProperty({ enum: NOTIFICATION_POLICIES, required: false })
+  @IsOptional()
+  @IsIn(NOTIFICATION_POLICIES)
+  notificationPolicy?: NotificationPolicy;
+
+  @ApiProperty({ enum: MODEL_TIERS, required: false })
+  @IsOptional()
+  @IsIn(MODEL_TIERS)
+  modelTier?: ModelTier;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  requiresApproval?: boolean;
+
+  @ApiProperty({ description: 'Monthly budget cap in USD', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  monthlyBudgetUsd?: number;
+}
@@ -38,6 +38,19 @@ export {
   generateTaskId,
 } from './task-doc';
 
+// Dependency chains
+export type {
+  DependsOnLookup,
+  ValidateDependenciesParams,
+} from './task-dependencies';
+export {
+  MAX_CHAIN_DEPTH,
+  MAX_DEPENDENCIES,
+  MAX_UPSTREAM_OUTPUT_CHARS,
+  validateDependencies,
+  formatUpstreamSection,
+} from './task-dependencies';
+
 // TasksService (CRUD layer)
 export { TasksService } from './task.service';
 
@@ -45,6 +58,7 @@ export { TasksService } from './task.service';
 export type {
   CreateTaskParams,
   GetTaskParams,
+  GetTaskRunHistoryParams,
   UpdateTaskParams,
   DeleteTaskParams,
   CreateTaskResult,
@@ -53,10 +67,13 @@ export type {
   TaskIndexEntry,
   TasksIndexHeader,
   TasksIndexChunk,
+  TriggerDependentTasksParams,
 } from './task-service.types';
 export {
   DEFAULT_CHUNK_SIZE,
   DEFAULT_PAGE_SIZE,
+  DEFAULT_RUN_HISTORY_LIMIT,
+  MAX_RUN_HISTORY_LIMIT,
   TASK_STATE_EVENT_TYPE,
   TASKS_INDEX_EVENT_TYPE,
 } from './task-service.types';
@@ -118,5 +135,8 @@ export type {
   WorkResult,
 } from './processors';
 
+// REST controller
+export { TasksController } from './tasks.controller';
+
 // TasksModule
 export { TasksModule } from './tasks.module';
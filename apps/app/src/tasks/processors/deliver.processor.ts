@@ -220,6 +220,20 @@ export class DeliverProcessor extends WorkerHost {
           updates,
         });
         this.logger.debug(`TaskMeta updated for task ${taskId}`);
+
+        // Trigger dependent tasks with this run's output (§12)
+        // Guard: skip if already triggered on a previous attempt (idempotent retry)
+        if (meta.status !== 'dry_run' && !progress.dependentsTriggered) {
+          await this.tasksService.triggerDependentTasks({
+            mainRoomId,
+            upstream: meta,
+            output: workResult.result,
+          });
+          await job.updateProgress({
+            ...((job.progress as Record<string, unknown>) || {}),
+            dependentsTriggered: true,
+          });
+        }
       }
 
       // Schedule next work job for recurring tasks — recheck status to avoid scheduling for paused tasks
@@ -245,6 +259,11 @@ export class DeliverProcessor extends WorkerHost {
             `Task ${taskId} no longer runnable (status=${freshMeta.status}), skipping next work schedule`,
           );
         }
+      } else if (meta.dependsOn.length > 0) {
+        // Dependent task — stays active and waits for the next upstream delivery
+        this.logger.log(
+          `Task ${taskId} depends on ${meta.dependsOn.join(', ')}, waiting for next upstream run`,
+        );
       } else if (meta.status !== 'dry_run') {
         // One-shot flow task — mark as completed
         this.logger.log(
@@ -165,6 +165,8 @@ export const WorkJobDataSchema = z.object({
   userDid: z.string().min(1),
   roomId: z.string().min(1),
   forDeliveryAt: z.string().optional(),
+  triggeredBy: z.string().optional(),
+  upstreamOutput: z.string().optional(),
   title: z.string().optional(),
   taskType: z.string().optional(),
   scheduleCron: z.string().optional(),
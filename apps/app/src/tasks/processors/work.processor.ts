@@ -28,6 +28,7 @@ import { decryptToken } from '../token-encryption';
 import crypto from 'node:crypto';
 import { QUEUE_NAMES, WORKER_OPTIONS } from '../scheduler/task-queues';
 import type { WorkJobData } from '../scheduler/types';
+import { formatUpstreamSection } from '../task-dependencies';
 import { sharedServerEditor, withTaskDoc } from '../task-doc-helpers';
 import type { TaskMeta } from '../task-meta';
 import { TasksService } from '../task.service';
@@ -118,7 +119,17 @@ export class WorkProcessor extends WorkerHost {
 
     // Build prompt from task page with execution context
     this.logger.debug(`Building prompt from task page (roomId=${roomId})...`);
-    const prompt = await this.buildPromptFromPage(roomId, meta);
+    const pagePrompt = await this.buildPromptFromPage(roomId, meta);
+
+    // Dependency-triggered run — inject the upstream task's output (§12)
+    const { triggeredBy, upstreamOutput } = job.data;
+    const prompt =
+      triggeredBy && upstreamOutput !== undefined
+        ? [
+            pagePrompt,
+            ...formatUpstreamSection(triggeredBy, upstreamOutput),
+          ].join('\n')
+        : pagePrompt;
     this.logger.debug(
       `Prompt built: length=${prompt.length} chars, preview="${prompt.slice(0, 200)}..."`,
     );
@@ -10,6 +10,7 @@ export type {
   ScheduleRecurringFlowParams,
   ScheduleNextWorkJobParams,
   ScheduleRetryFlowParams,
+  ScheduleTriggeredFlowParams,
 } from './types';
 
 // Queue constants
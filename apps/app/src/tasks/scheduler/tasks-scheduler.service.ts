@@ -23,6 +23,7 @@ import type {
   ScheduleRecurringFlowParams,
   ScheduleRetryFlowParams,
   ScheduleSimpleJobParams,
+  ScheduleTriggeredFlowParams,
   SimpleJobData,
   WorkJobData,
 } from './types';
@@ -191,6 +192,48 @@ export class TasksScheduler {
     return { jobId };
   }
 
+  // ── Triggered Flow (dependency chains) ───────────────────────────
+
+  /**
+   * Schedule an immediate work→deliver flow for a dependent task whose
+   * upstream task just delivered. Job IDs are UUID-suffixed so every
+   * triggered run is kept in Redis history alongside the task's other jobs.
+   *
+   * @see spec §12 — Task Dependencies
+   */
+  async scheduleTriggeredFlow(
+    params: ScheduleTriggeredFlowParams,
+  ): Promise<{ deliverJobId: string; workJobId: string }> {
+    const suffix = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+    const deliverJobId = `${params.taskId}-triggered-deliver-${suffix}`;
+    const workJobId = `${params.taskId}-triggered-work-${suffix}`;
+
+    this.logger.debug(
+      `scheduleTriggeredFlow: taskId=${params.taskId}, triggeredBy=${params.workData.triggeredBy}, deliverJobId=${deliverJobId}, workJobId=${workJobId}`,
+    );
+
+    await this.flowProducer.add({
+      name: QUEUE_NAMES.DELIVER,
+      queueName: QUEUE_NAMES.DELIVER,
+      data: params.deliverData,
+      opts: { jobId: deliverJobId },
+      children: [
+        {
+          name: QUEUE_NAMES.WORK,
+          queueName: QUEUE_NAMES.WORK,
+          data: params.workData,
+          opts: { jobId: workJobId },
+        },
+      ],
+    });
+
+    this.logger.log(
+      `Scheduled triggered flow for task ${params.taskId} (triggeredBy=${params.workData.triggeredBy}): work=${workJobId}, deliver=${deliverJobId}`,
+    );
+
+    return { deliverJobId, workJobId };
+  }
+
   // ── Retry Flow (after rejection) ──────────────────────────────────
 
   /**
@@ -49,6 +49,10 @@ export interface WorkJobData {
   roomId: string;
   /** ISO 8601 timestamp of the delivery this work prepares for (recurring only) */
   forDeliveryAt?: string;
+  /** Upstream task ID whose delivery triggered this run (dependency chains only) */
+  triggeredBy?: string;
+  /** Result text of the upstream run, injected into the work prompt */
+  upstreamOutput?: string;
   /** Human-readable task title for dashboard visibility */
   title?: string;
   /** Agent-classified task type (e.g. 'reminder', 'report') */
@@ -123,6 +127,13 @@ export interface ScheduleNextWorkJobParams {
   delay: number;
 }
 
+/** Params for scheduling an immediate flow (work→deliver) triggered by an upstream task */
+export interface ScheduleTriggeredFlowParams {
+  taskId: string;
+  workData: WorkJobData & { triggeredBy: string; upstreamOutput: string };
+  deliverData: DeliverJobData;
+}
+
 /** Params for scheduling an immediate retry flow (work→deliver) after rejection */
 export interface ScheduleRetryFlowParams {
   taskId: string;
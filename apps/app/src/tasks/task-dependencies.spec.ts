@@ -0,0 +1,136 @@
+import {
+  MAX_CHAIN_DEPTH,
+  MAX_UPSTREAM_OUTPUT_CHARS,
+  formatUpstreamSection,
+  validateDependencies,
+} from './task-dependencies';
+import type { DependsOnLookup } from './task-dependencies';
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+/** Build a lookup from a taskId → dependsOn map. Unknown IDs resolve to null. */
+function lookupFrom(graph: Record<string, string[]>): DependsOnLookup {
+  return async (taskId) => graph[taskId] ?? null;
+}
+
+/** Build a linear chain task_1 ← task_2 ← … ← task_n */
+function linearChain(length: number): Record<string, string[]> {
+  const graph: Record<string, string[]> = {};
+  for (let i = 1; i <= length; i++) {
+    graph[`task_${i}`] = i === 1 ? [] : [`task_${i - 1}`];
+  }
+  return graph;
+}
+
+// ── Tests ────────────────────────────────────────────────────────────
+
+describe('validateDependencies', () => {
+  it('accepts a task without dependencies', async () => {
+    await expect(
+      validateDependencies({
+        taskId: 'task_new',
+        dependsOn: [],
+        jobPattern: 'simple',
+        getDependsOn: lookupFrom({}),
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('accepts a chain up to the max depth', async () => {
+    const graph = linearChain(MAX_CHAIN_DEPTH - 1);
+    await expect(
+      validateDependencies({
+        taskId: 'task_new',
+        dependsOn: [`task_${MAX_CHAIN_DEPTH - 1}`],
+        jobPattern: 'flow',
+        getDependsOn: lookupFrom(graph),
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects a chain deeper than the max depth', async () => {
+    const graph = linearChain(MAX_CHAIN_DEPTH);
+    await expect(
+      validateDependencies({
+        taskId: 'task_new',
+        dependsOn: [`task_${MAX_CHAIN_DEPTH}`],
+        jobPattern: 'flow',
+        getDependsOn: lookupFrom(graph),
+      }),
+    ).rejects.toThrow(/too deep/);
+  });
+
+  it('rejects a cycle back to the task itself', async () => {
+    const graph = { task_a: ['task_b'], task_b: ['task_c'], task_c: [] };
+    await expect(
+      validateDependencies({
+        taskId: 'task_c',
+        dependsOn: ['task_a'],
+        jobPattern: 'flow',
+        getDependsOn: lookupFrom(graph),
+      }),
+    ).rejects.toThrow(/cycle/);
+  });
+
+  it('rejects a task depending on itself', async () => {
+    await expect(
+      validateDependencies({
+        taskId: 'task_a',
+        dependsOn: ['task_a'],
+        jobPattern: 'flow',
+        getDependsOn: lookupFrom({ task_a: [] }),
+      }),
+    ).rejects.toThrow(/cycle/);
+  });
+
+  it('rejects an unknown upstream task', async () => {
+    await expect(
+      validateDependencies({
+        taskId: 'task_new',
+        dependsOn: ['task_missing'],
+        jobPattern: 'flow',
+        getDependsOn: lookupFrom({}),
+      }),
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('rejects more than one upstream task', async () => {
+    await expect(
+      validateDependencies({
+        taskId: 'task_new',
+        dependsOn: ['task_a', 'task_b'],
+        jobPattern: 'flow',
+        getDependsOn: lookupFrom({ task_a: [], task_b: [] }),
+      }),
+    ).rejects.toThrow(/at most/);
+  });
+
+  it('rejects simple-pattern dependents', async () => {
+    await expect(
+      validateDependencies({
+        taskId: 'task_new',
+        dependsOn: ['task_a'],
+        jobPattern: 'simple',
+        getDependsOn: lookupFrom({ task_a: [] }),
+      }),
+    ).rejects.toThrow(/flow tasks/);
+  });
+});
+
+describe('formatUpstreamSection', () => {
+  it('includes the upstream task ID and output', () => {
+    const section = formatUpstreamSection('task_a', 'Scraped 12 articles');
+    const text = section.join('\n');
+    expect(text).toContain('### Upstream Output');
+    expect(text).toContain('task_a');
+    expect(text).toContain('Scraped 12 articles');
+  });
+
+  it('truncates long upstream output', () => {
+    const long = 'x'.repeat(MAX_UPSTREAM_OUTPUT_CHARS + 500);
+    const section = formatUpstreamSection('task_a', long);
+    const output = section.find((line) => line.startsWith('x'))!;
+    expect(output.length).toBe(MAX_UPSTREAM_OUTPUT_CHARS);
+    expect(output.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Task Dependencies — chain validation helpers.
+ *
+ * A dependent task has no time-based schedule of its own: it runs when its
+ * upstream task completes a delivery, with the upstream output injected into
+ * its work prompt. Chains are linear (A → B → C) and capped at
+ * `MAX_CHAIN_DEPTH` tasks.
+ *
+ * These helpers are pure — callers supply a lookup for the `dependsOn` list
+ * of any task in the chain, so the same checks run at creation and on update.
+ *
+ * @see spec §12 — Task Dependencies
+ */
+
+import type { JobPattern } from './task-meta';
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** Maximum number of tasks in a dependency chain, including the new task */
+export const MAX_CHAIN_DEPTH = 5;
+
+/** A task depends on at most one other task (linear chains only) */
+export const MAX_DEPENDENCIES = 1;
+
+/** Maximum characters of upstream output injected into the downstream prompt */
+export const MAX_UPSTREAM_OUTPUT_CHARS = 8_000;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the `dependsOn` list of a task.
+ * Returns null when the task does not exist.
+ */
+export type DependsOnLookup = (taskId: string) => Promise<string[] | null>;
+
+export interface ValidateDependenciesParams {
+  /** The task being created or updated */
+  taskId: string;
+  /** The proposed upstream task IDs */
+  dependsOn: string[];
+  /** Job pattern of the task being created or updated */
+  jobPattern: JobPattern;
+  /** Lookup for the `dependsOn` of existing tasks */
+  getDependsOn: DependsOnLookup;
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
+/**
+ * Validate a proposed dependency list.
+ *
+ * Throws when:
+ * - more than `MAX_DEPENDENCIES` upstream tasks are declared
+ * - the task is a simple (Pattern A) task — only flow tasks can be triggered
+ * - an upstream task does not exist
+ * - the chain loops back to the task itself (cycle)
+ * - the chain would exceed `MAX_CHAIN_DEPTH` tasks
+ */
+export async function validateDependencies(
+  params: ValidateDependenciesParams,
+): Promise<void> {
+  const { taskId, dependsOn, jobPattern, getDependsOn } = params;
+  if (dependsOn.length === 0) return;
+
+  if (dependsOn.length > MAX_DEPENDENCIES) {
+    throw new Error(
+      `A task can depend on at most ${MAX_DEPENDENCIES} other task — chain tasks linearly (A → B → C)`,
+    );
+  }
+
+  if (jobPattern !== 'flow') {
+    throw new Error(
+      'Only flow tasks (research, report, monitor, scheduled_action) can depend on another task',
+    );
+  }
+
+  for (const upstreamId of dependsOn) {
+    const depth = await resolveChainDepth(taskId, upstreamId, getDependsOn);
+    if (depth + 1 > MAX_CHAIN_DEPTH) {
+      throw new Error(
+        `Dependency chain is too deep: ${depth + 1} tasks (max ${MAX_CHAIN_DEPTH})`,
+      );
+    }
+  }
+}
+
+/**
+ * Walk the chain upwards from `upstreamId` and return how many tasks it
+ * contains (the upstream itself counts as 1).
+ *
+ * Throws if the walk reaches `taskId` (cycle) or an unknown task.
+ */
+async function resolveChainDepth(
+  taskId: string,
+  upstreamId: string,
+  getDependsOn: DependsOnLookup,
+): Promise<number> {
+  const visited = new Set<string>([taskId]);
+  let current: string | undefined = upstreamId;
+  let depth = 0;
+
+  while (current) {
+    if (visited.has(current)) {
+      throw new Error(
+        `Dependency cycle detected: ${[...visited, current].join(' → ')}`,
+      );
+    }
+    visited.add(current);
+
+    const parents = await getDependsOn(current);
+    if (parents === null) {
+      throw new Error(`Upstream task ${current} not found`);
+    }
+
+    depth += 1;
+    // Stop walking once the cap is exceeded — the caller reports the error
+    if (depth > MAX_CHAIN_DEPTH) break;
+    current = parents[0];
+  }
+
+  return depth;
+}
+
+// ── Prompt Helpers ───────────────────────────────────────────────────
+
+/**
+ * Build the "Upstream Output" section appended to a triggered task's
+ * work prompt. Output is truncated to `MAX_UPSTREAM_OUTPUT_CHARS`.
+ */
+export function formatUpstreamSection(
+  triggeredBy: string,
+  upstreamOutput: string,
+): string[] {
+  const output =
+    upstreamOutput.length > MAX_UPSTREAM_OUTPUT_CHARS
+      ? `${upstreamOutput.slice(0, MAX_UPSTREAM_OUTPUT_CHARS - 1)}…`
+      : upstreamOutput;
+
+  return [
+    '',
+    '### Upstream Output',
+    `This run was triggered by task ${triggeredBy} completing. Use its output below as the input for this task.`,
+    '---',
+    output,
+    '---',
+  ];
+}
@@ -87,6 +87,7 @@ function buildDefaultTaskMeta(): TaskMeta {
     rejectionCount: 0,
     dependsOn: [],
     triggeredBy: null,
+    pausedBy: null,
     spaceId: null,
     recentOutput: [],
     createdAt: '',
@@ -213,6 +214,7 @@ export function buildTaskMeta(params: CreateTaskMetaParams): TaskMeta {
     // Dependencies
     dependsOn: params.dependsOn ?? [],
     triggeredBy: null,
+    pausedBy: null,
 
     // Editor context
     spaceId: params.spaceId ?? null,
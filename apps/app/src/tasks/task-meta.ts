@@ -135,6 +135,8 @@ export interface TaskMeta {
   dependsOn: string[];
   /** Task ID that triggered this run (if dependency-based) */
   triggeredBy: string | null;
+  /** Upstream task whose pause cascaded to this one — resuming it resumes this task too */
+  pausedBy: string | null;
 
   // ── Editor Context ──────────────────────────────────────────────
   /** Workspace spaceId — enables standalone editor access during task execution */
@@ -29,6 +29,12 @@ export const DEFAULT_CHUNK_SIZE = 100;
 /** Default page size for listTasks pagination */
 export const DEFAULT_PAGE_SIZE = 20;
 
+/** Default number of runs returned by getTaskRunHistory */
+export const DEFAULT_RUN_HISTORY_LIMIT = 20;
+
+/** Max number of runs returned by getTaskRunHistory */
+export const MAX_RUN_HISTORY_LIMIT = 100;
+
 // ── Types ───────────────────────────────────────────────────────────
 
 /** Entry in the task index state event */
@@ -42,6 +48,8 @@ export interface TaskIndexEntry {
   roomAlias: string | null;
   nextRunAt: string | null;
   hasPage: boolean;
+  /** Upstream task IDs (dependency chains). Absent on entries written before chaining existed. */
+  dependsOn?: string[];
 }
 
 /**
@@ -153,6 +161,23 @@ export type ResumeTaskParams = TaskLifecycleParams;
 /** Params for cancelling a task */
 export type CancelTaskParams = TaskLifecycleParams;
 
+/** Params for reading a task's run history */
+export interface GetTaskRunHistoryParams {
+  taskId: string;
+  mainRoomId: string;
+  /** Max runs to return, newest first. Defaults to DEFAULT_RUN_HISTORY_LIMIT. */
+  limit?: number;
+}
+
+/** Params for triggering the dependents of a task after it delivers */
+export interface TriggerDependentTasksParams {
+  mainRoomId: string;
+  /** TaskMeta of the upstream task that just delivered */
+  upstream: TaskMeta;
+  /** Result text of the upstream run, injected into each dependent's work prompt */
+  output: string;
+}
+
 /** Result from createTask */
 export interface CreateTaskResult {
   taskId: string;
@@ -0,0 +1,111 @@
+import type { Cache } from 'cache-manager';
+import type { TasksScheduler } from './scheduler/tasks-scheduler.service';
+import type { TaskMeta } from './task-meta';
+import { TasksService } from './task.service';
+import type { TaskIndexEntry } from './task-service.types';
+
+const mainRoomId = '!main:ixo.world';
+
+describe('TasksService', () => {
+  let service: TasksService;
+  let tasks: Map<string, TaskMeta>;
+
+  const entryOf = (meta: TaskMeta): TaskIndexEntry => ({
+    taskId: meta.taskId,
+    title: meta.taskId,
+    status: meta.status,
+    taskType: meta.taskType,
+    channelType: 'main',
+    roomId: null,
+    roomAlias: null,
+    nextRunAt: meta.nextRunAt,
+    hasPage: false,
+    dependsOn: meta.dependsOn,
+  });
+
+  const addTask = (taskId: string, overrides: Partial<TaskMeta> = {}) => {
+    tasks.set(taskId, {
+      taskId,
+      taskType: 'research',
+      hasPage: false,
+      scheduleCron: null,
+      deadlineIso: null,
+      status: 'active',
+      nextRunAt: null,
+      bullmqRepeatKey: null,
+      currentWorkJobId: null,
+      dependsOn: [],
+      pausedBy: null,
+      ...overrides,
+    } as TaskMeta);
+  };
+
+  const statusOf = (taskId: string) => tasks.get(taskId)?.status;
+
+  beforeEach(() => {
+    tasks = new Map();
+    // Index entries resolve from the cache, so no Matrix reads are needed
+    const cache = {
+      get: vi.fn(async (key: string) => {
+        const meta = tasks.get(key.split(':').at(-1) ?? '');
+        return key.startsWith('tasks:entry:') && meta
+          ? entryOf(meta)
+          : undefined;
+      }),
+      set: vi.fn(),
+      del: vi.fn(),
+    };
+    service = new TasksService(
+      { cancelAllJobsForTask: vi.fn() } as unknown as TasksScheduler,
+      cache as unknown as Cache,
+    );
+
+    vi.spyOn(service, 'getTask').mockImplementation(async ({ taskId }) => {
+      const meta = tasks.get(taskId);
+      if (!meta) throw new Error(`Task ${taskId} not found in index`);
+      return meta;
+    });
+    // Writes go to the in-memory tasks; rescheduling isn't under test
+    vi.spyOn(service, 'updateTask').mockImplementation(
+      async ({ taskId, updates }) => {
+        const meta = { ...tasks.get(taskId)!, ...updates };
+        tasks.set(taskId, meta);
+        return meta;
+      },
+    );
+    vi.spyOn(service, 'findDependentTasks').mockImplementation(
+      async (_mainRoomId, taskId) =>
+        [...tasks.values()]
+          .filter((meta) => meta.dependsOn.includes(taskId))
+          .map(entryOf),
+    );
+
+    // A daily upstream task feeding one dependent
+    addTask('task_upstream', { scheduleCron: '0 9 * * *' });
+    addTask('task_dependent', { dependsOn: ['task_upstream'] });
+  });
+
+  describe('pause and resume', () => {
+    it('resumes the dependents paused along with a task', async () => {
+      await service.pauseTask({ taskId: 'task_upstream', mainRoomId });
+      expect(statusOf('task_dependent')).toBe('paused');
+      expect(tasks.get('task_dependent')?.pausedBy).toBe('task_upstream');
+
+      await service.resumeTask({ taskId: 'task_upstream', mainRoomId });
+
+      expect(statusOf('task_upstream')).toBe('active');
+      expect(statusOf('task_dependent')).toBe('active');
+      expect(tasks.get('task_dependent')?.pausedBy).toBeNull();
+    });
+
+    it('leaves dependents the user paused themselves', async () => {
+      await service.pauseTask({ taskId: 'task_dependent', mainRoomId });
+      await service.pauseTask({ taskId: 'task_upstream', mainRoomId });
+
+      await service.resumeTask({ taskId: 'task_upstream', mainRoomId });
+
+      expect(statusOf('task_upstream')).toBe('active');
+      expect(statusOf('task_dependent')).toBe('paused');
+    });
+  });
+});
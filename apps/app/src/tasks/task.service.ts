@@ -24,7 +24,7 @@ import { CronExpressionParser } from 'cron-parser';
 import { EventType, Preset, Visibility } from 'matrix-js-sdk';
 import { normalizeDid } from 'src/utils/header.utils';
 
-import { MatrixManager } from '@ixo/matrix';
+import { EncryptedRoomEvent, MatrixManager } from '@ixo/matrix';
 import { BLOCKNOTE_TOOLS_CONFIG } from 'src/graph/agents/editor/blocknote-tools';
 import { EditorMatrixClient } from 'src/graph/agents/editor/editor-mx';
 
@@ -41,8 +41,10 @@ import {
   readTaskMeta,
   updateTaskMeta,
 } from './task-doc';
+import { validateDependencies } from './task-dependencies';
 import { sharedServerEditor, withTaskDoc } from './task-doc-helpers';
 import type { ChannelType, TaskMeta, TaskType } from './task-meta';
+import { DEFAULT_JOB_PATTERN } from './task-meta';
 import {
   buildTaskPageParams,
   formatStatusLabel,
@@ -54,6 +56,7 @@ import type {
   CreateTaskResult,
   DeleteTaskParams,
   GetTaskParams,
+  GetTaskRunHistoryParams,
   ListTasksOptions,
   ListTasksResult,
   PauseTaskParams,
@@ -61,19 +64,28 @@ import type {
   TaskIndexEntry,
   TasksIndexChunk,
   TasksIndexHeader,
+  TriggerDependentTasksParams,
   UpdateTaskParams,
 } from './task-service.types';
 import {
   DEFAULT_CHUNK_SIZE,
   DEFAULT_PAGE_SIZE,
+  DEFAULT_RUN_HISTORY_LIMIT,
+  MAX_RUN_HISTORY_LIMIT,
   TASK_STATE_EVENT_TYPE,
   TASKS_INDEX_EVENT_TYPE,
 } from './task-service.types';
-import { resolveWorkDelay } from './processors/processor-utils';
+import {
+  resolveWorkDelay,
+  TASK_RUN_EVENT_TYPE,
+  type TaskRunEventContent,
+} from './processors/processor-utils';
 
 export {
   DEFAULT_CHUNK_SIZE,
   DEFAULT_PAGE_SIZE,
+  DEFAULT_RUN_HISTORY_LIMIT,
+  MAX_RUN_HISTORY_LIMIT,
   TASK_STATE_EVENT_TYPE,
   TASKS_INDEX_EVENT_TYPE,
 } from './task-service.types';
@@ -83,6 +95,7 @@ export type {
   CreateTaskResult,
   DeleteTaskParams,
   GetTaskParams,
+  GetTaskRunHistoryParams,
   ListTasksOptions,
   ListTasksResult,
   PauseTaskParams,
@@ -91,6 +104,7 @@ export type {
   TaskLifecycleParams,
   TasksIndexChunk,
   TasksIndexHeader,
+  TriggerDependentTasksParams,
   UpdateTaskParams,
 } from './task-service.types';
 
@@ -105,6 +119,12 @@ const TASK_META_CACHE_TTL = 30_000;
 /** Cache TTL for individual task index entries (ms) */
 const ENTRY_CACHE_TTL = 30_000;
 
+/** Max timeline pages scanned when collecting run history */
+const RUN_HISTORY_MAX_PAGES = 10;
+
+/** Timeline events fetched per page when collecting run history */
+const RUN_HISTORY_EVENTS_PER_PAGE = 100;
+
 @Injectable()
 export class TasksService {
   private readonly logger = new Logger(TasksService.name);
@@ -155,6 +175,25 @@ export class TasksService {
       `createTask params: ${JSON.stringify({ taskId, title: params.title, taskType: params.taskType, hasPage: params.hasPage, channelType: params.channelType, jobPattern: params.scheduleCron ? 'cron' : params.deadlineIso ? 'deadline' : 'immediate', userDid: params.userDid })}`,
     );
 
+    // 0. Validate dependency chain before any side effects (room, doc, jobs)
+    const dependsOn = params.dependsOn ?? [];
+    if (dependsOn.length > 0) {
+      if (params.scheduleCron || params.deadlineIso) {
+        throw new Error(
+          'A dependent task cannot have its own schedule — it runs when its upstream task completes',
+        );
+      }
+      this.logger.debug(
+        `[createTask ${taskId}] Step 0: Validating dependency chain (dependsOn=${dependsOn.join(',')})`,
+      );
+      await validateDependencies({
+        taskId,
+        dependsOn,
+        jobPattern: DEFAULT_JOB_PATTERN[params.taskType],
+        getDependsOn: (id) => this.getTaskDependsOn(params.mainRoomId, id),
+      });
+    }
+
     // 1. Build TaskMeta
     this.logger.debug(
       `[createTask ${taskId}] Step 1: Building TaskMeta (taskType=${params.taskType}, hasPage=${params.hasPage}, channelType=${params.channelType}, modelOverride=${params.modelOverride ?? 'none'}, complexityTier=${params.complexityTier ?? 'default'}, timezone=${params.timezone})`,
@@ -246,11 +285,19 @@ export class TasksService {
       this.logger.debug(`[createTask ${taskId}] Step 3: State event sent`);
     }
 
-    // 4. Schedule BullMQ job
+    // 4. Schedule BullMQ job — dependent tasks are enqueued by their upstream instead
     this.logger.debug(
-      `[createTask ${taskId}] Step 4: Scheduling BullMQ job (pattern=${taskMeta.jobPattern}, cron=${taskMeta.scheduleCron ?? 'none'}, deadline=${taskMeta.deadlineIso ?? 'none'})`,
+      `[createTask ${taskId}] Step 4: Scheduling BullMQ job (pattern=${taskMeta.jobPattern}, cron=${taskMeta.scheduleCron ?? 'none'}, deadline=${taskMeta.deadlineIso ?? 'none'}, dependsOn=${taskMeta.dependsOn.join(',') || 'none'})`,
     );
-    const scheduleResult = await this.scheduleTask(taskMeta, params);
+    const scheduleResult =
+      taskMeta.dependsOn.length > 0
+        ? {
+            bullmqJobId: null,
+            bullmqRepeatKey: null,
+            nextRunAt: null,
+            currentWorkJobId: null,
+          }
+        : await this.scheduleTask(taskMeta, params);
     this.logger.debug(
       `[createTask ${taskId}] Step 4: Scheduled (bullmqJobId=${scheduleResult.bullmqJobId}, repeatKey=${scheduleResult.bullmqRepeatKey ?? 'none'}, nextRunAt=${scheduleResult.nextRunAt ?? 'none'}, workJobId=${scheduleResult.currentWorkJobId ?? 'none'})`,
     );
@@ -299,6 +346,7 @@ export class TasksService {
         roomAlias,
         nextRunAt: taskMeta.nextRunAt,
         hasPage: params.hasPage,
+        dependsOn: taskMeta.dependsOn,
       },
       'upsert',
     );
@@ -430,6 +478,17 @@ export class TasksService {
 
     const entry = await this.resolveTaskEntry(mainRoomId, taskId);
 
+    // Re-validate the chain when dependencies change (cycles can only appear here)
+    if (updates.dependsOn !== undefined) {
+      const current = await this.getTask({ taskId, mainRoomId });
+      await validateDependencies({
+        taskId,
+        dependsOn: updates.dependsOn,
+        jobPattern: updates.jobPattern ?? current.jobPattern,
+        getDependsOn: (id) => this.getTaskDependsOn(mainRoomId, id),
+      });
+    }
+
     // Invalidate caches before writes so reads within this flow are fresh
     await this.invalidateTaskCaches(mainRoomId, taskId);
 
@@ -517,6 +576,7 @@ export class TasksService {
         status: finalMeta.status,
         nextRunAt: finalMeta.nextRunAt,
         hasPage: finalMeta.hasPage,
+        dependsOn: finalMeta.dependsOn,
       },
       'upsert',
     );
@@ -565,13 +625,22 @@ export class TasksService {
   /**
    * Pause an active task — cancel BullMQ jobs, set status to paused.
    * The schedule is preserved; call resumeTask() to restart.
+   * Active dependents are paused too, so the chain stays consistent.
+   * @param options.pausedBy Upstream task whose pause cascaded to this one
    */
-  async pauseTask(params: PauseTaskParams): Promise<TaskMeta> {
+  async pauseTask(
+    params: PauseTaskParams,
+    options?: { pausedBy?: string },
+  ): Promise<TaskMeta> {
     const meta = await this.getTask(params);
     if (['paused', 'cancelled', 'completed'].includes(meta.status)) {
       throw new Error(`Cannot pause task with status: ${meta.status}`);
     }
-    if (!meta.scheduleCron && !meta.deadlineIso) {
+    if (
+      !meta.scheduleCron &&
+      !meta.deadlineIso &&
+      meta.dependsOn.length === 0
+    ) {
       throw new Error(
         'Cannot pause an immediate task — it has no schedule to resume from',
       );
@@ -593,6 +662,7 @@ export class TasksService {
         nextRunAt: null,
         bullmqRepeatKey: null,
         currentWorkJobId: null,
+        pausedBy: options?.pausedBy ?? null,
       },
     });
 
@@ -601,12 +671,15 @@ export class TasksService {
       await this.updatePageStatus(targetRoomId, 'paused');
     }
 
+    await this.cascadeToDependents(params.mainRoomId, params.taskId, 'pause');
+
     return result;
   }
 
   /**
    * Resume a paused task — re-create BullMQ jobs from the existing schedule.
    * Throws if the task is not paused, or if a one-shot deadline has already passed.
+   * Dependents paused along with it are resumed too.
    */
   async resumeTask(params: ResumeTaskParams): Promise<TaskMeta> {
     const meta = await this.getTask(params);
@@ -628,7 +701,7 @@ export class TasksService {
     const updateParams: UpdateTaskParams = {
       taskId: params.taskId,
       mainRoomId: params.mainRoomId,
-      updates: { status: 'active' },
+      updates: { status: 'active', pausedBy: null },
     };
     if (meta.scheduleCron) {
       updateParams.newScheduleCron = meta.scheduleCron;
@@ -643,6 +716,8 @@ export class TasksService {
       await this.updatePageStatus(targetRoomId, 'active');
     }
 
+    await this.cascadeToDependents(params.mainRoomId, params.taskId, 'resume');
+
     return result;
   }
 
@@ -650,6 +725,7 @@ export class TasksService {
    * Cancel a task permanently — cancel BullMQ jobs, set status to cancelled,
    * archive the dedicated room (if any), and update the page status.
    * The task entry remains in the index with cancelled status.
+   * Dependents can never run again without their upstream, so they are cancelled too.
    */
   async cancelTask(params: CancelTaskParams): Promise<TaskMeta> {
     const meta = await this.getTask(params);
@@ -675,7 +751,7 @@ export class TasksService {
       await this.updatePageStatus(targetRoomId, 'cancelled');
     }
 
-    return this.updateTask({
+    const result = await this.updateTask({
       taskId: params.taskId,
       mainRoomId: params.mainRoomId,
       updates: {
@@ -685,6 +761,251 @@ export class TasksService {
         nextRunAt: null,
       },
     });
+
+    await this.cascadeToDependents(params.mainRoomId, params.taskId, 'cancel');
+
+    return result;
+  }
+
+  // ── Dependencies (§12) ──────────────────────────────────────────
+
+  /**
+   * Find the index entries of tasks that declare `taskId` in `dependsOn`.
+   */
+  async findDependentTasks(
+    mainRoomId: string,
+    taskId: string,
+  ): Promise<TaskIndexEntry[]> {
+    const all = await this.loadAllEntries(mainRoomId);
+    return all.filter((entry) => entry.dependsOn?.includes(taskId));
+  }
+
+  /**
+   * Enqueue an immediate work→deliver flow for every active dependent of
+   * the upstream task, injecting the upstream output into the work context.
+   * Best-effort per dependent — one failing enqueue doesn't block the rest.
+   */
+  async triggerDependentTasks(
+    params: TriggerDependentTasksParams,
+  ): Promise<void> {
+    const { mainRoomId, upstream, output } = params;
+    const dependents = await this.findDependentTasks(
+      mainRoomId,
+      upstream.taskId,
+    );
+    if (dependents.length === 0) return;
+
+    this.logger.log(
+      `Task ${upstream.taskId} delivered — triggering ${dependents.length} dependent task(s)`,
+    );
+
+    for (const entry of dependents) {
+      try {
+        const meta = await this.getTask(
+          { taskId: entry.taskId, mainRoomId },
+          { bypassCache: true },
+        );
+        if (meta.status !== 'active') {
+          this.logger.log(
+            `Dependent task ${entry.taskId} status is '${meta.status}', not triggering`,
+          );
+          continue;
+        }
+
+        const roomId = meta.customRoomId ?? mainRoomId;
+        const dashboardFields = {
+          title: entry.title,
+          taskType: meta.taskType,
+        };
+        const { deliverJobId, workJobId } =
+          await this.scheduler.scheduleTriggeredFlow({
+            taskId: meta.taskId,
+            workData: {
+              taskId: meta.taskId,
+              userDid: meta.userDid,
+              roomId,
+              triggeredBy: upstream.taskId,
+              upstreamOutput: output,
+              ...dashboardFields,
+            },
+            deliverData: {
+              taskId: meta.taskId,
+              userDid: meta.userDid,
+              matrixUserId: meta.matrixUserId,
+              roomId,
+              ...dashboardFields,
+            },
+          });
+
+        await this.updateTask({
+          taskId: meta.taskId,
+          mainRoomId,
+          updates: {
+            triggeredBy: upstream.taskId,
+            bullmqJobId: deliverJobId,
+            currentWorkJobId: workJobId,
+          },
+        });
+      } catch (err) {
+        this.logger.warn(
+          `Failed to trigger dependent task ${entry.taskId} of ${upstream.taskId}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Pause, resume or cancel every dependent of a task. Recurses naturally
+   * because pauseTask/resumeTask/cancelTask cascade to their own dependents.
+   * Resume only reaches dependents that were paused by this task's pause.
+   */
+  private async cascadeToDependents(
+    mainRoomId: string,
+    taskId: string,
+    action: 'pause' | 'resume' | 'cancel',
+  ): Promise<void> {
+    const dependents = await this.findDependentTasks(mainRoomId, taskId);
+
+    for (const entry of dependents) {
+      const skip =
+        action === 'pause'
+          ? ['paused', 'cancelled', 'completed'].includes(entry.status)
+          : action === 'resume'
+            ? entry.status !== 'paused'
+            : ['cancelled', 'completed'].includes(entry.status);
+      if (skip) continue;
+
+      try {
+        if (action === 'resume') {
+          const meta = await this.getTask(
+            { taskId: entry.taskId, mainRoomId },
+            { bypassCache: true },
+          );
+          // Leave dependents the user paused themselves
+          if (meta.pausedBy !== taskId) continue;
+        }
+
+        this.logger.log(
+          `Cascading ${action} from task ${taskId} to dependent ${entry.taskId}`,
+        );
+        if (action === 'pause') {
+          await this.pauseTask(
+            { taskId: entry.taskId, mainRoomId },
+            { pausedBy: taskId },
+          );
+        } else if (action === 'resume') {
+          await this.resumeTask({ taskId: entry.taskId, mainRoomId });
+        } else {
+          await this.cancelTask({ taskId: entry.taskId, mainRoomId });
+        }
+      } catch (err) {
+        this.logger.warn(
+          `Failed to ${action} dependent task ${entry.taskId}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Dependency lookup for chain validation — null when the task doesn't exist.
+   */
+  private async getTaskDependsOn(
+    mainRoomId: string,
+    taskId: string,
+  ): Promise<string[] | null> {
+    try {
+      const meta = await this.getTask({ taskId, mainRoomId });
+      return meta.dependsOn ?? [];
+    } catch {
+      return null;
+    }
+  }
+
+  // ── Run History ─────────────────────────────────────────────────
+
+  /**
+   * Read a task's run history from the `ixo.ora.task.run` events posted by
+   * the processors. Events live in the task's delivery room (custom room or
+   * main room) and are returned newest first.
+   *
+   * Handles encrypted rooms by decrypting each event in-memory. The scan is
+   * capped at `RUN_HISTORY_MAX_PAGES` timeline pages, so very old runs of a
+   * busy room may be omitted.
+   */
+  async getTaskRunHistory(
+    params: GetTaskRunHistoryParams,
+  ): Promise<TaskRunEventContent[]> {
+    const { taskId, mainRoomId } = params;
+    const limit = Math.min(
+      params.limit ?? DEFAULT_RUN_HISTORY_LIMIT,
+      MAX_RUN_HISTORY_LIMIT,
+    );
+    const meta = await this.getTask({ taskId, mainRoomId });
+    const roomId = meta.customRoomId ?? mainRoomId;
+
+    const client = this.getSimpleMatrixClient();
+    const crypto = client.mxClient.crypto;
+    const runs: TaskRunEventContent[] = [];
+    let from: string | undefined;
+
+    for (
+      let page = 0;
+      page < RUN_HISTORY_MAX_PAGES && runs.length < limit;
+      page++
+    ) {
+      const qs: Record<string, string | number> = {
+        dir: 'b', // backwards (newest first)
+        limit: RUN_HISTORY_EVENTS_PER_PAGE,
+      };
+      if (from) {
+        qs.from = from;
+      }
+
+      const response = await client.mxClient.doRequest(
+        'GET',
+        `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/messages`,
+        qs,
+      );
+
+      const chunk = response.chunk as
+        | Array<Record<string, unknown>>
+        | undefined;
+      if (!chunk || chunk.length === 0) break;
+
+      for (const rawEvent of chunk) {
+        if (runs.length >= limit) break;
+
+        let eventType = rawEvent.type as string;
+        let content = (rawEvent.content ?? {}) as Record<string, unknown>;
+
+        if (eventType === 'm.room.encrypted') {
+          if (!crypto) continue;
+          try {
+            const decrypted = await crypto.decryptRoomEvent(
+              new EncryptedRoomEvent(rawEvent),
+              roomId,
+            );
+            eventType = decrypted.type;
+            content = (decrypted.content ?? {}) as Record<string, unknown>;
+          } catch {
+            continue;
+          }
+        }
+
+        if (eventType !== TASK_RUN_EVENT_TYPE || content.taskId !== taskId) {
+          continue;
+        }
+        runs.push(content as unknown as TaskRunEventContent);
+      }
+
+      from = response.end as string | undefined;
+      if (!from) break;
+    }
+
+    this.logger.debug(
+      `getTaskRunHistory: found ${runs.length} run(s) for task ${taskId} in room ${roomId}`,
+    );
+    return runs;
   }
 
   // ── Public: Index Lookup ────────────────────────────────────────
@@ -0,0 +1,50 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, type TestingModule } from '@nestjs/testing';
+import type { Request } from 'express';
+import { TasksController } from './tasks.controller';
+import { TasksService } from './task.service';
+
+describe('TasksController', () => {
+  let controller: TasksController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TasksController],
+      providers: [
+        { provide: TasksService, useValue: {} },
+        { provide: ConfigService, useValue: { getOrThrow: vi.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<TasksController>(TasksController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('rejects a chained task with its own schedule', async () => {
+    await expect(
+      controller.createTask(
+        {
+          title: 'Summarise',
+          objective: 'Summarise the upstream research',
+          taskType: 'report',
+          scheduleCron: '0 9 * * *',
+          dependsOnTaskId: 'task_abc123',
+        },
+        {} as Request,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('rejects a reminder without a schedule', async () => {
+    await expect(
+      controller.createTask(
+        { title: 'Stretch', objective: 'Remind me', taskType: 'reminder' },
+        {} as Request,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
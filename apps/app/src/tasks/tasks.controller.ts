@@ -0,0 +1,394 @@
+/**
+ * TasksController — REST API over TasksService.
+ *
+ * Mirrors the TaskManager sub-agent tools so the portal and other services
+ * can manage scheduled tasks without an LLM in the loop. Every route is
+ * scoped to the caller's main oracle room, resolved from the DID that
+ * `AuthHeaderMiddleware` authenticated.
+ */
+
+import { getMatrixHomeServerCroppedForDid } from '@ixo/oracles-chain-client';
+import { MatrixManager } from '@ixo/matrix';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import type { ENV } from 'src/types';
+
+import { RequireCapability } from 'src/ucan/ucan.capabilities';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
+import type { TaskRunEventContent } from './processors/processor-utils';
+import { resolveModelForTask } from './processors/processor-utils';
+import { DEFAULT_COMPLEXITY, DEFAULT_JOB_PATTERN } from './task-meta';
+import type { TaskMeta } from './task-meta';
+import type {
+  CreateTaskResult,
+  ListTasksResult,
+  TaskIndexEntry,
+} from './task-service.types';
+import { TasksService } from './task.service';
+import { getTemplateDefaults } from './utils/template-registry';
+
+interface TaskUserContext {
+  did: string;
+  mainRoomId: string;
+  matrixUserId: string;
+}
+
+@ApiTags('tasks')
+@Controller('tasks')
+export class TasksController {
+  private readonly logger = new Logger(TasksController.name);
+
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly configService: ConfigService<ENV>,
+  ) {}
+
+  @Post()
+  @RequireCapability('tasks/create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a scheduled task' })
+  @ApiResponse({ status: 201, description: 'Task created and scheduled.' })
+  @ApiResponse({ status: 400, description: 'Invalid task definition.' })
+  async createTask(
+    @Body() body: CreateTaskDto,
+    @Req() req: Request,
+  ): Promise<CreateTaskResult> {
+    if (body.dependsOnTaskId && (body.scheduleCron || body.deadlineIso)) {
+      throw new BadRequestException(
+        'A chained task (dependsOnTaskId) cannot have its own scheduleCron or deadlineIso',
+      );
+    }
+    if (
+      !body.dependsOnTaskId &&
+      ['reminder', 'monitor'].includes(body.taskType) &&
+      !body.scheduleCron &&
+      !body.deadlineIso
+    ) {
+      throw new BadRequestException(
+        'Reminders and monitors require either scheduleCron or deadlineIso',
+      );
+    }
+
+    const user = await this.resolveUserContext(req);
+    const jobPattern = DEFAULT_JOB_PATTERN[body.taskType];
+    const templateDefaults = getTemplateDefaults(body.taskType);
+
+    return this.handleTaskErrors(() =>
+      this.tasksService.createTask({
+        title: body.title,
+        userDid: user.did,
+        matrixUserId: user.matrixUserId,
+        mainRoomId: user.mainRoomId,
+        taskType: body.taskType,
+        hasPage: body.createPage ?? jobPattern === 'flow',
+        channelType: body.channelType ?? 'main',
+        timezone: body.timezone ?? this.getTimezone(req),
+        scheduleCron: body.scheduleCron,
+        deadlineIso: body.deadlineIso,
+        message: body.message,
+        complexityTier:
+          body.complexityTier ?? DEFAULT_COMPLEXITY[body.taskType],
+        notificationPolicy: body.notificationPolicy,
+        modelOverride: body.modelTier
+          ? resolveModelForTask(body.modelTier, null).modelName
+          : undefined,
+        monthlyBudgetUsd: body.monthlyBudgetUsd,
+        whatToDo: body.objective,
+        howToReport: body.outputFormat ?? templateDefaults.defaultOutputFormat,
+        constraints: body.constraints ?? templateDefaults.defaultConstraints,
+        notes: body.notes,
+        requiresApproval: body.requiresApproval,
+        dependsOn: body.dependsOnTaskId ? [body.dependsOnTaskId] : undefined,
+      }),
+    );
+  }
+
+  @Get()
+  @RequireCapability('tasks/read')
+  @ApiOperation({ summary: 'List tasks for the current user' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number, 0-based (default: 0)',
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    required: false,
+    type: Number,
+    description: 'Entries per page (default: 20)',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated task index entries.' })
+  async listTasks(
+    @Req() req: Request,
+    @Query('page') page?: number,
+    @Query('pageSize') pageSize?: number,
+  ): Promise<ListTasksResult> {
+    const user = await this.resolveUserContext(req);
+    return this.tasksService.listTasks(user.mainRoomId, {
+      page: page !== undefined ? Number(page) : undefined,
+      pageSize: pageSize !== undefined ? Number(pageSize) : undefined,
+    });
+  }
+
+  @Get(':taskId')
+  @RequireCapability('tasks/read')
+  @ApiOperation({ summary: 'Get a task with its full metadata' })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiResponse({ status: 200, description: 'Task metadata and index entry.' })
+  @ApiResponse({ status: 404, description: 'Task not found.' })
+  async getTask(
+    @Param('taskId') taskId: string,
+    @Req() req: Request,
+  ): Promise<{ task: TaskMeta; entry: TaskIndexEntry }> {
+    const user = await this.resolveUserContext(req);
+    return this.handleTaskErrors(async () => {
+      const entry = await this.tasksService.getTaskIndexEntry(
+        user.mainRoomId,
+        taskId,
+      );
+      const task = await this.tasksService.getTask({
+        taskId,
+        mainRoomId: user.mainRoomId,
+      });
+      return { task, entry };
+    });
+  }
+
+  @Patch(':taskId')
+  @RequireCapability('tasks/update')
+  @ApiOperation({
+    summary: 'Update a task',
+    description:
+      'Changing scheduleCron or deadlineIso cancels the current jobs and reschedules the task.',
+  })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiResponse({ status: 200, description: 'Updated task metadata.' })
+  @ApiResponse({ status: 404, description: 'Task not found.' })
+  async updateTask(
+    @Param('taskId') taskId: string,
+    @Body() body: UpdateTaskDto,
+    @Req() req: Request,
+  ): Promise<TaskMeta> {
+    if (body.scheduleCron !== undefined && body.deadlineIso !== undefined) {
+      throw new BadRequestException(
+        'Provide scheduleCron or deadlineIso, not both',
+      );
+    }
+
+    const updates: Partial<TaskMeta> = {
+      ...(body.scheduleCron !== undefined
+        ? { scheduleCron: body.scheduleCron }
+        : {}),
+      ...(body.deadlineIso !== undefined
+        ? { deadlineIso: body.deadlineIso }
+        : {}),
+      ...(body.timezone !== undefined ? { timezone: body.timezone } : {}),
+      ...(body.notificationPolicy !== undefined
+        ? { notificationPolicy: body.notificationPolicy }
+        : {}),
+      ...(body.modelTier !== undefined
+        ? {
+            modelOverride: resolveModelForTask(body.modelTier, null).modelName,
+          }
+        : {}),
+      ...(body.requiresApproval !== undefined
+        ? { requiresApproval: body.requiresApproval }
+        : {}),
+      ...(body.monthlyBudgetUsd !== undefined
+        ? { monthlyBudgetUsd: body.monthlyBudgetUsd }
+        : {}),
+    };
+
+    const user = await this.resolveUserContext(req);
+    return this.handleTaskErrors(() =>
+      this.tasksService.updateTask({
+        taskId,
+        mainRoomId: user.mainRoomId,
+        updates,
+        newScheduleCron: body.scheduleCron,
+        newDeadlineIso: body.deadlineIso,
+      }),
+    );
+  }
+
+  @Post(':taskId/pause')
+  @RequireCapability('tasks/update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause an active task (and its dependents)' })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiResponse({ status: 200, description: 'Task paused.' })
+  @ApiResponse({ status: 400, description: 'Task cannot be paused.' })
+  async pauseTask(
+    @Param('taskId') taskId: string,
+    @Req() req: Request,
+  ): Promise<TaskMeta> {
+    const user = await this.resolveUserContext(req);
+    return this.handleTaskErrors(() =>
+      this.tasksService.pauseTask({ taskId, mainRoomId: user.mainRoomId }),
+    );
+  }
+
+  @Post(':taskId/resume')
+  @RequireCapability('tasks/update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused task' })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiResponse({ status: 200, description: 'Task resumed.' })
+  @ApiResponse({ status: 400, description: 'Task cannot be resumed.' })
+  async resumeTask(
+    @Param('taskId') taskId: string,
+    @Req() req: Request,
+  ): Promise<TaskMeta> {
+    const user = await this.resolveUserContext(req);
+    return this.handleTaskErrors(() =>
+      this.tasksService.resumeTask({ taskId, mainRoomId: user.mainRoomId }),
+    );
+  }
+
+  @Post(':taskId/cancel')
+  @RequireCapability('tasks/update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Permanently cancel a task (and its dependents)' })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiResponse({ status: 200, description: 'Task cancelled.' })
+  @ApiResponse({ status: 400, description: 'Task cannot be cancelled.' })
+  async cancelTask(
+    @Param('taskId') taskId: string,
+    @Req() req: Request,
+  ): Promise<TaskMeta> {
+    const user = await this.resolveUserContext(req);
+    return this.handleTaskErrors(() =>
+      this.tasksService.cancelTask({ taskId, mainRoomId: user.mainRoomId }),
+    );
+  }
+
+  @Delete(':taskId')
+  @RequireCapability('tasks/delete')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a task',
+    description:
+      'Cancels all scheduled jobs and removes the task from the index. The task page and room are kept.',
+  })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiResponse({ status: 204, description: 'Task deleted.' })
+  @ApiResponse({ status: 404, description: 'Task not found.' })
+  async deleteTask(
+    @Param('taskId') taskId: string,
+    @Req() req: Request,
+  ): Promise<void> {
+    const user = await this.resolveUserContext(req);
+    await this.handleTaskErrors(() =>
+      this.tasksService.deleteTask({ taskId, mainRoomId: user.mainRoomId }),
+    );
+  }
+
+  @Get(':taskId/runs')
+  @RequireCapability('tasks/read')
+  @ApiOperation({
+    summary: 'Get run history for a task',
+    description: 'Reads the `ixo.ora.task.run` events, newest first.',
+  })
+  @ApiParam({ name: 'taskId', example: 'task_abc123' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Max runs to return (default: 20, max: 100)',
+  })
+  @ApiResponse({ status: 200, description: 'Task run events.' })
+  @ApiResponse({ status: 404, description: 'Task not found.' })
+  async getTaskRuns(
+    @Param('taskId') taskId: string,
+    @Req() req: Request,
+    @Query('limit') limit?: number,
+  ): Promise<{ runs: TaskRunEventContent[] }> {
+    const user = await this.resolveUserContext(req);
+    const runs = await this.handleTaskErrors(() =>
+      this.tasksService.getTaskRunHistory({
+        taskId,
+        mainRoomId: user.mainRoomId,
+        limit: limit !== undefined ? Number(limit) : undefined,
+      }),
+    );
+    return { runs };
+  }
+
+  // ── Private ─────────────────────────────────────────────────────
+
+  /**
+   * Resolve the caller's main oracle room and Matrix user ID.
+   * Uses the same derivation as the main agent.
+   */
+  private async resolveUserContext(req: Request): Promise<TaskUserContext> {
+    const { did } = req.authData;
+    const homeServer =
+      req.authData.homeServer || (await getMatrixHomeServerCroppedForDid(did));
+    const { roomId } =
+      await MatrixManager.getInstance().getOracleRoomIdWithHomeServer({
+        userDid: did,
+        oracleEntityDid: this.configService.getOrThrow('ORACLE_ENTITY_DID'),
+        userHomeServer: homeServer,
+      });
+    if (!roomId) {
+      throw new NotFoundException(
+        'No oracle room found for this user — start a session first',
+      );
+    }
+    return {
+      did,
+      mainRoomId: roomId,
+      matrixUserId: `@${did.replace(/:/g, '-')}:${homeServer}`,
+    };
+  }
+
+  private getTimezone(req: Request): string {
+    const header = req.headers['x-timezone'];
+    const timezone = Array.isArray(header) ? header[0] : header;
+    return timezone?.trim() || 'UTC';
+  }
+
+  /**
+   * TasksService throws plain Errors (its messages are written for the
+   * TaskManager agent) — map them to HTTP errors.
+   */
+  private async handleTaskErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      if (/not found/i.test(message)) {
+        throw new NotFoundException(message);
+      }
+      this.logger.warn(`Task operation failed: ${message}`);
+      throw new BadRequestException(message);
+    }
+  }
+}
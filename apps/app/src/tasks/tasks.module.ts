@@ -29,6 +29,7 @@ import { SimpleProcessor } from './processors/simple.processor';
 import { WorkProcessor } from './processors/work.processor';
 import { QUEUE_DEFAULT_OPTIONS, QUEUE_NAMES } from './scheduler/task-queues';
 import { TasksScheduler } from './scheduler/tasks-scheduler.service';
+import { TasksController } from './tasks.controller';
 import { TasksService } from './task.service';
 
 @Module({
@@ -69,6 +70,7 @@ import { TasksService } from './task.service';
     // Provides UserMatrixSqliteSyncService for SessionManagerService
     CheckpointStorageSyncModule,
   ],
+  controllers: [TasksController],
   providers: [
     TasksScheduler,
     TasksService,
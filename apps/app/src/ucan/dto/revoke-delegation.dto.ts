@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, ValidateIf } from 'class-validator';
+
+export class RevokeDelegationDto {
+  @ApiProperty({
+    description:
+      'Serialized delegation to revoke (the value sent as x-ucan-delegation)',
+    required: false,
+  })
+  @ValidateIf((dto: RevokeDelegationDto) => !dto.cid)
+  @IsString()
+  @IsNotEmpty()
+  delegation?: string;
+
+  @ApiProperty({
+    description:
+      'CID of the delegation to revoke — only for the delegation the oracle currently holds for you',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  cid?: string;
+}
+
+export class RevokeDelegationResponseDto {
+  @ApiProperty({ description: 'CID of the revoked delegation' })
+  cid: string;
+
+  @ApiProperty({
+    description: 'Expiration of the delegation (Unix seconds), if it has one',
+    required: false,
+  })
+  expiration?: number;
+}
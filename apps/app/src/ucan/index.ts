@@ -3,10 +3,22 @@
  */
 
 export { UcanModule } from './ucan.module';
-export { UcanService, type MCPValidationResult } from './ucan.service';
+export {
+  UcanService,
+  type ApiInvocationResult,
+  type MCPValidationResult,
+  type RevokedDelegation,
+} from './ucan.service';
 export {
   createMCPUCANConfig,
   requiresUCANAuth,
   buildRequiredCapability,
   loadUCANConfigFromEnv,
 } from './ucan.config';
+export {
+  API_CAPABILITIES,
+  type ApiCapability,
+  RequireCapability,
+  createApiResourceURI,
+} from './ucan.capabilities';
+export { UcanCapabilityGuard } from './ucan.guard';
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview UCAN capabilities for the oracle's REST API
+ *
+ * Routes declare the capability they need with `@RequireCapability`. A user
+ * can delegate any of them on their API resource to a third-party app,
+ * which then calls the route with a UCAN invocation in the
+ * `x-ucan-invocation` header. Requests made with the user's own credentials
+ * are not restricted.
+ */
+
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Abilities a route can require. Delegations may also use `*` or a
+ * namespace wildcard such as `sessions/*`.
+ */
+export const API_CAPABILITIES = [
+  'sessions/read',
+  'sessions/create',
+  'sessions/delete',
+  'messages/read',
+  'messages/send',
+  'tasks/read',
+  'tasks/create',
+  'tasks/update',
+  'tasks/delete',
+  'calls/read',
+  'calls/update',
+  'calls/key',
+  'checkpoints/read',
+  'checkpoints/restore',
+  'usage/read',
+] as const;
+
+export type ApiCapability = (typeof API_CAPABILITIES)[number];
+
+export const UCAN_INVOCATION_HEADER = 'x-ucan-invocation';
+
+export const REQUIRED_CAPABILITY_KEY = 'ucan:required-capability';
+
+/**
+ * Declare the capability a UCAN invocation needs to call a route.
+ * On a controller it applies to every route that doesn't declare its own.
+ * Routes without one can't be called with an invocation.
+ */
+export const RequireCapability = (can: ApiCapability) =>
+  SetMetadata(REQUIRED_CAPABILITY_KEY, can);
+
+/**
+ * The resource a user delegates API capabilities on. It contains the user's
+ * DID, so only that user can issue capabilities for it.
+ * Pattern: ixo:oracle:{oracleDid}:api/{userDid}
+ */
+export function createApiResourceURI(
+  oracleDid: string,
+  userDid: string,
+): string {
+  return `ixo:oracle:${oracleDid}:api/${userDid}`;
+}
@@ -0,0 +1,43 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import {
+  RevokeDelegationDto,
+  type RevokeDelegationResponseDto,
+} from './dto/revoke-delegation.dto';
+import { UcanService } from './ucan.service';
+
+@ApiTags('ucan')
+@Controller('ucan')
+export class UcanController {
+  constructor(private readonly ucanService: UcanService) {}
+
+  @Post('revocations')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke a UCAN delegation you issued to the oracle',
+  })
+  @ApiResponse({ status: 200, description: 'Delegation revoked.' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid delegation, or not issued to this oracle.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'The delegation was issued by someone else.',
+  })
+  @ApiResponse({ status: 404, description: 'No delegation with that CID.' })
+  async revokeDelegation(
+    @Req() req: Request,
+    @Body() body: RevokeDelegationDto,
+  ): Promise<RevokeDelegationResponseDto> {
+    return this.ucanService.revokeDelegation(req.authData.did, body);
+  }
+}
@@ -0,0 +1,148 @@
+import { type ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { RequireCapability } from './ucan.capabilities';
+import { UcanCapabilityGuard } from './ucan.guard';
+import { type UcanService } from './ucan.service';
+
+vi.mock('./ucan.service', () => ({ UcanService: class {} }));
+
+@RequireCapability('tasks/read')
+class TestController {
+  list() {}
+
+  @RequireCapability('tasks/delete')
+  remove() {}
+}
+
+class UnprotectedController {
+  link() {}
+}
+
+const userDid = 'did:ixo:ixo1user';
+
+function createContext(
+  handler: () => void,
+  controller: object,
+  req: Partial<Request>,
+): ExecutionContext {
+  return {
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => req }),
+    getHandler: () => handler,
+    getClass: () => controller,
+  } as unknown as ExecutionContext;
+}
+
+function invocationRequest(): Partial<Request> {
+  return {
+    headers: { 'x-ucan-invocation': 'invocation' },
+    authData: {
+      did: userDid,
+      userOpenIdToken: '',
+      homeServer: '',
+      ucanInvocation: { invoker: 'did:key:app' },
+    },
+  };
+}
+
+describe('UcanCapabilityGuard', () => {
+  const ucanService = {
+    validateApiInvocation: vi.fn(),
+  };
+  const guard = new UcanCapabilityGuard(
+    new Reflector(),
+    ucanService as unknown as UcanService,
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ucanService.validateApiInvocation.mockResolvedValue({
+      valid: true,
+      userDid,
+      invokerDid: 'did:key:app',
+    });
+  });
+
+  it('lets requests made with user credentials through', async () => {
+    const req = {
+      headers: {},
+      authData: { did: userDid, userOpenIdToken: 'token', homeServer: 'hs' },
+    };
+
+    await expect(
+      guard.canActivate(
+        createContext(
+          UnprotectedController.prototype.link,
+          UnprotectedController,
+          req,
+        ),
+      ),
+    ).resolves.toBe(true);
+    expect(ucanService.validateApiInvocation).not.toHaveBeenCalled();
+  });
+
+  it('validates the invocation against the route capability', async () => {
+    await expect(
+      guard.canActivate(
+        createContext(
+          TestController.prototype.remove,
+          TestController,
+          invocationRequest(),
+        ),
+      ),
+    ).resolves.toBe(true);
+    expect(ucanService.validateApiInvocation).toHaveBeenCalledWith(
+      'invocation',
+      'tasks/delete',
+      userDid,
+    );
+
+    await guard.canActivate(
+      createContext(
+        TestController.prototype.list,
+        TestController,
+        invocationRequest(),
+      ),
+    );
+    expect(ucanService.validateApiInvocation).toHaveBeenLastCalledWith(
+      'invocation',
+      'tasks/read',
+      userDid,
+    );
+  });
+
+  it('rejects invocations the capability is not delegated for', async () => {
+    ucanService.validateApiInvocation.mockResolvedValue({
+      valid: false,
+      error: 'Claim does not match',
+    });
+
+    await expect(
+      guard.canActivate(
+        createContext(
+          TestController.prototype.remove,
+          TestController,
+          invocationRequest(),
+        ),
+      ),
+    ).rejects.toThrow(
+      new ForbiddenException(
+        'UCAN invocation does not grant tasks/delete: Claim does not match',
+      ),
+    );
+  });
+
+  it('rejects invocations on routes without a declared capability', async () => {
+    await expect(
+      guard.canActivate(
+        createContext(
+          UnprotectedController.prototype.link,
+          UnprotectedController,
+          invocationRequest(),
+        ),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    expect(ucanService.validateApiInvocation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  type CanActivate,
+  type ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import {
+  type ApiCapability,
+  REQUIRED_CAPABILITY_KEY,
+  UCAN_INVOCATION_HEADER,
+} from './ucan.capabilities';
+import { UcanService } from './ucan.service';
+
+/**
+ * Enforces `@RequireCapability` on requests made with a UCAN invocation.
+ *
+ * `AuthHeaderMiddleware` has already identified the user the invocation acts
+ * for; this guard checks the invocation grants the route's capability on
+ * that user's API resource. Requests made with the user's own credentials
+ * pass through.
+ */
+@Injectable()
+export class UcanCapabilityGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly ucanService: UcanService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') return true;
+
+    const req = context.switchToHttp().getRequest<Request>();
+    const invocation = req.headers[UCAN_INVOCATION_HEADER] as
+      | string
+      | undefined;
+    if (!invocation || !req.authData?.ucanInvocation) return true;
+
+    const can = this.reflector.getAllAndOverride<ApiCapability | undefined>(
+      REQUIRED_CAPABILITY_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!can) {
+      throw new ForbiddenException(
+        'This route cannot be called with a UCAN invocation',
+      );
+    }
+
+    const result = await this.ucanService.validateApiInvocation(
+      invocation,
+      can,
+      req.authData.did,
+    );
+    if (!result.valid) {
+      throw new ForbiddenException(
+        `UCAN invocation does not grant ${can}: ${result.error}`,
+      );
+    }
+    return true;
+  }
+}
@@ -6,12 +6,17 @@
 
 import { Global, Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { UcanController } from './ucan.controller';
+import { UcanCapabilityGuard } from './ucan.guard';
 import { UcanService } from './ucan.service';
 
 /**
  * UCAN Module
  *
- * Provides UCAN authorization services for MCP tool invocations.
+ * Provides UCAN authorization services for MCP tool invocations, the
+ * endpoint users call to revoke their delegations, and the global guard that
+ * enforces `@RequireCapability` on REST routes.
  * Marked as @Global so the UcanService can be injected anywhere.
  *
  * @example
@@ -32,7 +37,11 @@ import { UcanService } from './ucan.service';
 @Global()
 @Module({
   imports: [ConfigModule],
-  providers: [UcanService],
+  controllers: [UcanController],
+  providers: [
+    UcanService,
+    { provide: APP_GUARD, useClass: UcanCapabilityGuard },
+  ],
   exports: [UcanService],
 })
 export class UcanModule {}
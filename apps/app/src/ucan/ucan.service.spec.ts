@@ -0,0 +1,101 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { type ConfigService } from '@nestjs/config';
+import { type Cache } from '@nestjs/cache-manager';
+import { type ENV } from 'src/config';
+import { createApiResourceURI } from './ucan.capabilities';
+import { UcanService } from './ucan.service';
+
+const revoked = new Set<string>();
+
+vi.mock('@ixo/ucan', () => ({
+  // Delegations are passed around as JSON stand-ins
+  parseDelegation: vi.fn(async (raw: string) => {
+    const { cid, issuer, audience, capabilities } = JSON.parse(raw);
+    return {
+      cid: { toString: () => cid },
+      issuer: { did: () => issuer },
+      audience: { did: () => audience },
+      capabilities,
+    };
+  }),
+  InMemoryInvocationStore: class {},
+  RedisInvocationStore: class {},
+  RedisRevocationStore: class {},
+  InMemoryRevocationStore: class {
+    async revoke(cid: string) {
+      revoked.add(cid);
+    }
+    async isRevoked(cid: string) {
+      return revoked.has(cid);
+    }
+  },
+}));
+vi.mock('src/graph/mcp-config', () => ({
+  getUCANProtectedMCPServers: () => [],
+  onMCPConfigChange: () => () => {},
+}));
+vi.mock('src/utils/redis.service', () => ({
+  RedisService: { getClient: () => null },
+}));
+
+const oracleDid = 'did:ixo:ixo1oracle';
+const userDid = 'did:ixo:ixo1user';
+
+function delegation(audience: string, resource: string): string {
+  return JSON.stringify({
+    cid: 'bafy1',
+    issuer: userDid,
+    audience,
+    capabilities: [{ can: 'sessions/read', with: resource }],
+  });
+}
+
+describe('UcanService', () => {
+  let service: UcanService;
+
+  beforeEach(() => {
+    revoked.clear();
+    const config = { ORACLE_DID: oracleDid } as Record<string, string>;
+    service = new UcanService(
+      {
+        get: (key: string) => config[key],
+        getOrThrow: (key: string) => config[key],
+      } as unknown as ConfigService<ENV>,
+      {
+        get: vi.fn().mockResolvedValue(undefined),
+        del: vi.fn(),
+      } as unknown as Cache,
+    );
+  });
+
+  describe('revokeDelegation', () => {
+    it('revokes a delegation to a third-party app on the API resource', async () => {
+      const raw = delegation(
+        'did:key:app',
+        createApiResourceURI(oracleDid, userDid),
+      );
+
+      await expect(
+        service.revokeDelegation(userDid, { delegation: raw }),
+      ).resolves.toEqual({ cid: 'bafy1', expiration: undefined });
+      expect(await service.isDelegationRevoked('bafy1')).toBe(true);
+    });
+
+    it('rejects delegations to others on other resources', async () => {
+      const raw = delegation('did:key:app', 'ixo:oracle:other:api/someone');
+
+      await expect(
+        service.revokeDelegation(userDid, { delegation: raw }),
+      ).rejects.toThrow(BadRequestException);
+      expect(revoked.size).toBe(0);
+    });
+
+    it('only lets the issuer revoke a delegation', async () => {
+      const raw = delegation(oracleDid, 'ixo:oracle');
+
+      await expect(
+        service.revokeDelegation('did:ixo:ixo1other', { delegation: raw }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
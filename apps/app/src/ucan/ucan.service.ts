@@ -7,12 +7,37 @@
  * 3. Ed25519 signing key management (stored in memory at startup)
  * 4. Service DID resolution via did:web (/.well-known/did.json)
  * 5. User delegation caching (keyed by user DID)
+ * 6. Replay protection and delegation revocation, shared through Redis when
+ *    it is available
+ * 7. Validation of UCAN invocations for REST API routes
  */
 
-import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Cache, CACHE_MANAGER } from '@nestjs/cache-manager';
+import type {
+  defineCapability,
+  InMemoryInvocationStore,
+  RedisInvocationStore,
+  RevocationStore,
+  UCANValidator,
+  ValidateResult,
+} from '@ixo/ucan';
 import type { ENV } from 'src/config';
+import { RedisService } from 'src/utils/redis.service';
+import {
+  getUCANProtectedMCPServers,
+  onMCPConfigChange,
+} from 'src/graph/mcp-config';
+import { type ApiCapability, createApiResourceURI } from './ucan.capabilities';
 import {
   type MCPUCANConfig,
   createMCPUCANConfig,
@@ -33,65 +58,6 @@ type DIDKeyResolver = (
   { ok: KeyDID[] } | { error: { name: string; did: string; message: string } }
 >;
 
-interface InvocationStore {
-  has(cid: string): Promise<boolean>;
-  add(cid: string, ttlMs?: number): Promise<void>;
-  cleanup?(): Promise<void>;
-}
-
-class InMemoryInvocationStore implements InvocationStore {
-  private store = new Map<string, number>();
-  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
-  private readonly defaultTtlMs: number;
-
-  constructor(
-    options: { defaultTtlMs?: number; cleanupIntervalMs?: number } = {},
-  ) {
-    this.defaultTtlMs = options.defaultTtlMs ?? 24 * 60 * 60 * 1000;
-    const cleanupIntervalMs = options.cleanupIntervalMs ?? 60 * 60 * 1000;
-
-    this.cleanupInterval = setInterval(() => {
-      void this.cleanup();
-    }, cleanupIntervalMs);
-
-    if (this.cleanupInterval.unref) {
-      this.cleanupInterval.unref();
-    }
-  }
-
-  async has(cid: string): Promise<boolean> {
-    const expiry = this.store.get(cid);
-    if (!expiry) return false;
-    if (Date.now() > expiry) {
-      this.store.delete(cid);
-      return false;
-    }
-    return true;
-  }
-
-  async add(cid: string, ttlMs?: number): Promise<void> {
-    const ttl = ttlMs ?? this.defaultTtlMs;
-    this.store.set(cid, Date.now() + ttl);
-  }
-
-  async cleanup(): Promise<void> {
-    const now = Date.now();
-    for (const [cid, expiry] of this.store.entries()) {
-      if (now > expiry) {
-        this.store.delete(cid);
-      }
-    }
-  }
-
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-    this.store.clear();
-  }
-}
-
 function createIxoDIDResolver(config: { indexerUrl: string }): DIDKeyResolver {
   const DID_DOCUMENT_QUERY = `
     query GetDIDDocument($id: String!) {
@@ -254,11 +220,37 @@ export interface MCPValidationResult {
   invokerDid?: string;
 }
 
+export interface RevokedDelegation {
+  cid: string;
+  /** Unix seconds; the revocation is kept until the delegation would expire */
+  expiration?: number;
+}
+
+export interface ApiInvocationResult {
+  valid: boolean;
+  error?: string;
+  /** The user whose data the invocation acts on */
+  userDid?: string;
+  /** The app that signed the invocation */
+  invokerDid?: string;
+}
+
+interface UcanStores {
+  invocationStore: InMemoryInvocationStore | RedisInvocationStore;
+  revocationStore: RevocationStore;
+}
+
 @Injectable()
 export class UcanService implements OnModuleDestroy {
   private readonly logger = new Logger(UcanService.name);
-  private readonly config: MCPUCANConfig;
-  private readonly invocationStore: InvocationStore;
+  private config: MCPUCANConfig;
+  private readonly unsubscribeMCPConfig: () => void;
+  private stores: Promise<UcanStores> | null = null;
+  private apiValidator: Promise<UCANValidator> | null = null;
+  private readonly apiCapabilities = new Map<
+    ApiCapability,
+    ReturnType<typeof defineCapability>
+  >();
   private readonly didResolver: DIDKeyResolver;
 
   private signingMnemonic: string | null = null;
@@ -270,10 +262,12 @@ export class UcanService implements OnModuleDestroy {
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
   ) {
     this.config = this.loadConfig();
-
-    this.invocationStore = new InMemoryInvocationStore({
-      defaultTtlMs: 24 * 60 * 60 * 1000,
-      cleanupIntervalMs: 60 * 60 * 1000,
+    // Protected servers can change when the MCP config is hot-reloaded
+    this.unsubscribeMCPConfig = onMCPConfigChange(() => {
+      this.config = this.loadConfig();
+      this.logger.log(
+        `Protected MCP servers reloaded: ${Object.keys(this.config.requirements).join(', ') || 'none'}`,
+      );
     });
 
     const indexerUrl = this.configService.get(
@@ -289,9 +283,11 @@ export class UcanService implements OnModuleDestroy {
     );
   }
 
-  onModuleDestroy() {
-    if (this.invocationStore instanceof InMemoryInvocationStore) {
-      this.invocationStore.destroy();
+  async onModuleDestroy() {
+    this.unsubscribeMCPConfig();
+    if (this.stores) {
+      const { invocationStore } = await this.stores;
+      if ('destroy' in invocationStore) invocationStore.destroy();
     }
   }
 
@@ -302,7 +298,17 @@ export class UcanService implements OnModuleDestroy {
     const rootIssuers =
       envConfig.rootIssuers.length > 0 ? envConfig.rootIssuers : [oracleDid];
 
-    return createMCPUCANConfig(oracleDid, rootIssuers, {});
+    // Servers listed in UCAN_PROTECTED_MCP_SERVERS or marked `requiresUcan`
+    // in the MCP config
+    const protectedServers: Record<string, boolean> = {};
+    for (const serverName of [
+      ...Object.keys(envConfig.requirements),
+      ...getUCANProtectedMCPServers(),
+    ]) {
+      protectedServers[serverName] = true;
+    }
+
+    return createMCPUCANConfig(oracleDid, rootIssuers, protectedServers);
   }
 
   private createDIDResolver(indexerUrl?: string): DIDKeyResolver {
@@ -329,6 +335,231 @@ export class UcanService implements OnModuleDestroy {
     return createCompositeDIDResolver(resolvers);
   }
 
+  // ============================================================================
+  // Replay protection and revocation stores
+  // ============================================================================
+
+  /**
+   * Stores are created on first use: @ixo/ucan is ESM-only, and the Redis
+   * client is only connected once the app has started.
+   */
+  private getStores(): Promise<UcanStores> {
+    this.stores ??= this.createStores().catch((error: unknown) => {
+      this.stores = null;
+      throw error;
+    });
+    return this.stores;
+  }
+
+  private async createStores(): Promise<UcanStores> {
+    const {
+      InMemoryInvocationStore,
+      InMemoryRevocationStore,
+      RedisInvocationStore,
+      RedisRevocationStore,
+    } = await import('@ixo/ucan');
+
+    const redis = RedisService.getClient() ?? null;
+    if (redis) {
+      this.logger.log('[UCAN] Invocation and revocation stores use Redis');
+      return {
+        invocationStore: new RedisInvocationStore({ client: redis }),
+        revocationStore: new RedisRevocationStore({ client: redis }),
+      };
+    }
+
+    this.logger.warn(
+      '[UCAN] Redis not available — replay protection and revocations are per instance and lost on restart',
+    );
+    return {
+      invocationStore: new InMemoryInvocationStore({
+        defaultTtlMs: 24 * 60 * 60 * 1000,
+        cleanupIntervalMs: 60 * 60 * 1000,
+      }),
+      revocationStore: new InMemoryRevocationStore(),
+    };
+  }
+
+  /**
+   * Registry of revoked delegation CIDs, passed to the UCAN validator
+   */
+  async getRevocationStore(): Promise<RevocationStore> {
+    return (await this.getStores()).revocationStore;
+  }
+
+  async isDelegationRevoked(cid: string): Promise<boolean> {
+    return (await this.getRevocationStore()).isRevoked(cid);
+  }
+
+  /**
+   * Revoke a delegation the user issued to the oracle, or one granting a
+   * third-party app capabilities on the user's API resource.
+   *
+   * Accepts the serialized delegation, or just its CID when it is the
+   * delegation the oracle has cached for the user. Drops the cached
+   * delegation and the service invocations built on it.
+   */
+  async revokeDelegation(
+    userDid: string,
+    params: { delegation?: string; cid?: string },
+  ): Promise<RevokedDelegation> {
+    const rawDelegation =
+      params.delegation ?? (await this.getCachedDelegation(userDid));
+    if (!rawDelegation) {
+      throw new NotFoundException(`Delegation ${params.cid} not found`);
+    }
+
+    const { parseDelegation } = await import('@ixo/ucan');
+    let delegation: Awaited<ReturnType<typeof parseDelegation>>;
+    try {
+      delegation = await parseDelegation(rawDelegation);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid delegation: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const cid = delegation.cid.toString();
+    if (params.cid && params.cid !== cid) {
+      throw new NotFoundException(`Delegation ${params.cid} not found`);
+    }
+    if (delegation.issuer.did() !== userDid) {
+      throw new ForbiddenException(
+        'Only the issuer of a delegation can revoke it',
+      );
+    }
+    // Either the user's own delegation to the oracle, or one granting a
+    // third-party app capabilities on the user's API resource
+    const oracleDid = this.configService.get('ORACLE_DID');
+    if (oracleDid && delegation.audience.did() !== oracleDid) {
+      const apiResource = createApiResourceURI(oracleDid, userDid);
+      if (
+        !delegation.capabilities.some(
+          (capability) => capability.with === apiResource,
+        )
+      ) {
+        throw new BadRequestException(
+          'Delegation was not issued to this oracle or on your API resource',
+        );
+      }
+    }
+
+    const expiration =
+      typeof delegation.expiration === 'number' &&
+      isFinite(delegation.expiration)
+        ? delegation.expiration
+        : undefined;
+    const ttlMs = expiration ? expiration * 1000 - Date.now() : undefined;
+    if (ttlMs === undefined || ttlMs > 0) {
+      await (await this.getRevocationStore()).revoke(cid, ttlMs);
+    }
+
+    // Stop using the delegation for downstream invocations
+    if ((await this.getCachedDelegation(userDid)) === rawDelegation) {
+      await this.cacheManager.del(`${DELEGATION_CACHE_PREFIX}${userDid}`);
+    }
+    for (const serviceDid of this.serviceDidCache.values()) {
+      await this.cacheManager.del(
+        `${INVOCATION_CACHE_PREFIX}${userDid}:${serviceDid}`,
+      );
+    }
+
+    this.logger.log(`[UCAN] Delegation ${cid} revoked by ${userDid}`);
+    return { cid, expiration };
+  }
+
+  // ============================================================================
+  // REST API invocations (third-party app → oracle)
+  // ============================================================================
+
+  /**
+   * Validator for invocations addressed to the oracle. There are no root
+   * issuers: only a user can issue capabilities on their own API resource.
+   */
+  private getApiValidator(): Promise<UCANValidator> {
+    this.apiValidator ??= (async () => {
+      const { createUCANValidator, createIxoDIDResolver } = await import(
+        '@ixo/ucan'
+      );
+      const { invocationStore, revocationStore } = await this.getStores();
+      return createUCANValidator({
+        serverDid: this.configService.getOrThrow('ORACLE_DID'),
+        rootIssuers: [],
+        didResolver: createIxoDIDResolver({
+          indexerUrl: this.configService.getOrThrow('BLOCKSYNC_GRAPHQL_URL'),
+        }),
+        invocationStore,
+        revocationStore,
+      });
+    })().catch((error: unknown) => {
+      this.apiValidator = null;
+      throw error;
+    });
+    return this.apiValidator;
+  }
+
+  private async getApiCapability(
+    can: ApiCapability,
+  ): Promise<ReturnType<typeof defineCapability>> {
+    let capability = this.apiCapabilities.get(can);
+    if (!capability) {
+      const { defineCapability } = await import('@ixo/ucan');
+      capability = defineCapability({ can, protocol: 'ixo:' });
+      this.apiCapabilities.set(can, capability);
+    }
+    return capability;
+  }
+
+  /**
+   * Check an invocation's signatures, audience, expiry and revocations,
+   * without checking its capability or marking it used. Identifies the user
+   * a request acts for before the route's capability is known.
+   */
+  async verifyApiInvocation(invocation: string): Promise<ValidateResult> {
+    const validator = await this.getApiValidator();
+    return validator.validateDelegation(invocation);
+  }
+
+  /**
+   * Validate an invocation against the capability a route requires, on the
+   * user's API resource. The invocation is marked used, so it can't be
+   * replayed.
+   */
+  async validateApiInvocation(
+    invocation: string,
+    can: ApiCapability,
+    userDid: string,
+  ): Promise<ApiInvocationResult> {
+    try {
+      const validator = await this.getApiValidator();
+      const result = await validator.validate(
+        invocation,
+        await this.getApiCapability(can),
+        createApiResourceURI(validator.serverDid, userDid),
+      );
+
+      if (!result.ok) {
+        this.logger.warn(
+          `[UCAN] API invocation rejected for ${can}: [${result.error?.code}] ${result.error?.message}`,
+        );
+        return {
+          valid: false,
+          error: result.error?.message ?? 'Invocation not authorized',
+        };
+      }
+
+      return { valid: true, userDid, invokerDid: result.invoker };
+    } catch (error) {
+      this.logger.error(
+        `[UCAN] API invocation validation error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {
+        valid: false,
+        error: `Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
   // ============================================================================
   // Signing key management
   // ============================================================================
@@ -574,7 +805,8 @@ export class UcanService implements OnModuleDestroy {
         .digest('hex');
       const pseudoCid = `bafy${hash.slice(0, 52)}`;
 
-      if (await this.invocationStore.has(pseudoCid)) {
+      const { invocationStore } = await this.getStores();
+      if (await invocationStore.has(pseudoCid)) {
         return {
           valid: false,
           error: 'Invocation has already been used (replay attack prevented)',
@@ -595,7 +827,12 @@ export class UcanService implements OnModuleDestroy {
         `UCAN validation is in placeholder mode. Full ucanto validation will be enabled once @ixo/ucan is built.`,
       );
 
-      await this.invocationStore.add(pseudoCid);
+      if (!(await invocationStore.claim(pseudoCid))) {
+        return {
+          valid: false,
+          error: 'Invocation has already been used (replay attack prevented)',
+        };
+      }
 
       return { valid: true, invokerDid: 'placeholder:invoker' };
     } catch (error) {
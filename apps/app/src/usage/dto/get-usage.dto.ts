@@ -0,0 +1,20 @@
+import {
+  type UsageFilter,
+  type UsageSummary,
+  type UsageTotals,
+} from '../usage-ledger';
+
+export class GetUsageDto implements UsageFilter {
+  did: string;
+  from?: string;
+  to?: string;
+  sessionId?: string;
+}
+
+export class GetUsageResponseDto implements UsageSummary {
+  totals: UsageTotals;
+  bySession: UsageSummary['bySession'];
+  byDay: UsageSummary['byDay'];
+  byModel: UsageSummary['byModel'];
+  bySource: UsageSummary['bySource'];
+}
@@ -0,0 +1,204 @@
+import { AIMessage } from '@langchain/core/messages';
+import { type ChatGeneration } from '@langchain/core/outputs';
+import { TokenLimiter, TokenLimiterError } from 'src/utils/token-limit-handler';
+import { UsageAccounting } from './usage-accounting';
+import { recordUsageEntryInBackground } from './usage-ledger';
+
+const env: Record<string, unknown> = {
+  NETWORK: 'mainnet',
+  DISABLE_CREDITS: false,
+};
+
+vi.mock('src/config', () => ({
+  getConfig: () => ({
+    get: (key: string) => env[key],
+    getOrThrow: (key: string) => env[key],
+  }),
+  isRedisEnabled: () => true,
+}));
+vi.mock('src/graph/llm-provider', () => ({
+  getModelPricing: (model: string) =>
+    model === 'priced/model'
+      ? { inputPricePerMillionTokens: 1, outputPricePerMillionTokens: 2 }
+      : null,
+}));
+vi.mock('src/utils/redis.service', () => ({ RedisService: class {} }));
+vi.mock('./usage-ledger', () => ({ recordUsageEntryInBackground: vi.fn() }));
+
+const userDid = 'did:ixo:ixo1user';
+
+describe('UsageAccounting', () => {
+  beforeEach(() => {
+    env.DISABLE_CREDITS = false;
+    vi.restoreAllMocks();
+    vi.mocked(recordUsageEntryInBackground).mockClear();
+  });
+
+  describe('toCredits', () => {
+    it('prefers the provider cost, then model pricing, then the flat rate', () => {
+      expect(
+        UsageAccounting.toCredits({
+          model: 'priced/model',
+          inputTokens: 1_000_000,
+          outputTokens: 1_000_000,
+          providerCost: 0.01,
+        }),
+      ).toBe(16);
+      expect(
+        UsageAccounting.toCredits({
+          model: 'priced/model',
+          inputTokens: 1_000_000,
+          outputTokens: 1_000_000,
+        }),
+      ).toBe(5);
+      expect(
+        UsageAccounting.toCredits({
+          model: 'unknown/model',
+          inputTokens: 5_000_000,
+          outputTokens: 5_000_000,
+        }),
+      ).toBe(12);
+    });
+  });
+
+  describe('record', () => {
+    it('charges the user through the held-amount pipeline', async () => {
+      const limit = vi
+        .spyOn(TokenLimiter, 'limit')
+        .mockResolvedValue({ success: true, remaining: 84 });
+
+      const record = await UsageAccounting.record(
+        {
+          userDid,
+          sessionId: 'session-1',
+          source: 'sub-agent',
+          label: 'Memory Agent',
+        },
+        {
+          model: 'priced/model',
+          inputTokens: 10,
+          outputTokens: 5,
+          providerCost: 0.01,
+        },
+      );
+
+      expect(limit).toHaveBeenCalledWith(userDid, 16);
+      expect(record).toMatchObject({
+        userDid,
+        sessionId: 'session-1',
+        source: 'sub-agent',
+        label: 'Memory Agent',
+        credits: 16,
+        remaining: 84,
+      });
+    });
+
+    it('itemises the charge in the usage ledger', async () => {
+      vi.spyOn(TokenLimiter, 'limit').mockResolvedValue({
+        success: true,
+        remaining: 84,
+      });
+
+      await UsageAccounting.record(
+        {
+          userDid,
+          sessionId: 'session-1',
+          source: 'file-processing',
+          toolName: 'process_file',
+        },
+        {
+          model: 'priced/model',
+          inputTokens: 10,
+          outputTokens: 5,
+          providerCost: 0.01,
+        },
+      );
+
+      expect(recordUsageEntryInBackground).toHaveBeenCalledWith(userDid, {
+        sessionId: 'session-1',
+        source: 'file-processing',
+        agent: undefined,
+        toolName: 'process_file',
+        model: 'priced/model',
+        inputTokens: 10,
+        outputTokens: 5,
+        costUsd: expect.closeTo(0.016, 6),
+        credits: 16,
+      });
+    });
+
+    it('does nothing when credits are disabled', async () => {
+      env.DISABLE_CREDITS = true;
+      const limit = vi.spyOn(TokenLimiter, 'limit');
+
+      await expect(
+        UsageAccounting.record(
+          { userDid, source: 'file-processing' },
+          { inputTokens: 10, outputTokens: 5, providerCost: 0.01 },
+        ),
+      ).resolves.toBeNull();
+      expect(limit).not.toHaveBeenCalled();
+      expect(recordUsageEntryInBackground).not.toHaveBeenCalled();
+    });
+
+    it('only logs failures for background work', async () => {
+      vi.spyOn(TokenLimiter, 'limit').mockRejectedValue(
+        new TokenLimiterError('Insufficient balance', 'token'),
+      );
+
+      await expect(
+        UsageAccounting.recordInBackground(
+          { userDid, source: 'memory-engine' },
+          { inputTokens: 10, outputTokens: 5, providerCost: 0.01 },
+        ),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('assertCanSpend', () => {
+    it('rejects users without credits left', async () => {
+      const getRemaining = vi
+        .spyOn(TokenLimiter, 'getRemaining')
+        .mockResolvedValue(0);
+
+      await expect(UsageAccounting.assertCanSpend(userDid)).rejects.toThrow(
+        TokenLimiterError,
+      );
+
+      getRemaining.mockResolvedValue(10);
+      await expect(
+        UsageAccounting.assertCanSpend(userDid),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createCallbackHandler', () => {
+    it('charges model calls made outside an agent', async () => {
+      const limit = vi
+        .spyOn(TokenLimiter, 'limit')
+        .mockResolvedValue({ success: true, remaining: 0 });
+      const handler = UsageAccounting.createCallbackHandler({
+        userDid,
+        sessionId: 'session-1',
+        source: 'session-title',
+      });
+
+      const message = new AIMessage({
+        content: 'Store Opening Hours',
+        usage_metadata: {
+          input_tokens: 1_000_000,
+          output_tokens: 1_000_000,
+          total_tokens: 2_000_000,
+        },
+        response_metadata: { model: 'priced/model' },
+      });
+      const generation: ChatGeneration = {
+        text: 'Store Opening Hours',
+        message,
+      };
+      await handler.handleLLMEnd!({ generations: [[generation]] }, 'run-1');
+
+      expect(limit).toHaveBeenCalledWith(userDid, 5);
+    });
+  });
+});
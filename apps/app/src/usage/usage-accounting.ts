@@ -0,0 +1,242 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { type AIMessage } from '@langchain/core/messages';
+import { type ChatGeneration, type LLMResult } from '@langchain/core/outputs';
+import { Logger } from '@nestjs/common';
+import { getConfig, isRedisEnabled } from 'src/config';
+import { getModelPricing } from 'src/graph/llm-provider';
+import { TokenLimiter, TokenLimiterError } from 'src/utils/token-limit-handler';
+import { recordUsageEntryInBackground } from './usage-ledger';
+
+/** What a model call was made for */
+export type UsageSource =
+  | 'agent'
+  | 'sub-agent'
+  | 'file-processing'
+  | 'session-title'
+  | 'memory-engine'
+  | 'call-summary';
+
+/** Token counts and cost of one model call */
+export interface ModelUsage {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Exact USD cost reported by the provider (OpenRouter includes this) */
+  providerCost?: number;
+}
+
+/** Who a model call is charged to */
+export interface UsageAttribution {
+  userDid: string;
+  sessionId?: string;
+  source: UsageSource;
+  /** Finer-grained origin, e.g. the sub-agent name */
+  label?: string;
+  /** Tool the call was made from, e.g. `process_file` */
+  toolName?: string;
+}
+
+export interface UsageRecord extends UsageAttribution, ModelUsage {
+  /** USD cost including markup */
+  costUsd: number;
+  credits: number;
+  /** Balance left after the charge */
+  remaining: number;
+}
+
+const config = getConfig();
+
+/**
+ * Charges every model call made on a user's behalf against their credit
+ * balance. Charges go through `TokenLimiter.limit`, so they land in the
+ * held amount that `ClaimProcessingService` turns into claims, and are
+ * itemised in the user's usage ledger.
+ */
+export class UsageAccounting {
+  /** Credits are only tracked when Redis is available */
+  static isEnabled(): boolean {
+    return !config.get('DISABLE_CREDITS') && isRedisEnabled();
+  }
+
+  /**
+   * Read the usage LangChain attached to a model response.
+   * @returns null when the provider didn't report any
+   */
+  static fromMessage(message: AIMessage): ModelUsage | null {
+    if (!message?.usage_metadata) return null;
+
+    const responseMeta = message.response_metadata as
+      | { usage?: { cost?: number }; model?: string; model_name?: string }
+      | undefined;
+    return {
+      model: responseMeta?.model ?? responseMeta?.model_name,
+      inputTokens: message.usage_metadata.input_tokens,
+      outputTokens: message.usage_metadata.output_tokens,
+      providerCost:
+        typeof responseMeta?.usage?.cost === 'number'
+          ? responseMeta.usage.cost
+          : undefined,
+    };
+  }
+
+  /** Convert the OpenAI-style `usage` block of a raw chat completion */
+  static fromProviderUsage(usage: {
+    cost?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    model?: string;
+  }): ModelUsage {
+    return {
+      model: usage.model,
+      inputTokens: usage.promptTokens ?? 0,
+      outputTokens: usage.completionTokens ?? 0,
+      providerCost: usage.cost,
+    };
+  }
+
+  /** Rough token count for services that don't report usage */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Price a model call in credits.
+   *
+   * Priority 1: exact provider cost
+   * Priority 2: per-model pricing from cache
+   * Priority 3: flat-rate fallback
+   */
+  static toCredits(usage: ModelUsage): number {
+    if (usage.providerCost != null && usage.providerCost > 0) {
+      return TokenLimiter.usdCostToCredits(usage.providerCost);
+    }
+
+    const pricing = usage.model ? getModelPricing(usage.model) : null;
+    if (pricing) {
+      return TokenLimiter.llmTokenToCreditsWithPricing(
+        usage.inputTokens,
+        usage.outputTokens,
+        pricing,
+      );
+    }
+
+    return TokenLimiter.llmTokenToCredits(
+      usage.inputTokens + usage.outputTokens,
+    );
+  }
+
+  /**
+   * Check the user has credits left before making a model call.
+   * @throws TokenLimiterError when the balance is used up
+   */
+  static async assertCanSpend(userDid: string): Promise<void> {
+    if (!UsageAccounting.isEnabled()) return;
+
+    const remaining = await TokenLimiter.getRemaining(userDid);
+    if (remaining <= 0) {
+      throw new TokenLimiterError(
+        `Insufficient balance. Current balance: ${remaining}`,
+        'token',
+        undefined,
+        undefined,
+        remaining,
+      );
+    }
+  }
+
+  /**
+   * Charge a model call to the user.
+   * @returns The charge, or null when credits are disabled or it was free
+   * @throws TokenLimiterError when the balance can't cover it
+   */
+  static async record(
+    attribution: UsageAttribution,
+    usage: ModelUsage,
+  ): Promise<UsageRecord | null> {
+    if (!UsageAccounting.isEnabled()) return null;
+    if (!attribution.userDid) {
+      throw new Error('User DID is required for usage accounting');
+    }
+
+    const credits = UsageAccounting.toCredits(usage);
+    if (credits <= 0) return null;
+
+    const { remaining } = await TokenLimiter.limit(
+      attribution.userDid,
+      credits,
+    );
+
+    Logger.log(
+      `[UsageAccounting] ${attribution.source}${attribution.label ? `:${attribution.label}` : ''} ` +
+        `model=${usage.model ?? 'unknown'} input=${usage.inputTokens} output=${usage.outputTokens} ` +
+        `cost=${usage.providerCost ?? 'n/a'} → ${credits} credits (did=${attribution.userDid}, session=${attribution.sessionId ?? 'none'})`,
+    );
+
+    const costUsd = TokenLimiter.calculateCostUsdWithMarkup({
+      ...usage,
+      totalTokens: usage.inputTokens + usage.outputTokens,
+    });
+    recordUsageEntryInBackground(attribution.userDid, {
+      sessionId: attribution.sessionId,
+      source: attribution.source,
+      agent: attribution.label,
+      toolName: attribution.toolName,
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd,
+      credits,
+    });
+
+    return { ...attribution, ...usage, costUsd, credits, remaining };
+  }
+
+  /**
+   * Like `record`, for work that has already happened in the background:
+   * failures are logged instead of thrown.
+   */
+  static async recordInBackground(
+    attribution: UsageAttribution,
+    usage: ModelUsage,
+  ): Promise<UsageRecord | null> {
+    try {
+      return await UsageAccounting.record(attribution, usage);
+    } catch (error) {
+      Logger.warn(
+        `[UsageAccounting] Failed to charge ${attribution.source} usage (did=${attribution.userDid}): ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Callback handler that charges each model call it sees, for models
+   * invoked outside an agent (where the token limiter middleware can't).
+   * Pass it in `callbacks` when invoking the model.
+   */
+  static createCallbackHandler(
+    attribution: UsageAttribution,
+  ): BaseCallbackHandler {
+    return new UsageCallbackHandler(attribution);
+  }
+}
+
+class UsageCallbackHandler extends BaseCallbackHandler {
+  name = 'UsageAccounting';
+
+  constructor(private readonly attribution: UsageAttribution) {
+    super();
+  }
+
+  async handleLLMEnd(output: LLMResult): Promise<void> {
+    for (const generation of output.generations.flat()) {
+      const message = (generation as ChatGeneration).message as
+        | AIMessage
+        | undefined;
+      const usage = message ? UsageAccounting.fromMessage(message) : null;
+      if (usage) {
+        await UsageAccounting.recordInBackground(this.attribution, usage);
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import Database from 'better-sqlite3';
+import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+import {
+  appendUsageEntry,
+  recordUsageEntry,
+  summarizeUsage,
+  type UsageLedgerEntry,
+} from './usage-ledger';
+
+vi.mock(
+  'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service',
+  () => ({ UserMatrixSqliteSyncService: { getInstance: vi.fn() } }),
+);
+
+const entry = (overrides: Partial<UsageLedgerEntry>): UsageLedgerEntry => ({
+  sessionId: 'session-1',
+  source: 'agent',
+  model: 'openai/gpt-4o',
+  inputTokens: 100,
+  outputTokens: 50,
+  costUsd: 0.01,
+  credits: 10,
+  ...overrides,
+});
+
+describe('usage ledger', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('returns zero totals for an empty ledger', () => {
+    expect(summarizeUsage(db)).toEqual({
+      totals: {
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+        credits: 0,
+      },
+      bySession: [],
+      byDay: [],
+      byModel: [],
+      bySource: [],
+    });
+  });
+
+  it('aggregates charges per session, day, model and source', () => {
+    appendUsageEntry(db, entry({}), '2026-03-01T10:00:00.000Z');
+    appendUsageEntry(
+      db,
+      entry({
+        source: 'sub-agent',
+        agent: 'Firecrawl Agent',
+        model: 'openai/gpt-4o-mini',
+        credits: 4,
+      }),
+      '2026-03-01T11:00:00.000Z',
+    );
+    appendUsageEntry(
+      db,
+      entry({
+        sessionId: 'session-2',
+        source: 'file-processing',
+        toolName: 'process_file',
+        credits: 20,
+      }),
+      '2026-03-02T09:00:00.000Z',
+    );
+
+    const summary = summarizeUsage(db);
+
+    expect(summary.totals).toMatchObject({
+      calls: 3,
+      inputTokens: 300,
+      outputTokens: 150,
+      credits: 34,
+    });
+    expect(summary.totals.costUsd).toBeCloseTo(0.03);
+    expect(
+      summary.bySession.map(({ sessionId, credits }) => [sessionId, credits]),
+    ).toEqual([
+      ['session-2', 20],
+      ['session-1', 14],
+    ]);
+    expect(summary.byDay.map(({ day, calls }) => [day, calls])).toEqual([
+      ['2026-03-02', 1],
+      ['2026-03-01', 2],
+    ]);
+    expect(
+      summary.byModel.map(({ model, credits }) => [model, credits]),
+    ).toEqual([
+      ['openai/gpt-4o', 30],
+      ['openai/gpt-4o-mini', 4],
+    ]);
+    expect(summary.bySource.map(({ source }) => source)).toEqual([
+      'file-processing',
+      'agent',
+      'sub-agent',
+    ]);
+  });
+
+  it('filters by time range and session', () => {
+    appendUsageEntry(db, entry({}), '2026-03-01T10:00:00.000Z');
+    appendUsageEntry(db, entry({}), '2026-03-02T10:00:00.000Z');
+    appendUsageEntry(
+      db,
+      entry({ sessionId: 'session-2' }),
+      '2026-03-02T11:00:00.000Z',
+    );
+
+    expect(
+      summarizeUsage(db, {
+        from: '2026-03-02T00:00:00.000Z',
+        to: '2026-03-03T00:00:00.000Z',
+      }).totals.calls,
+    ).toBe(2);
+    expect(summarizeUsage(db, { sessionId: 'session-1' }).totals.credits).toBe(
+      20,
+    );
+    expect(
+      summarizeUsage(db, {
+        from: '2026-03-02T00:00:00.000Z',
+        sessionId: 'session-1',
+      }).totals.calls,
+    ).toBe(1);
+  });
+
+  it('keeps the user active while recording an entry', async () => {
+    const syncService = {
+      getUserDatabase: vi.fn(async () => {
+        expect(syncService.markUserActive).toHaveBeenCalledWith('did:ixo:user');
+        expect(syncService.markUserInactive).not.toHaveBeenCalled();
+        return db;
+      }),
+      markUserActive: vi.fn(),
+      markUserInactive: vi.fn(),
+    };
+    vi.mocked(UserMatrixSqliteSyncService.getInstance).mockReturnValue(
+      syncService as unknown as UserMatrixSqliteSyncService,
+    );
+
+    await recordUsageEntry('did:ixo:user', entry({}));
+
+    expect(syncService.markUserInactive).toHaveBeenCalledWith('did:ixo:user');
+    expect(summarizeUsage(db).totals.calls).toBe(1);
+  });
+});
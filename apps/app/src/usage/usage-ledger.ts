@@ -0,0 +1,194 @@
+import { Logger } from '@nestjs/common';
+import { type Database as DatabaseType } from 'better-sqlite3';
+import { UserMatrixSqliteSyncService } from 'src/user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+import { type UsageSource } from './usage-accounting';
+
+/**
+ * Per-user usage ledger
+ *
+ * Redis only keeps aggregate balances and held amounts, so every charge
+ * `UsageAccounting` makes is also appended here, in the user's SQLite DB,
+ * to show where the credits went.
+ */
+
+const logger = new Logger('UsageLedger');
+
+export const USAGE_LEDGER_TABLE = 'usage_ledger';
+
+export interface UsageLedgerEntry {
+  sessionId?: string;
+  source: UsageSource;
+  /** Sub-agent name or other finer-grained origin */
+  agent?: string;
+  /** Tool the call was made from, e.g. `process_file` */
+  toolName?: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD cost including markup */
+  costUsd: number;
+  credits: number;
+}
+
+export interface UsageLedgerRow {
+  id: number;
+  created_at: string;
+  session_id: string | null;
+  source: UsageSource;
+  agent: string | null;
+  tool_name: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  credits: number;
+}
+
+export interface UsageFilter {
+  /** ISO timestamp, inclusive */
+  from?: string;
+  /** ISO timestamp, exclusive */
+  to?: string;
+  sessionId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  credits: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  bySession: Array<UsageTotals & { sessionId: string | null }>;
+  /** UTC days, newest first */
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string | null }>;
+  bySource: Array<UsageTotals & { source: UsageSource }>;
+}
+
+export function ensureUsageLedger(db: DatabaseType): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${USAGE_LEDGER_TABLE} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      session_id TEXT,
+      source TEXT NOT NULL,
+      agent TEXT,
+      tool_name TEXT,
+      model TEXT,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      cost_usd REAL NOT NULL,
+      credits INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_usage_ledger_created_at ON ${USAGE_LEDGER_TABLE}(created_at);
+    CREATE INDEX IF NOT EXISTS idx_usage_ledger_session ON ${USAGE_LEDGER_TABLE}(session_id);
+  `);
+}
+
+export function appendUsageEntry(
+  db: DatabaseType,
+  entry: UsageLedgerEntry,
+  createdAt = new Date().toISOString(),
+): void {
+  ensureUsageLedger(db);
+  db.prepare(
+    `INSERT INTO ${USAGE_LEDGER_TABLE}
+       (created_at, session_id, source, agent, tool_name, model, input_tokens, output_tokens, cost_usd, credits)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    createdAt,
+    entry.sessionId ?? null,
+    entry.source,
+    entry.agent ?? null,
+    entry.toolName ?? null,
+    entry.model ?? null,
+    entry.inputTokens,
+    entry.outputTokens,
+    entry.costUsd,
+    entry.credits,
+  );
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(input_tokens), 0) AS inputTokens,
+  COALESCE(SUM(output_tokens), 0) AS outputTokens,
+  COALESCE(SUM(cost_usd), 0) AS costUsd,
+  COALESCE(SUM(credits), 0) AS credits`;
+
+/** Aggregate the ledger overall and per session, UTC day, model and source */
+export function summarizeUsage(
+  db: DatabaseType,
+  filter: UsageFilter = {},
+): UsageSummary {
+  ensureUsageLedger(db);
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.from) {
+    conditions.push('created_at >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push('created_at < ?');
+    params.push(filter.to);
+  }
+  if (filter.sessionId) {
+    conditions.push('session_id = ?');
+    params.push(filter.sessionId);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const groupBy = <T>(column: string, alias: string, orderBy: string): T[] =>
+    db
+      .prepare(
+        `SELECT ${column} AS ${alias}, ${TOTALS_COLUMNS}
+         FROM ${USAGE_LEDGER_TABLE} ${where}
+         GROUP BY ${alias} ORDER BY ${orderBy}`,
+      )
+      .all(...params) as T[];
+
+  return {
+    totals: db
+      .prepare(`SELECT ${TOTALS_COLUMNS} FROM ${USAGE_LEDGER_TABLE} ${where}`)
+      .get(...params) as UsageTotals,
+    bySession: groupBy('session_id', 'sessionId', 'credits DESC'),
+    byDay: groupBy('substr(created_at, 1, 10)', 'day', 'day DESC'),
+    byModel: groupBy('model', 'model', 'credits DESC'),
+    bySource: groupBy('source', 'source', 'credits DESC'),
+  };
+}
+
+export async function recordUsageEntry(
+  userDid: string,
+  entry: UsageLedgerEntry,
+): Promise<void> {
+  const syncService = UserMatrixSqliteSyncService.getInstance();
+  syncService.markUserActive(userDid);
+  try {
+    const db = await syncService.getUserDatabase(userDid);
+    appendUsageEntry(db, entry);
+  } finally {
+    syncService.markUserInactive(userDid);
+  }
+}
+
+/**
+ * Fire-and-forget variant — the charge has already been made, so a failed
+ * write is logged and never surfaces to the user.
+ */
+export function recordUsageEntryInBackground(
+  userDid: string,
+  entry: UsageLedgerEntry,
+): void {
+  recordUsageEntry(userDid, entry).catch((error) => {
+    logger.warn(
+      `Failed to record ${entry.source} usage (did=${userDid}): ${error instanceof Error ? error.message : String(error)}`,
+    );
+  });
+}
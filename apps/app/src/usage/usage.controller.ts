@@ -0,0 +1,79 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { RequireCapability } from 'src/ucan/ucan.capabilities';
+import { type GetUsageResponseDto } from './dto/get-usage.dto';
+import { UsageService } from './usage.service';
+
+/** Normalise a date or timestamp so it compares with ledger timestamps */
+function parseTimestamp(name: string, value?: string): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(
+      `Query parameter "${name}" must be an ISO date or timestamp`,
+    );
+  }
+  return date.toISOString();
+}
+
+@ApiTags('usage')
+@Controller('usage')
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get()
+  @RequireCapability('usage/read')
+  @ApiOperation({
+    summary: 'Get a breakdown of the credits the user has spent',
+    description:
+      'Aggregates the usage ledger — one entry per charged model or tool call — per session, UTC day, model and source.',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Only include charges at or after this ISO date/timestamp',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Only include charges before this ISO date/timestamp',
+  })
+  @ApiQuery({
+    name: 'sessionId',
+    required: false,
+    type: String,
+    description: 'Only include charges made in this session',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Totals plus per-session, per-day, per-model and per-source breakdowns.',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request (e.g., invalid date, missing/invalid headers by middleware, or lookup failed).',
+  })
+  async getUsage(
+    @Req() req: Request,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('sessionId') sessionId?: string,
+  ): Promise<GetUsageResponseDto> {
+    return this.usageService.getUsage({
+      did: req.authData.did,
+      from: parseTimestamp('from', from),
+      to: parseTimestamp('to', to),
+      sessionId: sessionId || undefined,
+    });
+  }
+}
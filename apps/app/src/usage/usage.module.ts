@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CheckpointStorageSyncModule } from '../user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.module';
+import { UsageController } from './usage.controller';
+import { UsageService } from './usage.service';
+
+@Module({
+  imports: [CheckpointStorageSyncModule],
+  controllers: [UsageController],
+  providers: [UsageService],
+})
+export class UsageModule {}
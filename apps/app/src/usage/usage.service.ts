@@ -0,0 +1,35 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { UserMatrixSqliteSyncService } from '../user-matrix-sqlite-sync-service/user-matrix-sqlite-sync-service.service';
+import {
+  type GetUsageDto,
+  type GetUsageResponseDto,
+} from './dto/get-usage.dto';
+import { summarizeUsage } from './usage-ledger';
+
+@Injectable()
+export class UsageService {
+  constructor(private readonly syncService: UserMatrixSqliteSyncService) {}
+
+  /** Spending breakdown from the user's usage ledger */
+  async getUsage(data: GetUsageDto): Promise<GetUsageResponseDto> {
+    this.syncService.markUserActive(data.did);
+    try {
+      const db = await this.syncService.getUserDatabase(data.did);
+      return summarizeUsage(db, {
+        from: data.from,
+        to: data.to,
+        sessionId: data.sessionId,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+      Logger.error(
+        `Failed to get usage for DID ${data.did}: ${message}`,
+        stack,
+      );
+      throw new BadRequestException(`Failed to get usage: ${message}`);
+    } finally {
+      this.syncService.markUserInactive(data.did);
+    }
+  }
+}
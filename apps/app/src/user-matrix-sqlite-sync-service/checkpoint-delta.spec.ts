@@ -0,0 +1,293 @@
+import Database, { type Database as DatabaseType } from 'better-sqlite3';
+import {
+  applySegments,
+  CHECKPOINT_SEGMENT_VERSION,
+  type CheckpointManifest,
+  type CheckpointSegment,
+  clearChangeLog,
+  collectPendingSegment,
+  computeSchemaHash,
+  deserializeSegment,
+  ensureChangeTracking,
+  getLatestChangeSeq,
+  MAX_SEGMENTS_BEFORE_COMPACTION,
+  serializeSegment,
+  shouldCompact,
+  supportsIncrementalSync,
+} from './checkpoint-delta';
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function createCheckpointDb(): DatabaseType {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE checkpoints (
+      thread_id TEXT NOT NULL,
+      checkpoint_id TEXT NOT NULL,
+      checkpoint BLOB,
+      PRIMARY KEY (thread_id, checkpoint_id)
+    );
+    CREATE TABLE messages (
+      message_id TEXT PRIMARY KEY,
+      thread_id TEXT NOT NULL,
+      message_content TEXT NOT NULL
+    );
+    CREATE TABLE sessions (
+      session_id TEXT PRIMARY KEY,
+      title TEXT,
+      last_processed_count INTEGER
+    );
+  `);
+  return db;
+}
+
+/** Copy of the database as it would be restored from a base snapshot */
+function snapshot(db: DatabaseType): DatabaseType {
+  return new Database(db.serialize());
+}
+
+function dumpTables(db: DatabaseType): Record<string, unknown[]> {
+  const tables = ['checkpoints', 'messages', 'sessions'];
+  return Object.fromEntries(
+    tables.map((table) => [
+      table,
+      db.prepare(`SELECT rowid, * FROM ${table} ORDER BY rowid`).all(),
+    ]),
+  );
+}
+
+/** Collect pending changes and round-trip them through serialization */
+function takeSegment(db: DatabaseType): CheckpointSegment {
+  const pending = collectPendingSegment(db);
+  if (!pending) throw new Error('expected pending changes');
+  clearChangeLog(db, pending.maxSeq);
+  return deserializeSegment(
+    serializeSegment({
+      version: CHECKPOINT_SEGMENT_VERSION,
+      baseEventId: '$base',
+      changes: pending.changes,
+    }),
+  );
+}
+
+describe('checkpoint-delta', () => {
+  let source: DatabaseType;
+
+  beforeEach(() => {
+    source = createCheckpointDb();
+    source
+      .prepare('INSERT INTO sessions VALUES (?, ?, ?)')
+      .run('s1', 'First chat', 0);
+    source
+      .prepare('INSERT INTO checkpoints VALUES (?, ?, ?)')
+      .run('s1', 'c1', Buffer.from([1, 2, 3]));
+    ensureChangeTracking(source);
+  });
+
+  afterEach(() => {
+    source.close();
+  });
+
+  it('has nothing pending right after tracking is installed', () => {
+    expect(collectPendingSegment(source)).toBeNull();
+    expect(getLatestChangeSeq(source)).toBe(0);
+  });
+
+  it('replays inserts, updates, deletes and replaces onto the base', () => {
+    const base = snapshot(source);
+
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'hello');
+    source
+      .prepare('INSERT INTO checkpoints VALUES (?, ?, ?)')
+      .run('s1', 'c2', Buffer.from('binary-state'));
+    source
+      .prepare('UPDATE sessions SET title = ?, last_processed_count = ?')
+      .run('Renamed', 4);
+    source.prepare("DELETE FROM checkpoints WHERE checkpoint_id = 'c1'").run();
+    // SqliteSaver writes with INSERT OR REPLACE
+    source
+      .prepare('INSERT OR REPLACE INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'hello, edited');
+
+    applySegments(base, [takeSegment(source)]);
+
+    expect(dumpTables(base)).toEqual(dumpTables(source));
+    base.close();
+  });
+
+  it('replays several segments in order', () => {
+    const base = snapshot(source);
+    const segments: CheckpointSegment[] = [];
+
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'one');
+    segments.push(takeSegment(source));
+
+    source.prepare("DELETE FROM messages WHERE message_id = 'm1'").run();
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m2', 's1', 'two');
+    segments.push(takeSegment(source));
+
+    applySegments(base, segments);
+
+    expect(dumpTables(base)).toEqual(dumpTables(source));
+    base.close();
+  });
+
+  it('lists each touched row once with its latest content', () => {
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'draft');
+    source
+      .prepare(
+        "UPDATE messages SET message_content = 'final' WHERE message_id = 'm1'",
+      )
+      .run();
+
+    const pending = collectPendingSegment(source);
+    const messageChanges = pending?.changes.filter(
+      (change) => change.table === 'messages',
+    );
+    expect(messageChanges).toHaveLength(1);
+    expect(messageChanges?.[0].row?.message_content).toBe('final');
+  });
+
+  it('only clears the change log up to the uploaded sequence', () => {
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'one');
+    const uploadedSeq = getLatestChangeSeq(source);
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m2', 's1', 'two');
+
+    clearChangeLog(source, uploadedSeq);
+
+    const pending = collectPendingSegment(source);
+    expect(pending?.changes.map((change) => change.row?.message_id)).toEqual([
+      'm2',
+    ]);
+  });
+
+  it('clears the replayed change log on the restored database', () => {
+    const base = snapshot(source);
+    source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'one');
+
+    applySegments(base, [takeSegment(source)]);
+
+    expect(collectPendingSegment(base)).toBeNull();
+    base.close();
+  });
+
+  it('changes the schema hash when tables change', () => {
+    const before = computeSchemaHash(source);
+    source.exec('ALTER TABLE sessions ADD COLUMN room_id TEXT');
+    expect(computeSchemaHash(source)).not.toBe(before);
+  });
+
+  it('tracks tables created after tracking was first installed', () => {
+    source.exec('CREATE TABLE calls (call_id TEXT PRIMARY KEY)');
+    ensureChangeTracking(source);
+    source.prepare("INSERT INTO calls VALUES ('call1')").run();
+
+    expect(collectPendingSegment(source)?.changes).toEqual([
+      { table: 'calls', rowid: 1, row: { call_id: 'call1' } },
+    ]);
+  });
+
+  it('requires full uploads for WITHOUT ROWID tables', () => {
+    expect(supportsIncrementalSync(source)).toBe(true);
+    source.exec(
+      'CREATE TABLE kv (key TEXT PRIMARY KEY, value TEXT) WITHOUT ROWID',
+    );
+    expect(supportsIncrementalSync(source)).toBe(false);
+  });
+
+  it('rebuilds external-content FTS indexes instead of replicating them', () => {
+    source.exec(
+      "CREATE VIRTUAL TABLE messages_fts USING fts5(message_content, content='messages')",
+    );
+    ensureChangeTracking(source);
+    expect(supportsIncrementalSync(source)).toBe(true);
+    const base = snapshot(source);
+
+    const { lastInsertRowid } = source
+      .prepare('INSERT INTO messages VALUES (?, ?, ?)')
+      .run('m1', 's1', 'carbon budget');
+    source
+      .prepare(
+        'INSERT INTO messages_fts (rowid, message_content) VALUES (?, ?)',
+      )
+      .run(lastInsertRowid, 'carbon budget');
+
+    const segment = takeSegment(source);
+    expect(segment.changes.map((c) => c.table)).toEqual(['messages']);
+    applySegments(base, [segment]);
+
+    expect(
+      base
+        .prepare(
+          "SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'budget'",
+        )
+        .all(),
+    ).toEqual([{ rowid: lastInsertRowid }]);
+    base.close();
+
+    source.exec('CREATE VIRTUAL TABLE notes USING fts5(body)');
+    expect(supportsIncrementalSync(source)).toBe(false);
+  });
+
+  it('rejects segments with an unknown version', () => {
+    expect(() =>
+      deserializeSegment(Buffer.from(JSON.stringify({ version: 99 }))),
+    ).toThrow(/Unsupported checkpoint segment version/);
+  });
+
+  describe('shouldCompact', () => {
+    const manifest = (
+      segments: CheckpointManifest['segments'],
+    ): CheckpointManifest => ({
+      version: CHECKPOINT_SEGMENT_VERSION,
+      baseEventId: '$base',
+      schemaHash: 'hash',
+      baseSize: 1000,
+      segments,
+      updatedAt: new Date().toISOString(),
+    });
+
+    it('keeps appending while segments are small and few', () => {
+      expect(
+        shouldCompact(manifest([{ eventId: '$s1', size: 100, changes: 3 }])),
+      ).toBe(false);
+    });
+
+    it('compacts once segments outweigh half the base', () => {
+      expect(
+        shouldCompact(
+          manifest([
+            { eventId: '$s1', size: 300, changes: 3 },
+            { eventId: '$s2', size: 300, changes: 3 },
+          ]),
+        ),
+      ).toBe(true);
+    });
+
+    it('compacts once the segment count limit is reached', () => {
+      const segments = Array.from(
+        { length: MAX_SEGMENTS_BEFORE_COMPACTION },
+        (_, i) => ({ eventId: `$s${i}`, size: 1, changes: 1 }),
+      );
+      expect(shouldCompact(manifest(segments))).toBe(true);
+    });
+
+    it('compacts when the manifest is marked for it', () => {
+      expect(shouldCompact({ ...manifest([]), compact: true })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import { createHash } from 'node:crypto';
+import { type Database as DatabaseType } from 'better-sqlite3';
+
+/**
+ * Incremental checkpoint sync
+ *
+ * Instead of re-uploading the whole per-user SQLite file every cycle, the
+ * Matrix backup is a base snapshot plus append-only change segments:
+ *
+ *   - Triggers on every user table record `(table, rowid)` in `_sync_changes`
+ *     whenever a row is inserted, updated or deleted.
+ *   - An upload turns the pending log into a segment holding the current
+ *     content of each touched row (or a tombstone when the row is gone).
+ *   - A restore downloads the base snapshot and replays segments in order.
+ *
+ * Segments are keyed by rowid and replayed with `INSERT OR REPLACE`, so the
+ * replay converges to the source state regardless of change order. They are
+ * only valid against the exact base they were recorded on top of, so any
+ * schema change (new table, migration) forces a fresh base snapshot.
+ */
+
+export const CHANGE_LOG_TABLE = '_sync_changes';
+const TRIGGER_PREFIX = '_sync_trg_';
+
+export const CHECKPOINT_SEGMENT_VERSION = 1;
+
+/** Matrix state event pointing at the base snapshot and its segments */
+export interface CheckpointManifest {
+  version: number;
+  /** Media event ID of the base snapshot the segments apply to */
+  baseEventId: string;
+  /** Schema fingerprint of the base snapshot (see `computeSchemaHash`) */
+  schemaHash: string;
+  /** Compressed size of the base snapshot in bytes */
+  baseSize: number;
+  segments: CheckpointSegmentRef[];
+  updatedAt: string;
+  /**
+   * Local only: the next upload must start a new base snapshot, e.g. after
+   * the file was replaced. The segments are kept so they can be redacted.
+   */
+  compact?: boolean;
+}
+
+export interface CheckpointSegmentRef {
+  eventId: string;
+  /** Compressed size in bytes */
+  size: number;
+  changes: number;
+}
+
+type EncodedValue = string | number | null | { $base64: string };
+
+export interface CheckpointChange {
+  table: string;
+  rowid: number;
+  /** Full row content, or null when the row was deleted */
+  row: Record<string, EncodedValue> | null;
+}
+
+export interface CheckpointSegment {
+  version: number;
+  baseEventId: string;
+  changes: CheckpointChange[];
+}
+
+export interface PendingSegment {
+  changes: CheckpointChange[];
+  /** Highest change log sequence included — clear up to it once uploaded */
+  maxSeq: number;
+}
+
+/** Start a new base snapshot once this many segments have accumulated */
+export const MAX_SEGMENTS_BEFORE_COMPACTION = 24;
+
+/** ...or once the segments together exceed this fraction of the base size */
+export const COMPACTION_SIZE_RATIO = 0.5;
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Tables whose changes are replicated: every ordinary rowid table except
+ * SQLite internals and the change log itself.
+ */
+function getTrackedTables(db: DatabaseType): string[] {
+  const tables = db
+    .prepare(
+      `SELECT name, sql FROM sqlite_master
+       WHERE type = 'table'
+         AND name NOT LIKE 'sqlite_%'
+         AND name != ?`,
+    )
+    .all(CHANGE_LOG_TABLE) as Array<{ name: string; sql: string | null }>;
+
+  const virtualTables = tables
+    .filter((t) => /^\s*CREATE\s+VIRTUAL\s+TABLE/i.test(t.sql ?? ''))
+    .map((t) => t.name);
+
+  return tables
+    .filter((t) => !virtualTables.includes(t.name))
+    .filter((t) => !virtualTables.some((vt) => t.name.startsWith(`${vt}_`)))
+    .map((t) => t.name);
+}
+
+/**
+ * External-content FTS5 tables (e.g. `messages_fts`). They hold only an
+ * index over another table, so they aren't replicated — they're rebuilt
+ * from their content table after segments are replayed.
+ */
+function getDerivedIndexTables(db: DatabaseType): string[] {
+  const tables = db
+    .prepare(
+      `SELECT name, sql FROM sqlite_master
+       WHERE type = 'table' AND sql LIKE 'CREATE VIRTUAL TABLE%'`,
+    )
+    .all() as Array<{ name: string; sql: string }>;
+  return tables
+    .filter(
+      (t) =>
+        /\bUSING\s+fts5\s*\(/i.test(t.sql) &&
+        /\bcontent\s*=\s*'[^']+'/i.test(t.sql),
+    )
+    .map((t) => t.name);
+}
+
+/**
+ * Whether every table can be replicated incrementally. Virtual tables and
+ * WITHOUT ROWID tables can't carry rowid triggers, so they need full uploads
+ * — except derived FTS indexes and their shadow tables, which are rebuilt.
+ */
+export function supportsIncrementalSync(db: DatabaseType): boolean {
+  const derived = getDerivedIndexTables(db);
+  const tables = db
+    .prepare(
+      `SELECT name FROM sqlite_master
+       WHERE type = 'table'
+         AND (sql LIKE 'CREATE VIRTUAL TABLE%' OR sql LIKE '%WITHOUT ROWID%')`,
+    )
+    .all() as Array<{ name: string }>;
+  return tables.every(
+    (t) =>
+      derived.includes(t.name) ||
+      derived.some((index) => t.name.startsWith(`${index}_`)),
+  );
+}
+
+/**
+ * Create the change log and install triggers on any table missing them.
+ * Idempotent — safe to call before every upload.
+ */
+export function ensureChangeTracking(db: DatabaseType): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${CHANGE_LOG_TABLE} (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      tbl TEXT NOT NULL,
+      row_id INTEGER NOT NULL
+    );
+  `);
+
+  const install = db.transaction((tables: string[]) => {
+    for (const table of tables) {
+      const quoted = quoteIdentifier(table);
+      const literal = `'${table.replace(/'/g, "''")}'`;
+      const trigger = (suffix: string) =>
+        quoteIdentifier(`${TRIGGER_PREFIX}${table}_${suffix}`);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS ${trigger('ins')} AFTER INSERT ON ${quoted}
+        BEGIN
+          INSERT INTO ${CHANGE_LOG_TABLE} (tbl, row_id) VALUES (${literal}, NEW.rowid);
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${trigger('upd')} AFTER UPDATE ON ${quoted}
+        BEGIN
+          INSERT INTO ${CHANGE_LOG_TABLE} (tbl, row_id) VALUES (${literal}, OLD.rowid);
+          INSERT INTO ${CHANGE_LOG_TABLE} (tbl, row_id)
+            SELECT ${literal}, NEW.rowid WHERE NEW.rowid != OLD.rowid;
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${trigger('del')} AFTER DELETE ON ${quoted}
+        BEGIN
+          INSERT INTO ${CHANGE_LOG_TABLE} (tbl, row_id) VALUES (${literal}, OLD.rowid);
+        END;
+      `);
+    }
+  });
+  install(getTrackedTables(db));
+}
+
+/**
+ * Fingerprint of the table definitions. Segments recorded against one
+ * schema can't be replayed onto another, so a change forces a new base.
+ */
+export function computeSchemaHash(db: DatabaseType): string {
+  const rows = db
+    .prepare(
+      `SELECT name, sql FROM sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+       ORDER BY name`,
+    )
+    .all() as Array<{ name: string; sql: string | null }>;
+  const hash = createHash('sha256');
+  for (const row of rows) {
+    hash.update(`${row.name}\0${row.sql ?? ''}\0`);
+  }
+  return hash.digest('hex');
+}
+
+/** Highest sequence number in the change log (0 when empty) */
+export function getLatestChangeSeq(db: DatabaseType): number {
+  const row = db
+    .prepare(`SELECT MAX(seq) AS seq FROM ${CHANGE_LOG_TABLE}`)
+    .get() as { seq: number | null };
+  return row.seq ?? 0;
+}
+
+function encodeRow(row: Record<string, unknown>): Record<string, EncodedValue> {
+  const encoded: Record<string, EncodedValue> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (Buffer.isBuffer(value)) {
+      encoded[column] = { $base64: value.toString('base64') };
+    } else if (typeof value === 'bigint') {
+      encoded[column] = Number(value);
+    } else {
+      encoded[column] = value as EncodedValue;
+    }
+  }
+  return encoded;
+}
+
+function decodeValue(value: EncodedValue): unknown {
+  if (value !== null && typeof value === 'object') {
+    return Buffer.from(value.$base64, 'base64');
+  }
+  return value;
+}
+
+/**
+ * Read the pending change log into a segment. Rows touched several times
+ * appear once with their current content. Returns null when nothing changed.
+ */
+export function collectPendingSegment(db: DatabaseType): PendingSegment | null {
+  const entries = db
+    .prepare(`SELECT seq, tbl, row_id FROM ${CHANGE_LOG_TABLE} ORDER BY seq`)
+    .all() as Array<{ seq: number; tbl: string; row_id: number }>;
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const touched = new Map<string, { table: string; rowid: number }>();
+  for (const entry of entries) {
+    const key = `${entry.tbl}\0${entry.row_id}`;
+    // Re-insert so the map keeps the order of each row's latest change
+    touched.delete(key);
+    touched.set(key, { table: entry.tbl, rowid: entry.row_id });
+  }
+
+  const existingTables = new Set(getTrackedTables(db));
+  const changes: CheckpointChange[] = [];
+  for (const { table, rowid } of touched.values()) {
+    // Table dropped since the change — the schema hash forces a new base
+    if (!existingTables.has(table)) continue;
+    const row = db
+      .prepare(`SELECT * FROM ${quoteIdentifier(table)} WHERE rowid = ?`)
+      .get(rowid) as Record<string, unknown> | undefined;
+    changes.push({ table, rowid, row: row ? encodeRow(row) : null });
+  }
+
+  return { changes, maxSeq: entries[entries.length - 1].seq };
+}
+
+/** Drop change log entries that are now part of the Matrix backup */
+export function clearChangeLog(db: DatabaseType, upToSeq?: number): void {
+  if (upToSeq === undefined) {
+    db.prepare(`DELETE FROM ${CHANGE_LOG_TABLE}`).run();
+  } else {
+    db.prepare(`DELETE FROM ${CHANGE_LOG_TABLE} WHERE seq <= ?`).run(upToSeq);
+  }
+}
+
+/**
+ * Replay segments onto a restored base snapshot, in order, in one
+ * transaction, then rebuild derived FTS indexes. The resulting change log
+ * is cleared since the restored state already matches the backup.
+ */
+export function applySegments(
+  db: DatabaseType,
+  segments: CheckpointSegment[],
+): void {
+  const apply = db.transaction(() => {
+    for (const segment of segments) {
+      for (const change of segment.changes) {
+        const table = quoteIdentifier(change.table);
+        if (!change.row) {
+          db.prepare(`DELETE FROM ${table} WHERE rowid = ?`).run(change.rowid);
+          continue;
+        }
+        const columns = Object.keys(change.row);
+        const placeholders = columns.map(() => '?').join(', ');
+        db.prepare(
+          `INSERT OR REPLACE INTO ${table} (rowid, ${columns
+            .map(quoteIdentifier)
+            .join(', ')}) VALUES (?, ${placeholders})`,
+        ).run(
+          change.rowid,
+          ...columns.map((column) => decodeValue(change.row![column])),
+        );
+      }
+    }
+    for (const index of getDerivedIndexTables(db)) {
+      const quoted = quoteIdentifier(index);
+      db.prepare(`INSERT INTO ${quoted} (${quoted}) VALUES ('rebuild')`).run();
+    }
+    if (hasChangeLog(db)) {
+      clearChangeLog(db);
+    }
+  });
+  apply();
+}
+
+function hasChangeLog(db: DatabaseType): boolean {
+  return !!db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(CHANGE_LOG_TABLE);
+}
+
+export function serializeSegment(segment: CheckpointSegment): Buffer {
+  return Buffer.from(JSON.stringify(segment), 'utf8');
+}
+
+export function deserializeSegment(buffer: Buffer): CheckpointSegment {
+  const segment = JSON.parse(buffer.toString('utf8')) as CheckpointSegment;
+  if (
+    segment.version !== CHECKPOINT_SEGMENT_VERSION ||
+    !Array.isArray(segment.changes)
+  ) {
+    throw new Error(
+      `Unsupported checkpoint segment version: ${String(segment.version)}`,
+    );
+  }
+  return segment;
+}
+
+/** Whether the next upload should start a new base snapshot */
+export function shouldCompact(manifest: CheckpointManifest): boolean {
+  if (
+    manifest.compact ||
+    manifest.segments.length >= MAX_SEGMENTS_BEFORE_COMPACTION
+  ) {
+    return true;
+  }
+  const segmentBytes = manifest.segments.reduce((sum, s) => sum + s.size, 0);
+  return segmentBytes > manifest.baseSize * COMPACTION_SIZE_RATIO;
+}
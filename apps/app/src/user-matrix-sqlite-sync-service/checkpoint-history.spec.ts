@@ -0,0 +1,94 @@
+import {
+  addCheckpointVersion,
+  type CheckpointVersion,
+  getFallbackVersions,
+} from './checkpoint-history';
+
+const version = (eventId: string): CheckpointVersion => ({
+  eventId,
+  checksum: `sha-${eventId}`,
+  size: 100,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('checkpoint-history', () => {
+  describe('addCheckpointVersion', () => {
+    it('starts a history from nothing', () => {
+      const { history, evicted } = addCheckpointVersion(null, version('$a'), 3);
+      expect(history.versions.map((v) => v.eventId)).toEqual(['$a']);
+      expect(evicted).toEqual([]);
+    });
+
+    it('keeps the newest versions first and evicts the oldest', () => {
+      const { history, evicted } = addCheckpointVersion(
+        { versions: [version('$c'), version('$b'), version('$a')] },
+        version('$d'),
+        3,
+      );
+      expect(history.versions.map((v) => v.eventId)).toEqual([
+        '$d',
+        '$c',
+        '$b',
+      ]);
+      expect(evicted.map((v) => v.eventId)).toEqual(['$a']);
+    });
+
+    it('does not list the same event twice', () => {
+      const { history } = addCheckpointVersion(
+        { versions: [version('$a')] },
+        version('$a'),
+        3,
+      );
+      expect(history.versions).toHaveLength(1);
+    });
+
+    it('always keeps the current version', () => {
+      const { history, evicted } = addCheckpointVersion(
+        { versions: [version('$a')] },
+        version('$b'),
+        0,
+      );
+      expect(history.versions.map((v) => v.eventId)).toEqual(['$b']);
+      expect(evicted.map((v) => v.eventId)).toEqual(['$a']);
+    });
+
+    it('never evicts the pinned version', () => {
+      const { history, evicted } = addCheckpointVersion(
+        { versions: [version('$c'), version('$b'), version('$a')] },
+        version('$d'),
+        3,
+        '$a',
+      );
+      expect(history.versions.map((v) => v.eventId)).toEqual([
+        '$d',
+        '$c',
+        '$a',
+      ]);
+      expect(evicted.map((v) => v.eventId)).toEqual(['$b']);
+    });
+
+    it('replaces older versions with the same content', () => {
+      const { history, evicted } = addCheckpointVersion(
+        { versions: [version('$b'), version('$a')] },
+        { ...version('$c'), checksum: 'sha-$a' },
+        3,
+      );
+      expect(history.versions.map((v) => v.eventId)).toEqual(['$c', '$b']);
+      expect(evicted.map((v) => v.eventId)).toEqual(['$a']);
+    });
+  });
+
+  describe('getFallbackVersions', () => {
+    it('skips versions known to be broken', () => {
+      const fallbacks = getFallbackVersions(
+        { versions: [version('$c'), version('$b'), version('$a')] },
+        ['$c', undefined],
+      );
+      expect(fallbacks.map((v) => v.eventId)).toEqual(['$b', '$a']);
+    });
+
+    it('returns nothing without a history', () => {
+      expect(getFallbackVersions(null, [])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Checkpoint version history
+ *
+ * Every base snapshot upload is kept as a version instead of being redacted
+ * straight away. The newest `CHECKPOINT_HISTORY_SIZE` versions are listed in
+ * a Matrix state event so users can roll back to one, and so corruption
+ * recovery can fall back to an older snapshot instead of a fresh database.
+ *
+ * Versions are base snapshots only — change segments recorded on top of an
+ * older base are redacted when it is compacted, so a version restores the
+ * state as of its own upload.
+ */
+
+export interface CheckpointVersion {
+  /** Media event ID of the base snapshot */
+  eventId: string;
+  /** SHA-256 of the uncompressed database file */
+  checksum: string;
+  /** Compressed size in bytes */
+  size: number;
+  createdAt: string;
+}
+
+/** Matrix state event listing retained versions, newest first */
+export interface CheckpointHistory {
+  versions: CheckpointVersion[];
+}
+
+export const DEFAULT_CHECKPOINT_HISTORY_SIZE = 5;
+
+/**
+ * Add a freshly uploaded version to the history. Older versions with the
+ * same content are replaced by it, e.g. the one a restore just reinstalled.
+ * @param pinnedEventId A version that must not be evicted, e.g. the one
+ *   about to be restored
+ * @returns The updated history and the versions that fell out of it
+ */
+export function addCheckpointVersion(
+  history: CheckpointHistory | null,
+  version: CheckpointVersion,
+  limit: number,
+  pinnedEventId?: string,
+): { history: CheckpointHistory; evicted: CheckpointVersion[] } {
+  const versions = [version];
+  const evicted: CheckpointVersion[] = [];
+  for (const v of history?.versions ?? []) {
+    if (v.eventId === version.eventId) continue;
+    if (v.checksum === version.checksum && v.eventId !== pinnedEventId) {
+      evicted.push(v);
+    } else {
+      versions.push(v);
+    }
+  }
+
+  // Evict the oldest first, never the new version or the pinned one
+  const keep = Math.max(1, limit);
+  for (let i = versions.length - 1; i > 0 && versions.length > keep; i--) {
+    if (versions[i].eventId !== pinnedEventId) {
+      evicted.push(...versions.splice(i, 1));
+    }
+  }
+  return { history: { versions }, evicted };
+}
+
+/**
+ * Versions to try when the current checkpoint is unusable, newest first,
+ * skipping the ones already known to be broken.
+ */
+export function getFallbackVersions(
+  history: CheckpointHistory | null,
+  excludeEventIds: Array<string | undefined>,
+): CheckpointVersion[] {
+  return (history?.versions ?? []).filter(
+    (v) => !excludeEventIds.includes(v.eventId),
+  );
+}
@@ -0,0 +1,56 @@
+import { SqliteSaver } from '@ixo/sqlite-saver';
+import { HumanMessage } from '@langchain/core/messages';
+import Database, { type Database as DatabaseType } from 'better-sqlite3';
+import {
+  applyCheckpointRetention,
+  getFreePageRatio,
+} from './checkpoint-retention';
+
+describe('applyCheckpointRetention', () => {
+  let db: DatabaseType;
+
+  const addTurns = async (threadId: string, count: number, size: number) => {
+    const saver = SqliteSaver.fromDatabase(db);
+    for (let i = 0; i < count; i++) {
+      const config = await saver.appendMessages(threadId, [
+        new HumanMessage({ id: `${threadId}-${i}`, content: `Turn ${i}` }),
+      ]);
+      await saver.putWrites(config, [['scratch', 'x'.repeat(size)]], 'task');
+    }
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('leaves a database within the policy untouched', async () => {
+    await addTurns('s1', 3, 10);
+
+    expect(applyCheckpointRetention(db, { keepCheckpoints: 5 })).toEqual({
+      checkpointsDeleted: 0,
+      writesDeleted: 0,
+      vacuumed: false,
+    });
+  });
+
+  it('vacuums once pruning frees enough of the file', async () => {
+    await addTurns('s1', 10, 20_000);
+
+    const result = applyCheckpointRetention(db, { keepCheckpoints: 2 });
+
+    expect(result).toEqual({
+      checkpointsDeleted: 8,
+      writesDeleted: 8,
+      vacuumed: true,
+    });
+    expect(getFreePageRatio(db)).toBe(0);
+    const latest = await SqliteSaver.fromDatabase(db).getTuple({
+      configurable: { thread_id: 's1' },
+    });
+    expect(latest?.checkpoint.channel_values.messages).toHaveLength(10);
+  });
+});
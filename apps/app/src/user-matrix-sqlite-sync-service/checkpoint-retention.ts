@@ -0,0 +1,61 @@
+import { type RetentionPolicy, SqliteSaver } from '@ixo/sqlite-saver';
+import { type Database as DatabaseType } from 'better-sqlite3';
+
+/**
+ * Checkpoint retention
+ *
+ * Every graph step adds a checkpoint and its pending writes, so a user's
+ * database grows with every run. The hourly cron trims each thread to its
+ * newest `CHECKPOINT_RETENTION_KEEP` checkpoints and drops pending writes
+ * older than `CHECKPOINT_WRITES_MAX_AGE_HOURS`. Message history lives in its
+ * own table and is never pruned.
+ *
+ * Deleted rows only become free pages, so the file is vacuumed once enough
+ * of it is free. Vacuuming renumbers rows, which change segments can't
+ * express — the next upload has to be a full base snapshot.
+ */
+
+export const DEFAULT_CHECKPOINT_RETENTION_KEEP = 20;
+export const DEFAULT_CHECKPOINT_WRITES_MAX_AGE_HOURS = 24;
+
+/** Share of free pages above which the file is vacuumed */
+export const VACUUM_FREE_PAGE_RATIO = 0.25;
+
+export interface CheckpointRetentionResult {
+  checkpointsDeleted: number;
+  writesDeleted: number;
+  vacuumed: boolean;
+}
+
+/**
+ * Share of the database file that is free pages.
+ * @returns 0 for an empty database
+ */
+export function getFreePageRatio(db: DatabaseType): number {
+  const pageCount = db.pragma('page_count', { simple: true }) as number;
+  if (!pageCount) return 0;
+  const freePages = db.pragma('freelist_count', { simple: true }) as number;
+  return freePages / pageCount;
+}
+
+/**
+ * Prune a checkpoint database and vacuum it when pruning left enough free
+ * space behind. Must not run while the user has a request in flight.
+ */
+export function applyCheckpointRetention(
+  db: DatabaseType,
+  policy: RetentionPolicy,
+): CheckpointRetentionResult {
+  const { checkpointsDeleted, writesDeleted } =
+    SqliteSaver.fromDatabase(db).pruneCheckpoints(policy);
+
+  let vacuumed = false;
+  if (
+    checkpointsDeleted + writesDeleted > 0 &&
+    getFreePageRatio(db) >= VACUUM_FREE_PAGE_RATIO
+  ) {
+    db.exec('VACUUM');
+    vacuumed = true;
+  }
+  return { checkpointsDeleted, writesDeleted, vacuumed };
+}
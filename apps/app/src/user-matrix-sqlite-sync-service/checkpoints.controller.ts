@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { RequireCapability } from 'src/ucan/ucan.capabilities';
+import {
+  type ListCheckpointVersionsResponse,
+  type RestoreCheckpointVersionResponse,
+} from './type';
+import { UserMatrixSqliteSyncService } from './user-matrix-sqlite-sync-service.service';
+
+@ApiTags('checkpoints')
+@Controller('checkpoints')
+export class CheckpointsController {
+  constructor(private readonly syncService: UserMatrixSqliteSyncService) {}
+
+  @Get('versions')
+  @RequireCapability('checkpoints/read')
+  @ApiOperation({
+    summary: 'List retained versions of the user checkpoint database',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Checkpoint versions retrieved, newest first.',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No oracle room found for the user.',
+  })
+  async listVersions(
+    @Req() req: Request,
+  ): Promise<ListCheckpointVersionsResponse> {
+    return this.syncService.listCheckpointVersions(req.authData.did);
+  }
+
+  @Post('versions/:eventId/restore')
+  @RequireCapability('checkpoints/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore the user checkpoint database to a retained version',
+  })
+  @ApiParam({
+    name: 'eventId',
+    required: true,
+    description: 'Event ID of the version to restore',
+  })
+  @ApiResponse({ status: 200, description: 'Checkpoint restored.' })
+  @ApiResponse({
+    status: 404,
+    description: 'Checkpoint version not found for the given ID.',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A request for the user is still in progress.',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'The checkpoint version is corrupt.',
+  })
+  async restoreVersion(
+    @Req() req: Request,
+    @Param('eventId') eventId: string,
+  ): Promise<RestoreCheckpointVersionResponse> {
+    return this.syncService.restoreCheckpointVersion(req.authData.did, eventId);
+  }
+}
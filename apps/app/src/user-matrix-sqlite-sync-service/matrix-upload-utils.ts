@@ -1,6 +1,8 @@
 import { type MatrixEvent, MatrixManager } from '@ixo/matrix';
 import { Logger } from '@nestjs/common';
 import { type File } from 'node:buffer';
+import { type CheckpointManifest } from './checkpoint-delta';
+import { type CheckpointHistory } from './checkpoint-history';
 
 const logger = new Logger('MatrixUploadUtils');
 
@@ -16,6 +18,8 @@ const EVENTS = {
   MEDIA_STATE: 'm.ixo.media_state',
   MEDIA_UPLOAD: 'm.ixo.media_upload',
   MEDIA: 'm.ixo.media',
+  CHECKPOINT_MANIFEST: 'm.ixo.checkpoint_manifest',
+  CHECKPOINT_HISTORY: 'm.ixo.checkpoint_history',
 } as const;
 
 export type MatrixMediaEvent = MatrixEvent<{
@@ -39,13 +43,21 @@ export type MatrixMediaEvent = MatrixEvent<{
  * Uploads media to a Matrix room
  * @param roomId The room ID to upload the media to
  * @param file The file to upload
+ * @param options.redactPrevious Redact the media previously stored under
+ *   storageKey (default: true). Disable to keep it, e.g. as a version.
  * @returns Object containing the event ID and CID of the uploaded media
  */
 export async function uploadMediaToRoom(
   roomId: string,
   file: File, // This is the sqlite file it's .db file
   storageKey: string,
-): Promise<{ eventId: string; storageKey: string; event: MatrixMediaEvent }> {
+  { redactPrevious = true }: { redactPrevious?: boolean } = {},
+): Promise<{
+  eventId: string;
+  storageKey: string;
+  event: MatrixMediaEvent;
+  previousEventId?: string;
+}> {
   const client = getClient();
 
   logger.debug(
@@ -74,6 +86,55 @@ export async function uploadMediaToRoom(
     );
   }
 
+  const { eventId, event } = await uploadMediaEvent(roomId, file, storageKey);
+
+  // Save the media event ID in the room state with storageKey as the key
+  logger.debug(
+    `Saving media state event for storageKey ${storageKey} with eventId ${eventId}`,
+  );
+  await client.mxClient.sendStateEvent(roomId, EVENTS.MEDIA_STATE, storageKey, {
+    eventId,
+  });
+
+  // Now that the new upload is live and the state pointer is updated,
+  // redact the old media event to reclaim storage. This is safe — if
+  // redaction fails, we just have a dangling old blob (no data loss).
+  if (oldEventId && redactPrevious) {
+    try {
+      await client.mxClient.redactEvent(
+        roomId,
+        oldEventId,
+        'Replacing with updated file',
+      );
+      logger.debug(`Successfully redacted old media event ${oldEventId}`);
+    } catch (redactError) {
+      logger.warn(
+        `Failed to redact old media event ${oldEventId}:`,
+        redactError,
+      );
+    }
+  }
+
+  logger.debug(
+    `Successfully uploaded media to room ${roomId} with storageKey ${storageKey}, eventId: ${eventId}`,
+  );
+
+  return { eventId, storageKey, event, previousEventId: oldEventId };
+}
+
+/**
+ * Uploads media and sends its media event without touching room state.
+ * Used directly for checkpoint segments, which are tracked by the
+ * checkpoint manifest instead of a per-key state event.
+ * @returns The event ID and event of the uploaded media
+ */
+export async function uploadMediaEvent(
+  roomId: string,
+  file: File,
+  storageKey: string,
+): Promise<{ eventId: string; event: MatrixMediaEvent }> {
+  const client = getClient();
+
   // Check if room is encrypted and upload media
   const isRoomEncrypted = await client.mxClient.crypto.isRoomEncrypted(roomId);
 
@@ -135,42 +196,13 @@ export async function uploadMediaToRoom(
     event = await client.mxClient.getEvent(roomId, eventId);
   }
 
-  // Save the media event ID in the room state with storageKey as the key
-  logger.debug(
-    `Saving media state event for storageKey ${storageKey} with eventId ${eventId}`,
-  );
-  await client.mxClient.sendStateEvent(roomId, EVENTS.MEDIA_STATE, storageKey, {
-    eventId,
-  });
-
-  // Now that the new upload is live and the state pointer is updated,
-  // redact the old media event to reclaim storage. This is safe — if
-  // redaction fails, we just have a dangling old blob (no data loss).
-  if (oldEventId) {
-    try {
-      await client.mxClient.redactEvent(
-        roomId,
-        oldEventId,
-        'Replacing with updated file',
-      );
-      logger.debug(`Successfully redacted old media event ${oldEventId}`);
-    } catch (redactError) {
-      logger.warn(
-        `Failed to redact old media event ${oldEventId}:`,
-        redactError,
-      );
-    }
-  }
-
-  logger.debug(
-    `Successfully uploaded media to room ${roomId} with storageKey ${storageKey}, eventId: ${eventId}`,
-  );
-
-  return { eventId, storageKey, event };
+  return { eventId, event };
 }
 
 export interface GetMediaFromRoomByStorageKeyResult {
   mediaBuffer: Buffer;
+  /** Media event ID, when resolved through room state */
+  eventId?: string;
   contentInfo: {
     mimetype: string;
     filename: string;
@@ -220,6 +252,7 @@ export async function getMediaFromRoomByStorageKey(
     // Add CID to content info
     return {
       mediaBuffer: result.mediaBuffer,
+      eventId: stateEvent.eventId,
       contentInfo: {
         ...result.contentInfo,
         storageKey,
@@ -390,3 +423,162 @@ export async function deleteMediaFromRoom(
     );
   }
 }
+
+/**
+ * Redacts media events to reclaim storage. Failures are logged, not thrown —
+ * a dangling blob is harmless.
+ * @param roomId The room ID where the media is located
+ * @param eventIds The media event IDs to redact
+ * @param reason The redaction reason
+ */
+export async function redactMediaEvents(
+  roomId: string,
+  eventIds: string[],
+  reason: string,
+): Promise<void> {
+  const client = getClient();
+  for (const eventId of eventIds) {
+    try {
+      await client.mxClient.redactEvent(roomId, eventId, reason);
+      logger.debug(`Successfully redacted media event ${eventId}`);
+    } catch (redactError) {
+      logger.warn(`Failed to redact media event ${eventId}:`, redactError);
+    }
+  }
+}
+
+/**
+ * Gets the checkpoint manifest (base snapshot + segments) for a storage key
+ * @param roomId The room ID
+ * @param storageKey The storage key of the checkpoint
+ * @returns The manifest, or null if the checkpoint has no segments tracked
+ */
+export async function getCheckpointManifest(
+  roomId: string,
+  storageKey: string,
+): Promise<CheckpointManifest | null> {
+  const client = getClient();
+  try {
+    const manifest = (await client.mxClient.getRoomStateEvent(
+      roomId,
+      EVENTS.CHECKPOINT_MANIFEST,
+      storageKey,
+    )) as Partial<CheckpointManifest> | null;
+    if (!manifest?.baseEventId || !Array.isArray(manifest.segments)) {
+      return null;
+    }
+    return manifest as CheckpointManifest;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    if (errorMessage.includes('M_NOT_FOUND')) {
+      return null;
+    }
+    throw new Error(
+      `Error retrieving checkpoint manifest for storageKey ${storageKey}: ${errorMessage}`,
+    );
+  }
+}
+
+/**
+ * Saves the checkpoint manifest for a storage key. Pass null to clear it.
+ * @param roomId The room ID
+ * @param storageKey The storage key of the checkpoint
+ * @param manifest The manifest to save
+ */
+export async function setCheckpointManifest(
+  roomId: string,
+  storageKey: string,
+  manifest: CheckpointManifest | null,
+): Promise<void> {
+  const client = getClient();
+  await client.mxClient.sendStateEvent(
+    roomId,
+    EVENTS.CHECKPOINT_MANIFEST,
+    storageKey,
+    manifest ?? {},
+  );
+}
+
+/**
+ * Gets the media event ID currently stored under a storage key
+ * @param roomId The room ID
+ * @param storageKey The storage key of the media
+ * @returns The event ID, or null if nothing is stored
+ */
+export async function getMediaEventIdByStorageKey(
+  roomId: string,
+  storageKey: string,
+): Promise<string | null> {
+  const client = getClient();
+  try {
+    const stateEvent = await client.mxClient.getRoomStateEvent(
+      roomId,
+      EVENTS.MEDIA_STATE,
+      storageKey,
+    );
+    return stateEvent?.eventId ?? null;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    if (errorMessage.includes('M_NOT_FOUND')) {
+      return null;
+    }
+    throw new Error(
+      `Error retrieving media state for storageKey ${storageKey}: ${errorMessage}`,
+    );
+  }
+}
+
+/**
+ * Gets the retained checkpoint versions for a storage key
+ * @param roomId The room ID
+ * @param storageKey The storage key of the checkpoint
+ * @returns The history, or null if no versions are tracked
+ */
+export async function getCheckpointHistory(
+  roomId: string,
+  storageKey: string,
+): Promise<CheckpointHistory | null> {
+  const client = getClient();
+  try {
+    const history = (await client.mxClient.getRoomStateEvent(
+      roomId,
+      EVENTS.CHECKPOINT_HISTORY,
+      storageKey,
+    )) as Partial<CheckpointHistory> | null;
+    if (!Array.isArray(history?.versions)) {
+      return null;
+    }
+    return { versions: history.versions };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    if (errorMessage.includes('M_NOT_FOUND')) {
+      return null;
+    }
+    throw new Error(
+      `Error retrieving checkpoint history for storageKey ${storageKey}: ${errorMessage}`,
+    );
+  }
+}
+
+/**
+ * Saves the retained checkpoint versions for a storage key. Pass null to clear it.
+ * @param roomId The room ID
+ * @param storageKey The storage key of the checkpoint
+ * @param history The history to save
+ */
+export async function setCheckpointHistory(
+  roomId: string,
+  storageKey: string,
+  history: CheckpointHistory | null,
+): Promise<void> {
+  const client = getClient();
+  await client.mxClient.sendStateEvent(
+    roomId,
+    EVENTS.CHECKPOINT_HISTORY,
+    storageKey,
+    history ?? {},
+  );
+}
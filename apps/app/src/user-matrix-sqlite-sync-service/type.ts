@@ -1,4 +1,25 @@
+import { type CheckpointVersion } from './checkpoint-history';
+
 // Reserved for future use
 export interface BaseSyncArgs {
   userDid: string;
 }
+
+export interface UploadCheckpointArgs extends BaseSyncArgs {
+  /** Retained version the upload must not evict from the history */
+  pinnedVersionEventId?: string;
+}
+
+export interface CheckpointVersionInfo extends CheckpointVersion {
+  /** Whether this is the snapshot the current checkpoint is based on */
+  isCurrent: boolean;
+}
+
+export interface ListCheckpointVersionsResponse {
+  versions: CheckpointVersionInfo[];
+}
+
+export interface RestoreCheckpointVersionResponse {
+  message: string;
+  restoredFrom: CheckpointVersionInfo;
+}
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
+import { CheckpointsController } from './checkpoints.controller';
 import { UserMatrixSqliteSyncService } from './user-matrix-sqlite-sync-service.service';
 
 @Module({
+  controllers: [CheckpointsController],
   providers: [
     {
       provide: UserMatrixSqliteSyncService,
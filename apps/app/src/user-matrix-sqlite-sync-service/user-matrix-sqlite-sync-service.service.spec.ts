@@ -0,0 +1,353 @@
+import Database, { type Database as DatabaseType } from 'better-sqlite3';
+import { createHash } from 'node:crypto';
+import fsSync from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { ensureChangeTracking } from './checkpoint-delta';
+import {
+  type CheckpointHistory,
+  type CheckpointVersion,
+} from './checkpoint-history';
+import { applyCheckpointRetention } from './checkpoint-retention';
+import {
+  getMediaFromRoom,
+  redactMediaEvents,
+  setCheckpointHistory,
+} from './matrix-upload-utils';
+import { UserMatrixSqliteSyncService } from './user-matrix-sqlite-sync-service.service';
+
+/** In-memory stand-in for the user's Matrix room */
+const room = vi.hoisted(() => ({
+  media: new Map<string, Buffer>(),
+  currentEventId: undefined as string | undefined,
+  history: null as CheckpointHistory | null,
+  uploads: 0,
+}));
+
+vi.mock('src/config', async () => {
+  const { mkdtempSync } = await import('node:fs');
+  const { tmpdir } = await import('node:os');
+  const { join } = await import('node:path');
+  const env: Record<string, unknown> = {
+    SQLITE_DATABASE_PATH: mkdtempSync(join(tmpdir(), 'checkpoint-sync-')),
+    ORACLE_DID: 'did:ixo:oracle',
+    ORACLE_ENTITY_DID: 'did:ixo:entity:oracle',
+    CHECKPOINT_HISTORY_SIZE: 3,
+  };
+  return {
+    getConfig: () => ({
+      get: (key: string) => env[key],
+      getOrThrow: (key: string) => env[key],
+    }),
+  };
+});
+vi.mock('@ixo/matrix', () => ({
+  MatrixManager: {
+    getInstance: () => ({
+      getOracleRoomIdWithHomeServer: async () => ({ roomId: '!room' }),
+    }),
+  },
+}));
+vi.mock('@ixo/oracles-chain-client', () => ({
+  getMatrixHomeServerCroppedForDid: async () => 'matrix.ixo.world',
+}));
+vi.mock('./checkpoint-retention', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('./checkpoint-retention')>();
+  return {
+    ...actual,
+    applyCheckpointRetention: vi.fn(actual.applyCheckpointRetention),
+  };
+});
+vi.mock('./matrix-upload-utils', () => {
+  const media = (mediaBuffer: Buffer) => ({
+    mediaBuffer,
+    contentInfo: {
+      mimetype: 'application/gzip',
+      filename: 'checkpoint.db.gz',
+      storageKey: 'key',
+    },
+  });
+  return {
+    uploadMediaToRoom: vi.fn(
+      async (_roomId: string, file: File, storageKey: string) => {
+        const eventId = `$upload${++room.uploads}`;
+        room.media.set(eventId, Buffer.from(await file.arrayBuffer()));
+        const previousEventId = room.currentEventId;
+        room.currentEventId = eventId;
+        return {
+          eventId,
+          storageKey,
+          event: { event_id: eventId },
+          previousEventId,
+        };
+      },
+    ),
+    uploadMediaEvent: vi.fn(async (_roomId: string, file: File) => {
+      const eventId = `$segment${++room.uploads}`;
+      room.media.set(eventId, Buffer.from(await file.arrayBuffer()));
+      return { eventId, event: { event_id: eventId } };
+    }),
+    getMediaFromRoom: vi.fn(async (_roomId: string, eventId: string) => {
+      const mediaBuffer = room.media.get(eventId);
+      if (!mediaBuffer) throw new Error('M_NOT_FOUND: Event not found');
+      return media(mediaBuffer);
+    }),
+    getMediaFromRoomByStorageKey: vi.fn(async () => {
+      const eventId = room.currentEventId;
+      const mediaBuffer = eventId && room.media.get(eventId);
+      return mediaBuffer ? { ...media(mediaBuffer), eventId } : null;
+    }),
+    getMediaEventIdByStorageKey: vi.fn(async () => room.currentEventId),
+    getCheckpointHistory: vi.fn(async () => room.history),
+    setCheckpointHistory: vi.fn(
+      async (
+        _roomId: string,
+        _storageKey: string,
+        history: CheckpointHistory | null,
+      ) => {
+        room.history = history;
+      },
+    ),
+    getCheckpointManifest: vi.fn(async () => null),
+    setCheckpointManifest: vi.fn(),
+    redactMediaEvents: vi.fn(async (_roomId: string, eventIds: string[]) => {
+      for (const eventId of eventIds) room.media.delete(eventId);
+    }),
+    deleteMediaFromRoom: vi.fn(),
+  };
+});
+
+let userCount = 0;
+
+/** SQLite file holding a single note, as the upload would leave it */
+function createCheckpointFile(filePath: string, note: string): Buffer {
+  fsSync.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.exec('CREATE TABLE notes (text TEXT NOT NULL)');
+  db.prepare('INSERT INTO notes (text) VALUES (?)').run(note);
+  ensureChangeTracking(db);
+  db.close();
+  return fsSync.readFileSync(filePath);
+}
+
+/** Upload a version with the given note to the fake room */
+function seedVersion(note: string): CheckpointVersion {
+  const filePath = path.join(
+    os.tmpdir(),
+    `checkpoint-version-${process.pid}-${note}.db`,
+  );
+  fsSync.rmSync(filePath, { force: true });
+  const file = createCheckpointFile(filePath, note);
+  fsSync.rmSync(filePath);
+
+  const compressed = gzipSync(file);
+  const version: CheckpointVersion = {
+    eventId: `$${note}`,
+    checksum: createHash('sha256').update(file).digest('hex'),
+    size: compressed.length,
+    createdAt: new Date().toISOString(),
+  };
+  room.media.set(version.eventId, compressed);
+  return version;
+}
+
+function addNote(userDid: string, note: string): void {
+  const db = new Database(
+    UserMatrixSqliteSyncService.getUserCheckpointDbPath(userDid),
+  );
+  db.prepare('INSERT INTO notes (text) VALUES (?)').run(note);
+  db.close();
+}
+
+function readNote(userDid: string): string {
+  const db = new Database(
+    UserMatrixSqliteSyncService.getUserCheckpointDbPath(userDid),
+    { readonly: true },
+  );
+  try {
+    return (db.prepare('SELECT text FROM notes').get() as { text: string })
+      .text;
+  } finally {
+    db.close();
+  }
+}
+
+const historyIds = () => room.history?.versions.map((v) => v.eventId);
+
+describe('UserMatrixSqliteSyncService', () => {
+  let service: UserMatrixSqliteSyncService;
+  let userDid: string;
+
+  beforeAll(async () => {
+    service = UserMatrixSqliteSyncService.getInstance();
+    await service.onModuleInit();
+  });
+
+  afterAll(() => {
+    fsSync.rmSync(path.dirname(UserMatrixSqliteSyncService.checkpointsFolder), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    room.media.clear();
+    room.currentEventId = undefined;
+    room.history = null;
+    room.uploads = 0;
+    userDid = `did:ixo:ixo1user${++userCount}`;
+
+    // A full history, newest first, with the newest one current
+    const versions = ['c', 'b', 'a'].map(seedVersion);
+    room.history = { versions };
+    room.currentEventId = versions[0].eventId;
+  });
+
+  describe('restoreCheckpointVersion', () => {
+    beforeEach(() => {
+      createCheckpointFile(
+        UserMatrixSqliteSyncService.getUserCheckpointDbPath(userDid),
+        'current',
+      );
+    });
+
+    it('restores the oldest version of a full history', async () => {
+      const result = await service.restoreCheckpointVersion(userDid, '$a');
+
+      expect(result.restoredFrom.eventId).toBe('$a');
+      expect(readNote(userDid)).toBe('a');
+      // The snapshot of the current state evicts $b instead of the target,
+      // and the restored upload replaces $a since it holds the same content
+      expect(historyIds()).toEqual(['$upload2', '$upload1', '$c']);
+      expect(redactMediaEvents).toHaveBeenCalledWith(
+        '!room',
+        ['$b'],
+        'Checkpoint version expired',
+      );
+    });
+
+    it('replaces the restored version instead of evicting another', async () => {
+      await service.restoreCheckpointVersion(userDid, '$c');
+
+      expect(readNote(userDid)).toBe('c');
+      // Restoring adds two versions but only one distinct state
+      expect(historyIds()).toEqual(['$upload2', '$upload1', '$b']);
+    });
+
+    it('snapshots the current state before restoring', async () => {
+      await service.restoreCheckpointVersion(userDid, '$a');
+
+      const snapshot = room.history?.versions.find(
+        (v) => v.eventId === '$upload1',
+      );
+      expect(snapshot).toBeDefined();
+      expect(setCheckpointHistory).toHaveBeenCalledTimes(2);
+    });
+
+    it('redacts the segments of the replaced base', async () => {
+      // A base snapshot with one change segment on top
+      await service.uploadCheckpointToMatrixStorage({ userDid });
+      addNote(userDid, 'later');
+      await service.uploadCheckpointToMatrixStorage({ userDid });
+
+      await service.restoreCheckpointVersion(userDid, '$b');
+
+      expect(redactMediaEvents).toHaveBeenCalledWith(
+        '!room',
+        ['$segment2'],
+        'Compacted into new checkpoint base',
+      );
+    });
+
+    it('rejects a corrupt version', async () => {
+      room.media.set('$a', gzipSync('not a database'));
+
+      await expect(
+        service.restoreCheckpointVersion(userDid, '$a'),
+      ).rejects.toThrow('Checkpoint version is corrupt');
+      expect(readNote(userDid)).toBe('current');
+    });
+
+    it('refuses to restore while a request is in progress', async () => {
+      service.markUserActive(userDid);
+      try {
+        await expect(
+          service.restoreCheckpointVersion(userDid, '$a'),
+        ).rejects.toThrow('request is in progress');
+      } finally {
+        service.markUserInactive(userDid);
+      }
+    });
+
+    it('makes requests wait until the restored file is in place', async () => {
+      let request: Promise<DatabaseType> | undefined;
+      vi.mocked(setCheckpointHistory).mockImplementationOnce(
+        async (_roomId, _storageKey, history) => {
+          // A request arrives while the snapshot is being recorded
+          request = service.getUserDatabase(userDid);
+          room.history = history;
+        },
+      );
+
+      await service.restoreCheckpointVersion(userDid, '$a');
+      const db = await request!;
+
+      expect(
+        (db.prepare('SELECT text FROM notes').get() as { text: string }).text,
+      ).toBe('a');
+    });
+  });
+
+  describe('checkpoint retention', () => {
+    it('redacts the segments of the base replaced after a vacuum', async () => {
+      createCheckpointFile(
+        UserMatrixSqliteSyncService.getUserCheckpointDbPath(userDid),
+        'current',
+      );
+      await service.syncLocalStorageFromMatrixStorage({ userDid });
+      await service.uploadCheckpointToMatrixStorage({ userDid });
+      addNote(userDid, 'later');
+      await service.uploadCheckpointToMatrixStorage({ userDid });
+
+      vi.mocked(applyCheckpointRetention).mockReturnValue({
+        checkpointsDeleted: 10,
+        writesDeleted: 0,
+        vacuumed: true,
+      });
+      try {
+        await service.localStorageCacheCleanUpTask();
+      } finally {
+        vi.mocked(applyCheckpointRetention).mockReset();
+      }
+      await service.uploadCheckpointToMatrixStorage({ userDid });
+
+      expect(room.currentEventId).toBe('$upload3');
+      expect(redactMediaEvents).toHaveBeenCalledWith(
+        '!room',
+        ['$segment2'],
+        'Compacted into new checkpoint base',
+      );
+    });
+  });
+
+  describe('restoreFromHistory', () => {
+    it('falls back to the next version when the newest is corrupt', async () => {
+      // The current base and the newest version are both unusable
+      room.currentEventId = '$current';
+      room.media.set('$current', gzipSync('not a database'));
+      room.media.set('$c', gzipSync('not a database'));
+
+      const db = await service.getUserDatabase(userDid);
+
+      expect(
+        (db.prepare('SELECT text FROM notes').get() as { text: string }).text,
+      ).toBe('b');
+      expect(getMediaFromRoom).toHaveBeenCalledWith('!room', '$c');
+      expect(getMediaFromRoom).toHaveBeenCalledWith('!room', '$b');
+      expect(historyIds()?.[0]).toBe('$upload1');
+    });
+  });
+});
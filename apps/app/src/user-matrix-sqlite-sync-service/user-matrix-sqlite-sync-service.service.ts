@@ -1,10 +1,12 @@
 import { MatrixManager } from '@ixo/matrix';
 import { getMatrixHomeServerCroppedForDid } from '@ixo/oracles-chain-client';
 import {
+  ConflictException,
   Injectable,
   Logger,
   NotFoundException,
   OnModuleInit,
+  UnprocessableEntityException,
 } from '@nestjs/common';
 import { createHash } from 'crypto';
 
@@ -18,15 +20,54 @@ import { gunzip, gzip } from 'node:zlib';
 
 import Database, { type Database as DatabaseType } from 'better-sqlite3';
 import path from 'path';
+import {
+  applySegments,
+  CHECKPOINT_SEGMENT_VERSION,
+  type CheckpointManifest,
+  type CheckpointSegment,
+  clearChangeLog,
+  collectPendingSegment,
+  computeSchemaHash,
+  deserializeSegment,
+  ensureChangeTracking,
+  getLatestChangeSeq,
+  type PendingSegment,
+  serializeSegment,
+  shouldCompact,
+  supportsIncrementalSync,
+} from './checkpoint-delta';
+import {
+  addCheckpointVersion,
+  type CheckpointVersion,
+  DEFAULT_CHECKPOINT_HISTORY_SIZE,
+  getFallbackVersions,
+} from './checkpoint-history';
+import {
+  applyCheckpointRetention,
+  DEFAULT_CHECKPOINT_RETENTION_KEEP,
+  DEFAULT_CHECKPOINT_WRITES_MAX_AGE_HOURS,
+} from './checkpoint-retention';
 import {
   deleteMediaFromRoom,
+  getCheckpointHistory,
+  getCheckpointManifest,
+  getMediaEventIdByStorageKey,
   getMediaFromRoom,
   getMediaFromRoomByStorageKey,
   GetMediaFromRoomByStorageKeyResult,
   MatrixMediaEvent,
+  redactMediaEvents,
+  setCheckpointHistory,
+  setCheckpointManifest,
+  uploadMediaEvent,
   uploadMediaToRoom,
 } from './matrix-upload-utils';
-import { type BaseSyncArgs } from './type';
+import {
+  type BaseSyncArgs,
+  type ListCheckpointVersionsResponse,
+  type RestoreCheckpointVersionResponse,
+  type UploadCheckpointArgs,
+} from './type';
 import { getConfig } from '../config';
 
 const gzipAsync = promisify(gzip);
@@ -64,6 +105,54 @@ function isUnrecoverableDownloadError(error: unknown): boolean {
   return [...cryptoPatterns, ...matrixPatterns].some((p) => p.test(message));
 }
 
+const SQLITE_MAGIC = Buffer.from('SQLite format 3\0');
+
+/**
+ * Decompress a downloaded checkpoint and verify it is a SQLite file.
+ * Returns null (after logging why) when the payload is unusable.
+ */
+async function decodeCheckpointBuffer(
+  mediaBuffer: Buffer,
+  userDid: string,
+): Promise<Buffer | null> {
+  let decompressedBuffer: Buffer;
+  try {
+    decompressedBuffer = await gunzipAsync(mediaBuffer);
+    Logger.log(
+      `Decompressed checkpoint for user ${userDid}: ${bytesToHumanReadable(mediaBuffer.length)} -> ${bytesToHumanReadable(decompressedBuffer.length)}`,
+    );
+  } catch (_error) {
+    // Decompression failed — check if the raw buffer is a valid uncompressed SQLite file
+    if (
+      mediaBuffer.length >= 16 &&
+      mediaBuffer.subarray(0, 16).equals(SQLITE_MAGIC)
+    ) {
+      Logger.warn(
+        `Checkpoint for user ${userDid} is uncompressed SQLite (legacy format), using as-is`,
+      );
+      decompressedBuffer = mediaBuffer;
+    } else {
+      Logger.error(
+        `Checkpoint for user ${userDid} is neither valid gzip nor valid SQLite — skipping download to prevent corruption. Raw bytes (first 16): ${mediaBuffer.subarray(0, 16).toString('hex')}`,
+      );
+      return null;
+    }
+  }
+
+  // Validate decompressed data is a valid SQLite file
+  if (
+    decompressedBuffer.length < 16 ||
+    !decompressedBuffer.subarray(0, 16).equals(SQLITE_MAGIC)
+  ) {
+    Logger.error(
+      `Decompressed checkpoint for user ${userDid} does not have valid SQLite header — skipping to prevent corruption. Header bytes: ${decompressedBuffer.subarray(0, Math.min(16, decompressedBuffer.length)).toString('hex')}`,
+    );
+    return null;
+  }
+
+  return decompressedBuffer;
+}
+
 const config = getConfig();
 
 /** Configure a SQLite connection with busy timeout for safe concurrent access */
@@ -120,6 +209,7 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
     string,
     Promise<DatabaseType>
   >();
+  private readonly restoreInProgress = new Map<string, Promise<void>>();
 
   private readonly lastUploadedChecksum = new Map<string, string>();
 
@@ -192,6 +282,15 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       // Column already exists, ignore
     }
 
+    // Cached checkpoint manifest (base snapshot + segments) per storage key
+    try {
+      this.fileEventsDatabase
+        .prepare('ALTER TABLE file_events ADD COLUMN manifest TEXT')
+        .run();
+    } catch {
+      // Column already exists, ignore
+    }
+
     // Populate in-memory checksum cache from DB
     const rows = this.fileEventsDatabase
       .prepare(
@@ -239,6 +338,9 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
    * Includes automatic corruption recovery.
    */
   public async getUserDatabase(userDid: string): Promise<DatabaseType> {
+    // Let a checkpoint restore swap the file in first
+    await this.restoreInProgress.get(userDid)?.catch(() => undefined);
+
     // Ensure database is synced locally first
     await this.syncLocalStorageFromMatrixStorage({ userDid });
 
@@ -295,7 +397,8 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
   /**
    * Attempts cascading recovery when a local database is corrupt:
    *   1. Clear local → re-download from Matrix → validate
-   *   2. If Matrix copy also corrupt → delete from Matrix → create fresh empty DB
+   *   2. If Matrix copy also corrupt → restore the newest intact older version
+   *   3. If no version is intact → delete from Matrix → create fresh empty DB
    */
   private async recoverCorruptDatabase(
     userDid: string,
@@ -319,11 +422,21 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       const db = this.openAndValidateDatabase(dbPath, userDid);
       if (db) return db;
 
-      // Matrix copy is also corrupt
+      // Matrix copy is also corrupt — fall back to an older version.
+      // Versions are validated before install, so the corrupt one is skipped.
       Logger.error(
-        `[CORRUPTION DETECTED] Matrix backup is ALSO corrupt for user ${userDid}. Deleting corrupt backup and starting fresh. User will lose session history.`,
+        `[CORRUPTION DETECTED] Matrix backup is ALSO corrupt for user ${userDid}. Trying older checkpoint versions...`,
       );
       await this.clearLocalCheckpoint(userDid, dbPath);
+      if (await this.restoreFromHistory(userDid, [])) {
+        const restored = this.openAndValidateDatabase(dbPath, userDid);
+        if (restored) return restored;
+        await this.clearLocalCheckpoint(userDid, dbPath);
+      }
+
+      Logger.error(
+        `[CORRUPTION DETECTED] No intact checkpoint version for user ${userDid}. Deleting corrupt backup and starting fresh. User will lose session history.`,
+      );
       try {
         await this.deleteUserStorageFromMatrix(userDid);
         Logger.warn(
@@ -471,6 +584,15 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       CREATE INDEX IF NOT EXISTS idx_sessions_updated ON sessions(last_updated_at);
       CREATE INDEX IF NOT EXISTS idx_calls_session ON calls(session_id);
     `);
+
+    // When the call's transcript was added to its session (backward-compatible migration)
+    try {
+      db.prepare(
+        'ALTER TABLE calls ADD COLUMN transcript_ingested_at TEXT',
+      ).run();
+    } catch {
+      // Column already exists, ignore
+    }
   }
 
   @Cron(CronExpression.EVERY_HOUR)
@@ -485,6 +607,17 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
     try {
       const now = Date.now();
 
+      // Trim checkpoint history before it is uploaded
+      for (const userDid of this.filePathCache.keys()) {
+        if (this.isUserActive(userDid)) {
+          Logger.debug(
+            `Skipping checkpoint retention for active user ${userDid}`,
+          );
+          continue;
+        }
+        this.pruneUserCheckpoints(userDid);
+      }
+
       // Close idle database connections
       for (const [
         userDid,
@@ -562,6 +695,48 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
     }
   }
 
+  /**
+   * Apply the checkpoint retention policy to a user's local database.
+   * Failures are logged — the database is left as it was.
+   */
+  private pruneUserCheckpoints(userDid: string): void {
+    const checkpointPath =
+      UserMatrixSqliteSyncService.getUserCheckpointDbPath(userDid);
+    if (!fsSync.existsSync(checkpointPath)) return;
+
+    const db = new Database(checkpointPath);
+    try {
+      configureSqliteConnection(db);
+      const maxWriteAgeHours =
+        Number(config.get('CHECKPOINT_WRITES_MAX_AGE_HOURS')) ||
+        DEFAULT_CHECKPOINT_WRITES_MAX_AGE_HOURS;
+      const result = applyCheckpointRetention(db, {
+        keepCheckpoints:
+          Number(config.get('CHECKPOINT_RETENTION_KEEP')) ||
+          DEFAULT_CHECKPOINT_RETENTION_KEEP,
+        maxWriteAgeMs: hours(maxWriteAgeHours),
+      });
+      if (result.vacuumed) {
+        // Row IDs changed, so the next upload must be a new base snapshot
+        this.markManifestForCompaction(
+          UserMatrixSqliteSyncService.createUserStorageKey(userDid),
+        );
+      }
+      if (result.checkpointsDeleted || result.writesDeleted) {
+        Logger.log(
+          `Pruned ${result.checkpointsDeleted} checkpoints and ${result.writesDeleted} writes for user ${userDid}${result.vacuumed ? ' (vacuumed)' : ''}`,
+        );
+      }
+    } catch (error) {
+      Logger.error(
+        `Failed to apply checkpoint retention for user ${userDid}`,
+        error,
+      );
+    } finally {
+      db.close();
+    }
+  }
+
   /**
    * Get the singleton instance of UserMatrixSqliteSyncService
    * @param maxCacheSize - Maximum number of cached files (default: 100)
@@ -655,13 +830,17 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
 
     // Step 1: Try cached event lookup (local SQLite — independent concern)
     let cachedEvent: MatrixMediaEvent | undefined;
+    let cachedEventId: string | undefined;
     try {
       const cachedEventText = this.fileEventsDatabase
-        .prepare('SELECT event FROM file_events WHERE storage_key = ?')
-        .get(storageKey) as { event: string } | undefined;
+        .prepare(
+          'SELECT event, event_id FROM file_events WHERE storage_key = ?',
+        )
+        .get(storageKey) as { event: string; event_id: string } | undefined;
       cachedEvent = cachedEventText
         ? (JSON.parse(cachedEventText.event) as MatrixMediaEvent)
         : undefined;
+      cachedEventId = cachedEventText?.event_id;
     } catch (cacheError) {
       // file_events.db corrupt or locked — skip cache, fall through to direct Matrix lookup
       Logger.warn(
@@ -670,6 +849,7 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
     }
 
     // Step 2: Download from Matrix
+    let roomId: string | undefined;
     try {
       if (cachedEvent) {
         const result = await getMediaFromRoom(
@@ -679,23 +859,14 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
         );
         userDB = {
           ...result,
+          eventId: cachedEventId,
           contentInfo: {
             ...result.contentInfo,
             storageKey,
           },
         };
       } else {
-        const mxManager = MatrixManager.getInstance();
-        const userHomeServer = await getMatrixHomeServerCroppedForDid(userDid);
-        const { roomId } = await mxManager.getOracleRoomIdWithHomeServer({
-          userDid,
-          oracleEntityDid: config.getOrThrow('ORACLE_ENTITY_DID'),
-          userHomeServer,
-        });
-
-        if (!roomId) {
-          throw new NotFoundException('Room not found or Invalid Session Id');
-        }
+        roomId = await this.getUserRoomId(userDid);
 
         Logger.debug(
           `Downloading checkpoint from Matrix room ${roomId} for user ${userDid}`,
@@ -704,10 +875,11 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       }
     } catch (error) {
       if (isUnrecoverableDownloadError(error)) {
-        // Permanent failure — data genuinely unrecoverable, safe to start fresh
+        // Permanent failure — try older versions, otherwise start fresh
         Logger.warn(
-          `Unrecoverable download failure for user ${userDid}, will start with fresh database: ${error instanceof Error ? error.message : String(error)}`,
+          `Unrecoverable download failure for user ${userDid}, trying older checkpoint versions: ${error instanceof Error ? error.message : String(error)}`,
         );
+        await this.restoreFromHistory(userDid, [cachedEventId]);
         return;
       }
       // Transient/unknown error — let it propagate so the request fails with 500
@@ -723,40 +895,13 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       return;
     }
 
-    // Decompress the checkpoint
-    const SQLITE_MAGIC = Buffer.from('SQLite format 3\0');
-    let decompressedBuffer: Buffer;
-    try {
-      decompressedBuffer = await gunzipAsync(userDB.mediaBuffer);
-      Logger.log(
-        `Decompressed checkpoint for user ${userDid}: ${bytesToHumanReadable(userDB.mediaBuffer.length)} -> ${bytesToHumanReadable(decompressedBuffer.length)}`,
-      );
-    } catch (_error) {
-      // Decompression failed — check if the raw buffer is a valid uncompressed SQLite file
-      if (
-        userDB.mediaBuffer.length >= 16 &&
-        userDB.mediaBuffer.subarray(0, 16).equals(SQLITE_MAGIC)
-      ) {
-        Logger.warn(
-          `Checkpoint for user ${userDid} is uncompressed SQLite (legacy format), using as-is`,
-        );
-        decompressedBuffer = userDB.mediaBuffer;
-      } else {
-        Logger.error(
-          `Checkpoint for user ${userDid} is neither valid gzip nor valid SQLite — skipping download to prevent corruption. Raw bytes (first 16): ${userDB.mediaBuffer.subarray(0, 16).toString('hex')}`,
-        );
-        return;
-      }
-    }
-
-    // Validate decompressed data is a valid SQLite file
-    if (
-      decompressedBuffer.length < 16 ||
-      !decompressedBuffer.subarray(0, 16).equals(SQLITE_MAGIC)
-    ) {
-      Logger.error(
-        `Decompressed checkpoint for user ${userDid} does not have valid SQLite header — skipping to prevent corruption. Header bytes: ${decompressedBuffer.subarray(0, Math.min(16, decompressedBuffer.length)).toString('hex')}`,
-      );
+    const decompressedBuffer = await decodeCheckpointBuffer(
+      userDB.mediaBuffer,
+      userDid,
+    );
+    if (!decompressedBuffer) {
+      // Fall back to an older version rather than starting fresh
+      await this.restoreFromHistory(userDid, [userDB.eventId]);
       return;
     }
 
@@ -768,6 +913,16 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
     const tmpPath = checkpointPath + '.tmp';
     try {
       await fs.writeFile(tmpPath, decompressedBuffer);
+      // Bring the base snapshot up to date before it becomes visible
+      await this.replayCheckpointSegments({
+        userDid,
+        storageKey,
+        dbPath: tmpPath,
+        baseEventId: userDB.eventId,
+        roomId,
+        // The local cache is authoritative for checkpoints this instance uploaded
+        fromCache: !!cachedEvent,
+      });
       await fs.rename(tmpPath, checkpointPath);
     } catch (error) {
       // Clean up orphaned temp file on failure
@@ -796,8 +951,10 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
    * @param userDid - The user's DID identifier
    * @returns Promise that resolves when sync is complete
    */
-  async uploadCheckpointToMatrixStorage(params: BaseSyncArgs): Promise<void> {
-    const { userDid } = params;
+  async uploadCheckpointToMatrixStorage(
+    params: UploadCheckpointArgs,
+  ): Promise<void> {
+    const { userDid, pinnedVersionEventId } = params;
 
     const storageKey =
       UserMatrixSqliteSyncService.createUserStorageKey(userDid);
@@ -844,12 +1001,86 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       }
     }
 
+    // Make sure every table is change-tracked, then decide between appending
+    // a change segment and starting a new base snapshot
+    const manifest = this.getCachedManifest(storageKey);
+    let schemaHash: string;
+    let syncedSeq: number;
+    let pending: PendingSegment | null = null;
+    let canAppend = false;
+    const db = new Database(checkpointPath);
+    try {
+      configureSqliteConnection(db);
+      ensureChangeTracking(db);
+      schemaHash = computeSchemaHash(db);
+      syncedSeq = getLatestChangeSeq(db);
+      canAppend =
+        !!manifest &&
+        manifest.schemaHash === schemaHash &&
+        !shouldCompact(manifest) &&
+        supportsIncrementalSync(db);
+      if (canAppend) {
+        pending = collectPendingSegment(db);
+      }
+    } finally {
+      db.close();
+    }
+
+    if (canAppend && manifest) {
+      if (!pending) {
+        Logger.debug(
+          `Skipping upload for user ${userDid} — no changes since last sync`,
+        );
+        return;
+      }
+      await this.uploadCheckpointSegment({
+        userDid,
+        storageKey,
+        checkpointPath,
+        manifest,
+        pending,
+      });
+      return;
+    }
+
+    await this.uploadCheckpointBase({
+      userDid,
+      storageKey,
+      checkpointPath,
+      schemaHash,
+      syncedSeq,
+      previousManifest: manifest,
+      pinnedVersionEventId,
+    });
+  }
+
+  /**
+   * Upload the whole checkpoint as a new base snapshot and reset the manifest.
+   * Segments of the previous base are redacted once the new base is live.
+   */
+  private async uploadCheckpointBase({
+    userDid,
+    storageKey,
+    checkpointPath,
+    schemaHash,
+    syncedSeq,
+    previousManifest,
+    pinnedVersionEventId,
+  }: {
+    userDid: string;
+    storageKey: string;
+    checkpointPath: string;
+    schemaHash: string;
+    syncedSeq: number;
+    previousManifest: CheckpointManifest | null;
+    pinnedVersionEventId?: string;
+  }): Promise<void> {
     // Compute checksum via streaming to avoid loading the entire DB into memory.
     // Streaming reads ~64KB chunks at a time instead of the full file (which can be 100MB+).
     const currentChecksum = await computeFileChecksum(checkpointPath);
     const lastChecksum = this.lastUploadedChecksum.get(storageKey);
 
-    if (currentChecksum === lastChecksum) {
+    if (previousManifest && currentChecksum === lastChecksum) {
       Logger.debug(
         `Skipping upload for user ${userDid} — checkpoint unchanged (checksum: ${currentChecksum.substring(0, 12)}...)`,
       );
@@ -875,21 +1106,12 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       `Checkpoint for user ${userDid}: ${bytesToHumanReadable(originalSize)} -> ${bytesToHumanReadable(compressedSize)} (${compressionRatio}% reduction)`,
     );
 
-    const mxManager = MatrixManager.getInstance();
-    const userHomeServer = await getMatrixHomeServerCroppedForDid(userDid);
-    const { roomId } = await mxManager.getOracleRoomIdWithHomeServer({
-      userDid,
-      oracleEntityDid: config.getOrThrow('ORACLE_ENTITY_DID'),
-      userHomeServer,
-    });
-
-    if (!roomId) {
-      throw new NotFoundException('Room not found or Invalid Session Id');
-    }
+    const roomId = await this.getUserRoomId(userDid);
 
     Logger.debug(
       `Uploading compressed checkpoint to Matrix room ${roomId} for user ${userDid}`,
     );
+    // Keep the previous base — the version history decides when it goes
     const event = await uploadMediaToRoom(
       roomId,
       new File([compressedCheckpoint], `${storageKey}.db.gz`, {
@@ -897,6 +1119,7 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
         lastModified: Date.now(),
       }),
       storageKey,
+      { redactPrevious: false },
     );
     await this.saveFileEventToDB({
       eventId: event.eventId,
@@ -905,11 +1128,472 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       contentChecksum: currentChecksum,
     });
 
+    const manifest: CheckpointManifest = {
+      version: CHECKPOINT_SEGMENT_VERSION,
+      baseEventId: event.eventId,
+      schemaHash,
+      baseSize: compressedSize,
+      segments: [],
+      updatedAt: new Date().toISOString(),
+    };
+    await setCheckpointManifest(roomId, storageKey, manifest);
+    this.saveManifestToDB(storageKey, manifest);
+    this.clearUploadedChanges(checkpointPath, syncedSeq);
+
+    await this.recordCheckpointVersion(
+      roomId,
+      storageKey,
+      {
+        eventId: event.eventId,
+        checksum: currentChecksum,
+        size: compressedSize,
+        createdAt: new Date().toISOString(),
+      },
+      event.previousEventId,
+      pinnedVersionEventId,
+    );
+
+    if (previousManifest?.segments.length) {
+      await redactMediaEvents(
+        roomId,
+        previousManifest.segments.map((segment) => segment.eventId),
+        'Compacted into new checkpoint base',
+      );
+    }
+
     Logger.log(
       `Successfully uploaded checkpoint to Matrix for user ${userDid}`,
     );
   }
 
+  /**
+   * Upload the pending change log as a segment on top of the current base.
+   */
+  private async uploadCheckpointSegment({
+    userDid,
+    storageKey,
+    checkpointPath,
+    manifest,
+    pending,
+  }: {
+    userDid: string;
+    storageKey: string;
+    checkpointPath: string;
+    manifest: CheckpointManifest;
+    pending: PendingSegment;
+  }): Promise<void> {
+    const segment: CheckpointSegment = {
+      version: CHECKPOINT_SEGMENT_VERSION,
+      baseEventId: manifest.baseEventId,
+      changes: pending.changes,
+    };
+    const compressedSegment = await gzipAsync(serializeSegment(segment));
+
+    const roomId = await this.getUserRoomId(userDid);
+    const { eventId } = await uploadMediaEvent(
+      roomId,
+      new File([compressedSegment], `${storageKey}.segment.json.gz`, {
+        type: 'application/gzip',
+        lastModified: Date.now(),
+      }),
+      storageKey,
+    );
+
+    const updatedManifest: CheckpointManifest = {
+      ...manifest,
+      segments: [
+        ...manifest.segments,
+        {
+          eventId,
+          size: compressedSegment.length,
+          changes: pending.changes.length,
+        },
+      ],
+      updatedAt: new Date().toISOString(),
+    };
+    await setCheckpointManifest(roomId, storageKey, updatedManifest);
+    this.saveManifestToDB(storageKey, updatedManifest);
+    this.clearUploadedChanges(checkpointPath, pending.maxSeq);
+
+    Logger.log(
+      `Uploaded checkpoint segment ${updatedManifest.segments.length} for user ${userDid}: ${pending.changes.length} change(s), ${bytesToHumanReadable(compressedSegment.length)}`,
+    );
+  }
+
+  /**
+   * Replay the change segments recorded on top of a freshly downloaded base
+   * snapshot. Segments are discarded when they belong to another base (the
+   * base is newer) or can't be applied — the next upload then starts a new base.
+   */
+  private async replayCheckpointSegments({
+    userDid,
+    storageKey,
+    dbPath,
+    baseEventId,
+    roomId,
+    fromCache,
+  }: {
+    userDid: string;
+    storageKey: string;
+    dbPath: string;
+    baseEventId?: string;
+    roomId?: string;
+    fromCache: boolean;
+  }): Promise<void> {
+    const manifest = fromCache
+      ? this.getCachedManifest(storageKey)
+      : await getCheckpointManifest(
+          roomId ?? (await this.getUserRoomId(userDid)),
+          storageKey,
+        );
+    const isCurrent = !!manifest && manifest.baseEventId === baseEventId;
+
+    const segments: CheckpointSegment[] = [];
+    let replayable = isCurrent;
+    if (isCurrent && manifest.segments.length > 0) {
+      const segmentRoomId = roomId ?? (await this.getUserRoomId(userDid));
+      try {
+        for (const ref of manifest.segments) {
+          const { mediaBuffer } = await getMediaFromRoom(
+            segmentRoomId,
+            ref.eventId,
+          );
+          segments.push(deserializeSegment(await gunzipAsync(mediaBuffer)));
+        }
+      } catch (error) {
+        if (!isUnrecoverableDownloadError(error)) {
+          throw error;
+        }
+        Logger.error(
+          `Checkpoint segment for user ${userDid} is unrecoverable, restoring base snapshot only: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        segments.length = 0;
+        replayable = false;
+      }
+    }
+
+    const db = new Database(dbPath);
+    try {
+      configureSqliteConnection(db);
+      try {
+        applySegments(db, segments);
+      } catch (error) {
+        Logger.error(
+          `Failed to replay checkpoint segments for user ${userDid}, restoring base snapshot only: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        applySegments(db, []);
+        replayable = false;
+      }
+    } finally {
+      db.close();
+    }
+
+    if (segments.length > 0 && replayable) {
+      Logger.log(
+        `Replayed ${segments.length} checkpoint segment(s) for user ${userDid}`,
+      );
+    }
+    this.saveManifestToDB(storageKey, replayable ? manifest : null);
+  }
+
+  /** Remove change log entries that are now part of the Matrix backup */
+  private clearUploadedChanges(checkpointPath: string, upToSeq: number): void {
+    const db = new Database(checkpointPath);
+    try {
+      configureSqliteConnection(db);
+      clearChangeLog(db, upToSeq);
+    } finally {
+      db.close();
+    }
+  }
+
+  private async getUserRoomId(userDid: string): Promise<string> {
+    const mxManager = MatrixManager.getInstance();
+    const userHomeServer = await getMatrixHomeServerCroppedForDid(userDid);
+    const { roomId } = await mxManager.getOracleRoomIdWithHomeServer({
+      userDid,
+      oracleEntityDid: config.getOrThrow('ORACLE_ENTITY_DID'),
+      userHomeServer,
+    });
+
+    if (!roomId) {
+      throw new NotFoundException('Room not found or Invalid Session Id');
+    }
+    return roomId;
+  }
+
+  /**
+   * List the retained checkpoint versions for a user, newest first.
+   */
+  public async listCheckpointVersions(
+    userDid: string,
+  ): Promise<ListCheckpointVersionsResponse> {
+    const storageKey =
+      UserMatrixSqliteSyncService.createUserStorageKey(userDid);
+    const roomId = await this.getUserRoomId(userDid);
+    const [history, currentEventId] = await Promise.all([
+      getCheckpointHistory(roomId, storageKey),
+      getMediaEventIdByStorageKey(roomId, storageKey),
+    ]);
+    return {
+      versions: (history?.versions ?? []).map((version) => ({
+        ...version,
+        isCurrent: version.eventId === currentEventId,
+      })),
+    };
+  }
+
+  /**
+   * Roll a user's checkpoint back to a retained version.
+   * The current state is snapshotted first and the restored database is
+   * uploaded as a new version, so a restore can itself be undone.
+   */
+  public async restoreCheckpointVersion(
+    userDid: string,
+    eventId: string,
+  ): Promise<RestoreCheckpointVersionResponse> {
+    const storageKey =
+      UserMatrixSqliteSyncService.createUserStorageKey(userDid);
+    const roomId = await this.getUserRoomId(userDid);
+    const [history, currentEventId] = await Promise.all([
+      getCheckpointHistory(roomId, storageKey),
+      getMediaEventIdByStorageKey(roomId, storageKey),
+    ]);
+    const version = history?.versions.find((v) => v.eventId === eventId);
+    if (!version) {
+      throw new NotFoundException('Checkpoint version not found');
+    }
+    if (this.isUserActive(userDid)) {
+      throw new ConflictException(
+        'Cannot restore a checkpoint while a request is in progress',
+      );
+    }
+
+    // Held for the whole restore: the cron leaves the file alone, and
+    // requests wait in getUserDatabase until the restored file is in place
+    this.markUserActive(userDid);
+    const restore = this.rollBackToVersion(userDid, roomId, version);
+    this.restoreInProgress.set(userDid, restore);
+    try {
+      await restore;
+    } finally {
+      this.restoreInProgress.delete(userDid);
+      this.markUserInactive(userDid);
+    }
+
+    return {
+      message: `Checkpoint restored to version from ${version.createdAt}`,
+      restoredFrom: {
+        ...version,
+        isCurrent: version.eventId === currentEventId,
+      },
+    };
+  }
+
+  /**
+   * Snapshot the current state as a full version, then install the given
+   * version and upload it as the current checkpoint.
+   */
+  private async rollBackToVersion(
+    userDid: string,
+    roomId: string,
+    version: CheckpointVersion,
+  ): Promise<void> {
+    const storageKey =
+      UserMatrixSqliteSyncService.createUserStorageKey(userDid);
+
+    // No request is in flight — close the connection so the upload doesn't
+    // skip the user for holding one
+    const cached = this.dbConnectionCache.get(userDid);
+    if (cached) {
+      try {
+        cached.db.close();
+      } catch {
+        // Ignore close errors
+      }
+      this.dbConnectionCache.delete(userDid);
+    }
+
+    // Pin the target so the snapshot can't push it out of the history
+    await this.syncLocalStorageFromMatrixStorage({ userDid });
+    this.markManifestForCompaction(storageKey);
+    await this.uploadCheckpointToMatrixStorage({
+      userDid,
+      pinnedVersionEventId: version.eventId,
+    });
+
+    if (!(await this.installCheckpointVersion(userDid, roomId, version))) {
+      throw new UnprocessableEntityException(
+        'Checkpoint version is corrupt and cannot be restored',
+      );
+    }
+    try {
+      await this.uploadCheckpointToMatrixStorage({ userDid });
+    } catch (error) {
+      // The restored file is in place locally — the upload cron retries
+      Logger.warn(
+        `Failed to upload restored checkpoint for user ${userDid}, will retry next cycle: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Recovery fallback: install the newest intact retained version (skipping
+   * ones known to be broken) and upload it as the current checkpoint.
+   * @returns true if a version was restored
+   */
+  private async restoreFromHistory(
+    userDid: string,
+    excludeEventIds: Array<string | undefined>,
+  ): Promise<boolean> {
+    const storageKey =
+      UserMatrixSqliteSyncService.createUserStorageKey(userDid);
+    const roomId = await this.getUserRoomId(userDid);
+    const history = await getCheckpointHistory(roomId, storageKey);
+
+    for (const version of getFallbackVersions(history, excludeEventIds)) {
+      if (!(await this.installCheckpointVersion(userDid, roomId, version))) {
+        continue;
+      }
+      Logger.warn(
+        `[CORRUPTION RECOVERY] Restored user ${userDid} from checkpoint version ${version.eventId} (${version.createdAt}). Changes made after it are lost.`,
+      );
+      try {
+        await this.uploadCheckpointToMatrixStorage({ userDid });
+      } catch (error) {
+        Logger.warn(
+          `Failed to upload recovered checkpoint for user ${userDid}, will retry next cycle: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return true;
+    }
+
+    Logger.warn(
+      `No intact checkpoint version to fall back to for user ${userDid}`,
+    );
+    return false;
+  }
+
+  /**
+   * Download a retained version, verify it and install it as the user's
+   * local checkpoint. The next upload then starts a new base snapshot.
+   * @returns false when the version is unusable — transient errors propagate
+   */
+  private async installCheckpointVersion(
+    userDid: string,
+    roomId: string,
+    version: CheckpointVersion,
+  ): Promise<boolean> {
+    const storageKey =
+      UserMatrixSqliteSyncService.createUserStorageKey(userDid);
+    const checkpointPath =
+      UserMatrixSqliteSyncService.getUserCheckpointDbPath(userDid);
+
+    let mediaBuffer: Buffer;
+    try {
+      ({ mediaBuffer } = await getMediaFromRoom(roomId, version.eventId));
+    } catch (error) {
+      if (!isUnrecoverableDownloadError(error)) {
+        throw error;
+      }
+      Logger.warn(
+        `Checkpoint version ${version.eventId} for user ${userDid} is unavailable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return false;
+    }
+
+    const decompressedBuffer = await decodeCheckpointBuffer(
+      mediaBuffer,
+      userDid,
+    );
+    if (!decompressedBuffer) {
+      return false;
+    }
+
+    await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
+    // Not `.tmp` — clearLocalCheckpoint removes that one
+    const restorePath = checkpointPath + '.restore';
+    try {
+      await fs.writeFile(restorePath, decompressedBuffer);
+
+      const checksum = await computeFileChecksum(restorePath);
+      if (checksum !== version.checksum) {
+        Logger.error(
+          `Checkpoint version ${version.eventId} for user ${userDid} fails checksum verification`,
+        );
+        await fs.unlink(restorePath);
+        return false;
+      }
+      const db = this.openAndValidateDatabase(restorePath, userDid);
+      if (!db) {
+        await fs.unlink(restorePath);
+        return false;
+      }
+      db.close();
+
+      await this.clearLocalCheckpoint(userDid, checkpointPath);
+      await fs.rename(restorePath, checkpointPath);
+    } catch (error) {
+      try {
+        await fs.unlink(restorePath);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw error;
+    }
+
+    this.markManifestForCompaction(storageKey);
+    this.filePathCache.set(userDid, {
+      filePath: checkpointPath,
+      lastAccessedAt: Date.now(),
+    });
+
+    Logger.log(
+      `Installed checkpoint version ${version.eventId} (${version.createdAt}) for user ${userDid}`,
+    );
+    return true;
+  }
+
+  /**
+   * Add a new base snapshot to the version history and redact versions that
+   * fell out of it. The upload already succeeded, so failures here are
+   * logged — they only cost retention.
+   */
+  private async recordCheckpointVersion(
+    roomId: string,
+    storageKey: string,
+    version: CheckpointVersion,
+    previousEventId?: string,
+    pinnedEventId?: string,
+  ): Promise<void> {
+    try {
+      const { history, evicted } = addCheckpointVersion(
+        await getCheckpointHistory(roomId, storageKey),
+        version,
+        Number(config.get('CHECKPOINT_HISTORY_SIZE')) ||
+          DEFAULT_CHECKPOINT_HISTORY_SIZE,
+        pinnedEventId,
+      );
+      await setCheckpointHistory(roomId, storageKey, history);
+
+      const retained = new Set(history.versions.map((v) => v.eventId));
+      const expired = evicted.map((v) => v.eventId);
+      // Bases uploaded before versions were tracked are replaced as before
+      if (
+        previousEventId &&
+        !retained.has(previousEventId) &&
+        !expired.includes(previousEventId)
+      ) {
+        expired.push(previousEventId);
+      }
+      await redactMediaEvents(roomId, expired, 'Checkpoint version expired');
+    } catch (error) {
+      Logger.warn(
+        `Failed to update checkpoint history for ${storageKey}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
   // Run at :10, :20, :30, :40, :50 — skips :00 to avoid overlapping with the hourly cleanup cron
   @Cron('0 10,20,30,40,50 * * * *')
   async uploadCheckpointToMatrixStorageTask(): Promise<void> {
@@ -980,6 +1664,36 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       return false;
     }
 
+    // Redact change segments and retained versions, and clear their state
+    // events, before the base goes
+    try {
+      const manifest =
+        this.getCachedManifest(key) ??
+        (await getCheckpointManifest(roomId, key));
+      if (manifest) {
+        await redactMediaEvents(
+          roomId,
+          manifest.segments.map((segment) => segment.eventId),
+          'User requested deletion',
+        );
+        await setCheckpointManifest(roomId, key, null);
+      }
+      const history = await getCheckpointHistory(roomId, key);
+      if (history) {
+        await redactMediaEvents(
+          roomId,
+          history.versions.map((version) => version.eventId),
+          'User requested deletion',
+        );
+        await setCheckpointHistory(roomId, key, null);
+      }
+    } catch (error) {
+      Logger.warn(
+        `Failed to delete checkpoint segments and versions for storageKey ${key}:`,
+        error,
+      );
+    }
+
     // Delete from Matrix
     const deleted = await deleteMediaFromRoom(roomId, key);
 
@@ -1058,9 +1772,14 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
     event: MatrixMediaEvent;
     contentChecksum?: string;
   }): Promise<void> {
+    // Upsert so the cached manifest column survives
     this.fileEventsDatabase
       .prepare(
-        'INSERT OR REPLACE INTO file_events (storage_key, event_id, event, content_checksum) VALUES (?, ?, ?, ?)',
+        `INSERT INTO file_events (storage_key, event_id, event, content_checksum) VALUES (?, ?, ?, ?)
+         ON CONFLICT(storage_key) DO UPDATE SET
+           event_id = excluded.event_id,
+           event = excluded.event,
+           content_checksum = excluded.content_checksum`,
       )
       .run(storageKey, eventId, JSON.stringify(event), contentChecksum ?? null);
 
@@ -1069,6 +1788,49 @@ export class UserMatrixSqliteSyncService implements OnModuleInit {
       this.lastUploadedChecksum.set(storageKey, contentChecksum);
     }
   }
+
+  private getCachedManifest(storageKey: string): CheckpointManifest | null {
+    try {
+      const row = this.fileEventsDatabase
+        .prepare('SELECT manifest FROM file_events WHERE storage_key = ?')
+        .get(storageKey) as { manifest: string | null } | undefined;
+      return row?.manifest
+        ? (JSON.parse(row.manifest) as CheckpointManifest)
+        : null;
+    } catch (error) {
+      Logger.warn(
+        `Failed to read cached checkpoint manifest for ${storageKey}: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Make the next upload start a new base snapshot. The manifest is kept so
+   * the current base's segments are still redacted once it is replaced.
+   */
+  private markManifestForCompaction(storageKey: string): void {
+    const manifest = this.getCachedManifest(storageKey);
+    if (manifest) {
+      this.saveManifestToDB(storageKey, { ...manifest, compact: true });
+    }
+  }
+
+  private saveManifestToDB(
+    storageKey: string,
+    manifest: CheckpointManifest | null,
+  ): void {
+    try {
+      this.fileEventsDatabase
+        .prepare('UPDATE file_events SET manifest = ? WHERE storage_key = ?')
+        .run(manifest ? JSON.stringify(manifest) : null, storageKey);
+    } catch (error) {
+      // Worst case the next upload starts a new base snapshot
+      Logger.warn(
+        `Failed to cache checkpoint manifest for ${storageKey}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
 }
 
 /**
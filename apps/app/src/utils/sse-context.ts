@@ -1,11 +1,13 @@
 import { type AllEvents } from '@ixo/oracles-events';
 import { AsyncLocalStorage } from 'async_hooks';
 import { type Response } from 'express';
+import { type SSERunStream } from './sse-run-stream';
 import { formatSSEEvent } from './sse.utils';
 
 interface SSEContext {
   res: Response;
   abortController?: AbortController;
+  runStream?: SSERunStream;
 }
 
 /**
@@ -22,6 +24,7 @@ const sseContextStorage = new AsyncLocalStorage<SSEContext>();
  * @param res - Express Response object for SSE streaming
  * @param callback - Async function to run within the SSE context
  * @param abortController - Optional abort signal for request cancellation
+ * @param runStream - Optional run writer; events are buffered for replay when set
  * @returns The result of the callback
  *
  * @example
@@ -34,8 +37,9 @@ export function runWithSSEContext<T>(
   res: Response,
   callback: () => Promise<T>,
   abortController?: AbortController,
+  runStream?: SSERunStream,
 ): Promise<T> {
-  return sseContextStorage.run({ res, abortController }, callback);
+  return sseContextStorage.run({ res, abortController, runStream }, callback);
 }
 
 /**
@@ -57,6 +61,10 @@ export function runWithSSEContext<T>(
  */
 export function emitSSEEvent(event: AllEvents): void {
   const context = sseContextStorage.getStore();
+  if (context?.runStream) {
+    context.runStream.write(event.eventName, event.payload);
+    return;
+  }
   if (context?.res && !context.res.writableEnded) {
     context.res.write(formatSSEEvent(event));
   }
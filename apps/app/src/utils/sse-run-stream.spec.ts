@@ -0,0 +1,191 @@
+import { type Response } from 'express';
+import { type Redis } from 'ioredis';
+import {
+  parseLastEventId,
+  readSSERunEvents,
+  resumeSSERun,
+  SSERunStream,
+} from './sse-run-stream';
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+/** In-memory stand-in for the Redis commands the run buffer uses */
+function createFakeRedis() {
+  const strings = new Map<string, string>();
+  const streams = new Map<string, Array<[string, string[]]>>();
+  const seq = (id: string) => Number(id.split('-')[1]);
+
+  const redis = {
+    set: vi.fn(async (key: string, value: string) => {
+      strings.set(key, value);
+      return 'OK';
+    }),
+    get: vi.fn(async (key: string) => strings.get(key) ?? null),
+    expire: vi.fn(async () => 1),
+    xadd: vi.fn(async (key: string, id: string, ...fields: string[]) => {
+      const entries = streams.get(key) ?? [];
+      entries.push([id, fields]);
+      streams.set(key, entries);
+      return id;
+    }),
+    xrange: vi.fn(async (key: string, start: string) =>
+      (streams.get(key) ?? []).filter(([id]) => seq(id) >= seq(start)),
+    ),
+  };
+  return redis as unknown as Redis;
+}
+
+function createFakeResponse() {
+  const chunks: string[] = [];
+  const res = {
+    writableEnded: false,
+    write: vi.fn((chunk: string) => {
+      chunks.push(chunk);
+      return true;
+    }),
+    end: vi.fn(() => {
+      res.writableEnded = true;
+    }),
+    on: vi.fn(),
+    off: vi.fn(),
+  };
+  return { res: res as unknown as Response, chunks };
+}
+
+/** Let fire-and-forget buffer writes settle */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// ── Tests ────────────────────────────────────────────────────────────
+
+describe('parseLastEventId', () => {
+  it('parses a numeric header', () => {
+    expect(parseLastEventId('12')).toBe(12);
+  });
+
+  it('falls back to 0 for missing or malformed values', () => {
+    expect(parseLastEventId(undefined)).toBe(0);
+    expect(parseLastEventId('abc')).toBe(0);
+    expect(parseLastEventId('-3')).toBe(0);
+  });
+});
+
+describe('SSERunStream', () => {
+  it('writes events with incrementing ids', async () => {
+    const { res, chunks } = createFakeResponse();
+    const stream = await SSERunStream.start({
+      runId: 'run_1',
+      sessionId: 'session_1',
+      did: 'did:ixo:ixo1abc',
+      res,
+      redis: null,
+    });
+
+    stream.write('message', { content: 'Hel' });
+    stream.write('message', { content: 'lo' });
+
+    expect(stream.isResumable).toBe(false);
+    expect(chunks).toEqual([
+      'id: 1\nevent: message\ndata: {"content":"Hel"}\n\n',
+      'id: 2\nevent: message\ndata: {"content":"lo"}\n\n',
+    ]);
+  });
+
+  it('keeps buffering after the client detaches', async () => {
+    const redis = createFakeRedis();
+    const { res, chunks } = createFakeResponse();
+    const stream = await SSERunStream.start({
+      runId: 'run_1',
+      sessionId: 'session_1',
+      did: 'did:ixo:ixo1abc',
+      res,
+      redis,
+    });
+
+    stream.write('message', { content: 'Hel' });
+    stream.detach();
+    stream.write('message', { content: 'lo' });
+    await flush();
+
+    expect(chunks).toHaveLength(1);
+    const buffered = await readSSERunEvents('run_1', 1, redis);
+    expect(buffered).toEqual([
+      { id: 2, event: 'message', data: '{"content":"lo"}' },
+    ]);
+  });
+});
+
+describe('resumeSSERun', () => {
+  it('replays events after Last-Event-ID and stops at done', async () => {
+    const redis = createFakeRedis();
+    const original = createFakeResponse();
+    const stream = await SSERunStream.start({
+      runId: 'run_1',
+      sessionId: 'session_1',
+      did: 'did:ixo:ixo1abc',
+      res: original.res,
+      redis,
+    });
+    stream.write('message', { content: 'a' });
+    stream.write('message', { content: 'b' });
+    stream.write('done', {});
+    await flush();
+
+    const resumed = createFakeResponse();
+    await resumeSSERun({
+      runId: 'run_1',
+      lastEventId: 1,
+      res: resumed.res,
+      redis,
+    });
+
+    expect(resumed.chunks).toEqual([
+      'id: 2\nevent: message\ndata: {"content":"b"}\n\n',
+      'id: 3\nevent: done\ndata: {}\n\n',
+    ]);
+    expect(resumed.res.end).toHaveBeenCalled();
+  });
+
+  it('tails events written while resumed', async () => {
+    const redis = createFakeRedis();
+    const original = createFakeResponse();
+    const stream = await SSERunStream.start({
+      runId: 'run_1',
+      sessionId: 'session_1',
+      did: 'did:ixo:ixo1abc',
+      res: original.res,
+      redis,
+    });
+    stream.write('message', { content: 'a' });
+    await flush();
+
+    const resumed = createFakeResponse();
+    const resuming = resumeSSERun({
+      runId: 'run_1',
+      lastEventId: 0,
+      res: resumed.res,
+      redis,
+      pollIntervalMs: 5,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    stream.write('done', {});
+    await resuming;
+
+    expect(resumed.chunks.map((chunk) => chunk.split('\n')[0])).toEqual([
+      'id: 1',
+      'id: 2',
+    ]);
+  });
+
+  it('ends when the run has expired', async () => {
+    const redis = createFakeRedis();
+    const resumed = createFakeResponse();
+    await resumeSSERun({
+      runId: 'run_missing',
+      lastEventId: 0,
+      res: resumed.res,
+      redis,
+    });
+    expect(resumed.chunks).toEqual([]);
+    expect(resumed.res.end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+import { Logger } from '@nestjs/common';
+import { type Response } from 'express';
+import { type Redis } from 'ioredis';
+import { RedisService } from './redis.service';
+import { startSSEHeartbeat } from './sse.utils';
+
+/**
+ * Resumable SSE runs
+ *
+ * Every streamed run gets a run ID (sent as `X-Run-Id`). Each event written
+ * through `SSERunStream` carries an incrementing `id:` line and is appended to
+ * a Redis stream for `SSE_RUN_TTL_SECONDS` after its last write. A client that
+ * loses the connection can reconnect with `Last-Event-ID` to replay the events
+ * it missed and keep tailing until the run emits `done`.
+ *
+ * Without Redis, events go straight to the response and nothing is buffered.
+ */
+
+/** How long a run's events stay replayable after the last write */
+export const SSE_RUN_TTL_SECONDS = 5 * 60;
+
+/** How often a resumed stream polls Redis for new events */
+export const SSE_RUN_POLL_INTERVAL_MS = 250;
+
+export type SSERunStatus = 'running' | 'done';
+
+export interface SSERunMeta {
+  sessionId: string;
+  did: string;
+  status: SSERunStatus;
+}
+
+export interface BufferedSSEEvent {
+  id: number;
+  event: string;
+  data: string;
+}
+
+const eventsKey = (runId: string) => `sse:run:${runId}:events`;
+const metaKey = (runId: string) => `sse:run:${runId}:meta`;
+
+/**
+ * Format a buffered event as an SSE message with its `id:` line
+ */
+export function formatBufferedSSE(event: BufferedSSEEvent): string {
+  return `id: ${event.id}\nevent: ${event.event}\ndata: ${event.data}\n\n`;
+}
+
+/**
+ * Parse a `Last-Event-ID` header. Missing or malformed values replay from the start.
+ */
+export function parseLastEventId(value: string | string[] | undefined): number {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const parsed = Number.parseInt(raw ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function getRedisClient(): Redis | null {
+  return RedisService.getClient() ?? null;
+}
+
+/**
+ * Writer for a single streamed run. Buffers every event in Redis (when
+ * available) and forwards it to the attached response, if any.
+ */
+export class SSERunStream {
+  private nextId = 1;
+  private res: Response | undefined;
+
+  private constructor(
+    readonly runId: string,
+    private readonly redis: Redis | null,
+    res: Response,
+  ) {
+    this.res = res;
+  }
+
+  /**
+   * Register a new run and attach the originating response.
+   */
+  static async start(params: {
+    runId: string;
+    sessionId: string;
+    did: string;
+    res: Response;
+    redis?: Redis | null;
+  }): Promise<SSERunStream> {
+    const redis = params.redis === undefined ? getRedisClient() : params.redis;
+    const stream = new SSERunStream(params.runId, redis, params.res);
+    if (redis) {
+      try {
+        await stream.writeMeta({
+          sessionId: params.sessionId,
+          did: params.did,
+          status: 'running',
+        });
+      } catch (error) {
+        Logger.warn(
+          `[SSERunStream] Failed to register run ${params.runId}, streaming without replay: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return new SSERunStream(params.runId, null, params.res);
+      }
+    }
+    return stream;
+  }
+
+  /**
+   * Whether a dropped client can reconnect to this run
+   */
+  get isResumable(): boolean {
+    return this.redis !== null;
+  }
+
+  /**
+   * Stop forwarding events to the current response. The run keeps buffering.
+   */
+  detach(): void {
+    this.res = undefined;
+  }
+
+  /**
+   * Write an event to the client and the replay buffer
+   */
+  write(eventType: string, data: unknown): void {
+    const event: BufferedSSEEvent = {
+      id: this.nextId++,
+      event: eventType,
+      data: JSON.stringify(data),
+    };
+
+    if (this.res && !this.res.writableEnded) {
+      this.res.write(formatBufferedSSE(event));
+    }
+
+    if (this.redis) {
+      void this.buffer(event);
+    }
+  }
+
+  /**
+   * Mark the run as finished so resumed streams stop tailing
+   */
+  async finish(params: { sessionId: string; did: string }): Promise<void> {
+    if (!this.redis) return;
+    try {
+      await this.writeMeta({ ...params, status: 'done' });
+    } catch (error) {
+      Logger.warn(
+        `[SSERunStream] Failed to mark run ${this.runId} as done: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async buffer(event: BufferedSSEEvent): Promise<void> {
+    const redis = this.redis;
+    if (!redis) return;
+    try {
+      const key = eventsKey(this.runId);
+      await redis.xadd(
+        key,
+        `0-${event.id}`,
+        'event',
+        event.event,
+        'data',
+        event.data,
+      );
+      await redis.expire(key, SSE_RUN_TTL_SECONDS);
+    } catch (error) {
+      Logger.warn(
+        `[SSERunStream] Failed to buffer event ${event.id} for run ${this.runId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async writeMeta(meta: SSERunMeta): Promise<void> {
+    await this.redis?.set(
+      metaKey(this.runId),
+      JSON.stringify(meta),
+      'EX',
+      SSE_RUN_TTL_SECONDS,
+    );
+  }
+}
+
+/**
+ * Read a run's metadata. Returns null when the run is unknown or expired.
+ */
+export async function getSSERunMeta(
+  runId: string,
+  redis: Redis | null = getRedisClient(),
+): Promise<SSERunMeta | null> {
+  if (!redis) return null;
+  const raw = await redis.get(metaKey(runId));
+  return raw ? (JSON.parse(raw) as SSERunMeta) : null;
+}
+
+/**
+ * Read buffered events with an ID greater than `afterId`
+ */
+export async function readSSERunEvents(
+  runId: string,
+  afterId: number,
+  redis: Redis,
+): Promise<BufferedSSEEvent[]> {
+  const entries = await redis.xrange(eventsKey(runId), `0-${afterId + 1}`, '+');
+  return entries.map(([entryId, fields]) => {
+    const values: Record<string, string> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      values[fields[i]] = fields[i + 1];
+    }
+    return {
+      id: Number(entryId.split('-')[1]),
+      event: values.event ?? 'message',
+      data: values.data ?? '{}',
+    };
+  });
+}
+
+/**
+ * Replay a run's events after `lastEventId` to `res`, then tail new events
+ * until the run emits `done`, its buffer expires, or the client disconnects.
+ * The caller is responsible for setting SSE headers.
+ */
+export async function resumeSSERun(params: {
+  runId: string;
+  lastEventId: number;
+  res: Response;
+  redis?: Redis | null;
+  pollIntervalMs?: number;
+}): Promise<void> {
+  const redis = params.redis === undefined ? getRedisClient() : params.redis;
+  if (!redis) return;
+
+  const { res, runId } = params;
+  const pollIntervalMs = params.pollIntervalMs ?? SSE_RUN_POLL_INTERVAL_MS;
+  let lastId = params.lastEventId;
+  let clientGone = false;
+  const onClose = () => {
+    clientGone = true;
+  };
+  res.on('close', onClose);
+  const heartbeat = startSSEHeartbeat(res);
+
+  try {
+    while (!clientGone && !res.writableEnded) {
+      const events = await readSSERunEvents(runId, lastId, redis);
+      for (const event of events) {
+        res.write(formatBufferedSSE(event));
+        lastId = event.id;
+        if (event.event === 'done') return;
+      }
+
+      if (events.length === 0) {
+        const meta = await getSSERunMeta(runId, redis);
+        // Expired, or finished without a trailing `done` we haven't seen
+        if (!meta || meta.status === 'done') {
+          const remaining = await readSSERunEvents(runId, lastId, redis);
+          for (const event of remaining) {
+            res.write(formatBufferedSSE(event));
+          }
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      }
+    }
+  } finally {
+    clearInterval(heartbeat);
+    res.off('close', onClose);
+    if (!res.writableEnded) {
+      res.end();
+    }
+  }
+}
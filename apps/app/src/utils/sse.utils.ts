@@ -54,8 +54,13 @@ export function startSSEHeartbeat(res: Response): NodeJS.Timeout {
  *
  * @param res - Express Response object
  * @param requestId - Optional request ID to include in headers
+ * @param runId - Optional run ID clients use to resume the stream
  */
-export function setSSEHeaders(res: Response, requestId?: string): void {
+export function setSSEHeaders(
+  res: Response,
+  requestId?: string,
+  runId?: string,
+): void {
   const headers: Record<string, string> = {
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache, no-transform',
@@ -63,37 +68,18 @@ export function setSSEHeaders(res: Response, requestId?: string): void {
     'X-Accel-Buffering': 'no', // Disable nginx buffering
   };
 
+  const exposed: string[] = [];
   if (requestId) {
     headers['X-Request-Id'] = requestId;
-    headers['Access-Control-Expose-Headers'] = 'X-Request-Id';
+    exposed.push('X-Request-Id');
   }
-
-  res.set(headers);
-}
-
-/**
- * Send a 'done' event to signal completion of streaming
- *
- * @param res - Express Response object
- */
-export function sendSSEDone(res: Response): void {
-  if (!res.writableEnded) {
-    res.write(formatSSE('done', {}));
+  if (runId) {
+    headers['X-Run-Id'] = runId;
+    exposed.push('X-Run-Id');
   }
-}
-
-/**
- * Send an error event via SSE
- *
- * @param res - Express Response object
- * @param error - Error object or message
- */
-export function sendSSEError(res: Response, error: Error | string): void {
-  if (!res.writableEnded) {
-    const errorData = {
-      error: error instanceof Error ? error.message : error,
-      timestamp: new Date().toISOString(),
-    };
-    res.write(formatSSE('error', errorData));
+  if (exposed.length > 0) {
+    headers['Access-Control-Expose-Headers'] = exposed.join(', ');
   }
+
+  res.set(headers);
 }
@@ -81,7 +81,7 @@ export class TokenLimiter {
 
   /**
    * Calculate cost in USD with our markup applied, using the same
-   * 3-priority fallback as the token limiter middleware.
+   * 3-priority fallback as `UsageAccounting.toCredits`.
    *
    * Priority 1: exact provider cost (e.g. OpenRouter) × markup
    * Priority 2: per-model pricing from cache × markup
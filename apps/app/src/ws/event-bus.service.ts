@@ -0,0 +1,65 @@
+import { RedisEventTransport, rootEventEmitter } from '@ixo/oracles-events';
+import {
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { type ENV, isRedisEnabled } from '../config';
+
+/** Redis pub/sub channel shared by all oracle instances */
+const EVENT_BUS_CHANNEL = 'oracles-events';
+
+/**
+ * EventBusService — relays `rootEventEmitter` events between oracle instances.
+ *
+ * Tool results (`browser_tool_result`, `action_call_result`) arrive on whichever
+ * instance holds the client's socket, while the agent waiting for them may run
+ * on another instance handling the HTTP request or task job. When REDIS_URL is
+ * set, events are published over Redis so every instance's listeners see them.
+ * Without Redis the emitter stays process-local.
+ */
+@Injectable()
+export class EventBusService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventBusService.name);
+
+  constructor(private readonly configService: ConfigService<ENV>) {}
+
+  async onModuleInit(): Promise<void> {
+    if (!isRedisEnabled()) return;
+
+    // Own connections: a subscribed connection cannot issue other commands,
+    // and RedisService is not provided when credits are disabled.
+    const redisUrl = this.configService.getOrThrow('REDIS_URL');
+    const publisher = new Redis(redisUrl, { lazyConnect: true });
+    const subscriber = publisher.duplicate();
+    for (const client of [publisher, subscriber]) {
+      client.on('error', (err) => {
+        this.logger.error(`Event bus Redis error: ${err.message}`);
+      });
+    }
+    await Promise.all([publisher.connect(), subscriber.connect()]);
+
+    await rootEventEmitter.useTransport(
+      new RedisEventTransport({
+        publisher,
+        subscriber,
+        channel: EVENT_BUS_CHANNEL,
+        onError: (error) => {
+          this.logger.error(
+            `Event bus transport error: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        },
+      }),
+    );
+    this.logger.log(
+      `Event bus connected to Redis (instance ${rootEventEmitter.instanceId})`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await rootEventEmitter.useTransport(null);
+  }
+}
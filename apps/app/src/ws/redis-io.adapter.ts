@@ -0,0 +1,49 @@
+import { type INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { Redis } from 'ioredis';
+import { type Server, type ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter backed by Redis pub/sub so `server.to(room).emit(...)`
+ * reaches sockets connected to any oracle instance.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter> | undefined;
+  private clients: Redis[] = [];
+
+  constructor(app: INestApplicationContext) {
+    super(app);
+  }
+
+  async connectToRedis(redisUrl: string): Promise<void> {
+    const pubClient = new Redis(redisUrl, { lazyConnect: true });
+    const subClient = pubClient.duplicate();
+    this.clients = [pubClient, subClient];
+
+    for (const client of this.clients) {
+      client.on('error', (err) => {
+        this.logger.error(`Redis adapter client error: ${err.message}`);
+      });
+    }
+
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    this.logger.log('Socket.IO Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+
+  async close(server: Server): Promise<void> {
+    await super.close(server);
+    await Promise.all(this.clients.map((client) => client.quit()));
+    this.clients = [];
+  }
+}
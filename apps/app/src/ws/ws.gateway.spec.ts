@@ -1,13 +1,47 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
 import { Test, type TestingModule } from '@nestjs/testing';
+import { type Socket } from 'socket.io';
+import { AuthService } from '../auth/auth.service';
+import { SessionsService } from '../sessions/sessions.service';
 import { WsGateway } from './ws.gateway';
 import { WsService } from './ws.service';
 
+function createSocket(
+  query: Record<string, string>,
+  auth: Record<string, string> = {},
+): Socket {
+  return {
+    id: 'socket_1',
+    data: {},
+    handshake: { query, auth, headers: {} },
+    disconnect: vi.fn(),
+    emit: vi.fn(),
+    join: vi.fn(),
+  } as unknown as Socket;
+}
+
 describe('WsGateway', () => {
   let gateway: WsGateway;
+  let authService: { authenticate: ReturnType<typeof vi.fn> };
+  let sessionsService: { isSessionOwner: ReturnType<typeof vi.fn> };
 
   beforeEach(async () => {
+    authService = {
+      authenticate: vi.fn().mockResolvedValue({
+        did: 'did:ixo:ixo1abc',
+        userOpenIdToken: 'token',
+        homeServer: 'matrix.example.org',
+      }),
+    };
+    sessionsService = { isSessionOwner: vi.fn().mockResolvedValue(true) };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [WsGateway, { provide: WsService, useValue: {} }],
+      providers: [
+        WsGateway,
+        { provide: WsService, useValue: {} },
+        { provide: AuthService, useValue: authService },
+        { provide: SessionsService, useValue: sessionsService },
+      ],
     }).compile();
 
     gateway = module.get<WsGateway>(WsGateway);
@@ -16,4 +50,51 @@ describe('WsGateway', () => {
   it('should be defined', () => {
     expect(gateway).toBeDefined();
   });
+
+  it('accepts a handshake for a session owned by the caller', async () => {
+    const client = createSocket(
+      { sessionId: 'session_1' },
+      { matrixAccessToken: 'token' },
+    );
+    await gateway['authenticateHandshake'](client);
+    expect(client.data.auth.did).toBe('did:ixo:ixo1abc');
+    expect(authService.authenticate).toHaveBeenCalledWith(
+      expect.objectContaining({ 'x-matrix-access-token': 'token' }),
+    );
+  });
+
+  it('rejects invalid credentials', async () => {
+    authService.authenticate.mockRejectedValue(
+      new HttpException('Invalid token', HttpStatus.UNAUTHORIZED),
+    );
+    await expect(
+      gateway['authenticateHandshake'](
+        createSocket({ sessionId: 'session_1' }),
+      ),
+    ).rejects.toThrow(/Unauthorized/);
+  });
+
+  it('rejects a session owned by another DID', async () => {
+    sessionsService.isSessionOwner.mockResolvedValue(false);
+    await expect(
+      gateway['authenticateHandshake'](
+        createSocket({ sessionId: 'session_1' }),
+      ),
+    ).rejects.toThrow(/Session not found/);
+  });
+
+  it('rejects a userDid that does not match the credentials', async () => {
+    await expect(
+      gateway['authenticateHandshake'](
+        createSocket({ sessionId: 'session_1', userDid: 'did:ixo:ixo1other' }),
+      ),
+    ).rejects.toThrow(/does not match/);
+  });
+
+  it('disconnects sockets that reach handleConnection unauthenticated', async () => {
+    const client = createSocket({ sessionId: 'session_1' });
+    await gateway.handleConnection(client);
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+    expect(client.join).not.toHaveBeenCalled();
+  });
 });
@@ -1,5 +1,5 @@
 import { GraphEventEmitter, rootEventEmitter } from '@ixo/oracles-events';
-import { Logger, Optional } from '@nestjs/common';
+import { HttpException, Logger } from '@nestjs/common';
 
 import {
   ConnectedSocket,
@@ -11,12 +11,30 @@ import {
   type OnGatewayDisconnect,
   type OnGatewayInit,
 } from '@nestjs/websockets';
+import { type IncomingHttpHeaders } from 'node:http';
 import { Server, Socket } from 'socket.io';
 
 import { ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { UcanService } from '../ucan/ucan.service';
+import { type AuthData, AuthService } from '../auth/auth.service';
+import { SessionsService } from '../sessions/sessions.service';
 import { WsService } from './ws.service';
 
+/** How often connected sockets re-check their credentials */
+const WS_AUTH_REVALIDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+/** setTimeout fires immediately for delays above this, so longer expiries rely on revalidation */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Credentials a client passes in the Socket.IO handshake `auth` payload.
+ * Non-browser clients may send the equivalent HTTP headers instead.
+ */
+interface WsHandshakeAuth {
+  ucanDelegation?: string;
+  matrixAccessToken?: string;
+  matrixHomeServer?: string;
+}
+
 @WebSocketGateway({
   cors: {
     origin: '*',
@@ -31,26 +49,46 @@ export class WsGateway
 
   private readonly logger = new Logger(WsGateway.name);
 
+  /** socket ID → expiry/revalidation timers */
+  private readonly authTimers = new Map<string, NodeJS.Timeout[]>();
+
   constructor(
     private readonly wsService: WsService,
-    @Optional() private readonly ucanService?: UcanService,
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   afterInit(): void {
     this.logger.log('WebSocket gateway initialized');
     // Register all events from the events package with this server
     GraphEventEmitter.registerEventHandlers(this.server);
+
+    // Reject unauthenticated handshakes before the socket joins any room.
+    // Clients receive the message as a `connect_error`.
+    this.server.use((client, next) => {
+      this.authenticateHandshake(client)
+        .then(() => next())
+        .catch((error: unknown) => {
+          const message =
+            error instanceof Error ? error.message : 'Unauthorized';
+          this.logger.warn(
+            `WebSocket handshake rejected for ${client.id}: ${message}`,
+          );
+          next(new Error(message));
+        });
+    });
   }
 
   async handleConnection(client: Socket): Promise<void> {
-    const sessionId = client.handshake.query.sessionId;
-    const userDid = client.handshake.query.userDid;
+    const sessionId = client.handshake.query.sessionId as string;
+    const auth = client.data.auth as AuthData | undefined;
 
-    if (!sessionId || !userDid) {
+    // The handshake middleware guarantees both; guard anyway
+    if (!sessionId || !auth) {
       this.logger.error(
-        `WebSocket connection attempt without ${sessionId ? 'sessionId' : ''} and ${userDid ? 'userDid' : ''} from ${client.id}`,
+        `WebSocket connection without verified credentials from ${client.id}`,
       );
-      client.disconnect();
+      client.disconnect(true);
       return;
     }
 
@@ -58,19 +96,13 @@ export class WsGateway
       `WebSocket connection established for session: ${sessionId}, client: ${client.id}`,
     );
 
-    // Cache UCAN delegation from the client for use on disconnect (memory engine auth)
-    const ucanDelegation = client.handshake.auth?.ucanDelegation as
-      | string
-      | undefined;
-    if (ucanDelegation && this.ucanService) {
-      await this.ucanService.cacheDelegation(userDid as string, ucanDelegation);
-    }
+    this.scheduleAuthChecks(client, auth);
 
     // Join the sessionId room (channel) - this is the key integration!
     await client.join(sessionId);
 
     // Also track in our service for monitoring
-    this.wsService.addClientConnection(sessionId as string, client);
+    this.wsService.addClientConnection(sessionId, client);
 
     // Send connection confirmation
     client.emit('connected', {
@@ -81,6 +113,7 @@ export class WsGateway
   }
 
   handleDisconnect(client: Socket): void {
+    this.clearAuthChecks(client);
     const sessionId = client.handshake.query.sessionId as string;
 
     if (sessionId) {
@@ -95,6 +128,117 @@ export class WsGateway
     }
   }
 
+  /**
+   * Verify the handshake credentials (same as `AuthHeaderMiddleware`) and
+   * that the requested session belongs to the authenticated DID.
+   */
+  private async authenticateHandshake(client: Socket): Promise<void> {
+    const sessionId = client.handshake.query.sessionId;
+    if (typeof sessionId !== 'string' || !sessionId) {
+      throw new Error('Missing sessionId');
+    }
+
+    const auth = await this.authenticateClient(client);
+
+    // userDid is optional; when sent it must match the credentials
+    const userDid = client.handshake.query.userDid;
+    if (userDid && userDid !== auth.did) {
+      throw new Error('userDid does not match the provided credentials');
+    }
+
+    const isOwner = await this.sessionsService.isSessionOwner(
+      auth.did,
+      sessionId,
+    );
+    if (!isOwner) {
+      throw new Error('Session not found');
+    }
+
+    client.data.auth = auth;
+  }
+
+  private async authenticateClient(client: Socket): Promise<AuthData> {
+    try {
+      return await this.authService.authenticate(this.getAuthHeaders(client));
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw new Error(`Unauthorized: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Map handshake credentials onto the headers `AuthService` expects.
+   * The `auth` payload takes precedence over handshake headers.
+   */
+  private getAuthHeaders(client: Socket): IncomingHttpHeaders {
+    const auth = (client.handshake.auth ?? {}) as WsHandshakeAuth;
+    const headers = client.handshake.headers;
+    return {
+      'x-ucan-delegation': auth.ucanDelegation ?? headers['x-ucan-delegation'],
+      'x-matrix-access-token':
+        auth.matrixAccessToken ?? headers['x-matrix-access-token'],
+      'x-matrix-homeserver':
+        auth.matrixHomeServer ?? headers['x-matrix-homeserver'],
+    };
+  }
+
+  /**
+   * Disconnect the socket when its UCAN delegation expires, and periodically
+   * re-check credentials so revoked or expired OpenID tokens are dropped too.
+   */
+  private scheduleAuthChecks(client: Socket, auth: AuthData): void {
+    const timers: NodeJS.Timeout[] = [];
+
+    const expiration = auth.ucanDelegation?.expiration;
+    if (expiration) {
+      const remainingMs = expiration * 1000 - Date.now();
+      if (remainingMs <= MAX_TIMEOUT_MS) {
+        timers.push(
+          setTimeout(
+            () => this.expireClient(client, 'UCAN delegation expired'),
+            Math.max(0, remainingMs),
+          ),
+        );
+      }
+    }
+
+    timers.push(
+      setInterval(() => {
+        this.authenticateClient(client)
+          .then((current) => {
+            if (current.did !== auth.did) {
+              this.expireClient(client, 'Credentials changed');
+            }
+          })
+          .catch(() => this.expireClient(client, 'Credentials expired'));
+      }, WS_AUTH_REVALIDATE_INTERVAL_MS),
+    );
+
+    this.authTimers.set(client.id, timers);
+  }
+
+  private clearAuthChecks(client: Socket): void {
+    const timers = this.authTimers.get(client.id);
+    if (!timers) return;
+    // clearTimeout also clears intervals
+    timers.forEach((timer) => clearTimeout(timer));
+    this.authTimers.delete(client.id);
+  }
+
+  private expireClient(client: Socket, reason: string): void {
+    this.logger.log(
+      `Disconnecting ${client.id} for session ${client.handshake.query.sessionId as string}: ${reason}`,
+    );
+    this.clearAuthChecks(client);
+    client.emit('auth_expired', {
+      reason,
+      timestamp: new Date().toISOString(),
+    });
+    client.disconnect(true);
+  }
+
   @SubscribeMessage('ping')
   handlePing(@ConnectedSocket() client: Socket): void {
     client.emit('pong', {
@@ -202,6 +346,7 @@ export class WsGateway
       ],
       serverEvents: [
         'connected',
+        'auth_expired',
         'pong',
         'status',
         'subscribed',
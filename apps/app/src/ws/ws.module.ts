@@ -1,12 +1,13 @@
 import { Global, Module } from '@nestjs/common';
 import { SessionsModule } from '../sessions/sessions.module';
+import { EventBusService } from './event-bus.service';
 import { WsGateway } from './ws.gateway';
 import { WsService } from './ws.service';
 
 @Global()
 @Module({
   imports: [SessionsModule],
-  providers: [WsService, WsGateway],
+  providers: [WsService, WsGateway, EventBusService],
   exports: [WsService],
 })
 export class WsModule {}
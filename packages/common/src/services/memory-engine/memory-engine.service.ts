@@ -1,5 +1,6 @@
 import { Logger } from '@ixo/logger';
 import type {
+  MemoryEngineUsage,
   SearchEnhancedRequest,
   SearchEnhancedResponse,
   UserContextData,
@@ -420,7 +421,7 @@ export class MemoryEngineService {
     userHomeServer: string;
     /** When set, uses UCAN auth instead of Matrix tokens */
     ucanInvocation?: string;
-  }): Promise<{ success: boolean }> {
+  }): Promise<{ success: boolean; usage?: MemoryEngineUsage }> {
     if (!roomId) {
       Logger.warn(
         `[MemoryEngineService] No room id provided, skipping conversation processing`,
@@ -462,10 +463,15 @@ export class MemoryEngineService {
         return { success: false };
       }
 
+      // The engine may report the model usage of processing the messages
+      const body = (await response.json().catch(() => null)) as {
+        usage?: MemoryEngineUsage;
+      } | null;
+
       Logger.info(
         `[MemoryEngineService] Successfully processed ${messages.length} messages for room ${roomId}`,
       );
-      return { success: true };
+      return { success: true, usage: body?.usage ?? undefined };
     } catch (error) {
       Logger.error(
         `[MemoryEngineService] Failed to process conversation history for room ${roomId}:`,
@@ -189,6 +189,16 @@ export type EdgeType =
   | 'ConflictsWith'
   | 'RelatesTo';
 
+// Model usage the Memory Engine reports for processing messages (OpenAI format)
+export interface MemoryEngineUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  /** USD cost when the engine's provider reports it */
+  cost?: number;
+  model?: string;
+}
+
 // HTTP Headers type
 export interface SearchHeaders {
   Authorization: string; // "Bearer <matrix_openid_token>"
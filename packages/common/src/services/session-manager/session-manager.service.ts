@@ -1,6 +1,7 @@
 import { Logger } from '@ixo/logger';
 import { MatrixManager } from '@ixo/matrix';
 import { getMatrixHomeServerCroppedForDid } from '@ixo/oracles-chain-client';
+import { type Callbacks } from '@langchain/core/callbacks/manager';
 import { type Database } from 'better-sqlite3';
 import {
   getChatOpenAiModel,
@@ -40,8 +41,10 @@ export class SessionManagerService {
 
   private async createMessageTitle({
     messages,
+    callbacks,
   }: {
     messages: string[];
+    callbacks?: Callbacks;
   }): Promise<string> {
     if (messages.length === 0) {
       return 'Untitled';
@@ -112,6 +115,7 @@ ___________________________________________________________
       ${messages.join('\n\n')}
       </messages>
       `,
+      { callbacks },
     );
 
     const title = String(response.content);
@@ -145,6 +149,7 @@ ___________________________________________________________
     oracleDid,
     userContext,
     slackThreadTs,
+    callbacks,
   }: {
     sessionId: string;
     did: string;
@@ -156,6 +161,8 @@ ___________________________________________________________
     oracleDid: string;
     userContext?: UserContextData;
     slackThreadTs?: string;
+    /** Passed to the title model, e.g. to meter its usage */
+    callbacks?: Callbacks;
   }): Promise<ChatSession> {
     const db = await this.syncService.getUserDatabase(did);
 
@@ -167,6 +174,7 @@ ___________________________________________________________
         oracleName,
         title: await this.createMessageTitle({
           messages,
+          callbacks,
         }),
         lastUpdatedAt: new Date().toISOString(),
         createdAt: new Date().toISOString(),
@@ -216,6 +224,7 @@ ___________________________________________________________
     const title = allowTitleUpdate
       ? await this.createMessageTitle({
           messages,
+          callbacks,
         })
       : selectedSession.title;
 
@@ -52,11 +52,12 @@ export abstract class BaseEvent<P> {
    *
    * This method registers event handlers for this event on the provided server.
    * When the event is emitted, the event handlers will be called with the provided data. and the data will be sent to WS client with the provided sessionId.
+   * Only events emitted in this process are forwarded; with the Socket.IO Redis adapter the room emit reaches clients on every instance.
    */
   static registerEventHandlers(
     server: Server<DefaultEventsMap, DefaultEventsMap>,
   ): void {
-    rootEventEmitter.on(this.eventName, (data) => {
+    rootEventEmitter.onLocal(this.eventName, (data) => {
       const payload = shouldHaveSessionId(data);
       // console.log(
       //   `Emitting WS event: ${this.eventName} with payload:`,
@@ -40,6 +40,7 @@ export class ReasoningEvent extends BaseEvent<IReasoningEvent> {
 
   /**
    * Create a new ReasoningEvent with updated reasoning
+   * @param parentToolCallId - Tool call of the sub-agent that is reasoning
    */
   public static createChunk(
     sessionId: string,
@@ -47,6 +48,7 @@ export class ReasoningEvent extends BaseEvent<IReasoningEvent> {
     reasoning: string,
     reasoningDetails?: IReasoningEvent['reasoningDetails'],
     isComplete = false,
+    parentToolCallId?: string,
   ): ReasoningEvent {
     return new ReasoningEvent({
       sessionId,
@@ -55,6 +57,7 @@ export class ReasoningEvent extends BaseEvent<IReasoningEvent> {
       reasoningDetails,
       isComplete,
       timestamp: new Date().toISOString(),
+      ...(parentToolCallId ? { parentToolCallId } : {}),
     });
   }
 }
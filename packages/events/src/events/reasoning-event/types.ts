@@ -21,6 +21,12 @@ export interface IReasoningEvent {
    * Timestamp when the reasoning was generated
    */
   timestamp?: string;
+
+  /**
+   * Set when a sub-agent is reasoning: the `eventId` of the tool call that
+   * started the sub-agent
+   */
+  parentToolCallId?: string;
 }
 
 export const EVENT_NAME = 'reasoning' as const;
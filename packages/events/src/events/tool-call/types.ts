@@ -4,6 +4,16 @@ export interface IToolCallEvent {
   status?: 'isRunning' | 'done';
   eventId?: string;
   output?: string;
+  /**
+   * Set on calls a sub-agent makes: the `eventId` of the tool call that
+   * started the sub-agent, so clients can nest the call under it
+   */
+  parentToolCallId?: string;
+  /**
+   * Reply text produced so far while the tool is running, e.g. a sub-agent's
+   * partial answer. Replaced by `output` once the call is done.
+   */
+  partialOutput?: string;
 }
 
 export const EVENT_NAME = 'tool_call' as const;
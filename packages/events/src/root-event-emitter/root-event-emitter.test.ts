@@ -1,5 +1,20 @@
+import { type EventTransport, type TransportMessage } from '../transport';
 import { RootEventEmitter, rootEventEmitter } from './root-event-emitter';
 
+function createTransport(): EventTransport & {
+  deliver: (message: TransportMessage) => void;
+} {
+  let handler: ((message: TransportMessage) => void) | undefined;
+  return {
+    publish: vi.fn(),
+    subscribe: vi.fn(async (h: (message: TransportMessage) => void) => {
+      handler = h;
+    }),
+    close: vi.fn(async () => undefined),
+    deliver: (message) => handler?.(message),
+  };
+}
+
 describe('RootEventEmitter', () => {
   it('should return the same instance on multiple calls', () => {
     const instance1 = rootEventEmitter;
@@ -37,4 +52,64 @@ describe('RootEventEmitter', () => {
 
     expect(listener).not.toHaveBeenCalled();
   });
+
+  describe('with a transport', () => {
+    afterEach(async () => {
+      await rootEventEmitter.useTransport(null);
+    });
+
+    it('publishes emitted events with its instance id', async () => {
+      const transport = createTransport();
+      await rootEventEmitter.useTransport(transport);
+
+      rootEventEmitter.emit('transportEvent', { key: 'value' });
+
+      expect(transport.publish).toHaveBeenCalledWith({
+        origin: rootEventEmitter.instanceId,
+        event: 'transportEvent',
+        data: { key: 'value' },
+      });
+    });
+
+    it('delivers remote events to `on` but not `onLocal` listeners', async () => {
+      const transport = createTransport();
+      await rootEventEmitter.useTransport(transport);
+      const listener = vi.fn();
+      const localListener = vi.fn();
+      rootEventEmitter.on('remoteEvent', listener);
+      rootEventEmitter.onLocal('remoteEvent', localListener);
+
+      transport.deliver({
+        origin: 'other-instance',
+        event: 'remoteEvent',
+        data: { key: 'value' },
+      });
+
+      expect(listener).toHaveBeenCalledWith({ key: 'value' });
+      expect(localListener).not.toHaveBeenCalled();
+    });
+
+    it('ignores its own published events', async () => {
+      const transport = createTransport();
+      await rootEventEmitter.useTransport(transport);
+      const listener = vi.fn();
+      rootEventEmitter.on('echoEvent', listener);
+
+      transport.deliver({
+        origin: rootEventEmitter.instanceId,
+        event: 'echoEvent',
+        data: {},
+      });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('closes the previous transport when replaced', async () => {
+      const first = createTransport();
+      await rootEventEmitter.useTransport(first);
+      await rootEventEmitter.useTransport(createTransport());
+
+      expect(first.close).toHaveBeenCalled();
+    });
+  });
 });
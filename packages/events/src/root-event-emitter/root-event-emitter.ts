@@ -1,13 +1,25 @@
 import EventEmitter2 from 'eventemitter2';
+import { randomUUID } from 'node:crypto';
+import {
+  type EventTransport,
+  type TransportMessage,
+} from '../transport/event-transport';
 
 const GLOBAL_KEY = Symbol.for('@ixo/oracles-events:root-event-emitter');
 
 export class RootEventEmitter {
   private static instance: RootEventEmitter | null = null;
   private readonly emitter: EventEmitter2;
+  /** Receives only events emitted in this process */
+  private readonly localEmitter: EventEmitter2;
+  private transport: EventTransport | null = null;
+
+  /** Identifies this process on the transport */
+  public readonly instanceId = randomUUID();
 
   private constructor() {
     this.emitter = new EventEmitter2();
+    this.localEmitter = new EventEmitter2();
   }
 
   public static getInstance(): RootEventEmitter {
@@ -29,19 +41,52 @@ export class RootEventEmitter {
     return RootEventEmitter.instance;
   }
 
+  /**
+   * Relay events through a transport so `on` listeners in other processes
+   * receive them too. Replaces (and closes) any previously installed transport.
+   */
+  public async useTransport(transport: EventTransport | null): Promise<void> {
+    const previous = this.transport;
+    this.transport = null;
+    if (previous) {
+      await previous.close();
+    }
+    if (!transport) return;
+
+    await transport.subscribe((message) => this.handleRemote(message));
+    this.transport = transport;
+  }
+
   public emit(event: string, data: unknown): void {
     this.emitter.emit(event, data);
+    this.localEmitter.emit(event, data);
+    this.transport?.publish({ origin: this.instanceId, event, data });
   }
 
+  /** Listen to events emitted in any process connected to the transport */
   public on(event: string, listener: (...args: unknown[]) => void): void {
     this.emitter.on(event, listener);
   }
 
+  /**
+   * Listen only to events emitted in this process. Used for WS delivery,
+   * which the Socket.IO adapter already fans out across instances.
+   */
+  public onLocal(event: string, listener: (...args: unknown[]) => void): void {
+    this.localEmitter.on(event, listener);
+  }
+
   public removeListener(
     event: string,
     listener: (...args: unknown[]) => void,
   ): void {
     this.emitter.removeListener(event, listener);
+    this.localEmitter.removeListener(event, listener);
+  }
+
+  private handleRemote(message: TransportMessage): void {
+    if (message.origin === this.instanceId) return;
+    this.emitter.emit(message.event, message.data);
   }
 }
 
@@ -3,4 +3,5 @@ export * from './events';
 
 export * from './graph-event-emitter';
 export * from './root-event-emitter';
+export * from './transport';
 export * from './types';
@@ -0,0 +1,22 @@
+/**
+ * A message relayed between processes by an `EventTransport`.
+ */
+export interface TransportMessage {
+  /** ID of the process that emitted the event, used to skip its own echoes */
+  origin: string;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Relays events emitted on `rootEventEmitter` to other processes so
+ * listeners on every oracle instance receive them.
+ */
+export interface EventTransport {
+  /** Send a locally emitted event to the other processes */
+  publish: (message: TransportMessage) => void;
+  /** Start receiving messages published by any process (including this one) */
+  subscribe: (handler: (message: TransportMessage) => void) => Promise<void>;
+  /** Stop receiving messages and release connections */
+  close: () => Promise<void>;
+}
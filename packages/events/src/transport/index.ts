@@ -0,0 +1,2 @@
+export * from './event-transport';
+export * from './redis-event-transport';
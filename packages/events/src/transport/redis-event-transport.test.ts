@@ -0,0 +1,90 @@
+import {
+  DEFAULT_EVENT_CHANNEL,
+  RedisEventTransport,
+  type RedisPubSubClient,
+} from './redis-event-transport';
+
+type MessageListener = (channel: string, message: string) => void;
+
+function createClient(): RedisPubSubClient & {
+  listeners: MessageListener[];
+} {
+  const listeners: MessageListener[] = [];
+  return {
+    listeners,
+    publish: vi.fn().mockResolvedValue(1),
+    subscribe: vi.fn().mockResolvedValue(1),
+    unsubscribe: vi.fn().mockResolvedValue(1),
+    on: vi.fn((_event: 'message', listener: MessageListener) => {
+      listeners.push(listener);
+    }),
+    quit: vi.fn().mockResolvedValue('OK'),
+  };
+}
+
+describe('RedisEventTransport', () => {
+  it('publishes JSON messages on the default channel', () => {
+    const publisher = createClient();
+    const transport = new RedisEventTransport({
+      publisher,
+      subscriber: createClient(),
+    });
+
+    transport.publish({ origin: 'a', event: 'evt', data: { n: 1 } });
+
+    expect(publisher.publish).toHaveBeenCalledWith(
+      DEFAULT_EVENT_CHANNEL,
+      JSON.stringify({ origin: 'a', event: 'evt', data: { n: 1 } }),
+    );
+  });
+
+  it('decodes messages from its channel only', async () => {
+    const subscriber = createClient();
+    const transport = new RedisEventTransport({
+      publisher: createClient(),
+      subscriber,
+      channel: 'events',
+    });
+    const handler = vi.fn();
+
+    await transport.subscribe(handler);
+    const message = { origin: 'b', event: 'evt', data: 'x' };
+    subscriber.listeners.forEach((l) => l('other', JSON.stringify(message)));
+    subscriber.listeners.forEach((l) => l('events', JSON.stringify(message)));
+
+    expect(subscriber.subscribe).toHaveBeenCalledWith('events');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(message);
+  });
+
+  it('reports malformed messages and publish failures to onError', async () => {
+    const publisher = createClient();
+    const subscriber = createClient();
+    const onError = vi.fn();
+    vi.mocked(publisher.publish).mockRejectedValue(new Error('down'));
+    const transport = new RedisEventTransport({
+      publisher,
+      subscriber,
+      onError,
+    });
+
+    await transport.subscribe(vi.fn());
+    subscriber.listeners.forEach((l) => l(DEFAULT_EVENT_CHANNEL, '{not json'));
+    transport.publish({ origin: 'a', event: 'evt', data: null });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('unsubscribes and quits both clients on close', async () => {
+    const publisher = createClient();
+    const subscriber = createClient();
+    const transport = new RedisEventTransport({ publisher, subscriber });
+
+    await transport.close();
+
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith(DEFAULT_EVENT_CHANNEL);
+    expect(subscriber.quit).toHaveBeenCalled();
+    expect(publisher.quit).toHaveBeenCalled();
+  });
+});
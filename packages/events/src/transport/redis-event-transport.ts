@@ -0,0 +1,81 @@
+import { type EventTransport, type TransportMessage } from './event-transport';
+
+/**
+ * The subset of an ioredis / node-redis v3 style client used by the transport.
+ * Declared structurally so this package does not depend on a Redis client.
+ */
+export interface RedisPubSubClient {
+  publish: (channel: string, message: string) => Promise<unknown>;
+  subscribe: (channel: string) => Promise<unknown>;
+  unsubscribe: (channel: string) => Promise<unknown>;
+  on: (
+    event: 'message',
+    listener: (channel: string, message: string) => void,
+  ) => unknown;
+  quit: () => Promise<unknown>;
+}
+
+export interface RedisEventTransportOptions {
+  /** Client used for PUBLISH */
+  publisher: RedisPubSubClient;
+  /** Dedicated client for SUBSCRIBE (a subscribed connection cannot publish) */
+  subscriber: RedisPubSubClient;
+  /** Pub/sub channel shared by all instances. Defaults to `oracles-events` */
+  channel?: string;
+  /** Called when publishing or decoding a message fails */
+  onError?: (error: unknown) => void;
+}
+
+export const DEFAULT_EVENT_CHANNEL = 'oracles-events';
+
+/**
+ * Event transport over Redis pub/sub. Delivery is at-most-once: events
+ * published while an instance is disconnected are not replayed.
+ */
+export class RedisEventTransport implements EventTransport {
+  private readonly channel: string;
+  private readonly onError: (error: unknown) => void;
+
+  constructor(private readonly options: RedisEventTransportOptions) {
+    this.channel = options.channel ?? DEFAULT_EVENT_CHANNEL;
+    this.onError =
+      options.onError ??
+      ((error) => {
+        // eslint-disable-next-line no-console -- no logger dependency in this package
+        console.error('[RedisEventTransport]', error);
+      });
+  }
+
+  publish(message: TransportMessage): void {
+    let encoded: string;
+    try {
+      encoded = JSON.stringify(message);
+    } catch (error) {
+      this.onError(error);
+      return;
+    }
+    this.options.publisher
+      .publish(this.channel, encoded)
+      .catch((error: unknown) => this.onError(error));
+  }
+
+  async subscribe(handler: (message: TransportMessage) => void): Promise<void> {
+    this.options.subscriber.on('message', (channel, raw) => {
+      if (channel !== this.channel) return;
+      try {
+        handler(JSON.parse(raw) as TransportMessage);
+      } catch (error) {
+        this.onError(error);
+      }
+    });
+    await this.options.subscriber.subscribe(this.channel);
+  }
+
+  async close(): Promise<void> {
+    await this.options.subscriber.unsubscribe(this.channel);
+    await Promise.all([
+      this.options.subscriber.quit(),
+      this.options.publisher.quit(),
+    ]);
+  }
+}
@@ -15,6 +15,13 @@ export {
   type AgAction,
 } from './use-ag-action.js';
 export { useOraclesConfig } from './use-oracles-config.js';
+export {
+  useUsage,
+  type IUsageFilter,
+  type IUsageSummary,
+  type IUsageTotals,
+  type UsageSource,
+} from './use-usage/index.js';
 
 export type {
   AnyEvent,
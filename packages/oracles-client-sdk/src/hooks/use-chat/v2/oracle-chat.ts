@@ -1,6 +1,30 @@
 import { JobExecutor } from './job-executor.js';
 import { OracleChatState } from './oracle-chat-state.js';
-import { type ChatStatus, type IChatOptions, type IMessage } from './types.js';
+import {
+  type ChatStatus,
+  type IChatOptions,
+  type IComponentMetadata,
+  type IMessage,
+  type ISubagentProgress,
+  type MessageContent,
+} from './types.js';
+
+const isComponent = (content: MessageContent): content is IComponentMetadata =>
+  typeof content === 'object' && !Array.isArray(content);
+
+// Sub-agent progress arrives apart from the tool call's own status updates,
+// so keep it when the call's content is replaced
+function keepSubagentProgress(
+  previous: MessageContent,
+  next: MessageContent,
+): MessageContent {
+  if (!isComponent(previous) || !isComponent(next)) return next;
+  if (!previous.props.progress || next.props.progress) return next;
+  return {
+    ...next,
+    props: { ...next.props, progress: previous.props.progress },
+  };
+}
 
 export class OracleChat {
   readonly id: string;
@@ -143,14 +167,23 @@ export class OracleChat {
               typeof existingMessage.content === 'string' &&
               typeof message.content === 'string'
                 ? existingMessage.content + message.content
-                : message.content,
+                : keepSubagentProgress(
+                    existingMessage.content,
+                    message.content,
+                  ),
             reasoning:
               (existingMessage.reasoning || '') + (message.reasoning || ''), // Safe concatenation
             isReasoning: message.isReasoning || existingMessage.isReasoning, // Keep reasoning flag if either has it
           });
         } else {
           // Default behavior - replace entire message
-          this.#state.replaceMessage(existingIndex, message);
+          this.#state.replaceMessage(existingIndex, {
+            ...message,
+            content: keepSubagentProgress(
+              existingMessage.content,
+              message.content,
+            ),
+          });
         }
       } else {
         this.#state.pushMessage(message);
@@ -158,6 +191,32 @@ export class OracleChat {
     });
   };
 
+  // For sub-agent events - update the progress nested under the tool call
+  // message that started the sub-agent
+  updateSubagentProgress = async (
+    messageId: string,
+    updater: (progress: ISubagentProgress) => ISubagentProgress,
+  ): Promise<void> => {
+    return this.#jobExecutor.run(async () => {
+      this.#state.updateMessageById(messageId, (msg) =>
+        isComponent(msg.content)
+          ? {
+              ...msg,
+              content: {
+                ...msg.content,
+                props: {
+                  ...msg.content.props,
+                  progress: updater(
+                    msg.content.props.progress ?? { toolCalls: [] },
+                  ),
+                },
+              },
+            }
+          : msg,
+      );
+    });
+  };
+
   // Clear error state
   clearError = (): void => {
     if (this.#state.status === 'error') {
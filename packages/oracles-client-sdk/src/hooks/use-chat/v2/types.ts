@@ -34,9 +34,17 @@ export interface IComponentMetadata {
     isAgAction?: boolean;
     toolName?: string; // Original tool name (for generic ToolCall component)
     error?: string;
+    progress?: ISubagentProgress; // Sub-agent work nested under this call
   };
 }
 
+// What a sub-agent started by a tool call has done so far
+export interface ISubagentProgress {
+  toolCalls: IComponentMetadata[]; // Calls the sub-agent made, in order
+  reasoning?: string;
+  partialOutput?: string; // Reply so far; the call's `output` once done
+}
+
 // Message content can be string, array of strings/metadata, or single metadata
 export type MessageContent =
   | string
@@ -24,9 +24,20 @@ import { useWebSocketEvents } from '../../use-websocket-events/use-websocket-eve
 import { resolveContent } from '../resolve-content.js';
 import transformToMessagesMap from '../transform-to-messages-map.js';
 import { OracleChat } from './oracle-chat.js';
-import { type AnyEvent, type IChatOptions, type IMessage } from './types.js';
+import {
+  type AnyEvent,
+  type IChatOptions,
+  type IComponentMetadata,
+  type IMessage,
+} from './types.js';
 import { useSendMessage } from './use-send-message.js';
 
+/**
+ * Edited messages waiting to be sent in the session branched for them.
+ * Module-level so they survive the remount when the app switches sessions.
+ */
+const pendingEdits = new Map<string, string>();
+
 export function useChat({
   oracleDid,
   sessionId,
@@ -76,10 +87,8 @@ export function useChat({
     () => undefined,
   );
 
-  const { refetch: refetchOracleSessions } = useOracleSessions(
-    oracleDid,
-    overrides,
-  );
+  const { refetch: refetchOracleSessions, forkSession: forkOracleSession } =
+    useOracleSessions(oracleDid, overrides);
   const { config, isReady: isConfigReady } = useOraclesConfig(
     oracleDid,
     overrides,
@@ -147,9 +156,42 @@ export function useChat({
       if (!uiComponents) return;
 
       const eventId = toolCallData.eventId ?? requestId;
+      const messageId = `${requestId}-ToolCall-${eventId}`;
+
+      // A sub-agent's tool call - nest it under the call that started it
+      if (toolCallData.parentToolCallId) {
+        const nestedCall = resolveContent({
+          eventName: 'tool_call',
+          payload: toolCallData,
+        }) as IComponentMetadata;
+        await chatRef.current?.updateSubagentProgress(
+          `${requestId}-ToolCall-${toolCallData.parentToolCallId}`,
+          (progress) => ({
+            ...progress,
+            toolCalls: progress.toolCalls.some(
+              (call) => call.props.id === nestedCall.props.id,
+            )
+              ? progress.toolCalls.map((call) =>
+                  call.props.id === nestedCall.props.id ? nestedCall : call,
+                )
+              : [...progress.toolCalls, nestedCall],
+          }),
+        );
+        return;
+      }
+
+      // A running sub-agent's reply so far
+      if (toolCallData.partialOutput !== undefined) {
+        const { partialOutput } = toolCallData;
+        await chatRef.current?.updateSubagentProgress(
+          messageId,
+          (progress) => ({ ...progress, partialOutput }),
+        );
+        return;
+      }
 
       const toolCallMessage: IMessage = {
-        id: `${requestId}-ToolCall-${eventId}`,
+        id: messageId,
         type: 'ai',
         content: resolveContent({
           eventName: 'tool_call',
@@ -240,6 +282,18 @@ export function useChat({
       reasoningData: SSEReasoningEventData;
       requestId: string;
     }) => {
+      // A sub-agent's reasoning - nest it under the call that started it
+      if (reasoningData.parentToolCallId) {
+        await chatRef.current?.updateSubagentProgress(
+          `${reasoningData.requestId}-ToolCall-${reasoningData.parentToolCallId}`,
+          (progress) => ({
+            ...progress,
+            reasoning: (progress.reasoning ?? '') + reasoningData.reasoning,
+          }),
+        );
+        return;
+      }
+
       // Use consistent ID for all reasoning chunks from the same request
 
       // Create reasoning message - upsertEventMessage will handle accumulation
@@ -265,6 +319,14 @@ export function useChat({
   const handleNewEvent = useCallback(
     (event: AnyEvent) => {
       if (!uiComponents) return;
+      // Sub-agent progress is rendered from the SSE stream
+      if (
+        event.eventName === 'tool_call' &&
+        (event.payload.parentToolCallId ||
+          event.payload.partialOutput !== undefined)
+      ) {
+        return;
+      }
       // Process immediately when event arrives
       if (event.payload.sessionId === sessionId) {
         const messagePayload: IMessage = {
@@ -316,6 +378,43 @@ export function useChat({
     onReasoning: handleReasoning,
   });
 
+  /**
+   * Branch the conversation after a message. Resolves with the new session;
+   * switch `sessionId` to it to continue there.
+   */
+  const forkSession = useCallback(
+    (messageId: string) =>
+      forkOracleSession({ sessionId, messageId, edit: false }),
+    [forkOracleSession, sessionId],
+  );
+
+  /**
+   * Edit and resend a user message. Branches the conversation just before
+   * it and sends `content` once `sessionId` is switched to the new session.
+   */
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      const session = await forkOracleSession({
+        sessionId,
+        messageId,
+        edit: true,
+      });
+      pendingEdits.set(session.sessionId, content);
+      return session;
+    },
+    [forkOracleSession, sessionId],
+  );
+
+  // Send an edited message once its branched session has loaded
+  useEffect(() => {
+    const pending = pendingEdits.get(sessionId);
+    if (pending === undefined || !isConfigReady || queryStatus !== 'success') {
+      return;
+    }
+    pendingEdits.delete(sessionId);
+    void sendMessage(pending);
+  }, [sessionId, isConfigReady, queryStatus, sendMessage]);
+
   // useLiveEvents removed - all events now come through streaming
 
   // Build actionTools from registered AG-UI actions
@@ -373,6 +472,8 @@ export function useChat({
     isSending: isSending || status === 'streaming',
     sendMessage,
     abortStream,
+    forkSession,
+    editMessage,
     refetchMessages,
     sendMessageError,
     isRealTimeConnected: isWebSocketConnected,
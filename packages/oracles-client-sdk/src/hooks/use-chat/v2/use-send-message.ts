@@ -9,6 +9,7 @@ import {
   parseSSEStream,
   type SSEActionCallEventData,
   type SSEErrorEventData,
+  type SSEEvent,
   type SSEReasoningEventData,
   type SSEToolCallEventData,
 } from '../../../utils/sse-parser.js';
@@ -263,7 +264,13 @@ export function useSendMessage({
   };
 }
 
-// Stream AI responses from the oracle
+/** Consecutive reconnects without receiving an event before giving up */
+const MAX_STREAM_RECONNECT_ATTEMPTS = 5;
+
+/** First reconnect delay; doubles on each consecutive attempt */
+const STREAM_RECONNECT_BASE_DELAY_MS = 500;
+
+// Stream AI responses from the oracle, resuming after dropped connections
 const askOracleStream = async (props: {
   apiURL: string;
   message: string;
@@ -336,108 +343,181 @@ const askOracleStream = async (props: {
     throw new Error('Did not receive a request ID');
   }
 
+  // Only set when the server buffers events for replay
+  const runId = response.headers.get('X-Run-Id');
+
+  let accumulatedText = '';
+  let lastEventId: string | undefined;
+  let isDone = false;
+
+  const handleEvent = async (sseEvent: SSEEvent) => {
+    if (sseEvent.id) {
+      lastEventId = sseEvent.id;
+    }
+
+    // Type-safe event handling using discriminated unions
+    switch (sseEvent.event) {
+      case 'message':
+        await props.onMessage({ chunk: sseEvent.data.content, requestId });
+        accumulatedText += sseEvent.data.content;
+        break;
+
+      case 'tool_call':
+        if (props.onToolCall) {
+          await props.onToolCall({ toolCallData: sseEvent.data, requestId });
+        }
+        break;
+
+      case 'action_call':
+        if (props.onActionCall) {
+          await props.onActionCall({
+            actionCallData: sseEvent.data,
+            requestId,
+          });
+        } else {
+          console.warn(
+            '[useSendMessage] action_call received but onActionCall handler is missing',
+          );
+        }
+        break;
+
+      case 'error':
+        if (props.onError) {
+          await props.onError({ error: sseEvent.data, requestId });
+        }
+        break;
+
+      case 'done':
+        isDone = true;
+        props.onDone?.();
+        break;
+
+      case 'router.update':
+        // Ignore for now - future enhancement
+        break;
+
+      case 'render_component':
+        // Ignore for now - future enhancement
+        break;
+
+      case 'browser_tool_call':
+        // Ignore for now - future enhancement
+        break;
+
+      case 'message_cache_invalidation':
+        // Ignore for now - future enhancement
+        break;
+
+      case 'reasoning':
+        if (props.onReasoning) {
+          await props.onReasoning({
+            reasoningData: sseEvent.data,
+            requestId,
+          });
+        }
+        break;
+
+      default:
+        // This should never happen with proper typing, but handle gracefully
+        console.debug(
+          'Unknown SSE event:',
+          (sseEvent as unknown as { event: string }).event,
+        );
+        break;
+    }
+  };
+
   // Check if ReadableStream is supported
   if (!response.body) {
     throw new Error('ReadableStream not supported in this browser');
   }
 
-  const reader = response.body.getReader();
-  let accumulatedText = '';
+  let body: ReadableStream<Uint8Array> | null = response.body;
+  let attempt = 0;
 
-  try {
-    // Parse SSE events from the stream
-    for await (const sseEvent of parseSSEStream(reader)) {
-      // Type-safe event handling using discriminated unions
-      switch (sseEvent.event) {
-        case 'message':
-          await props.onMessage({ chunk: sseEvent.data.content, requestId });
-          accumulatedText += sseEvent.data.content;
-          break;
-
-        case 'tool_call':
-          if (props.onToolCall) {
-            await props.onToolCall({ toolCallData: sseEvent.data, requestId });
-          }
-          break;
-
-        case 'action_call':
-          if (props.onActionCall) {
-            await props.onActionCall({
-              actionCallData: sseEvent.data,
-              requestId,
-            });
-          } else {
-            console.warn(
-              '[useSendMessage] action_call received but onActionCall handler is missing',
-            );
-          }
-          break;
+  while (true) {
+    if (body) {
+      const reader = body.getReader();
 
-        case 'error':
-          if (props.onError) {
-            await props.onError({ error: sseEvent.data, requestId });
-          }
-          break;
-
-        case 'done':
-          props.onDone?.();
-          break;
-
-        case 'router.update':
-          // Ignore for now - future enhancement
-          break;
-
-        case 'render_component':
-          // Ignore for now - future enhancement
-          break;
-
-        case 'browser_tool_call':
-          // Ignore for now - future enhancement
-          break;
-
-        case 'message_cache_invalidation':
-          // Ignore for now - future enhancement
-          break;
-
-        case 'reasoning':
-          if (props.onReasoning) {
-            await props.onReasoning({
-              reasoningData: sseEvent.data,
-              requestId,
-            });
-          }
-          break;
+      try {
+        // Parse SSE events from the stream
+        for await (const sseEvent of parseSSEStream(reader)) {
+          await handleEvent(sseEvent);
+          attempt = 0;
+        }
+      } catch (error) {
+        void reader.cancel();
+
+        // Handle abort errors gracefully
+        if (isAbortError(error)) {
+          // Don't throw abort errors - they're expected when user cancels
+          return {
+            text: accumulatedText,
+            requestId,
+          };
+        }
 
-        default:
-          // This should never happen with proper typing, but handle gracefully
-          console.debug(
-            'Unknown SSE event:',
-            (sseEvent as unknown as { event: string }).event,
-          );
-          break;
+        // Without a run ID the stream cannot be resumed
+        if (!runId) {
+          throw error;
+        }
+        console.warn('[useSendMessage] Stream interrupted:', error);
       }
-    }
 
-    return {
-      text: accumulatedText,
-      requestId,
-    };
-  } catch (error) {
-    void reader.cancel();
-
-    // Handle abort errors gracefully
-    if (
-      error instanceof Error &&
-      (error.name === 'AbortError' ||
-        (error instanceof DOMException && error.name === 'AbortError'))
-    ) {
-      // Don't throw abort errors - they're expected when user cancels
-      return {
-        text: accumulatedText,
-        requestId,
-      };
+      if (isDone || !runId || props.abortSignal?.aborted) {
+        break;
+      }
     }
 
-    throw error;
+    // Connection dropped before `done` - resume from the last event received
+    if (attempt >= MAX_STREAM_RECONNECT_ATTEMPTS) {
+      throw new Error('Lost connection to the oracle while streaming');
+    }
+    await wait(STREAM_RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    attempt++;
+
+    try {
+      const resumed = await fetch(
+        `${props.apiURL}/messages/${props.sessionId}/runs/${runId}/stream`,
+        {
+          headers: {
+            'x-ucan-delegation': props.delegation,
+            ...(lastEventId && { 'Last-Event-ID': lastEventId }),
+          },
+          method: 'GET',
+          signal: props.abortSignal,
+        },
+      );
+      // Run expired - the final answer is picked up from the message history
+      if (resumed.status === 404) {
+        break;
+      }
+      body = resumed.ok ? resumed.body : null;
+    } catch (error) {
+      if (isAbortError(error)) {
+        return {
+          text: accumulatedText,
+          requestId,
+        };
+      }
+      body = null;
+    }
   }
+
+  return {
+    text: accumulatedText,
+    requestId,
+  };
 };
+
+function isAbortError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.name === 'AbortError' ||
+      (error instanceof DOMException && error.name === 'AbortError'))
+  );
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
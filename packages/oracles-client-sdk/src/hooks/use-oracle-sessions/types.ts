@@ -6,3 +6,17 @@ export interface IChatSession {
   oracleName: string;
   roomId?: string;
 }
+
+export interface IForkSessionParams {
+  /** Session to branch from */
+  sessionId: string;
+  /** Message to branch from, as returned in the session's messages */
+  messageId: string;
+  /** Branch just before this user message so an edited version can be sent */
+  edit?: boolean;
+  /**
+   * Edited version of the message, stored in the new session without
+   * running the agent. Requires `edit`.
+   */
+  message?: string;
+}
@@ -7,7 +7,7 @@ import {
 import { useMemo } from 'react';
 import { useOraclesContext } from '../../providers/oracles-provider/oracles-context.js';
 import { useOraclesConfig } from '../use-oracles-config.js';
-import { type IChatSession } from './types.js';
+import { type IChatSession, type IForkSessionParams } from './types.js';
 
 export interface UseOracleSessionsOptions {
   baseUrl?: string;
@@ -121,6 +121,29 @@ export const useOracleSessions = (
     },
   });
 
+  const {
+    mutateAsync: forkSession,
+    isPending: isForkingSession,
+    isError: isForkSessionError,
+  } = useMutation({
+    mutationFn: ({ sessionId, ...body }: IForkSessionParams) =>
+      authedRequest<IChatSession>(
+        `${apiUrl}/sessions/${sessionId}/fork`,
+        'POST',
+        {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        },
+        oracleDid,
+      ),
+    onSettled: async () => {
+      // Invalidate and refetch to get the branched session
+      await queryClient.invalidateQueries({
+        queryKey: ['oracle-sessions', oracleDid],
+      });
+    },
+  });
+
   return {
     sessions,
     total,
@@ -137,6 +160,9 @@ export const useOracleSessions = (
     deleteSession,
     isDeletingSession,
     isDeleteSessionError,
+    forkSession,
+    isForkingSession,
+    isForkSessionError,
     refetch,
     isConfigReady,
   };
@@ -0,0 +1,36 @@
+/** What a charged model call was made for */
+export type UsageSource =
+  | 'agent'
+  | 'sub-agent'
+  | 'file-processing'
+  | 'session-title'
+  | 'memory-engine'
+  | 'call-summary';
+
+export interface IUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD cost including markup */
+  costUsd: number;
+  credits: number;
+}
+
+export interface IUsageSummary {
+  totals: IUsageTotals;
+  /** Ordered by credits spent; `sessionId` is null outside a session */
+  bySession: Array<IUsageTotals & { sessionId: string | null }>;
+  /** UTC days (`YYYY-MM-DD`), newest first */
+  byDay: Array<IUsageTotals & { day: string }>;
+  /** Ordered by credits spent; `model` is null when none was reported */
+  byModel: Array<IUsageTotals & { model: string | null }>;
+  bySource: Array<IUsageTotals & { source: UsageSource }>;
+}
+
+export interface IUsageFilter {
+  /** ISO date or timestamp, inclusive */
+  from?: string;
+  /** ISO date or timestamp, exclusive */
+  to?: string;
+  sessionId?: string;
+}
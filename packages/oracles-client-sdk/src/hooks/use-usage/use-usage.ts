@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { useOraclesContext } from '../../providers/oracles-provider/oracles-context.js';
+import { useOraclesConfig } from '../use-oracles-config.js';
+import { type IUsageFilter, type IUsageSummary } from './types.js';
+
+export interface UseUsageOptions extends IUsageFilter {
+  baseUrl?: string;
+}
+
+/** Spending breakdown of the user's credits on an oracle */
+export const useUsage = (oracleDid: string, overrides?: UseUsageOptions) => {
+  const { authedRequest } = useOraclesContext();
+
+  const { config, isReady: isConfigReady } = useOraclesConfig(
+    oracleDid,
+    overrides,
+  );
+
+  const apiUrl = overrides?.baseUrl ?? config.apiUrl ?? '';
+  const { from, to, sessionId } = overrides ?? {};
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['oracle-usage', oracleDid, from, to, sessionId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (sessionId) params.set('sessionId', sessionId);
+      const query = params.toString();
+      return authedRequest<IUsageSummary>(
+        `${apiUrl}/usage${query ? `?${query}` : ''}`,
+        'GET',
+        {},
+        oracleDid,
+      );
+    },
+    enabled: Boolean(apiUrl),
+    retry: false,
+  });
+
+  return {
+    usage: data,
+    isLoading,
+    error,
+    refetch,
+    isConfigReady,
+  };
+};
@@ -13,6 +13,12 @@ import {
 } from './types.js';
 import { executeToolAndEmitResult } from './tool-executor.js';
 
+/** Reconnect attempts after the server rejects or drops the socket for auth */
+const MAX_AUTH_RETRIES = 5;
+
+/** First auth reconnect delay; doubles on each attempt */
+const AUTH_RETRY_BASE_DELAY_MS = 2000;
+
 export function useWebSocketEvents(
   props: IWebSocketConfig,
 ): IUseWebSocketEventsReturn {
@@ -57,30 +63,55 @@ export function useWebSocketEvents(
     setConnectionStatus('connecting');
     setError(null);
 
-    // Get cached UCAN delegation for this oracle (sync — already in localStorage)
-    const delegation = getCachedDelegation(wallet.did, props.oracleDid);
-
-    // Create WebSocket connection
+    // Create WebSocket connection. The auth callback runs on every
+    // (re)connect, so a refreshed UCAN delegation is picked up automatically.
     const newSocket = io(apiUrl, {
       query: { sessionId, userDid: wallet.did },
-      auth: { ucanDelegation: delegation ?? undefined },
+      auth: (cb) => {
+        // Cached UCAN delegation for this oracle (sync — already in localStorage)
+        const delegation = getCachedDelegation(wallet.did, props.oracleDid);
+        cb({ ucanDelegation: delegation ?? undefined });
+      },
       transports: ['websocket'],
     });
 
+    // The server rejects handshakes without valid credentials and drops
+    // sockets whose credentials expire. Socket.IO does not retry either case
+    // on its own, so reconnect with backoff once a delegation may be available.
+    let authRetries = 0;
+    let authRetryTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleAuthRetry = () => {
+      if (authRetries >= MAX_AUTH_RETRIES || authRetryTimer) return;
+      const delay = AUTH_RETRY_BASE_DELAY_MS * 2 ** authRetries;
+      authRetries++;
+      authRetryTimer = setTimeout(() => {
+        authRetryTimer = undefined;
+        newSocket.connect();
+      }, delay);
+    };
+
     socketRef.current = newSocket;
 
     // Connection event handlers
     newSocket.on('connect', () => {
+      authRetries = 0;
       setIsConnected(true);
       setConnectionStatus('connected');
       setLastActivity(new Date().toISOString());
       setError(null);
     });
 
-    newSocket.on('disconnect', () => {
+    newSocket.on('disconnect', (reason) => {
       setIsConnected(false);
       setConnectionStatus('disconnected');
       setLastActivity(new Date().toISOString());
+      if (reason === 'io server disconnect') {
+        scheduleAuthRetry();
+      }
+    });
+
+    newSocket.on('auth_expired', (data: { reason: string }) => {
+      console.warn('[useWebSocketEvents] Credentials expired:', data.reason);
     });
 
     newSocket.on('connect_error', (err) => {
@@ -88,6 +119,10 @@ export function useWebSocketEvents(
       setConnectionStatus('error');
       setError(err);
       setLastActivity(new Date().toISOString());
+      // `active` is false when the server rejected the handshake
+      if (!newSocket.active) {
+        scheduleAuthRetry();
+      }
     });
 
     const handleEvent = (event: AllEvents) => {
@@ -221,6 +256,7 @@ export function useWebSocketEvents(
 
     // Cleanup on unmount
     return () => {
+      clearTimeout(authRetryTimer);
       newSocket.disconnect();
       socketRef.current = null;
       setIsConnected(false);
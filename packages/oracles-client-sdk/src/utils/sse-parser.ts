@@ -8,6 +8,8 @@
 export interface BaseSSEEvent<TEvent extends string, TData> {
   event: TEvent;
   data: TData;
+  /** Event ID from the `id:` line, used as `Last-Event-ID` when resuming */
+  id?: string;
 }
 
 // Individual event data types
@@ -24,6 +26,10 @@ export interface SSEToolCallEventData {
   status: 'isRunning' | 'done';
   output?: string;
   eventId?: string;
+  /** Set on calls a sub-agent makes: the tool call that started it */
+  parentToolCallId?: string;
+  /** Reply so far while the call is running, e.g. a sub-agent's answer */
+  partialOutput?: string;
 }
 
 export interface SSEErrorEventData {
@@ -99,6 +105,8 @@ export interface SSEReasoningEventData {
   isComplete?: boolean;
   timestamp?: string;
   eventId?: string;
+  /** Set when a sub-agent is reasoning: the tool call that started it */
+  parentToolCallId?: string;
 }
 
 // Type-safe SSE events using discriminated unions
@@ -186,6 +194,7 @@ export async function* parseSSEStream(
 
       let event = '';
       let data = '';
+      let id: string | undefined;
 
       // Process complete lines
       for (const line of lines) {
@@ -199,7 +208,7 @@ export async function* parseSSEStream(
               const parsedData = JSON.parse(data);
               // Type-safe event creation with fallback for unknown events
               if (isValidSSEEventType(event)) {
-                yield { event, data: parsedData };
+                yield { event, data: parsedData, id };
               } else {
                 continue;
               }
@@ -208,6 +217,7 @@ export async function* parseSSEStream(
             }
             event = '';
             data = '';
+            id = undefined;
           }
           continue;
         }
@@ -216,6 +226,8 @@ export async function* parseSSEStream(
           event = trimmedLine.slice(6).trim();
         } else if (trimmedLine.startsWith('data:')) {
           data = trimmedLine.slice(5).trim();
+        } else if (trimmedLine.startsWith('id:')) {
+          id = trimmedLine.slice(3).trim();
         }
       }
     }
@@ -225,6 +237,7 @@ export async function* parseSSEStream(
       const lines = buffer.split('\n');
       let event = '';
       let data = '';
+      let id: string | undefined;
 
       for (const line of lines) {
         const trimmedLine = line.trim();
@@ -232,6 +245,8 @@ export async function* parseSSEStream(
           event = trimmedLine.slice(6).trim();
         } else if (trimmedLine.startsWith('data:')) {
           data = trimmedLine.slice(5).trim();
+        } else if (trimmedLine.startsWith('id:')) {
+          id = trimmedLine.slice(3).trim();
         }
       }
 
@@ -240,7 +255,7 @@ export async function* parseSSEStream(
           const parsedData = JSON.parse(data);
           // Type-safe event creation with fallback for unknown events
           if (isValidSSEEventType(event)) {
-            yield { event, data: parsedData };
+            yield { event, data: parsedData, id };
           }
         } catch (parseError) {
           console.warn('Failed to parse final SSE data:', data, parseError);
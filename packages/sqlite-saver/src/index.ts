@@ -6,10 +6,12 @@ import {
   type CheckpointMetadata,
   type CheckpointTuple,
   copyCheckpoint,
+  emptyCheckpoint,
   maxChannelVersion,
   type PendingWrite,
   type SerializerProtocol,
   TASKS,
+  uuid6,
 } from '@langchain/langgraph-checkpoint';
 import Database, {
   type Database as DatabaseType,
@@ -17,6 +19,7 @@ import Database, {
 } from 'better-sqlite3';
 import { type BaseMessage } from 'langchain';
 import migration001 from './migrations/001_add_created_at_to_messages';
+import migration002 from './migrations/002_add_messages_fts';
 import { Logger } from '@ixo/logger';
 import {
   _default,
@@ -72,6 +75,57 @@ interface PendingSendColumn {
   value: string;
 }
 
+export interface MessageSearchResult {
+  threadId: string;
+  messageId: string;
+  messageType: string;
+  /** Matching excerpt with the matched terms wrapped in `**` */
+  snippet: string;
+  createdAt: string;
+  /** bm25 score — lower is a better match */
+  rank: number;
+}
+
+export interface MessageSearchOptions {
+  /** Default 20 */
+  limit?: number;
+  /** Restrict the search to these threads */
+  threadIds?: string[];
+  /** Message types to match. Default: human and ai messages */
+  messageTypes?: string[];
+}
+
+export interface RetentionPolicy {
+  /** Newest checkpoints kept per thread and namespace (at least 1) */
+  keepCheckpoints: number;
+  /**
+   * Pending writes of kept checkpoints older than this are dropped. A
+   * thread's latest checkpoint and its parent always keep their writes,
+   * since resuming a run needs them.
+   */
+  maxWriteAgeMs?: number;
+}
+
+export interface RetentionResult {
+  checkpointsDeleted: number;
+  writesDeleted: number;
+}
+
+/**
+ * Turn free text into an FTS5 query that matches every word, treating the
+ * last word as a prefix. FTS5 operators and punctuation in the input are
+ * ignored, so user text can't produce a syntax error.
+ *
+ * @returns null when the text contains no searchable words
+ */
+export function toFtsQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return null;
+  return words
+    .map((word, i) => `"${word}"${i === words.length - 1 ? '*' : ''}`)
+    .join(' ');
+}
+
 interface Migration {
   version: number;
   name: string;
@@ -173,6 +227,12 @@ export class SqliteSaver extends BaseCheckpointSaver {
 
   protected getMessageStmt: Statement;
 
+  protected getIndexedMessageStmt: Statement;
+
+  protected indexMessageStmt: Statement;
+
+  protected unindexMessageStmt: Statement;
+
   protected deleteWritesStmt: Statement;
 
   constructor(db: DatabaseType, serde?: SerializerProtocol) {
@@ -247,8 +307,8 @@ export class SqliteSaver extends BaseCheckpointSaver {
   protected loadMigrations(): Migration[] {
     const migrations: Migration[] = [
       migration001,
+      migration002,
       // Add future migrations here:
-      // migration002,
       // migration003,
     ];
 
@@ -403,6 +463,18 @@ ON writes(thread_id, checkpoint_id, channel);
       `SELECT * FROM messages WHERE thread_id = ? AND checkpoint_ns = ? AND checkpoint_id = ?`,
     );
 
+    // messages_fts is external-content: removing an entry needs the exact
+    // content that was indexed, so it's read back before a message is replaced
+    this.getIndexedMessageStmt = this.db.prepare(
+      `SELECT rowid, message_content FROM messages WHERE message_id = ?`,
+    );
+    this.indexMessageStmt = this.db.prepare(
+      `INSERT INTO messages_fts (rowid, message_content) VALUES (?, ?)`,
+    );
+    this.unindexMessageStmt = this.db.prepare(
+      `INSERT INTO messages_fts (messages_fts, rowid, message_content) VALUES ('delete', ?, ?)`,
+    );
+
     this.isSetup = true;
   }
 
@@ -678,9 +750,27 @@ ON writes(thread_id, checkpoint_id, channel);
 
   async put(
     config: RunnableConfig,
-    _checkpoint: Checkpoint,
+    checkpoint: Checkpoint,
     metadata: CheckpointMetadata,
   ): Promise<RunnableConfig> {
+    const { config: saved, write } = await this.prepareCheckpointWrite(
+      config,
+      checkpoint,
+      metadata,
+    );
+    this.db.transaction(write)();
+    return saved;
+  }
+
+  /**
+   * Serialize a checkpoint for `put`. The returned `write` stores it
+   * synchronously, so callers can run it in a transaction with other writes.
+   */
+  protected async prepareCheckpointWrite(
+    config: RunnableConfig,
+    _checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<{ config: RunnableConfig; write: () => void }> {
     this.setup();
 
     if (!config.configurable) {
@@ -720,7 +810,7 @@ ON writes(thread_id, checkpoint_id, channel);
       serializedMetadata,
     ];
 
-    const transaction = this.db.transaction(() => {
+    const write = () => {
       this.putCheckpointStmt.run(...row);
       if (messages) {
         for (const message of messages) {
@@ -766,7 +856,16 @@ ON writes(thread_id, checkpoint_id, channel);
               new Date().toISOString(),
           };
 
-          this.putMessageStmt.run(
+          // INSERT OR REPLACE gives the row a new rowid, so the index entry
+          // is always moved along with it
+          const indexed = this.getIndexedMessageStmt.get(
+            messageRow.message_id,
+          ) as { rowid: number; message_content: string } | undefined;
+          if (indexed) {
+            this.unindexMessageStmt.run(indexed.rowid, indexed.message_content);
+          }
+
+          const { lastInsertRowid } = this.putMessageStmt.run(
             messageRow.thread_id,
             messageRow.checkpoint_ns,
             messageRow.checkpoint_id,
@@ -776,17 +875,23 @@ ON writes(thread_id, checkpoint_id, channel);
             messageRow.message,
             messageRow.created_at,
           );
+          this.indexMessageStmt.run(
+            lastInsertRowid,
+            messageRow.message_content,
+          );
         }
       }
-    });
-    transaction();
+    };
 
     return {
-      configurable: {
-        thread_id,
-        checkpoint_ns,
-        checkpoint_id: checkpoint.id,
+      config: {
+        configurable: {
+          thread_id,
+          checkpoint_ns,
+          checkpoint_id: checkpoint.id,
+        },
       },
+      write,
     };
   }
 
@@ -856,6 +961,238 @@ ON writes(thread_id, checkpoint_id, channel);
     transaction(rows);
   }
 
+  /**
+   * Append messages to a thread outside of a graph run (e.g. an imported
+   * call transcript). Writes a new checkpoint on top of the latest one and
+   * bumps the `messages` channel version, the same way a manual state update
+   * would. Pending writes of the previous checkpoint are not carried over, so
+   * don't call this while a run is in progress on the thread.
+   *
+   * @param metadata - Extra metadata stored on the new checkpoint
+   * @returns The config of the new checkpoint
+   */
+  async appendMessages(
+    threadId: string,
+    messages: BaseMessage[],
+    metadata: Record<string, unknown> = {},
+  ): Promise<RunnableConfig> {
+    const latest = await this.getTuple({
+      configurable: { thread_id: threadId },
+    });
+    const existing =
+      (latest?.checkpoint.channel_values.messages as
+        | BaseMessage[]
+        | undefined) ?? [];
+    return this.putMessagesCheckpoint(
+      threadId,
+      latest,
+      [...existing, ...messages],
+      { ...metadata, source: 'update' },
+    );
+  }
+
+  /**
+   * Start a new thread from a checkpoint of another one. The checkpoint and
+   * its ancestors are copied to the new thread (without pending writes), and
+   * a `fork` checkpoint on top of them holds the fork's messages.
+   *
+   * Message IDs are unique across threads, so the fork's messages are given
+   * new IDs — pass objects that aren't shared with a live graph state.
+   *
+   * @param options.checkpointId - Fork from this checkpoint (default: latest)
+   * @param options.messages - Messages for the fork (default: the checkpoint's)
+   * @returns The config of the fork's head checkpoint
+   */
+  async forkThread(
+    sourceThreadId: string,
+    targetThreadId: string,
+    options: {
+      checkpointId?: string;
+      messages?: BaseMessage[];
+      metadata?: Record<string, unknown>;
+    } = {},
+  ): Promise<RunnableConfig> {
+    const source = await this.getTuple({
+      configurable: {
+        thread_id: sourceThreadId,
+        checkpoint_ns: '',
+        checkpoint_id: options.checkpointId,
+      },
+    });
+    if (!source) {
+      throw new Error(
+        `Checkpoint ${options.checkpointId ?? '(latest)'} not found in thread ${sourceThreadId}`,
+      );
+    }
+    const sourceCheckpointId = source.config.configurable?.checkpoint_id;
+    const messages =
+      options.messages ??
+      (source.checkpoint.channel_values.messages as
+        | BaseMessage[]
+        | undefined) ??
+      [];
+    for (const message of messages) {
+      const id = uuid6(-1);
+      message.id = id;
+      message.lc_kwargs.id = id;
+    }
+
+    const { config: head, write } = await this.prepareCheckpointWrite(
+      ...this.messagesCheckpoint(targetThreadId, source, messages, {
+        ...options.metadata,
+        source: 'fork',
+        forked_from: {
+          thread_id: sourceThreadId,
+          checkpoint_id: sourceCheckpointId,
+        },
+      }),
+    );
+
+    // All or nothing: a failed fork leaves no partial lineage behind
+    this.db.transaction(() => {
+      const existing = this.db
+        .prepare('SELECT 1 FROM checkpoints WHERE thread_id = ? LIMIT 1')
+        .get(targetThreadId);
+      if (existing) {
+        throw new Error(`Thread ${targetThreadId} already has checkpoints`);
+      }
+
+      this.db
+        .prepare(
+          `
+          WITH RECURSIVE lineage(checkpoint_id) AS (
+            SELECT ?
+            UNION
+            SELECT c.parent_checkpoint_id
+            FROM checkpoints c
+            JOIN lineage l ON c.checkpoint_id = l.checkpoint_id
+            WHERE c.thread_id = ? AND c.checkpoint_ns = ''
+              AND c.parent_checkpoint_id IS NOT NULL
+          )
+          INSERT INTO checkpoints (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata)
+          SELECT ?, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata
+          FROM checkpoints
+          WHERE thread_id = ? AND checkpoint_ns = ''
+            AND checkpoint_id IN (SELECT checkpoint_id FROM lineage)`,
+        )
+        .run(
+          sourceCheckpointId,
+          sourceThreadId,
+          targetThreadId,
+          sourceThreadId,
+        );
+      write();
+    })();
+
+    return head;
+  }
+
+  /**
+   * Write a checkpoint holding `messages` on top of `parent` (or an empty
+   * checkpoint), bumping the `messages` channel version.
+   */
+  protected async putMessagesCheckpoint(
+    threadId: string,
+    parent: CheckpointTuple | undefined,
+    messages: BaseMessage[],
+    metadata: Record<string, unknown> & {
+      source: CheckpointMetadata['source'];
+    },
+  ): Promise<RunnableConfig> {
+    return this.put(
+      ...this.messagesCheckpoint(threadId, parent, messages, metadata),
+    );
+  }
+
+  /** The `put` arguments for `putMessagesCheckpoint` */
+  protected messagesCheckpoint(
+    threadId: string,
+    parent: CheckpointTuple | undefined,
+    messages: BaseMessage[],
+    metadata: Record<string, unknown> & {
+      source: CheckpointMetadata['source'];
+    },
+  ): [RunnableConfig, Checkpoint, CheckpointMetadata] {
+    const checkpoint = parent
+      ? copyCheckpoint(parent.checkpoint)
+      : emptyCheckpoint();
+    const versions = Object.values(checkpoint.channel_versions);
+
+    checkpoint.id = uuid6(-1);
+    checkpoint.ts = new Date().toISOString();
+    checkpoint.channel_values.messages = messages;
+    checkpoint.channel_versions.messages = this.getNextVersion(
+      versions.length > 0
+        ? (maxChannelVersion(...versions) as number)
+        : undefined,
+    );
+
+    return [
+      {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: '',
+          checkpoint_id: parent?.config.configurable?.checkpoint_id,
+        },
+      },
+      checkpoint,
+      {
+        ...metadata,
+        step: (parent?.metadata?.step ?? -1) + 1,
+        parents: {},
+      },
+    ];
+  }
+
+  /**
+   * Full-text search over stored messages, best matches first. Messages are
+   * indexed when a checkpoint is `put` — pending writes become searchable
+   * once their step is checkpointed.
+   *
+   * Messages dropped from a thread's state (e.g. by summarization) stay
+   * searchable, so older parts of long conversations can still be found.
+   */
+  searchMessages(
+    query: string,
+    options: MessageSearchOptions = {},
+  ): MessageSearchResult[] {
+    this.setup();
+
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const messageTypes = options.messageTypes ?? ['human', 'ai'];
+    const threadIds = options.threadIds;
+    if (threadIds?.length === 0) return [];
+
+    const placeholders = (values: unknown[]) =>
+      values.map(() => '?').join(', ');
+    const sql = `
+      SELECT
+        m.thread_id AS threadId,
+        m.message_id AS messageId,
+        m.message_type AS messageType,
+        m.created_at AS createdAt,
+        snippet(messages_fts, 0, '**', '**', '…', 16) AS snippet,
+        bm25(messages_fts) AS rank
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      WHERE messages_fts MATCH ?
+        AND m.message_type IN (${placeholders(messageTypes)})
+        ${threadIds ? `AND m.thread_id IN (${placeholders(threadIds)})` : ''}
+      ORDER BY rank
+      LIMIT ?`;
+
+    return this.db
+      .prepare(sql)
+      .all(
+        match,
+        ...messageTypes,
+        ...(threadIds ?? []),
+        options.limit ?? 20,
+      ) as MessageSearchResult[];
+  }
+
   async deleteThread(threadId: string) {
     const transaction = this.db.transaction(() => {
       this.deleteCheckpointsStmt.run(threadId);
@@ -865,6 +1202,107 @@ ON writes(thread_id, checkpoint_id, channel);
     transaction();
   }
 
+  /**
+   * Apply a retention policy to every thread. Rows in `messages` are never
+   * deleted, so message history and search are unaffected; `getTuple` and
+   * `list` keep working for the checkpoints that remain (the oldest kept
+   * checkpoint may point to a parent that no longer exists).
+   *
+   * Deleted rows leave free pages behind — run `VACUUM` to shrink the file.
+   */
+  pruneCheckpoints(policy: RetentionPolicy): RetentionResult {
+    this.setup();
+    const keep = Math.max(1, Math.floor(policy.keepCheckpoints));
+
+    const prune = this.db.transaction((): RetentionResult => {
+      this.db.exec(`
+        CREATE TEMP TABLE IF NOT EXISTS pruned_checkpoints (
+          thread_id TEXT NOT NULL,
+          checkpoint_ns TEXT NOT NULL,
+          checkpoint_id TEXT NOT NULL
+        );
+        DELETE FROM temp.pruned_checkpoints;
+      `);
+      this.db
+        .prepare(
+          `
+          INSERT INTO temp.pruned_checkpoints
+          SELECT thread_id, checkpoint_ns, checkpoint_id FROM (
+            SELECT thread_id, checkpoint_ns, checkpoint_id,
+              ROW_NUMBER() OVER (
+                PARTITION BY thread_id, checkpoint_ns
+                ORDER BY checkpoint_id DESC
+              ) AS position
+            FROM checkpoints
+          )
+          WHERE position > ?`,
+        )
+        .run(keep);
+
+      let writesDeleted = this.db
+        .prepare(
+          `
+          DELETE FROM writes
+          WHERE (thread_id, checkpoint_ns, checkpoint_id) IN (
+            SELECT thread_id, checkpoint_ns, checkpoint_id
+            FROM temp.pruned_checkpoints
+          )`,
+        )
+        .run().changes;
+      const checkpointsDeleted = this.db
+        .prepare(
+          `
+          DELETE FROM checkpoints
+          WHERE (thread_id, checkpoint_ns, checkpoint_id) IN (
+            SELECT thread_id, checkpoint_ns, checkpoint_id
+            FROM temp.pruned_checkpoints
+          )`,
+        )
+        .run().changes;
+      this.db.exec('DELETE FROM temp.pruned_checkpoints');
+
+      if (policy.maxWriteAgeMs !== undefined) {
+        const cutoff = new Date(
+          Date.now() - policy.maxWriteAgeMs,
+        ).toISOString();
+        // Only JSON-serialized checkpoints expose their timestamp to SQL;
+        // writes of other checkpoints are left alone
+        writesDeleted += this.db
+          .prepare(
+            `
+            WITH latest AS (
+              SELECT c.thread_id, c.checkpoint_ns, c.checkpoint_id, c.parent_checkpoint_id
+              FROM checkpoints c
+              WHERE c.checkpoint_id = (
+                SELECT MAX(checkpoint_id) FROM checkpoints
+                WHERE thread_id = c.thread_id AND checkpoint_ns = c.checkpoint_ns
+              )
+            ),
+            expired AS (
+              SELECT c.thread_id, c.checkpoint_ns, c.checkpoint_id
+              FROM checkpoints c
+              WHERE c.type = 'json'
+                AND json_valid(CAST(c.checkpoint AS TEXT))
+                AND json_extract(CAST(c.checkpoint AS TEXT), '$.ts') < ?
+                AND NOT EXISTS (
+                  SELECT 1 FROM latest l
+                  WHERE l.thread_id = c.thread_id
+                    AND l.checkpoint_ns = c.checkpoint_ns
+                    AND c.checkpoint_id IN (l.checkpoint_id, l.parent_checkpoint_id)
+                )
+            )
+            DELETE FROM writes
+            WHERE (thread_id, checkpoint_ns, checkpoint_id) IN (SELECT * FROM expired)`,
+          )
+          .run(cutoff).changes;
+      }
+
+      return { checkpointsDeleted, writesDeleted };
+    });
+
+    return prune();
+  }
+
   protected async migratePendingSends(
     checkpoint: Checkpoint,
     threadId: string,
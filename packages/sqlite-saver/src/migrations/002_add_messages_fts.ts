@@ -0,0 +1,24 @@
+import { type Database as DatabaseType } from 'better-sqlite3';
+
+/**
+ * Migration 002: Add a full-text index over message content
+ *
+ * `messages_fts` is an external-content FTS5 table — it stores only the
+ * index and reads content from `messages` by rowid, so it can always be
+ * rebuilt from the messages table. Existing messages are indexed here;
+ * `put` keeps the index in sync afterwards.
+ */
+export default {
+  version: 2,
+  name: 'add_messages_fts',
+  up: (db: DatabaseType) => {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        message_content,
+        content='messages',
+        tokenize='porter unicode61 remove_diacritics 2'
+      );
+    `);
+    db.exec(`INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');`);
+  },
+};
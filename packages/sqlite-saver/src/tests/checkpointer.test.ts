@@ -6,7 +6,9 @@ import {
   TASKS,
   uuid6,
 } from '@langchain/langgraph-checkpoint';
-import { SqliteSaver } from '../index';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import Database from 'better-sqlite3';
+import { SqliteSaver, toFtsQuery } from '../index';
 
 const checkpoint1: Checkpoint = {
   v: 1,
@@ -625,4 +627,274 @@ describe('SqliteSaver', () => {
     ]);
     expect(checkpoint1Tuple?.checkpoint.channel_versions[TASKS]).toBeDefined();
   });
+
+  it('should append messages on top of the latest checkpoint', async () => {
+    const saver = SqliteSaver.fromConnString(':memory:');
+
+    const first = await saver.appendMessages('thread-1', [
+      new HumanMessage({ id: 'msg-1', content: 'Hello' }),
+    ]);
+    const second = await saver.appendMessages(
+      'thread-1',
+      [new AIMessage({ id: 'msg-2', content: 'Hi there' })],
+      { callId: 'call-1' },
+    );
+
+    const tuple = await saver.getTuple({
+      configurable: { thread_id: 'thread-1' },
+    });
+    expect(tuple?.config.configurable?.checkpoint_id).toBe(
+      second.configurable?.checkpoint_id,
+    );
+    expect(tuple?.parentConfig?.configurable?.checkpoint_id).toBe(
+      first.configurable?.checkpoint_id,
+    );
+    expect(
+      (tuple?.checkpoint.channel_values.messages as AIMessage[]).map(
+        (m) => m.content,
+      ),
+    ).toEqual(['Hello', 'Hi there']);
+    expect(tuple?.checkpoint.channel_versions.messages).toBe(2);
+    expect(tuple?.metadata).toMatchObject({
+      source: 'update',
+      step: 1,
+      callId: 'call-1',
+    });
+  });
+
+  it('should keep the timestamp and call ID of stored messages', async () => {
+    const db = new Database(':memory:');
+    const saver = SqliteSaver.fromDatabase(db);
+
+    await saver.appendMessages('thread-1', [
+      new HumanMessage({
+        id: 'msg-1',
+        content: 'Hello',
+        additional_kwargs: {
+          timestamp: '2024-01-01T10:00:00.000Z',
+          callId: 'call-1',
+        },
+      }),
+      new AIMessage({ id: 'msg-2', content: 'Hi there' }),
+    ]);
+
+    const storedKwargs = (id: string) => {
+      const row = db
+        .prepare('SELECT message FROM messages WHERE message_id = ?')
+        .get(id) as { message: Buffer };
+      return JSON.parse(row.message.toString('utf-8')).kwargs
+        .additional_kwargs as Record<string, unknown>;
+    };
+    expect(storedKwargs('msg-1')).toMatchObject({
+      timestamp: '2024-01-01T10:00:00.000Z',
+      callId: 'call-1',
+    });
+    expect(storedKwargs('msg-2').timestamp).toEqual(expect.any(String));
+    expect(storedKwargs('msg-2').timestamp).not.toBe(
+      '2024-01-01T10:00:00.000Z',
+    );
+    expect(storedKwargs('msg-2')).not.toHaveProperty('callId');
+  });
+
+  it('should fork a thread with its lineage and new message IDs', async () => {
+    const saver = SqliteSaver.fromConnString(':memory:');
+
+    const first = await saver.appendMessages('thread-1', [
+      new HumanMessage({ id: 'msg-1', content: 'Hello' }),
+    ]);
+    const second = await saver.appendMessages('thread-1', [
+      new AIMessage({ id: 'msg-2', content: 'Hi there' }),
+    ]);
+
+    const source = await saver.getTuple({
+      configurable: { thread_id: 'thread-1' },
+    });
+    const kept = (
+      source?.checkpoint.channel_values.messages as AIMessage[]
+    ).slice(0, 1);
+    const fork = await saver.forkThread('thread-1', 'thread-2', {
+      messages: kept,
+    });
+
+    const forked = await saver.getTuple({
+      configurable: { thread_id: 'thread-2' },
+    });
+    expect(forked?.config.configurable?.checkpoint_id).toBe(
+      fork.configurable?.checkpoint_id,
+    );
+    expect(forked?.parentConfig?.configurable?.checkpoint_id).toBe(
+      second.configurable?.checkpoint_id,
+    );
+    const messages = forked?.checkpoint.channel_values
+      .messages as HumanMessage[];
+    expect(messages.map((m) => m.content)).toEqual(['Hello']);
+    expect(messages[0].id).not.toBe('msg-1');
+    expect(forked?.metadata).toMatchObject({
+      source: 'fork',
+      step: 2,
+      forked_from: {
+        thread_id: 'thread-1',
+        checkpoint_id: second.configurable?.checkpoint_id,
+      },
+    });
+
+    const lineage: string[] = [];
+    for await (const tuple of saver.list({
+      configurable: { thread_id: 'thread-2' },
+    })) {
+      lineage.push(tuple.config.configurable?.checkpoint_id);
+    }
+    expect(lineage).toEqual([
+      fork.configurable?.checkpoint_id,
+      second.configurable?.checkpoint_id,
+      first.configurable?.checkpoint_id,
+    ]);
+
+    // The source thread keeps its messages
+    const after = await saver.getTuple({
+      configurable: { thread_id: 'thread-1' },
+    });
+    expect(
+      (after?.checkpoint.channel_values.messages as AIMessage[]).map(
+        (m) => m.id,
+      ),
+    ).toEqual(['msg-1', 'msg-2']);
+
+    await expect(saver.forkThread('thread-1', 'thread-2')).rejects.toThrow(
+      /already has checkpoints/,
+    );
+    await expect(saver.forkThread('missing', 'thread-3')).rejects.toThrow(
+      /not found/,
+    );
+  });
+
+  it('should leave no trace of a fork that fails', async () => {
+    class FailingSaver extends SqliteSaver {
+      protected override async prepareCheckpointWrite(
+        ...args: Parameters<SqliteSaver['put']>
+      ) {
+        const prepared = await super.prepareCheckpointWrite(...args);
+        return {
+          ...prepared,
+          write: () => {
+            throw new Error('disk full');
+          },
+        };
+      }
+    }
+    const db = new Database(':memory:');
+    await SqliteSaver.fromDatabase(db).appendMessages('thread-1', [
+      new HumanMessage({ id: 'msg-1', content: 'Hello' }),
+    ]);
+
+    await expect(
+      new FailingSaver(db).forkThread('thread-1', 'thread-2'),
+    ).rejects.toThrow('disk full');
+
+    const saver = SqliteSaver.fromDatabase(db);
+    expect(
+      await saver.getTuple({ configurable: { thread_id: 'thread-2' } }),
+    ).toBeUndefined();
+    await expect(saver.forkThread('thread-1', 'thread-2')).resolves.toEqual(
+      expect.objectContaining({
+        configurable: expect.objectContaining({ thread_id: 'thread-2' }),
+      }),
+    );
+  });
+
+  it('should search message content across threads', async () => {
+    const saver = SqliteSaver.fromConnString(':memory:');
+
+    await saver.appendMessages('thread-1', [
+      new HumanMessage({ id: 'msg-1', content: 'What is the carbon budget?' }),
+      new AIMessage({ id: 'msg-2', content: 'The budget is 500 credits.' }),
+    ]);
+    // Re-saving the thread moves the index entries with the rows
+    await saver.appendMessages('thread-1', [
+      new HumanMessage({ id: 'msg-3', content: 'Thanks!' }),
+    ]);
+    await saver.appendMessages('thread-2', [
+      new HumanMessage({ id: 'msg-4', content: 'Budgeting for the garden' }),
+    ]);
+
+    const results = saver.searchMessages('budget');
+    expect(results.map((r) => r.messageId).sort()).toEqual([
+      'msg-1',
+      'msg-2',
+      'msg-4',
+    ]);
+    expect(results.find((r) => r.messageId === 'msg-2')).toMatchObject({
+      threadId: 'thread-1',
+      messageType: 'ai',
+      snippet: 'The **budget** is 500 credits.',
+    });
+
+    expect(
+      saver
+        .searchMessages('budget', { threadIds: ['thread-2'] })
+        .map((r) => r.messageId),
+    ).toEqual(['msg-4']);
+    expect(saver.searchMessages('"carbon" (budg')).toHaveLength(1);
+    expect(saver.searchMessages('?!')).toEqual([]);
+  });
+
+  it('should prune old checkpoints and writes but keep messages', async () => {
+    const saver = SqliteSaver.fromConnString(':memory:');
+
+    const configs: RunnableConfig[] = [];
+    for (let i = 1; i <= 4; i++) {
+      const config = await saver.appendMessages('thread-1', [
+        new HumanMessage({ id: `msg-${i}`, content: `Message ${i}` }),
+      ]);
+      await saver.putWrites(config, [['messages', `write-${i}`]], 'task');
+      configs.push(config);
+    }
+    await saver.appendMessages('thread-2', [
+      new HumanMessage({ id: 'other', content: 'Other thread' }),
+    ]);
+
+    expect(saver.pruneCheckpoints({ keepCheckpoints: 3 })).toEqual({
+      checkpointsDeleted: 1,
+      writesDeleted: 1,
+    });
+
+    const remaining: Array<string | undefined> = [];
+    for await (const tuple of saver.list({
+      configurable: { thread_id: 'thread-1' },
+    })) {
+      remaining.push(tuple.config.configurable?.checkpoint_id);
+    }
+    expect(remaining).toEqual(
+      configs
+        .slice(1)
+        .reverse()
+        .map((c) => c.configurable?.checkpoint_id),
+    );
+
+    // Every write is old enough to expire, except those of the latest
+    // checkpoint and its parent
+    expect(
+      saver.pruneCheckpoints({ keepCheckpoints: 3, maxWriteAgeMs: -1 }),
+    ).toEqual({ checkpointsDeleted: 0, writesDeleted: 1 });
+    const latest = await saver.getTuple({
+      configurable: { thread_id: 'thread-1' },
+    });
+    expect(latest?.pendingWrites).toEqual([['task', 'messages', 'write-4']]);
+    expect(
+      (latest?.checkpoint.channel_values.messages as HumanMessage[]).map(
+        (m) => m.id,
+      ),
+    ).toEqual(['msg-1', 'msg-2', 'msg-3', 'msg-4']);
+    expect(saver.searchMessages('Message')).toHaveLength(4);
+    expect(
+      await saver.getTuple({ configurable: { thread_id: 'thread-2' } }),
+    ).toBeDefined();
+  });
+
+  it('should build FTS queries from free text', () => {
+    expect(toFtsQuery('carbon "budget" OR-else')).toBe(
+      '"carbon" "budget" "OR" "else"*',
+    );
+    expect(toFtsQuery('  ')).toBeNull();
+  });
 });
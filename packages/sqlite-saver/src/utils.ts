@@ -295,6 +295,8 @@ export interface CleanAdditionalKwargs {
     text: string;
   }>;
   attachment?: AttachmentMeta;
+  /** Set on messages imported from a call transcript */
+  callId?: string;
   [key: string]: unknown; // Allow additional properties for LangChain compatibility
 }
 
@@ -326,11 +328,18 @@ export function cleanAdditionalKwargs(
   // Return cleaned additional_kwargs with only essential fields
   const cleanedKwargs: CleanAdditionalKwargs = {
     msgFromMatrixRoom,
-    timestamp: new Date().toISOString(),
+    // Keep the original time so re-saving a thread doesn't restamp history
+    timestamp:
+      typeof additionalKwargs.timestamp === 'string'
+        ? additionalKwargs.timestamp
+        : new Date().toISOString(),
     oracleName: process.env.ORACLE_NAME || 'IXO Oracle',
     ...(additionalKwargs.attachment && {
       attachment: additionalKwargs.attachment as AttachmentMeta,
     }),
+    ...(typeof additionalKwargs.callId === 'string' && {
+      callId: additionalKwargs.callId,
+    }),
   };
 
   // Add reasoning fields only if they exist
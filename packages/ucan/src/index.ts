@@ -9,7 +9,8 @@
  * - Framework-agnostic validator (works with Express, Fastify, etc.)
  * - Client helpers for creating delegations and invocations
  * - did:ixo resolution via IXO blockchain indexer (optional)
- * - In-memory invocation store for replay protection
+ * - In-memory and Redis invocation stores for replay protection
+ * - Delegation revocation by CID
  *
  * @example
  * ```typescript
@@ -66,6 +67,7 @@ export type {
   DIDKeyResolutionResult,
   DIDKeyResolver,
   InvocationStore,
+  RevocationStore,
   ValidationResult,
   SerializedInvocation,
 } from './types.js';
@@ -131,14 +133,22 @@ export {
 } from './did/local-resolver.js';
 
 // =============================================================================
-// Store (for replay protection)
+// Stores (for replay protection and revocation)
 // =============================================================================
 
 export {
   InMemoryInvocationStore,
+  InMemoryRevocationStore,
   createInvocationStore,
 } from './store/memory.js';
 
+export {
+  RedisInvocationStore,
+  RedisRevocationStore,
+  type RedisStoreClient,
+  type RedisStoreOptions,
+} from './store/redis.js';
+
 // =============================================================================
 // Version
 // =============================================================================
@@ -3,13 +3,14 @@
  * @fileoverview In-memory invocation store for replay protection
  *
  * This module provides a simple in-memory implementation of the InvocationStore
- * interface for tracking used invocation CIDs to prevent replay attacks.
+ * interface for tracking used invocation CIDs to prevent replay attacks, and
+ * of the RevocationStore interface for revoked delegations.
  *
- * For production use with multiple instances, consider using a distributed
- * store like Redis.
+ * For production use with multiple instances, use the Redis stores from
+ * `./redis.ts` instead.
  */
 
-import type { InvocationStore } from '../types.js';
+import type { InvocationStore, RevocationStore } from '../types.js';
 
 /**
  * Entry in the invocation store
@@ -111,6 +112,26 @@ export class InMemoryInvocationStore implements InvocationStore {
     });
   }
 
+  /**
+   * Mark an invocation CID as used unless it already is
+   *
+   * @param cid - The CID of the invocation
+   * @param ttlMs - Time-to-live in milliseconds (default: 24 hours)
+   * @returns False if the CID was already used
+   */
+  async claim(cid: string, ttlMs?: number): Promise<boolean> {
+    // No awaits between the check and the write, so concurrent claims
+    // can't both succeed
+    const entry = this.store.get(cid);
+    if (entry && Date.now() <= entry.expiresAt) {
+      return false;
+    }
+    this.store.set(cid, {
+      expiresAt: Date.now() + (ttlMs ?? this.defaultTtlMs),
+    });
+    return true;
+  }
+
   /**
    * Remove all expired entries from the store
    */
@@ -191,6 +212,51 @@ export function createInvocationStore(options?: {
   return new InMemoryInvocationStore(options);
 }
 
-// TODO: Add Redis implementation for distributed deployments
+/**
+ * In-memory implementation of RevocationStore
+ *
+ * Limitations:
+ * - Revocations are lost on process restart
+ * - Not shared between instances
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  /** Revoked CIDs and when the revocation expires (Infinity = never) */
+  private revoked = new Map<string, number>();
+
+  /**
+   * Check if a delegation CID has been revoked
+   *
+   * @param cid - The CID of the delegation
+   */
+  async isRevoked(cid: string): Promise<boolean> {
+    const expiresAt = this.revoked.get(cid);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (Date.now() > expiresAt) {
+      this.revoked.delete(cid);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Revoke a delegation
+   *
+   * @param cid - The CID of the delegation
+   * @param ttlMs - How long to remember the revocation (default: forever)
+   */
+  async revoke(cid: string, ttlMs?: number): Promise<void> {
+    this.revoked.set(cid, ttlMs === undefined ? Infinity : Date.now() + ttlMs);
+  }
+
+  /**
+   * Clear all revocations
+   */
+  clear(): void {
+    this.revoked.clear();
+  }
+}
+
 // TODO: Add SQLite implementation for persistence across restarts
 // TODO: Add metrics/monitoring for store size and cleanup operations
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  RedisInvocationStore,
+  RedisRevocationStore,
+  type RedisStoreClient,
+} from './redis.js';
+
+/**
+ * Helper: a Redis stand-in supporting SET [PX ms] [NX] and EXISTS
+ */
+function fakeRedis() {
+  const keys = new Map<string, number>();
+  const live = (key: string) => (keys.get(key) ?? 0) > Date.now();
+  const client = {
+    async set(key: string, _value: string, px?: 'PX', ms?: number, nx?: 'NX') {
+      if (nx && live(key)) return null;
+      keys.set(key, px && ms !== undefined ? Date.now() + ms : Infinity);
+      return 'OK' as const;
+    },
+    async exists(key: string) {
+      return live(key) ? 1 : 0;
+    },
+  };
+  return { client: client as RedisStoreClient, keys };
+}
+
+describe('Redis stores', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('RedisInvocationStore', () => {
+    it('should remember used invocations until they expire', async () => {
+      vi.useFakeTimers();
+      const { client, keys } = fakeRedis();
+      const store = new RedisInvocationStore({ client, keyPrefix: 'test:' });
+
+      await store.add('bafy1', 1000);
+      expect(keys.has('test:bafy1')).toBe(true);
+      expect(await store.has('bafy1')).toBe(true);
+
+      vi.advanceTimersByTime(1001);
+      expect(await store.has('bafy1')).toBe(false);
+    });
+
+    it('should only let the first claim succeed', async () => {
+      const { client } = fakeRedis();
+      const store = new RedisInvocationStore({ client });
+
+      expect(await store.claim('bafy1')).toBe(true);
+      expect(await store.claim('bafy1')).toBe(false);
+      expect(await store.has('bafy1')).toBe(true);
+    });
+  });
+
+  describe('RedisRevocationStore', () => {
+    it('should keep revocations without a TTL', async () => {
+      vi.useFakeTimers();
+      const { client } = fakeRedis();
+      const store = new RedisRevocationStore({ client });
+
+      expect(await store.isRevoked('bafy1')).toBe(false);
+      await store.revoke('bafy1');
+      await store.revoke('bafy2', 1000);
+
+      vi.advanceTimersByTime(1001);
+      expect(await store.isRevoked('bafy1')).toBe(true);
+      expect(await store.isRevoked('bafy2')).toBe(false);
+    });
+  });
+});
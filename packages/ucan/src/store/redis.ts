@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Redis-backed invocation and revocation stores
+ *
+ * Shared by every instance of a service, so an invocation accepted by one
+ * instance is rejected as a replay by the others, and a revoked delegation
+ * stays revoked across restarts.
+ *
+ * The stores don't depend on a Redis library — pass any client with the
+ * `set` and `exists` commands below, e.g. an `ioredis` instance.
+ */
+
+import type { InvocationStore, RevocationStore } from '../types.js';
+
+/**
+ * The Redis commands the stores use
+ */
+export interface RedisStoreClient {
+  set(
+    key: string,
+    value: string,
+    millisecondsToken: 'PX',
+    milliseconds: number,
+    nx: 'NX',
+  ): Promise<'OK' | null>;
+  set(
+    key: string,
+    value: string,
+    millisecondsToken: 'PX',
+    milliseconds: number,
+  ): Promise<'OK' | null>;
+  set(key: string, value: string): Promise<'OK' | null>;
+  exists(key: string): Promise<number>;
+}
+
+/**
+ * Options for the Redis stores
+ */
+export interface RedisStoreOptions {
+  /** Redis client, e.g. `new Redis(url)` from ioredis */
+  client: RedisStoreClient;
+  /** Prefix for the keys the store writes */
+  keyPrefix?: string;
+}
+
+/**
+ * Redis implementation of InvocationStore for replay protection
+ *
+ * Entries expire through Redis TTLs, so no cleanup is needed.
+ *
+ * @example
+ * ```typescript
+ * const validator = await createUCANValidator({
+ *   serverDid,
+ *   rootIssuers,
+ *   invocationStore: new RedisInvocationStore({ client: redis }),
+ * });
+ * ```
+ */
+export class RedisInvocationStore implements InvocationStore {
+  private readonly client: RedisStoreClient;
+  private readonly keyPrefix: string;
+
+  /** Default TTL: 24 hours */
+  private readonly defaultTtlMs: number;
+
+  /**
+   * Create a new Redis invocation store
+   *
+   * @param options - Configuration options
+   * @param options.defaultTtlMs - Default TTL for entries (default: 24 hours)
+   */
+  constructor(options: RedisStoreOptions & { defaultTtlMs?: number }) {
+    this.client = options.client;
+    this.keyPrefix = options.keyPrefix ?? 'ucan:invocation:';
+    this.defaultTtlMs = options.defaultTtlMs ?? 24 * 60 * 60 * 1000; // 24 hours
+  }
+
+  /**
+   * Check if an invocation CID has already been used
+   *
+   * @param cid - The CID of the invocation
+   */
+  async has(cid: string): Promise<boolean> {
+    return (await this.client.exists(this.keyPrefix + cid)) > 0;
+  }
+
+  /**
+   * Mark an invocation CID as used
+   *
+   * @param cid - The CID of the invocation
+   * @param ttlMs - Time-to-live in milliseconds (default: 24 hours)
+   */
+  async add(cid: string, ttlMs?: number): Promise<void> {
+    await this.client.set(
+      this.keyPrefix + cid,
+      '1',
+      'PX',
+      ttlMs ?? this.defaultTtlMs,
+    );
+  }
+
+  /**
+   * Atomically mark an invocation CID as used (SET NX)
+   *
+   * @param cid - The CID of the invocation
+   * @param ttlMs - Time-to-live in milliseconds (default: 24 hours)
+   * @returns False if the CID was already used
+   */
+  async claim(cid: string, ttlMs?: number): Promise<boolean> {
+    const result = await this.client.set(
+      this.keyPrefix + cid,
+      '1',
+      'PX',
+      ttlMs ?? this.defaultTtlMs,
+      'NX',
+    );
+    return result === 'OK';
+  }
+}
+
+/**
+ * Redis implementation of RevocationStore
+ *
+ * @example
+ * ```typescript
+ * const revocations = new RedisRevocationStore({ client: redis });
+ * await revocations.revoke(delegation.cid.toString());
+ * ```
+ */
+export class RedisRevocationStore implements RevocationStore {
+  private readonly client: RedisStoreClient;
+  private readonly keyPrefix: string;
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client;
+    this.keyPrefix = options.keyPrefix ?? 'ucan:revoked:';
+  }
+
+  /**
+   * Check if a delegation CID has been revoked
+   *
+   * @param cid - The CID of the delegation
+   */
+  async isRevoked(cid: string): Promise<boolean> {
+    return (await this.client.exists(this.keyPrefix + cid)) > 0;
+  }
+
+  /**
+   * Revoke a delegation
+   *
+   * @param cid - The CID of the delegation
+   * @param ttlMs - How long to remember the revocation (default: forever)
+   */
+  async revoke(cid: string, ttlMs?: number): Promise<void> {
+    if (ttlMs === undefined) {
+      await this.client.set(this.keyPrefix + cid, '1');
+      return;
+    }
+    await this.client.set(
+      this.keyPrefix + cid,
+      '1',
+      'PX',
+      Math.max(1, Math.ceil(ttlMs)),
+    );
+  }
+}
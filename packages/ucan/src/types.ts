@@ -75,6 +75,40 @@ export interface InvocationStore {
    * Remove expired entries (optional cleanup method)
    */
   cleanup?(): Promise<void>;
+
+  /**
+   * Atomically mark an invocation CID as used (optional)
+   *
+   * Stores shared between instances should implement this so two instances
+   * can't both accept the same invocation between `has` and `add`.
+   * @returns False if the CID was already used
+   */
+  claim?(cid: string, ttlMs?: number): Promise<boolean>;
+}
+
+// =============================================================================
+// Revocation Registry
+// =============================================================================
+
+/**
+ * Registry of revoked delegations, keyed by delegation CID
+ *
+ * A revoked delegation fails validation wherever it appears in a proof chain.
+ */
+export interface RevocationStore {
+  /**
+   * Check if a delegation CID has been revoked
+   * @param cid - The CID of the delegation
+   */
+  isRevoked(cid: string): Promise<boolean>;
+
+  /**
+   * Revoke a delegation
+   * @param cid - The CID of the delegation
+   * @param ttlMs - How long to remember the revocation; set it to the time
+   *   left until the delegation expires. Kept forever when omitted.
+   */
+  revoke(cid: string, ttlMs?: number): Promise<void>;
 }
 
 // =============================================================================
@@ -3,6 +3,10 @@ import * as Client from '@ucanto/client';
 import { ed25519 } from '@ucanto/principal';
 import { createUCANValidator } from './validator.js';
 import { defineCapability, Schema } from '../capabilities/capability.js';
+import {
+  InMemoryInvocationStore,
+  InMemoryRevocationStore,
+} from '../store/memory.js';
 import {
   createDelegation,
   createInvocation,
@@ -776,6 +780,125 @@ describe('UCAN Validator', () => {
     });
   });
 
+  describe('shared invocation store', () => {
+    it('should reject replays across validators sharing a store', async () => {
+      const server = await keygen();
+      const root = await keygen();
+      const invocationStore = new InMemoryInvocationStore({
+        enableAutoCleanup: false,
+      });
+
+      // Two instances of the same service
+      const validators = await Promise.all(
+        [1, 2].map(() =>
+          createUCANValidator({
+            serverDid: server.did,
+            rootIssuers: [root.did],
+            invocationStore,
+          }),
+        ),
+      );
+
+      const invocation = Client.invoke({
+        issuer: root.signer,
+        audience: ed25519.Verifier.parse(server.did),
+        capability: {
+          can: 'test/read' as const,
+          with: 'ixo:resource:123' as const,
+        },
+        proofs: [],
+      });
+      const serialized = await serializeInvocation(invocation);
+
+      const results = await Promise.all(
+        validators.map((v) =>
+          v.validate(serialized, TestRead, 'ixo:resource:123'),
+        ),
+      );
+      expect(results.filter((r) => r.ok)).toHaveLength(1);
+      expect(results.find((r) => !r.ok)?.error?.code).toBe('REPLAY');
+    });
+  });
+
+  describe('revocation', () => {
+    it('should reject a revoked delegation', async () => {
+      const server = await keygen();
+      const user = await keygen();
+      const revocationStore = new InMemoryRevocationStore();
+
+      const validator = await createUCANValidator({
+        serverDid: server.did,
+        rootIssuers: [user.did],
+        revocationStore,
+      });
+
+      const delegation = await createDelegation({
+        issuer: user.signer,
+        audience: server.did,
+        capabilities: [
+          {
+            can: '*' as Capability['can'],
+            with: 'ixo:oracle' as Capability['with'],
+          },
+        ],
+      });
+      const serialized = await serializeDelegation(delegation);
+
+      const before = await validator.validateDelegation(serialized);
+      expect(before.ok).toBe(true);
+      expect(before.cid).toBe(delegation.cid.toString());
+
+      await revocationStore.revoke(delegation.cid.toString());
+
+      const after = await validator.validateDelegation(serialized);
+      expect(after.ok).toBe(false);
+      expect(after.error?.code).toBe('REVOKED');
+    });
+
+    it('should reject invocations whose proof chain has a revoked delegation', async () => {
+      const server = await keygen();
+      const root = await keygen();
+      const user = await keygen();
+      const revocationStore = new InMemoryRevocationStore();
+
+      const validator = await createUCANValidator({
+        serverDid: server.did,
+        rootIssuers: [root.did],
+        revocationStore,
+      });
+
+      const delegation = await Client.delegate({
+        issuer: root.signer,
+        audience: user.signer,
+        capabilities: [
+          {
+            can: 'test/read' as const,
+            with: 'ixo:resource:123' as const,
+          },
+        ],
+      });
+      await revocationStore.revoke(delegation.cid.toString());
+
+      const invocation = Client.invoke({
+        issuer: user.signer,
+        audience: ed25519.Verifier.parse(server.did),
+        capability: {
+          can: 'test/read' as const,
+          with: 'ixo:resource:123' as const,
+        },
+        proofs: [delegation],
+      });
+
+      const result = await validator.validate(
+        await serializeInvocation(invocation),
+        TestRead,
+        'ixo:resource:123',
+      );
+      expect(result.ok).toBe(false);
+      expect(result.error?.code).toBe('REVOKED');
+    });
+  });
+
   describe('validateDelegation', () => {
     it('should validate a simple delegation with did:key', async () => {
       const server = await keygen();
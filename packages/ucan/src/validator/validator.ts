@@ -16,7 +16,11 @@ import { ed25519 } from '@ucanto/principal';
 import { Delegation, UCAN } from '@ucanto/core';
 import { claim } from '@ucanto/validator';
 import { type capability } from '@ucanto/validator';
-import type { DIDKeyResolver, InvocationStore } from '../types.js';
+import type {
+  DIDKeyResolver,
+  InvocationStore,
+  RevocationStore,
+} from '../types.js';
 import { InMemoryInvocationStore } from '../store/memory.js';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -58,6 +62,12 @@ export interface CreateValidatorOptions {
    * If not provided, an in-memory store is used
    */
   invocationStore?: InvocationStore;
+
+  /**
+   * Optional registry of revoked delegations
+   * Validation fails if any delegation in the proof chain has been revoked
+   */
+  revocationStore?: RevocationStore;
 }
 
 /**
@@ -70,6 +80,9 @@ export interface ValidateResult {
   /** The invoker's DID (if valid) */
   invoker?: string;
 
+  /** CID of the validated invocation or delegation (if valid) */
+  cid?: string;
+
   /** The validated capability (if valid) */
   capability?: {
     can: string;
@@ -107,6 +120,7 @@ export interface ValidateResult {
       | 'UNAUTHORIZED'
       | 'REPLAY'
       | 'EXPIRED'
+      | 'REVOKED'
       | 'CAVEAT_VIOLATION';
     message: string;
   };
@@ -338,6 +352,27 @@ export async function createUCANValidator(
     return exp ?? parentExp;
   }
 
+  /**
+   * Find a revoked delegation in a chain, starting with the given one.
+   * Proofs that weren't included with the chain are only known by their CID.
+   * @returns The revoked CID, or undefined if none is revoked
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function findRevoked(delegation: any): Promise<string | undefined> {
+    if (!options.revocationStore || !delegation) return undefined;
+
+    const cid: string | undefined =
+      delegation.cid?.toString() ?? delegation.toString?.();
+    if (cid && (await options.revocationStore.isRevoked(cid))) {
+      return cid;
+    }
+    for (const proof of delegation.proofs ?? []) {
+      const revoked = await findRevoked(proof);
+      if (revoked) return revoked;
+    }
+    return undefined;
+  }
+
   /**
    * Recursively verify signatures across a delegation chain.
    * For each delegation: resolve issuer DID → did:key, verify signature,
@@ -349,6 +384,22 @@ export async function createUCANValidator(
   ): Promise<ValidateResult> {
     const issuerDid: string = delegation.issuer.did();
 
+    // Reject revoked delegations before doing any crypto
+    const cid: string | undefined = delegation.cid?.toString();
+    if (
+      cid &&
+      options.revocationStore &&
+      (await options.revocationStore.isRevoked(cid))
+    ) {
+      return {
+        ok: false,
+        error: {
+          code: 'REVOKED',
+          message: `Delegation ${cid} from ${issuerDid} has been revoked`,
+        },
+      };
+    }
+
     // Resolve issuer DID to did:key
     const resolved = await resolveDIDKey(
       issuerDid as `did:${string}:${string}`,
@@ -508,7 +559,19 @@ export async function createUCANValidator(
           };
         }
 
-        // 6. Use ucanto's claim() to validate
+        // 6. Check the proof chain for revoked delegations
+        const revokedCid = await findRevoked(invocation);
+        if (revokedCid) {
+          return {
+            ok: false,
+            error: {
+              code: 'REVOKED',
+              message: `Delegation ${revokedCid} has been revoked`,
+            },
+          };
+        }
+
+        // 7. Use ucanto's claim() to validate
         // Server verifier is resolved lazily (first call resolves, subsequent calls use cache)
         const resolvedVerifier = await getServerVerifier();
         const claimResult = claim(capabilityDef, [invocation], {
@@ -549,7 +612,7 @@ export async function createUCANValidator(
           };
         }
 
-        // 7. Verify the resource matches
+        // 8. Verify the resource matches
         const validatedCap = invocation.capabilities?.[0];
         if (validatedCap && validatedCap.with !== resource) {
           // Check if it's a wildcard match
@@ -571,16 +634,30 @@ export async function createUCANValidator(
           }
         }
 
-        // 8. Success! Mark invocation as used for replay protection
+        // 9. Success! Mark invocation as used for replay protection.
+        // Claiming is atomic, so another instance sharing the store can't
+        // accept the same invocation in the meantime.
         if (invocationCid) {
-          await invocationStore.add(invocationCid);
+          if (invocationStore.claim) {
+            if (!(await invocationStore.claim(invocationCid))) {
+              return {
+                ok: false,
+                error: {
+                  code: 'REPLAY',
+                  message: 'Invocation has already been used',
+                },
+              };
+            }
+          } else {
+            await invocationStore.add(invocationCid);
+          }
         }
 
-        // 9. Build proof chain and compute effective expiration
+        // 10. Build proof chain and compute effective expiration
         const proofChain = buildProofChain(invocation);
         const expiration = computeEffectiveExpiration(invocation);
 
-        // 10. Extract facts from the invocation
+        // 11. Extract facts from the invocation
         // eslint-disable-next-line @typescript-eslint/no-explicit-any -- invocation type from Delegation.extract() is complex
         const facts = (invocation as any).facts as
           | Record<string, unknown>[]
@@ -589,6 +666,7 @@ export async function createUCANValidator(
         return {
           ok: true,
           invoker: invocation.issuer.did(),
+          cid: invocationCid,
           capability: validatedCap
             ? {
                 can: validatedCap.can,
@@ -684,6 +762,7 @@ export async function createUCANValidator(
         return {
           ok: true,
           invoker: delegation.issuer.did(),
+          cid: delegation.cid?.toString(),
           capability: cap
             ? {
                 can: cap.can,